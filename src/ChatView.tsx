@@ -1,4 +1,5 @@
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { SerializedLexicalNode } from 'lexical'
 import { ItemView, WorkspaceLeaf } from 'obsidian'
 import React from 'react'
 import { Root, createRoot } from 'react-dom/client'
@@ -16,6 +17,7 @@ import { McpHubProvider } from './contexts/McpHubContext'
 import { RAGProvider } from './contexts/RAGContext'
 import { SettingsProvider } from './contexts/SettingsContext'
 import { TransProvider } from './contexts/TransContext'
+import { DiffStrategy } from './core/diff/DiffStrategy'
 import InfioPlugin from './main'
 import { MentionableBlockData } from './types/mentionable'
 import { InfioSettings } from './types/settings'
@@ -95,7 +97,7 @@ export class ChatView extends ItemView {
 							<DatabaseProvider
 								getDatabaseManager={() => this.plugin.getDbManager()}
 							>
-								<DiffStrategyProvider diffStrategy={this.plugin.diffStrategy}>
+								<DiffStrategyProvider getDiffStrategy={(): DiffStrategy | undefined => this.plugin.diffStrategy}>
 									<RAGProvider getRAGEngine={() => this.plugin.getRAGEngine()}>
 										<TransProvider getTransEngine={() => this.plugin.getTransEngine()}>
 											<DataviewProvider dataviewManager={this.plugin.dataviewManager}>
@@ -133,4 +135,8 @@ export class ChatView extends ItemView {
 	focusMessage() {
 		this.chatRef.current?.focusMessage()
 	}
+
+	insertCommandContent(nodes: SerializedLexicalNode[]) {
+		this.chatRef.current?.insertCommandContent(nodes)
+	}
 }
@@ -0,0 +1,56 @@
+import { ItemView, WorkspaceLeaf } from 'obsidian'
+import React from 'react'
+import { Root, createRoot } from 'react-dom/client'
+
+import DuplicateNotesViewRoot from './components/duplicate-notes-view/DuplicateNotesViewRoot'
+import { DUPLICATE_NOTES_VIEW_TYPE } from './constants'
+import { AppProvider } from './contexts/AppContext'
+import { RAGProvider } from './contexts/RAGContext'
+import { t } from './lang/helpers'
+import InfioPlugin from './main'
+
+export class DuplicateNotesView extends ItemView {
+	private root: Root | null = null
+	private getRAGEngine = () => this.plugin.getRAGEngine()
+
+	constructor(
+		leaf: WorkspaceLeaf,
+		private plugin: InfioPlugin,
+	) {
+		super(leaf)
+	}
+
+	getViewType() {
+		return DUPLICATE_NOTES_VIEW_TYPE
+	}
+
+	getIcon() {
+		return 'copy'
+	}
+
+	getDisplayText() {
+		return String(t('duplicateNotes.title'))
+	}
+
+	async onOpen() {
+		const containerElement = this.containerEl.children[1]
+		if (!containerElement || !(containerElement instanceof HTMLElement)) {
+			return
+		}
+		this.root = createRoot(containerElement)
+		this.root.render(
+			<AppProvider app={this.app}>
+				<RAGProvider getRAGEngine={this.getRAGEngine}>
+					<React.StrictMode>
+						<DuplicateNotesViewRoot />
+					</React.StrictMode>
+				</RAGProvider>
+			</AppProvider>,
+		)
+	}
+
+	async onClose() {
+		this.root?.unmount()
+		this.root = null
+	}
+}
@@ -0,0 +1,74 @@
+import { ItemView, WorkspaceLeaf } from 'obsidian'
+import React from 'react'
+import { Root, createRoot } from 'react-dom/client'
+
+import RelatedNotesViewRoot from './components/related-notes-view/RelatedNotesViewRoot'
+import { RELATED_NOTES_VIEW_TYPE } from './constants'
+import { AppProvider } from './contexts/AppContext'
+import { RAGProvider } from './contexts/RAGContext'
+import { t } from './lang/helpers'
+import InfioPlugin from './main'
+
+export class RelatedNotesView extends ItemView {
+	private root: Root | null = null
+	private filePath: string | null = null
+	// Stable across renders, so the related notes are not fetched again on every render
+	private getRAGEngine = () => this.plugin.getRAGEngine()
+
+	constructor(
+		leaf: WorkspaceLeaf,
+		private plugin: InfioPlugin,
+	) {
+		super(leaf)
+	}
+
+	getViewType() {
+		return RELATED_NOTES_VIEW_TYPE
+	}
+
+	getIcon() {
+		return 'network'
+	}
+
+	getDisplayText() {
+		return String(t('relatedNotes.title'))
+	}
+
+	async onOpen() {
+		this.filePath = this.app.workspace.getActiveFile()?.path ?? null
+		this.registerEvent(
+			this.app.workspace.on('active-leaf-change', (leaf) => {
+				// Focusing this view or another sidebar keeps the last note
+				const file = this.app.workspace.getActiveFile()
+				if (leaf === this.leaf || !file || file.path === this.filePath) return
+				this.filePath = file.path
+				this.render()
+			}),
+		)
+		this.render()
+	}
+
+	async onClose() {
+		this.root?.unmount()
+		this.root = null
+	}
+
+	render() {
+		const containerElement = this.containerEl.children[1]
+		if (!containerElement || !(containerElement instanceof HTMLElement)) {
+			return
+		}
+		if (!this.root) {
+			this.root = createRoot(containerElement)
+		}
+		this.root.render(
+			<AppProvider app={this.app}>
+				<RAGProvider getRAGEngine={this.getRAGEngine}>
+					<React.StrictMode>
+						<RelatedNotesViewRoot filePath={this.filePath} />
+					</React.StrictMode>
+				</RAGProvider>
+			</AppProvider>,
+		)
+	}
+}
@@ -1,11 +1,15 @@
-import { CheckSquare, Clock, CopyPlus, Globe, MessageSquare, Pencil, Search, Sparkles, Square, Trash2 } from 'lucide-react'
-import { Notice } from 'obsidian'
+import { CheckSquare, Clock, CopyPlus, FileDown, Globe, MessageSquare, Pencil, Search, Sparkles, Square, Trash2 } from 'lucide-react'
+import { Notice, normalizePath } from 'obsidian'
 import React, { useMemo, useRef, useState } from 'react'
 
+import { useApp } from '../../contexts/AppContext'
 import { useSettings } from '../../contexts/SettingsContext'
 import { useChatHistory } from '../../hooks/use-chat-history'
 import { t } from '../../lang/helpers'
 import { ChatConversationMeta } from '../../types/chat'
+import { chatToMarkdown, getChatNoteName } from '../../utils/chat-markdown'
+import { getActivePath } from '../../utils/chat-tree'
+import { calculateLLMCost } from '../../utils/price-calculator'
 
 export interface ChatHistoryViewProps {
 	currentConversationId?: string
@@ -20,8 +24,10 @@ const ChatHistoryView = ({
 	onDelete,
 	onUpdateTitle,
 }: ChatHistoryViewProps) => {
+	const app = useApp()
 	const {
 		deleteConversation,
+		getChatTreeById,
 		updateConversationTitle,
 		chatList,
 		cleanupOutdatedChats,
@@ -142,6 +148,43 @@ const ChatHistoryView = ({
 		}
 	}
 
+	// export the active branch of a conversation to a note in the vault root
+	const handleExportConversation = async (conversation: ChatConversationMeta) => {
+		try {
+			const chatTree = await getChatTreeById(conversation.id)
+			if (!chatTree) {
+				throw new Error(`Conversation not found: ${conversation.id}`)
+			}
+			const messages = getActivePath(chatTree)
+			const costs = await Promise.all(
+				messages.map((message) =>
+					message.role === 'assistant' && message.metadata?.model && message.metadata?.usage
+						? calculateLLMCost({ model: message.metadata.model, usage: message.metadata.usage, settings })
+						: null,
+				),
+			)
+			const knownCosts = costs.filter((cost) => cost !== null)
+			const markdown = chatToMarkdown(messages, {
+				title: conversation.title,
+				createdAt: conversation.createdAt,
+				updatedAt: conversation.updatedAt,
+				cost: knownCosts.length > 0 ? knownCosts.reduce((sum, cost) => sum + cost, 0) : null,
+			})
+
+			const noteName = getChatNoteName(conversation.title)
+			let path = normalizePath(`${noteName}.md`)
+			for (let counter = 2; await app.vault.adapter.exists(path); counter++) {
+				path = normalizePath(`${noteName} ${counter}.md`)
+			}
+			await app.vault.create(path, markdown)
+			new Notice(String(t('chat.history.exportSuccess', { path })))
+			await app.workspace.openLinkText(path, '', true)
+		} catch (error) {
+			new Notice(String(t('chat.history.exportFailed')))
+			console.error('Failed to export conversation', error)
+		}
+	}
+
 	// batch delete selected conversations
 	const handleBatchDelete = async () => {
 		if (selectedConversations.size === 0) {
@@ -409,6 +452,18 @@ const ChatHistoryView = ({
 											>
 												<Pencil size={16} />
 											</button>
+											<button
+												onClick={(e) => {
+													e.stopPropagation()
+													void handleExportConversation(conversation).catch(() => {
+														new Notice(String(t('chat.history.exportFailed')))
+													})
+												}}
+												className="infio-chat-history-btn"
+												title={String(t('chat.history.exportToNote'))}
+											>
+												<FileDown size={16} />
+											</button>
 											<button
 												onClick={(e) => {
 													e.stopPropagation()
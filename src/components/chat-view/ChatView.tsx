@@ -2,6 +2,7 @@ import * as path from 'path'
 
 import { BaseSerializedNode } from '@lexical/clipboard/clipboard'
 import { useMutation } from '@tanstack/react-query'
+import { SerializedLexicalNode } from 'lexical'
 import { Box, Lightbulb, CircleStop, History, NotebookPen, Plus, Search, Server, SquareSlash, Undo } from 'lucide-react'
 import { App, Notice, TFile, TFolder, WorkspaceLeaf } from 'obsidian'
 import {
@@ -35,6 +36,7 @@ import {
 	LLMBaseUrlNotSetException,
 	LLMModelNotSetException,
 } from '../../core/llm/exception'
+import { McpPrompt, McpServer } from '../../core/mcp/type'
 import { TransformationType } from '../../core/transformations/trans-engine'
 import { Workspace } from '../../database/json/workspace/types'
 import { WorkspaceManager } from '../../database/json/workspace/WorkspaceManager'
@@ -44,6 +46,7 @@ import { t } from '../../lang/helpers'
 import { PreviewView } from '../../PreviewView'
 import { ApplyStatus, ToolArgs } from '../../types/apply'
 import { ChatMessage, ChatUserMessage } from '../../types/chat'
+import { ToolCall } from '../../types/llm/request'
 import {
 	Mentionable,
 	MentionableBlock,
@@ -51,28 +54,43 @@ import {
 	MentionableCurrentFile,
 } from '../../types/mentionable'
 import { ApplyEditToFile, SearchAndReplace } from '../../utils/apply'
+import {
+	ChatTree,
+	createEmptyChatTree,
+	getActivePath,
+	getSiblingIds,
+	mergeActivePath,
+	switchBranch,
+} from '../../utils/chat-tree'
+import { ContextWindowState } from '../../utils/context-manager'
 import { listFilesAndFolders, semanticSearchFiles } from '../../utils/glob-utils'
+import { mcpPromptMessagesToChatMessages } from '../../utils/mcp-prompt'
 import {
 	getMentionableKey,
 	serializeMentionable,
 } from '../../utils/mentionable'
 import { readTFileContent, readTFileContentPdf } from '../../utils/obsidian'
 import { openSettingsModalWithError } from '../../utils/open-settings-modal'
+import { mergeToolCallDeltas } from '../../utils/parse-tool-call'
 import { PromptGenerator, addLineNumbers } from '../../utils/prompt-generator'
 // Removed empty line above, added one below for group separation
 import { fetchUrlsContent, onEnt, webSearch } from '../../utils/web-search'
 import ErrorBoundary from '../common/ErrorBoundary'
+import { McpPromptModal } from '../modals/McpPromptModal'
 
 import PromptInputWithActions, { ChatUserInputRef } from './chat-input/PromptInputWithActions'
 import { editorStateToPlainText } from './chat-input/utils/editor-state-to-plain-text'
+import { nodesToEditorState } from './chat-input/utils/nodes-to-editor-state'
 import ChatHistoryView from './ChatHistoryView'
 import CommandsView from './CommandsView'
+import ContextWindowIndicator, { ContextWindowStatus } from './ContextWindowIndicator'
 import CustomModeView from './CustomModeView'
 import FileReadResults from './FileReadResults'
 import HelloInfo from './HelloInfo'
 import InsightView from './InsightView'
 import MarkdownReasoningBlock from './Markdown/MarkdownReasoningBlock'
 import McpHubView from './McpHubView'; // Moved after MarkdownReasoningBlock
+import MessageBranchControls from './MessageBranchControls'
 import QueryProgress, { QueryProgressState } from './QueryProgress'
 import ReactMarkdown from './ReactMarkdown'
 import SearchView from './SearchView'
@@ -112,10 +130,13 @@ export type ChatRef = {
 	openNewChat: (selectedBlock?: MentionableBlockData) => void
 	addSelectionToChat: (selectedBlock: MentionableBlockData) => void
 	focusMessage: () => void
+	insertCommandContent: (nodes: SerializedLexicalNode[]) => void
 }
 
 export type ChatProps = {
 	selectedBlock?: MentionableBlockData
+	// Resolved content of a quick command run from the command palette
+	commandContent?: SerializedLexicalNode[]
 }
 
 const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
@@ -131,7 +152,7 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
 	const {
 		createOrUpdateConversation,
 		deleteConversation,
-		getChatMessagesById,
+		getChatTreeById,
 		updateConversationTitle,
 		chatList,
 	} = useChatHistory()
@@ -157,6 +178,9 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
 				},
 			]
 		}
+		if (props.commandContent) {
+			newMessage.content = nodesToEditorState(props.commandContent)
+		}
 		return newMessage
 	})
 	const [addedBlockKey, setAddedBlockKey] = useState<string | null>(
@@ -170,12 +194,15 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
 			: null,
 	)
 	const [chatMessages, setChatMessages] = useState<ChatMessage[]>([])
+	// 包含所有分支的消息树，chatMessages 为当前显示的分支
+	const [chatTree, setChatTree] = useState<ChatTree<ChatMessage>>(createEmptyChatTree)
 	const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null)
 	const [currentConversationId, setCurrentConversationId] =
 		useState<string>(uuidv4())
 	const [queryProgress, setQueryProgress] = useState<QueryProgressState>({
 		type: 'idle',
 	})
+	const [contextWindowState, setContextWindowState] = useState<ContextWindowState | null>(null)
 
 	const preventAutoScrollRef = useRef(false)
 	const lastProgrammaticScrollRef = useRef<number>(0)
@@ -251,12 +278,14 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
 	const handleLoadConversation = async (conversationId: string) => {
 		try {
 			abortActiveStreams()
-			const conversation = await getChatMessagesById(conversationId)
+			const conversation = await getChatTreeById(conversationId)
 			if (!conversation) {
 				throw new Error(String(t('chat.errors.conversationNotFound')))
 			}
 			setCurrentConversationId(conversationId)
-			setChatMessages(conversation)
+			setChatTree(conversation)
+			setChatMessages(getActivePath(conversation))
+			setContextWindowState(null)
 			const newInputMessage = getNewInputMessage(app, settings.defaultMention)
 			setInputMessage(newInputMessage)
 			setFocusedMessageId(newInputMessage.id)
@@ -271,7 +300,9 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
 
 	const handleNewChat = (selectedBlock?: MentionableBlockData) => {
 		setCurrentConversationId(uuidv4())
+		setChatTree(createEmptyChatTree())
 		setChatMessages([])
+		setContextWindowState(null)
 		const newInputMessage = getNewInputMessage(app, settings.defaultMention)
 		if (selectedBlock) {
 			const mentionableBlock: MentionableBlock = {
@@ -313,7 +344,7 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
 				const abortController = new AbortController()
 				activeStreamAbortControllersRef.current.push(abortController)
 				onEnt('chat-submit')
-				const { requestMessages, compiledMessages } =
+				const { requestMessages, compiledMessages, contextWindowState, tools } =
 					await promptGenerator.generateRequestMessages({
 						messages: newChatHistory,
 						useVaultSearch,
@@ -322,6 +353,7 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
 				setQueryProgress({
 					type: 'idle',
 				})
+				setContextWindowState(contextWindowState)
 
 				setChatMessages([
 					...compiledMessages,
@@ -347,6 +379,7 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
 						// top_p: settings.modelOptions.top_p,
 						// frequency_penalty: settings.modelOptions.frequency_penalty,
 						// presence_penalty: settings.modelOptions.presence_penalty,
+						tools,
 						stream: true,
 					},
 					{
@@ -357,6 +390,7 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
 				for await (const chunk of stream) {
 					const content = chunk.choices[0]?.delta?.content ?? ''
 					const reasoning_content = chunk.choices[0]?.delta?.reasoning_content ?? ''
+					const toolCallDeltas = chunk.choices[0]?.delta?.tool_calls
 					setChatMessages((prevChatHistory) =>
 						prevChatHistory.map((message) =>
 							message.role === 'assistant' && message.id === responseMessageId
@@ -364,6 +398,7 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
 									...message,
 									content: message.content + content,
 									reasoningContent: message.reasoningContent + reasoning_content,
+									toolCalls: mergeToolCallDeltas(message.toolCalls, toolCallDeltas),
 									metadata: {
 										...message.metadata,
 										usage: chunk.usage ?? message.metadata?.usage, // Keep existing usage if chunk has no usage data
@@ -410,6 +445,46 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
 		submitMutation.mutate({ newChatHistory, useVaultSearch })
 	}
 
+	const insertMcpPrompt = async (server: McpServer, prompt: McpPrompt, args: Record<string, string>) => {
+		try {
+			const mcpHub = await getMcpHub()
+			const response = await mcpHub.getPrompt(server.name, prompt.name, args, server.source)
+			const promptMessages = mcpPromptMessagesToChatMessages(response.messages)
+			if (promptMessages.length === 0) return
+			const newChatMessages = [...chatMessages, ...promptMessages]
+			// A prompt ending with a user turn is sent right away, like a submitted message
+			if (promptMessages[promptMessages.length - 1].role === 'user') {
+				handleSubmit(newChatMessages)
+			} else {
+				setChatMessages(newChatMessages)
+			}
+			preventAutoScrollRef.current = false
+			handleScrollToBottom()
+		} catch (error) {
+			new Notice(String(t('mcpHub.getPromptFailed', {
+				name: prompt.name,
+				error: error instanceof Error ? error.message : String(error),
+			})))
+		}
+	}
+
+	const handleSwitchBranch = (messageId: string) => {
+		const nextChatTree = switchBranch(chatTree, messageId)
+		setChatTree(nextChatTree)
+		setChatMessages(getActivePath(nextChatTree))
+		setEditingMessageId(null)
+	}
+
+	const handleSelectMcpPrompt = (server: McpServer, prompt: McpPrompt) => {
+		if (!prompt.arguments?.length) {
+			void insertMcpPrompt(server, prompt, {})
+			return
+		}
+		new McpPromptModal(app, server.name, prompt, (args) => {
+			void insertMcpPrompt(server, prompt, args)
+		}).open()
+	}
+
 	const applyMutation = useMutation<
 		{
 			type: string;
@@ -717,7 +792,8 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
 						toolArgs.filepath,
 						currentWorkspace || undefined,
 						app,
-						await getTransEngine()
+						await getTransEngine(),
+						toolArgs.filters
 					)
 
 					const contextInfo = currentWorkspace
@@ -831,6 +907,41 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
 							mentionables: [],
 						}
 					}
+				} else if (toolArgs.type === 'access_mcp_resource') {
+					const mcpHub = await getMcpHub()
+					if (!mcpHub) {
+						throw new Error('MCP hub not found')
+					}
+					const { uri } = mcpHub.resolveResourceUri(toolArgs.server_name, toolArgs.uri, toolArgs.arguments)
+					const resourceResult = await mcpHub.readResource(toolArgs.server_name, uri)
+					const resourceResultPretty =
+						resourceResult?.contents
+							.map((item) => {
+								if (item.text) {
+									return item.text
+								}
+								if (item.blob) {
+									return `(Binary content: ${item.mimeType ?? 'unknown type'}, ${item.uri})`
+								}
+								return ""
+							})
+							.filter(Boolean)
+							.join("\n\n") || "(Empty response)"
+
+					const formattedContent = `[access_mcp_resource for '${toolArgs.server_name}' uri '${uri}'] Result:\n${resourceResultPretty}\n`;
+					return {
+						type: 'access_mcp_resource',
+						applyMsgId,
+						applyStatus: ApplyStatus.Applied,
+						returnMsg: {
+							role: 'user',
+							applyStatus: ApplyStatus.Idle,
+							content: null,
+							promptContent: formattedContent,
+							id: uuidv4(),
+							mentionables: [],
+						}
+					}
 				} else if (toolArgs.type === 'dataview_query') {
 					if (!dataviewManager) {
 						throw new Error('DataviewManager 未初始化')
@@ -1106,7 +1217,10 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
 				setChatMessages(newChatMessages);
 
 				if (result.returnMsg) {
-					handleSubmit([...newChatMessages, result.returnMsg], false);
+					// With native tool calling, the result answers the call the model made
+					const applyMessage = chatMessages.find((message) => message.id === result.applyMsgId)
+					const toolCallId = applyMessage?.role === 'assistant' ? applyMessage.toolCalls?.[0]?.id : undefined
+					handleSubmit([...newChatMessages, { ...result.returnMsg, toolCallId }], false);
 				}
 			}
 		},
@@ -1139,11 +1253,15 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
 		// eslint-disable-next-line react-hooks/exhaustive-deps
 	}, [])
 
+	useEffect(() => {
+		setChatTree((prevChatTree) => mergeActivePath(prevChatTree, chatMessages))
+	}, [chatMessages])
+
 	useEffect(() => {
 		const updateConversationAsync = async () => {
 			try {
-				if (chatMessages.length > 0) {
-					createOrUpdateConversation(currentConversationId, chatMessages)
+				if (chatTree.nodes.length > 0) {
+					createOrUpdateConversation(currentConversationId, chatTree)
 				}
 			} catch (error) {
 				new Notice('Failed to save chat history')
@@ -1151,7 +1269,7 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
 			}
 		}
 		updateConversationAsync()
-	}, [currentConversationId, chatMessages, createOrUpdateConversation])
+	}, [currentConversationId, chatTree, createOrUpdateConversation])
 
 	// 保存当前活动文件的引用，用于比较是否真的发生了变化
 	const currentActiveFileRef = useRef<TFile | null>(null)
@@ -1218,6 +1336,20 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
 		}
 	}, [app.workspace, handleActiveLeafChange])
 
+	// Tool results are rendered as their own assistant message, but reach the model
+	// as the user message that follows them, so they share that message's status
+	const getContextWindowStatus = (index: number): ContextWindowStatus | null => {
+		if (!contextWindowState) return null
+		const message = chatMessages[index]
+		const id = message.role === 'assistant' && message.isToolResult
+			? chatMessages[index + 1]?.id
+			: message.id
+		if (!id) return null
+		if (contextWindowState.droppedMessageIds.includes(id)) return 'dropped'
+		if (contextWindowState.summarizedMessageIds.includes(id)) return 'summarized'
+		return null
+	}
+
 	useImperativeHandle(ref, () => ({
 		openNewChat: (selectedBlock?: MentionableBlockData) =>
 			handleNewChat(selectedBlock),
@@ -1279,6 +1411,19 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
 			if (!focusedMessageId) return
 			chatUserInputRefs.current.get(focusedMessageId)?.focus()
 		},
+		insertCommandContent: (nodes: SerializedLexicalNode[]) => {
+			// The input is remounted with a new id, its editor only reads the initial state
+			const newInputMessage: ChatUserMessage = {
+				...inputMessage,
+				id: uuidv4(),
+				content: nodesToEditorState(nodes),
+			}
+			setInputMessage(newInputMessage)
+			setFocusedMessageId(newInputMessage.id)
+			setTimeout(() => {
+				chatUserInputRefs.current.get(newInputMessage.id)?.focus()
+			}, 0)
+		},
 	}))
 
 	return (
@@ -1402,6 +1547,9 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
 							message.role === 'user' ? (
 								message.content &&
 								<div key={"user-" + message.id} className="infio-chat-messages-user">
+									{getContextWindowStatus(index) && (
+										<ContextWindowIndicator status={getContextWindowStatus(index)} />
+									)}
 									{editingMessageId === message.id ? (
 										<div className="infio-chat-edit-container">
 											<button
@@ -1421,6 +1569,7 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
 												onSubmit={(content, useVaultSearch) => {
 													if (editorStateToPlainText(content).trim() === '') return
 													setEditingMessageId(null) // 退出编辑模式
+													// 使用新的 ID，编辑后的消息作为原消息的兄弟分支保存
 													handleSubmit(
 														[
 															...chatMessages.slice(0, index),
@@ -1429,7 +1578,7 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
 																applyStatus: ApplyStatus.Idle,
 																content: content,
 																promptContent: null,
-																id: message.id,
+																id: uuidv4(),
 																mentionables: message.mentionables,
 															},
 														],
@@ -1468,6 +1617,12 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
 											/>
 										</ErrorBoundary>
 									)}
+									<MessageBranchControls
+										messageId={message.id}
+										siblingIds={getSiblingIds(chatTree, message.id)}
+										disabled={submitMutation.isPending}
+										onSwitchBranch={handleSwitchBranch}
+									/>
 									{message.fileReadResults && (
 										<FileReadResults
 											key={"file-read-" + message.id}
@@ -1489,6 +1644,9 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
 								</div>
 							) : (
 								<div key={"assistant-" + message.id} className="infio-chat-messages-assistant">
+									{getContextWindowStatus(index) && (
+										<ContextWindowIndicator status={getContextWindowStatus(index)} />
+									)}
 									<MarkdownReasoningBlock
 										key={"reasoning-" + message.id}
 										reasoningContent={message.reasoningContent} />
@@ -1496,9 +1654,22 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
 										key={"content-" + message.id}
 										handleApply={(toolArgs) => handleApply(message.id, toolArgs)}
 										applyStatus={message.applyStatus}
+										toolCalls={message.toolCalls}
+										isStreaming={submitMutation.isPending && index === chatMessages.length - 1}
 									>
 										{message.content}
 									</ReactMarkdownItem>
+									<MessageBranchControls
+										messageId={message.id}
+										siblingIds={getSiblingIds(chatTree, message.id)}
+										disabled={submitMutation.isPending}
+										onSwitchBranch={handleSwitchBranch}
+										onRegenerate={
+											chatMessages[index - 1]?.role === 'user'
+												? () => handleSubmit(chatMessages.slice(0, index))
+												: undefined
+										}
+									/>
 								</div>
 							),
 						)}
@@ -1528,6 +1699,7 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
 							setFocusedMessageId(inputMessage.id)
 						}}
 						onCreateCommand={handleCreateCommand}
+						onSelectMcpPrompt={handleSelectMcpPrompt}
 						mentionables={inputMessage.mentionables}
 						setMentionables={(mentionables) => {
 							setInputMessage((prevInputMessage) => ({
@@ -1600,17 +1772,23 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
 function ReactMarkdownItem({
 	handleApply,
 	applyStatus,
+	toolCalls,
+	isStreaming,
 	// applyMutation,
 	children,
 }: {
 	handleApply: (toolArgs: ToolArgs) => void
 	applyStatus: ApplyStatus
+	toolCalls?: ToolCall[]
+	isStreaming: boolean
 	children: string
 }) {
 	return (
 		<ReactMarkdown
 			applyStatus={applyStatus}
 			onApply={handleApply}
+			toolCalls={toolCalls}
+			isStreaming={isStreaming}
 		>
 			{children}
 		</ReactMarkdown>
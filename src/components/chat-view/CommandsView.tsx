@@ -200,6 +200,7 @@ const CommandsView = (
 						className="infio-commands-input"
 					/>
 					<div className="infio-commands-label">{t('command.content')}</div>
+					<div className="infio-commands-hint">{t('command.variablesHint')}</div>
 					<div className="infio-commands-textarea">
 						<LexicalContentEditable
 							initialEditorState={initialEditorState}
@@ -0,0 +1,27 @@
+import { EyeOff, Shrink } from 'lucide-react'
+
+import { t } from '../../lang/helpers'
+
+export type ContextWindowStatus = 'dropped' | 'summarized'
+
+export default function ContextWindowIndicator({
+	status,
+}: {
+	status: ContextWindowStatus
+}) {
+	return (
+		<div
+			className={`infio-chat-context-indicator infio-chat-context-indicator--${status}`}
+			title={status === 'dropped'
+				? t('chat.contextWindow.droppedDesc')
+				: t('chat.contextWindow.summarizedDesc')}
+		>
+			{status === 'dropped' ? <EyeOff size={12} /> : <Shrink size={12} />}
+			<span>
+				{status === 'dropped'
+					? t('chat.contextWindow.dropped')
+					: t('chat.contextWindow.summarized')}
+			</span>
+		</div>
+	)
+}
@@ -0,0 +1,99 @@
+import { FileBox } from 'lucide-react'
+import React from 'react'
+
+import { t } from '../../../lang/helpers'
+import { AccessMcpResourceToolArgs, ApplyStatus } from "../../../types/apply"
+
+export default function AccessMcpResourceBlock({
+	applyStatus,
+	onApply,
+	serverName,
+	uri,
+	args,
+	finish
+}: {
+	applyStatus: ApplyStatus
+	onApply: (args: AccessMcpResourceToolArgs) => void
+	serverName: string,
+	uri: string,
+	args: Record<string, unknown>,
+	finish: boolean
+}) {
+
+	React.useEffect(() => {
+		if (finish && applyStatus === ApplyStatus.Idle) {
+			onApply({
+				type: 'access_mcp_resource',
+				server_name: serverName,
+				uri: uri,
+				arguments: args,
+			})
+		}
+	}, [finish])
+
+	return (
+		<div
+			className={`infio-chat-code-block has-filename`
+			}
+		>
+			<div className={'infio-chat-code-block-header'}>
+				<div className={'infio-chat-code-block-header-filename'}>
+					<FileBox size={14} className="infio-chat-code-block-header-icon" />
+					{t('mcpHub.accessMcpResourceFrom')}
+					<span className="infio-mcp-resource-server-name">{serverName}</span>
+				</div>
+			</div>
+			<div
+				className="infio-reasoning-content-wrapper"
+			>
+				<div className="infio-mcp-resource-row">
+					<div className="infio-mcp-resource-uri">{uri}</div>
+					{Object.keys(args).length > 0 && (
+						<>
+							{t('mcpHub.templateArguments')}: <div className="infio-mcp-resource-arguments">
+								<pre className="infio-json-pre"><code>{JSON.stringify(args, null, 2)}</code></pre>
+							</div>
+						</>
+					)}
+				</div>
+			</div>
+			<style>{`
+				.infio-mcp-resource-row {
+					padding: 12px;
+					border-bottom: 1px solid var(--background-modifier-border);
+					background-color: var(--background-primary);
+					border-radius: var(--radius-s);
+				}
+				.infio-mcp-resource-uri {
+					font-family: var(--font-monospace);
+					font-size: 13px;
+					color: var(--text-normal);
+					word-break: break-all;
+				}
+				.infio-mcp-resource-server-name {
+					color: var(--text-accent);
+					margin-left: 4px;
+					margin-right: 4px;
+					font-weight: bold;
+					font-size: 13px;
+					display: inline-block;
+				}
+				.infio-mcp-resource-arguments {
+					font-size: 14px;
+					color: var(--text-muted);
+					line-height: 1.4;
+					margin: 8px 0 0 0;
+				}
+				.infio-json-pre {
+					background: #282c34;
+					color: #d4d4d4;
+					border-radius: 4px;
+					padding: 8px;
+					font-size: 13px;
+					overflow-x: auto;
+					margin: 0;
+				}
+			`}</style>
+		</div>
+	)
+}
@@ -2,6 +2,7 @@ import { FileSearch } from 'lucide-react'
 import React from 'react'
 
 import { useApp } from "../../../contexts/AppContext"
+import { SearchFilterArgs, parseSearchFilterArgs } from "../../../core/rag/search-filters"
 import { t } from '../../../lang/helpers'
 import { ApplyStatus, SemanticSearchFilesToolArgs } from "../../../types/apply"
 import { openMarkdownFile } from "../../../utils/obsidian"
@@ -11,12 +12,14 @@ export default function MarkdownSemanticSearchFilesBlock({
 	onApply,
 	path,
 	query,
+	filters,
 	finish
 }: {
 	applyStatus: ApplyStatus
 	onApply: (args: SemanticSearchFilesToolArgs) => void
 	path: string,
 	query: string,
+	filters?: SearchFilterArgs,
 	finish: boolean
 }) {
 	const app = useApp()
@@ -31,6 +34,7 @@ export default function MarkdownSemanticSearchFilesBlock({
 				type: 'semantic_search_files',
 				filepath: path,
 				query: query,
+				filters: parseSearchFilterArgs(filters ?? {}),
 			})
 		}
 	}, [finish])
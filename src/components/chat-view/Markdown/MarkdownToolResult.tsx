@@ -11,7 +11,7 @@ const processContent = (content: string): { serverName: string; processedContent
 	const firstLine = lines[0];
 
 	// 提取 serverName
-	const serverNameRegex = /\[use_mcp_tool for '([^']+)'\]/;
+	const serverNameRegex = /\[(?:use_mcp_tool|access_mcp_resource) for '([^']+)'/;
 	const serverNameMatch = serverNameRegex.exec(firstLine);
 	const serverName = serverNameMatch ? serverNameMatch[1] : '';
 
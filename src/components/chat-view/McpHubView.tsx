@@ -1,22 +1,41 @@
-import { AlertTriangle, ChevronDown, ChevronRight, ExternalLink, FileText, Folder, Power, RotateCcw, Trash2, Wrench } from 'lucide-react'
+import { AlertTriangle, ChevronDown, ChevronRight, ExternalLink, FileText, Folder, MessageSquare, Power, RotateCcw, Trash2, Wrench } from 'lucide-react'
 import { Notice } from 'obsidian'
 import React, { useEffect, useState } from 'react'
 
 import { useMcpHub } from '../../contexts/McpHubContext'
 import { useSettings } from '../../contexts/SettingsContext'
-import { McpErrorEntry, McpResource, McpResourceTemplate, McpServer, McpTool } from '../../core/mcp/type'
+import { McpErrorEntry, McpPrompt, McpResource, McpResourceTemplate, McpServer, McpTool } from '../../core/mcp/type'
 import { t } from '../../lang/helpers'
 
+type McpTransportType = NonNullable<McpServer['transportType']>
+
+const toTransportType = (value: string): McpTransportType =>
+	value === 'sse' || value === 'streamable-http' ? value : 'stdio'
+
+const transportLabelKeys: Record<McpTransportType, string> = {
+	'stdio': 'mcpHub.transportStdio',
+	'sse': 'mcpHub.transportSse',
+	'streamable-http': 'mcpHub.transportStreamableHttp',
+}
+
+const configPlaceholderKeys: Record<McpTransportType, string> = {
+	'stdio': 'mcpHub.configPlaceholder',
+	'sse': 'mcpHub.sseConfigPlaceholder',
+	'streamable-http': 'mcpHub.streamableHttpConfigPlaceholder',
+}
+
 const McpHubView = () => {
 	const { settings, setSettings } = useSettings()
 	const { getMcpHub } = useMcpHub()
 	const [mcpServers, setMcpServers] = useState<McpServer[]>([])
 	const [expandedServers, setExpandedServers] = useState<Record<string, boolean>>({});
-	const [activeServerDetailTab, setActiveServerDetailTab] = useState<Record<string, 'tools' | 'resources' | 'errors'>>({});
+	const [activeServerDetailTab, setActiveServerDetailTab] = useState<Record<string, 'tools' | 'resources' | 'prompts' | 'errors'>>({});
 
 	// 新增状态变量用于创建新服务器
 	const [newServerName, setNewServerName] = useState('')
 	const [newServerConfig, setNewServerConfig] = useState('')
+	const [newServerType, setNewServerType] = useState<McpTransportType>('stdio')
+	const [isServerTypeSelected, setIsServerTypeSelected] = useState(false)
 	const [isCreateSectionExpanded, setIsCreateSectionExpanded] = useState(false)
 
 	const fetchServers = async () => {
@@ -84,23 +103,30 @@ const McpHubView = () => {
 		}
 
 		// check config is valid json
+		let parsedConfig: Record<string, unknown>
 		try {
-			JSON.parse(newServerConfig)
+			parsedConfig = JSON.parse(newServerConfig)
 		} catch (error) {
 			new Notice(t('mcpHub.invalidConfig'))
 			return
 		}
+		// The selected transport applies unless the config names one itself. The default selection is not
+		// forced onto a config with a command or url, the hub infers the transport from those
+		const applyServerType = isServerTypeSelected || (parsedConfig.command === undefined && parsedConfig.url === undefined)
+		const serverConfig = JSON.stringify(applyServerType ? { type: newServerType, ...parsedConfig } : parsedConfig)
 
 		const hub = await getMcpHub();
 		if (hub) {
 			try {
-				await hub.createServer(newServerName, newServerConfig, "global")
+				await hub.createServer(newServerName, serverConfig, "global")
 				const updatedServers = hub.getAllServers()
 				setMcpServers(updatedServers)
 
 				// 清空表单
 				setNewServerName('')
 				setNewServerConfig('')
+				setNewServerType('stdio')
+				setIsServerTypeSelected(false)
 				new Notice(t('mcpHub.createSuccess').replace('{name}', newServerName) as string)
 			} catch (error) {
 				new Notice(t('mcpHub.createFailed').replace('{error}', error.message) as string)
@@ -126,7 +152,7 @@ const McpHubView = () => {
 		}
 	};
 
-	const handleDetailTabChange = (serverKey: string, tab: 'tools' | 'resources' | 'errors') => {
+	const handleDetailTabChange = (serverKey: string, tab: 'tools' | 'resources' | 'prompts' | 'errors') => {
 		setActiveServerDetailTab(prev => ({ ...prev, [serverKey]: tab }));
 	};
 
@@ -191,6 +217,33 @@ const McpHubView = () => {
 		</div>
 	);
 
+	const PromptRow = ({ prompt }: { prompt: McpPrompt }) => (
+		<div className="infio-mcp-tool-row">
+			<div className="infio-mcp-tool-row-header">
+				<div className="infio-mcp-tool-name-section">
+					<span className="infio-mcp-tool-name">/{prompt.name}</span>
+				</div>
+			</div>
+			{prompt.description && <p className="infio-mcp-item-description">{prompt.description}</p>}
+			{prompt.arguments && prompt.arguments.length > 0 && (
+				<div className="infio-mcp-tool-parameters">
+					<h5 className="infio-mcp-parameters-title">{t('mcpHub.promptArguments')}</h5>
+					{prompt.arguments.map(arg => (
+						<div key={arg.name} className="infio-mcp-parameter-item">
+							<code className="infio-mcp-parameter-name">
+								{arg.name}
+								{arg.required && <span className="infio-mcp-parameter-required">*</span>}
+							</code>
+							<span className="infio-mcp-parameter-description">
+								{arg.description || t('mcpHub.toolNoDescription')}
+							</span>
+						</div>
+					))}
+				</div>
+			)}
+		</div>
+	);
+
 	const ErrorRow = ({ error }: { error: McpErrorEntry }) => (
 		<div className="infio-mcp-error-row">
 			<div className="infio-mcp-error-header">
@@ -271,11 +324,24 @@ const McpHubView = () => {
 									placeholder={t('mcpHub.serverNamePlaceholder')}
 									className="infio-mcp-create-input"
 								/>
+								<div className="infio-mcp-create-label">{t('mcpHub.transport')}</div>
+								<select
+									value={newServerType}
+									onChange={(e) => {
+										setNewServerType(toTransportType(e.target.value))
+										setIsServerTypeSelected(true)
+									}}
+									className="infio-mcp-create-input"
+								>
+									<option value="stdio">{t('mcpHub.transportStdio')}</option>
+									<option value="sse">{t('mcpHub.transportSse')}</option>
+									<option value="streamable-http">{t('mcpHub.transportStreamableHttp')}</option>
+								</select>
 								<div className="infio-mcp-create-label">{t('mcpHub.config')}</div>
 								<textarea
 									value={newServerConfig}
 									onChange={(e) => setNewServerConfig(e.target.value)}
-									placeholder={t('mcpHub.configPlaceholder')}
+									placeholder={t(configPlaceholderKeys[newServerType])}
 									className="infio-mcp-create-textarea"
 									rows={4}
 								/>
@@ -356,17 +422,24 @@ const McpHubView = () => {
 														t('mcpHub.statusDisconnected')}
 											</span>
 										</span>
+										{server.transportType && (
+											<span className="infio-mcp-status-text">
+												{t('mcpHub.transport')}: {t(transportLabelKeys[server.transportType])}
+											</span>
+										)}
 									</div>
 
 									{isExpanded && server.status === 'connected' && (
 										<div className="infio-mcp-server-details-expanded">
 											<div className="infio-mcp-tabs">
-												{(['tools', 'resources', 'errors'] as const).map(tabName => {
+												{(['tools', 'resources', 'prompts', 'errors'] as const).map(tabName => {
 													const count = tabName === 'tools'
 														? server.tools?.length || 0
 														: tabName === 'resources'
 															? (server.resources?.length || 0) + (server.resourceTemplates?.length || 0)
-															: server.errorHistory?.length || 0;
+															: tabName === 'prompts'
+																? server.prompts?.length || 0
+																: server.errorHistory?.length || 0;
 
 													return (
 														<button
@@ -376,6 +449,7 @@ const McpHubView = () => {
 														>
 															{tabName === 'tools' && <Wrench size={14} />}
 															{tabName === 'resources' && <Folder size={14} />}
+															{tabName === 'prompts' && <MessageSquare size={14} />}
 															{tabName === 'errors' && <AlertTriangle size={14} />}
 															{t(`mcpHub.${tabName}`)} ({count})
 														</button>
@@ -395,6 +469,13 @@ const McpHubView = () => {
 															: <p className="infio-mcp-empty-message">{t('mcpHub.noResources')}</p>}
 													</div>
 												)}
+												{currentDetailTab === 'prompts' && (
+													<div className="infio-mcp-prompts-list">
+														{(server.prompts && server.prompts.length > 0)
+															? server.prompts.map(prompt => <PromptRow key={prompt.name} prompt={prompt} />)
+															: <p className="infio-mcp-empty-message">{t('mcpHub.noPrompts')}</p>}
+													</div>
+												)}
 												{currentDetailTab === 'errors' && (
 													<div className="infio-mcp-errors-list">
 														{(server.errorHistory && server.errorHistory.length > 0)
@@ -713,6 +794,9 @@ const McpHubView = () => {
 				}
 
 				.infio-mcp-hub-status-info {
+					display: flex;
+					flex-wrap: wrap;
+					gap: 16px;
 					padding: 8px;
 					font-size: 14px;
 					color: var(--text-muted);
@@ -0,0 +1,64 @@
+import { ChevronLeft, ChevronRight, RotateCcw } from 'lucide-react'
+import React from 'react'
+
+import { t } from '../../lang/helpers'
+
+type MessageBranchControlsProps = {
+	messageId: string
+	siblingIds: string[]
+	disabled: boolean
+	onSwitchBranch: (messageId: string) => void
+	onRegenerate?: () => void
+}
+
+const MessageBranchControls: React.FC<MessageBranchControlsProps> = ({
+	messageId,
+	siblingIds,
+	disabled,
+	onSwitchBranch,
+	onRegenerate,
+}) => {
+	const index = siblingIds.indexOf(messageId)
+	const hasBranches = siblingIds.length > 1 && index !== -1
+
+	if (!hasBranches && !onRegenerate) {
+		return null
+	}
+
+	return (
+		<div className="infio-chat-message-branch-controls">
+			{hasBranches && (
+				<>
+					<button
+						onClick={() => onSwitchBranch(siblingIds[index - 1])}
+						disabled={disabled || index === 0}
+						title={t('chat.branch.previous')}
+					>
+						<ChevronLeft size={14} />
+					</button>
+					<span className="infio-chat-message-branch-index">
+						{index + 1} / {siblingIds.length}
+					</span>
+					<button
+						onClick={() => onSwitchBranch(siblingIds[index + 1])}
+						disabled={disabled || index === siblingIds.length - 1}
+						title={t('chat.branch.next')}
+					>
+						<ChevronRight size={14} />
+					</button>
+				</>
+			)}
+			{onRegenerate && (
+				<button
+					onClick={onRegenerate}
+					disabled={disabled}
+					title={t('chat.branch.regenerate')}
+				>
+					<RotateCcw size={14} />
+				</button>
+			)}
+		</div>
+	)
+}
+
+export default MessageBranchControls
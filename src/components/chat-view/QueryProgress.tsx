@@ -28,8 +28,13 @@ export type QueryProgressState =
 		type: 'indexing'
 		indexProgress: IndexProgress
 	}
+	| {
+		type: 'rewriting-query'
+	}
 	| {
 		type: 'querying'
+		// Paraphrases and the hypothetical answer searched alongside the query
+		rewrittenQueries?: string[]
 	}
 	| {
 		type: 'querying-done'
@@ -129,6 +134,15 @@ export default function QueryProgress({
 					<p className="infio-query-progress-detail">{`${state.indexProgress.completedChunks}/${state.indexProgress.totalChunks} ${t('chat.queryProgress.chunkIndexed')}`}</p>
 				</div>
 			)
+		case 'rewriting-query':
+			return (
+				<div className="infio-query-progress">
+					<p>
+						{t('chat.queryProgress.rewritingQuery')}
+						<DotLoader />
+					</p>
+				</div>
+			)
 		case 'querying':
 			return (
 				<div className="infio-query-progress">
@@ -136,6 +150,11 @@ export default function QueryProgress({
 						{t('chat.queryProgress.queryingVault')}
 						<DotLoader />
 					</p>
+					{state.rewrittenQueries?.map((rewrittenQuery, index) => (
+						<p key={index} className="infio-query-progress-detail">
+							{rewrittenQuery}
+						</p>
+					))}
 				</div>
 			)
 		case 'querying-done':
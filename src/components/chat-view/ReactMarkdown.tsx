@@ -1,11 +1,14 @@
 import React, { useMemo } from 'react'
 
 import { ApplyStatus, ToolArgs } from '../../types/apply'
+import { ToolCall } from '../../types/llm/request'
 import {
 	ParsedMsgBlock,
 	parseMsgBlocks,
 } from '../../utils/parse-infio-block'
+import { toolCallToMsgBlock } from '../../utils/parse-tool-call'
 
+import AccessMcpResourceBlock from './Markdown/AccessMcpResourceBlock'
 import MarkdownApplyDiffBlock from './Markdown/MarkdownApplyDiffBlock'
 import MarkdownDataviewQueryBlock from './Markdown/MarkdownDataviewQueryBlock'
 import MarkdownEditFileBlock from './Markdown/MarkdownEditFileBlock'
@@ -29,16 +32,27 @@ import UseMcpToolBlock from './Markdown/UseMcpToolBlock'
 function ReactMarkdown({
 	applyStatus,
 	onApply,
+	toolCalls,
+	isStreaming = false,
 	children,
 }: {
 	applyStatus: ApplyStatus
 	onApply: (toolArgs: ToolArgs) => void
+	toolCalls?: ToolCall[]
+	// Tool call arguments may still be arriving
+	isStreaming?: boolean
 	children: string
 }) {
 
 	const blocks: ParsedMsgBlock[] = useMemo(
-		() => parseMsgBlocks(children),
-		[children],
+		() => [
+			...parseMsgBlocks(children),
+			// Native tool calls render with the same blocks as their XML counterparts
+			...(toolCalls ?? [])
+				.map((toolCall) => toolCallToMsgBlock(toolCall, isStreaming))
+				.filter((block): block is ParsedMsgBlock => block !== null),
+		],
+		[children, toolCalls, isStreaming],
 	)
 
 	return (
@@ -147,6 +161,7 @@ function ReactMarkdown({
 						onApply={onApply}
 						path={block.path}
 						query={block.query}
+						filters={block.filters}
 						finish={block.finish}
 					/>
 				) : block.type === 'attempt_completion' ? (
@@ -204,6 +219,16 @@ function ReactMarkdown({
 						parameters={block.parameters}
 						finish={block.finish}
 					/>
+				) : block.type === 'access_mcp_resource' ? (
+					<AccessMcpResourceBlock
+						key={"access-mcp-resource-" + index}
+						applyStatus={applyStatus}
+						onApply={onApply}
+						serverName={block.server_name}
+						uri={block.uri}
+						args={block.arguments}
+						finish={block.finish}
+					/>
 				) : block.type === 'dataview_query' ? (
 					<MarkdownDataviewQueryBlock
 						key={"dataview-query-" + index}
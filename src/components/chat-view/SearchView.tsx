@@ -7,17 +7,20 @@ import { useApp } from '../../contexts/AppContext'
 import { useRAG } from '../../contexts/RAGContext'
 import { useSettings } from '../../contexts/SettingsContext'
 import { useTrans } from '../../contexts/TransContext'
+import { formatHeadingPath } from '../../core/rag/markdown-chunker'
+import { SearchFilterArgs, hasSearchFilters, parseSearchFilterArgs } from '../../core/rag/search-filters'
 import { Workspace } from '../../database/json/workspace/types'
 import { WorkspaceManager } from '../../database/json/workspace/WorkspaceManager'
 import { SelectVector } from '../../database/schema'
 import { t } from '../../lang/helpers'
 import { Mentionable } from '../../types/mentionable'
 import { getFilesWithTag } from '../../utils/glob-utils'
-import { openMarkdownFile } from '../../utils/obsidian'
+import { openFileAtLocation } from '../../utils/obsidian'
 
 import { ModelSelect } from './chat-input/ModelSelect'
 import SearchInputWithActions, { SearchInputRef } from './chat-input/SearchInputWithActions'
 import { editorStateToPlainText } from './chat-input/utils/editor-state-to-plain-text'
+import { QueryProgressState } from './QueryProgress'
 
 // 文件分组结果接口
 interface FileGroup {
@@ -56,6 +59,14 @@ interface AllFileGroup {
 	}>
 }
 
+// PDF 结果显示页码，其余显示行号
+const formatResultLocation = (metadata: SelectVector['metadata']) =>
+	metadata.page
+		? `P${metadata.page}`
+		: metadata.canvasNodeId
+			? `#${metadata.canvasNodeId}`
+			: `L${metadata.startLine}-${metadata.endLine}`
+
 const SearchView = () => {
 	const { getRAGEngine } = useRAG()
 	const { getTransEngine } = useTrans()
@@ -83,6 +94,20 @@ const SearchView = () => {
 	// 新增：mentionables 状态管理
 	const [mentionables, setMentionables] = useState<Mentionable[]>([])
 	const [searchEditorState, setSearchEditorState] = useState<SerializedEditorState | null>(null)
+	// 元数据过滤条件，保留输入的原始文本
+	const [showFilters, setShowFilters] = useState(false)
+	const [filterArgs, setFilterArgs] = useState<SearchFilterArgs>({})
+	// 查询扩展，默认取设置，可按次搜索切换
+	const [expandQuery, setExpandQuery] = useState(settings.ragOptions.queryExpansionEnabled)
+	const [rewrittenQueries, setRewrittenQueries] = useState<string[]>([])
+	const searchFilters = useMemo(() => parseSearchFilterArgs(filterArgs), [filterArgs])
+	const activeFilterCount = useMemo(() => [
+		searchFilters.tags?.length,
+		searchFilters.frontmatter?.length,
+		searchFilters.modifiedAfter !== undefined,
+		searchFilters.modifiedBefore !== undefined,
+		searchFilters.pathGlobs?.length,
+	].filter(Boolean).length, [searchFilters])
 
 	// 统计信息状态
 	const [statisticsInfo, setStatisticsInfo] = useState<{
@@ -116,6 +141,13 @@ const SearchView = () => {
 	const [showRAGInitConfirm, setShowRAGInitConfirm] = useState(false)
 	const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
 
+	// 记录查询扩展生成的改写，显示在过滤条件下方
+	const handleQueryProgress = useCallback((queryProgress: QueryProgressState) => {
+		if (queryProgress.type === 'querying') {
+			setRewrittenQueries(queryProgress.rewrittenQueries ?? [])
+		}
+	}, [])
+
 	const handleSearch = useCallback(async (editorState?: SerializedEditorState) => {
 		let searchTerm = ''
 
@@ -133,6 +165,7 @@ const SearchView = () => {
 
 		setIsSearching(true)
 		setHasSearched(true)
+		setRewrittenQueries([])
 
 		try {
 			// 获取当前工作区
@@ -180,6 +213,9 @@ const SearchView = () => {
 					query: searchTerm,
 					scope: scope,
 					limit: 50,
+					filters: searchFilters,
+					expandQuery,
+					onQueryProgressChange: handleQueryProgress,
 				})
 
 				setSearchResults(results)
@@ -201,14 +237,17 @@ const SearchView = () => {
 				const ragEngine = await getRAGEngine()
 				const transEngine = await getTransEngine()
 
-				// 并行执行两个搜索
+				// 并行执行两个搜索，洞察没有笔记元数据，设置了过滤条件时跳过
 				const [notesResults, insightsResults] = await Promise.all([
 					ragEngine.processQuery({
 						query: searchTerm,
 						scope: scope,
 						limit: 25, // 每个类型限制25个结果
+						filters: searchFilters,
+						expandQuery,
+						onQueryProgressChange: handleQueryProgress,
 					}),
-					transEngine.processQuery({
+					hasSearchFilters(searchFilters) ? Promise.resolve([]) : transEngine.processQuery({
 						query: searchTerm,
 						scope: scope,
 						limit: 25, // 每个类型限制25个结果
@@ -226,7 +265,7 @@ const SearchView = () => {
 		} finally {
 			setIsSearching(false)
 		}
-	}, [getRAGEngine, getTransEngine, settings, workspaceManager, app, searchMode])
+	}, [getRAGEngine, getTransEngine, settings, workspaceManager, app, searchMode, searchFilters, expandQuery, handleQueryProgress])
 
 	// 当搜索模式切换时，如果已经搜索过，重新执行搜索
 	useEffect(() => {
@@ -410,12 +449,9 @@ const SearchView = () => {
 			startLine: result.metadata?.startLine
 		})
 
-		try {
-			openMarkdownFile(app, result.path, result.metadata.startLine)
-			console.debug('✅ [SearchView] 成功调用openMarkdownFile')
-		} catch (error) {
-			console.error('❌ [SearchView] 调用openMarkdownFile失败:', error)
-		}
+		openFileAtLocation(app, result.path, result.metadata)
+			.then(() => console.debug('✅ [SearchView] 成功打开搜索结果'))
+			.catch((error) => console.error('❌ [SearchView] 打开搜索结果失败:', error))
 	}
 
 	const toggleFileExpansion = (filePath: string) => {
@@ -729,6 +765,78 @@ const SearchView = () => {
 						onSearchModeChange={setSearchMode}
 					/>
 				</div>
+
+				{/* 元数据过滤 */}
+				{searchMode !== 'insights' && (
+					<div className="infio-search-filters">
+						<div
+							className="infio-search-filters-toggle"
+							onClick={() => setShowFilters(!showFilters)}
+						>
+							{showFilters ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+							<span>
+								{activeFilterCount > 0
+									? t('semanticSearch.filters.activeCount', { count: activeFilterCount })
+									: t('semanticSearch.filters.title')}
+							</span>
+						</div>
+						<label className="infio-search-expand-query">
+							<input
+								type="checkbox"
+								checked={expandQuery}
+								onChange={(e) => setExpandQuery(e.target.checked)}
+							/>
+							<span>{t('semanticSearch.expandQuery')}</span>
+						</label>
+						{rewrittenQueries.length > 0 && (
+							<div className="infio-search-rewrites">
+								<span className="infio-search-filters-label">{t('semanticSearch.rewrittenQueries')}</span>
+								{rewrittenQueries.map((rewrittenQuery, index) => (
+									<div key={index} className="infio-search-rewrite">{rewrittenQuery}</div>
+								))}
+							</div>
+						)}
+						{showFilters && (
+							<div className="infio-search-filters-body">
+								{([
+									['tags', 'text', t('semanticSearch.filters.tags'), t('semanticSearch.filters.tagsPlaceholder')],
+									['frontmatter', 'text', t('semanticSearch.filters.frontmatter'), t('semanticSearch.filters.frontmatterPlaceholder')],
+									['modified_after', 'date', t('semanticSearch.filters.modifiedAfter'), ''],
+									['modified_before', 'date', t('semanticSearch.filters.modifiedBefore'), ''],
+									['path_glob', 'text', t('semanticSearch.filters.pathGlob'), t('semanticSearch.filters.pathGlobPlaceholder')],
+								] as const).map(([name, type, label, placeholder]) => (
+									<label key={name} className="infio-search-filters-row">
+										<span className="infio-search-filters-label">{label}</span>
+										<input
+											type={type}
+											className="infio-search-filters-input"
+											value={filterArgs[name] ?? ''}
+											placeholder={String(placeholder)}
+											onChange={(e) => setFilterArgs({ ...filterArgs, [name]: e.target.value })}
+											onKeyDown={(e) => {
+												if (e.key === 'Enter' && searchEditorState) {
+													handleSearch(searchEditorState)
+												}
+											}}
+										/>
+									</label>
+								))}
+								<div className="infio-search-filters-footer">
+									{searchMode === 'all' && (
+										<span className="infio-search-filters-hint">{t('semanticSearch.filters.notesOnly')}</span>
+									)}
+									<button
+										className="infio-search-filters-clear"
+										onClick={() => setFilterArgs({})}
+										disabled={activeFilterCount === 0}
+									>
+										{t('semanticSearch.filters.clear')}
+									</button>
+								</div>
+							</div>
+						)}
+					</div>
+				)}
 			</div>
 
 			{/* 索引统计 */}
@@ -880,12 +988,17 @@ const SearchView = () => {
 													<div className="obsidian-result-header">
 														<span className="obsidian-result-index">{blockIndex + 1}</span>
 														<span className="obsidian-result-location">
-															L{result.metadata.startLine}-{result.metadata.endLine}
+															{formatResultLocation(result.metadata)}
 														</span>
 														<span className="obsidian-result-similarity">
 															{result.similarity.toFixed(3)}
 														</span>
 													</div>
+													{result.metadata.headingPath?.length > 0 && (
+														<div className="obsidian-result-breadcrumb">
+															{formatHeadingPath(result.metadata.headingPath)}
+														</div>
+													)}
 													<div className="obsidian-result-content">
 														{renderMarkdownContent(result.content)}
 													</div>
@@ -1018,12 +1131,17 @@ const SearchView = () => {
 													<div className="obsidian-result-header">
 														<span className="obsidian-result-index">{blockIndex + 1}</span>
 														<span className="obsidian-result-location">
-															L{result.metadata.startLine}-{result.metadata.endLine}
+															{formatResultLocation(result.metadata)}
 														</span>
 														<span className="obsidian-result-similarity">
 															{result.similarity.toFixed(3)}
 														</span>
 													</div>
+													{result.metadata.headingPath?.length > 0 && (
+														<div className="obsidian-result-breadcrumb">
+															{formatHeadingPath(result.metadata.headingPath)}
+														</div>
+													)}
 													<div className="obsidian-result-content">
 														{renderMarkdownContent(result.content)}
 													</div>
@@ -1051,6 +1169,89 @@ const SearchView = () => {
 			{/* 样式 */}
 			<style>
 				{`
+				.infio-search-filters {
+					margin-top: var(--size-2-2);
+					font-size: var(--font-ui-small);
+				}
+
+				.infio-search-filters-toggle {
+					display: inline-flex;
+					align-items: center;
+					gap: var(--size-2-1);
+					color: var(--text-muted);
+					cursor: pointer;
+				}
+
+				.infio-search-expand-query {
+					display: inline-flex;
+					align-items: center;
+					gap: var(--size-2-1);
+					margin-left: var(--size-4-3);
+					color: var(--text-muted);
+					cursor: pointer;
+				}
+
+				.infio-search-rewrites {
+					display: flex;
+					flex-direction: column;
+					gap: var(--size-2-1);
+					margin-top: var(--size-2-2);
+					color: var(--text-muted);
+				}
+
+				.infio-search-rewrite {
+					overflow: hidden;
+					text-overflow: ellipsis;
+					white-space: nowrap;
+				}
+
+				.infio-search-filters-toggle:hover {
+					color: var(--text-normal);
+				}
+
+				.infio-search-filters-body {
+					display: flex;
+					flex-direction: column;
+					gap: var(--size-2-2);
+					margin-top: var(--size-2-2);
+					padding: var(--size-2-3);
+					border: 1px solid var(--background-modifier-border);
+					border-radius: var(--radius-s);
+				}
+
+				.infio-search-filters-row {
+					display: flex;
+					align-items: center;
+					gap: var(--size-2-3);
+				}
+
+				.infio-search-filters-label {
+					flex: 0 0 110px;
+					color: var(--text-muted);
+				}
+
+				.infio-search-filters-input {
+					flex: 1;
+					min-width: 0;
+					font-size: var(--font-ui-small);
+				}
+
+				.infio-search-filters-footer {
+					display: flex;
+					align-items: center;
+					justify-content: space-between;
+					gap: var(--size-2-3);
+				}
+
+				.infio-search-filters-hint {
+					color: var(--text-faint);
+				}
+
+				.infio-search-filters-clear {
+					margin-left: auto;
+					font-size: var(--font-ui-small);
+				}
+
 				.infio-search-model-info {
 					display: flex;
 					align-items: center;
@@ -1416,6 +1617,15 @@ const SearchView = () => {
 					flex-shrink: 0;
 				}
 
+				.obsidian-result-breadcrumb {
+					color: var(--text-muted);
+					font-size: var(--font-ui-smaller);
+					margin-bottom: var(--size-2-1);
+					overflow: hidden;
+					text-overflow: ellipsis;
+					white-space: nowrap;
+				}
+
 				.obsidian-result-content {
 					color: var(--text-normal);
 					font-size: var(--font-ui-medium);
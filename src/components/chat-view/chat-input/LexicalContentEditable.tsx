@@ -14,6 +14,7 @@ import { LexicalEditor, SerializedEditorState } from 'lexical'
 import { RefObject, useCallback, useEffect } from 'react'
 
 import { useApp } from '../../../contexts/AppContext'
+import { McpPrompt, McpServer } from '../../../core/mcp/type'
 import { MentionableImage } from '../../../types/mentionable'
 import { fuzzySearch } from '../../../utils/fuzzy-search'
 
@@ -22,6 +23,7 @@ import CreateCommandPopoverPlugin from './plugins/command/CreateCommandPopoverPl
 import DragDropPaste from './plugins/image/DragDropPastePlugin'
 import ImagePastePlugin from './plugins/image/ImagePastePlugin'
 import AutoLinkMentionPlugin from './plugins/mention/AutoLinkMentionPlugin'
+import MentionDropPlugin from './plugins/mention/MentionDropPlugin'
 import { MentionNode } from './plugins/mention/MentionNode'
 import MentionPlugin from './plugins/mention/MentionPlugin'
 import NoFormatPlugin from './plugins/no-format/NoFormatPlugin'
@@ -49,6 +51,9 @@ export type LexicalContentEditableProps = {
 			anchorElement: HTMLElement | null
 			onCreateCommand: (nodes: BaseSerializedNode[]) => void
 		}
+		mcpPrompt?: {
+			onSelectPrompt: (server: McpServer, prompt: McpPrompt) => void
+		}
 	}
 }
 
@@ -143,9 +148,10 @@ export default function LexicalContentEditable({
 			<EditorRefPlugin editorRef={editorRef} />
 			<NoFormatPlugin />
 			<AutoLinkMentionPlugin />
+			<MentionDropPlugin />
 			<ImagePastePlugin onCreateImageMentionables={onCreateImageMentionables} />
 			<DragDropPaste onCreateImageMentionables={onCreateImageMentionables} />
-			<CommandPlugin />
+			<CommandPlugin onSelectMcpPrompt={plugins?.mcpPrompt?.onSelectPrompt} />
 			{plugins?.commandPopover && (
 				<CreateCommandPopoverPlugin
 					anchorElement={plugins.commandPopover.anchorElement}
@@ -14,6 +14,7 @@ import {
 import { useApp } from '../../../contexts/AppContext'
 import { useDarkModeContext } from '../../../contexts/DarkModeContext'
 import { useSettings } from '../../../contexts/SettingsContext'
+import { McpPrompt, McpServer } from '../../../core/mcp/type'
 import {
 	Mentionable,
 	MentionableImage,
@@ -46,6 +47,7 @@ export type ChatUserInputProps = {
 	onSubmit: (content: SerializedEditorState, useVaultSearch?: boolean) => void
 	onFocus: () => void
 	onCreateCommand: (nodes: BaseSerializedNode[]) => void
+	onSelectMcpPrompt?: (server: McpServer, prompt: McpPrompt) => void
 	mentionables: Mentionable[]
 	setMentionables: (mentionables: Mentionable[]) => void
 	autoFocus?: boolean
@@ -60,6 +62,7 @@ const PromptInputWithActions = forwardRef<ChatUserInputRef, ChatUserInputProps>(
 			onSubmit,
 			onFocus,
 			onCreateCommand,
+			onSelectMcpPrompt,
 			mentionables,
 			setMentionables,
 			autoFocus = false,
@@ -318,6 +321,9 @@ const PromptInputWithActions = forwardRef<ChatUserInputRef, ChatUserInputProps>(
 							anchorElement: containerRef.current,
 							onCreateCommand: onCreateCommand,
 						},
+						mcpPrompt: onSelectMcpPrompt && {
+							onSelectPrompt: onSelectMcpPrompt,
+						},
 					}}
 				/>
 
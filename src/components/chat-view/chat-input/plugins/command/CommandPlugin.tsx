@@ -1,15 +1,24 @@
 import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext'
 import clsx from 'clsx'
 import {
+	$getRoot,
+	$getSelection,
+	$isRangeSelection,
 	$parseSerializedNode,
 	COMMAND_PRIORITY_NORMAL,
 	TextNode
 } from 'lexical'
-import { Slash } from 'lucide-react'
+import { Server, Slash } from 'lucide-react'
 import { useCallback, useEffect, useMemo, useState } from 'react'
 import { createPortal } from 'react-dom'
 
+import { useApp } from '../../../../../contexts/AppContext'
+import { useMcpHub } from '../../../../../contexts/McpHubContext'
+import { useSettings } from '../../../../../contexts/SettingsContext'
+import { McpPrompt, McpServer } from '../../../../../core/mcp/type'
 import { QuickCommand, useCommands } from '../../../../../hooks/use-commands'
+import { getCommandVariables, resolveCommandContent } from '../../../../../utils/command-template'
+import { promptCommandInputs } from '../../../../modals/CommandInputModal'
 import { MenuOption } from '../shared/LexicalMenu'
 import {
 	LexicalTypeaheadMenuPlugin,
@@ -27,6 +36,24 @@ class CommandTypeaheadOption extends MenuOption {
 	}
 }
 
+type McpPromptCommand = {
+	server: McpServer
+	prompt: McpPrompt
+}
+
+class McpPromptTypeaheadOption extends MenuOption {
+	name: string
+	mcpPrompt: McpPromptCommand
+
+	constructor(mcpPrompt: McpPromptCommand) {
+		super(`mcp:${mcpPrompt.server.name}:${mcpPrompt.prompt.name}`)
+		this.name = mcpPrompt.prompt.name
+		this.mcpPrompt = mcpPrompt
+	}
+}
+
+type TypeaheadOption = CommandTypeaheadOption | McpPromptTypeaheadOption
+
 function CommandMenuItem({
 	index,
 	isSelected,
@@ -38,7 +65,7 @@ function CommandMenuItem({
 	isSelected: boolean
 	onClick: () => void
 	onMouseEnter: () => void
-	option: CommandTypeaheadOption
+	option: TypeaheadOption
 }) {
 	return (
 		<li
@@ -54,21 +81,57 @@ function CommandMenuItem({
 		>
 			<div className="infio-chat-template-menu-item">
 				<div className="text">
-					<Slash size={10} />{' '}
+					{option instanceof McpPromptTypeaheadOption ? <Server size={10} /> : <Slash size={10} />}{' '}
 					<span>{option.name}</span>
 				</div>
+				{option instanceof McpPromptTypeaheadOption && (
+					<span className="infio-chat-template-menu-item-source">{option.mcpPrompt.server.name}</span>
+				)}
 			</div>
 		</li>
 	)
 }
 
-export default function CommandPlugin() {
+export default function CommandPlugin({
+	onSelectMcpPrompt,
+}: {
+	onSelectMcpPrompt?: (server: McpServer, prompt: McpPrompt) => void
+}) {
 	const [editor] = useLexicalComposerContext()
+	const app = useApp()
 
 	const { commandList } = useCommands()
+	const { settings } = useSettings()
+	const { getMcpHub } = useMcpHub()
 
 	const [queryString, setQueryString] = useState<string | null>(null)
 	const [searchResults, setSearchResults] = useState<QuickCommand[]>([])
+	const [mcpPrompts, setMcpPrompts] = useState<McpPromptCommand[]>([])
+	const isMenuOpen = queryString != null
+
+	// Prompts of connected servers are read each time the menu opens, servers may (re)connect at any time
+	useEffect(() => {
+		if (!isMenuOpen || !onSelectMcpPrompt || !settings.mcpEnabled) {
+			setMcpPrompts([])
+			return
+		}
+		let cancelled = false
+		getMcpHub()
+			.then((mcpHub) => {
+				if (cancelled) return
+				setMcpPrompts(
+					mcpHub.getServers()
+						.filter((server) => server.status === 'connected')
+						.flatMap((server) => (server.prompts ?? []).map((prompt) => ({ server, prompt }))),
+				)
+			})
+			.catch((error) => {
+				console.error('Failed to load MCP prompts', error)
+			})
+		return () => {
+			cancelled = true
+		}
+	}, [isMenuOpen, onSelectMcpPrompt, settings.mcpEnabled, getMcpHub])
 
 	useEffect(() => {
 		if (queryString == null) return
@@ -80,13 +143,22 @@ export default function CommandPlugin() {
 		setSearchResults(filteredCommands)
 	}, [queryString, commandList])
 
-	const options = useMemo(
-		() =>
-			searchResults.map(
+	const options = useMemo((): TypeaheadOption[] => {
+		const query = queryString?.toLowerCase() ?? ''
+		const promptOptions = mcpPrompts
+			.filter(
+				({ prompt }) =>
+					prompt.name.toLowerCase().includes(query) ||
+					(prompt.description ?? '').toLowerCase().includes(query)
+			)
+			.map((mcpPrompt) => new McpPromptTypeaheadOption(mcpPrompt))
+		return [
+			...searchResults.map(
 				(result) => new CommandTypeaheadOption(result.name, result),
 			),
-		[searchResults],
-	)
+			...promptOptions,
+		]
+	}, [searchResults, mcpPrompts, queryString])
 
 	const checkForTriggerMatch = useBasicTypeaheadTriggerMatch('/', {
 		minLength: 0,
@@ -94,10 +166,39 @@ export default function CommandPlugin() {
 
 	const onSelectOption = useCallback(
 		(
-			selectedOption: CommandTypeaheadOption,
+			selectedOption: TypeaheadOption,
 			nodeToRemove: TextNode | null,
 			closeMenu: () => void,
 		) => {
+			if (selectedOption instanceof McpPromptTypeaheadOption) {
+				editor.update(() => {
+					nodeToRemove?.remove()
+					closeMenu()
+				})
+				onSelectMcpPrompt?.(selectedOption.mcpPrompt.server, selectedOption.mcpPrompt.prompt)
+				return
+			}
+			const { command } = selectedOption
+			if (getCommandVariables(command.content.nodes).length > 0) {
+				editor.update(() => {
+					nodeToRemove?.remove()
+					closeMenu()
+				})
+				// Variables may ask for input, the resolved content goes where the trigger was typed
+				void resolveCommandContent(app, command.content.nodes, (inputNames) =>
+					promptCommandInputs(app, command.name, inputNames),
+				).then((nodes) => {
+					if (!nodes) return
+					editor.update(() => {
+						const selection = $getSelection()
+						// The editor can lose its selection while the modal is open, the content is then appended
+						const target = $isRangeSelection(selection) ? selection : $getRoot().selectEnd()
+						target.insertNodes(nodes.map((node) => $parseSerializedNode(node)))
+					})
+					editor.focus()
+				})
+				return
+			}
 			editor.update(() => {
 				const parsedNodes = selectedOption.command.content.nodes.map((node) =>
 					$parseSerializedNode(node),
@@ -111,11 +212,11 @@ export default function CommandPlugin() {
 				closeMenu()
 			})
 		},
-		[editor],
+		[app, editor, onSelectMcpPrompt],
 	)
 
 	return (
-		<LexicalTypeaheadMenuPlugin<CommandTypeaheadOption>
+		<LexicalTypeaheadMenuPlugin<TypeaheadOption>
 			onQueryChange={setQueryString}
 			onSelectOption={onSelectOption}
 			triggerFn={checkForTriggerMatch}
@@ -125,7 +226,7 @@ export default function CommandPlugin() {
 				anchorElementRef,
 				{ selectedIndex, selectOptionAndCleanUp, setHighlightedIndex },
 			) =>
-				anchorElementRef.current && searchResults.length
+				anchorElementRef.current && options.length
 					? createPortal(
 						<div
 							className="infio-popover"
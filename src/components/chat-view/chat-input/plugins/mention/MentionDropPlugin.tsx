@@ -0,0 +1,59 @@
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext'
+import {
+	$createTextNode,
+	$getRoot,
+	$getSelection,
+	$isRangeSelection,
+	COMMAND_PRIORITY_LOW,
+	DROP_COMMAND,
+} from 'lexical'
+import { useEffect } from 'react'
+
+import { useApp } from '../../../../../contexts/AppContext'
+import {
+	MENTIONABLE_DRAG_TYPE,
+	deserializeMentionable,
+	getMentionableName,
+	parseDraggedMentionable,
+	serializeMentionable,
+} from '../../../../../utils/mentionable'
+
+import { $createMentionNode } from './MentionNode'
+
+// Turns files and blocks dragged from plugin views, e.g. related notes, into mentions
+export default function MentionDropPlugin() {
+	const [editor] = useLexicalComposerContext()
+	const app = useApp()
+
+	useEffect(() => {
+		return editor.registerCommand(
+			DROP_COMMAND,
+			(event: DragEvent) => {
+				const data = event.dataTransfer?.getData(MENTIONABLE_DRAG_TYPE)
+				const serialized = data ? parseDraggedMentionable(data) : null
+				const mentionable = serialized ? deserializeMentionable(serialized, app) : null
+				if (!mentionable) {
+					return false
+				}
+				event.preventDefault()
+
+				let selection = $getSelection()
+				if (!$isRangeSelection(selection)) {
+					$getRoot().selectEnd()
+					selection = $getSelection()
+				}
+				if (!$isRangeSelection(selection)) {
+					return false
+				}
+				selection.insertNodes([
+					$createMentionNode(getMentionableName(mentionable), serializeMentionable(mentionable)),
+					$createTextNode(' '),
+				])
+				return true
+			},
+			COMMAND_PRIORITY_LOW,
+		)
+	}, [editor, app])
+
+	return null
+}
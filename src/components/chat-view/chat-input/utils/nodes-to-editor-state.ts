@@ -0,0 +1,47 @@
+import { SerializedEditorState, SerializedLexicalNode } from 'lexical'
+
+const BLOCK_NODE_TYPES = new Set(['paragraph', 'heading', 'quote', 'list', 'code'])
+
+function createParagraph(children: SerializedLexicalNode[]): SerializedLexicalNode {
+	const paragraph = {
+		children,
+		direction: 'ltr',
+		format: '',
+		indent: 0,
+		type: 'paragraph',
+		version: 1,
+		textFormat: 0,
+		textStyle: '',
+	}
+	return paragraph
+}
+
+// Builds an editor state from saved nodes, inline nodes are wrapped into paragraphs
+export function nodesToEditorState(nodes: SerializedLexicalNode[]): SerializedEditorState {
+	const children: SerializedLexicalNode[] = []
+	let inlineNodes: SerializedLexicalNode[] = []
+	for (const node of nodes) {
+		if (BLOCK_NODE_TYPES.has(node.type)) {
+			if (inlineNodes.length > 0) {
+				children.push(createParagraph(inlineNodes))
+				inlineNodes = []
+			}
+			children.push(node)
+		} else {
+			inlineNodes.push(node)
+		}
+	}
+	if (inlineNodes.length > 0) {
+		children.push(createParagraph(inlineNodes))
+	}
+	return {
+		root: {
+			children,
+			direction: 'ltr',
+			format: '',
+			indent: 0,
+			type: 'root',
+			version: 1,
+		},
+	}
+}
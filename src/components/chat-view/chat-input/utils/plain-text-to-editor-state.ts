@@ -0,0 +1,43 @@
+import { SerializedEditorState, SerializedLexicalNode } from 'lexical'
+
+// Builds a single paragraph with line breaks, the inverse of editorStateToPlainText
+export function plainTextToEditorState(text: string): SerializedEditorState {
+	const children: SerializedLexicalNode[] = []
+	text.split('\n').forEach((line, index) => {
+		if (index > 0) {
+			children.push({ type: 'linebreak', version: 1 })
+		}
+		if (line.length > 0) {
+			const textNode = {
+				detail: 0,
+				format: 0,
+				mode: 'normal',
+				style: '',
+				text: line,
+				type: 'text',
+				version: 1,
+			}
+			children.push(textNode)
+		}
+	})
+	const paragraph = {
+		children,
+		direction: 'ltr',
+		format: '',
+		indent: 0,
+		type: 'paragraph',
+		version: 1,
+		textFormat: 0,
+		textStyle: '',
+	}
+	return {
+		root: {
+			children: [paragraph],
+			direction: 'ltr',
+			format: '',
+			indent: 0,
+			type: 'root',
+			version: 1,
+		},
+	}
+}
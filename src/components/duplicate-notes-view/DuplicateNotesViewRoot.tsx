@@ -0,0 +1,196 @@
+import { Change, diffLines } from 'diff'
+import { Notice } from 'obsidian'
+import { useEffect, useMemo, useState } from 'react'
+
+import { APPLY_VIEW_TYPE } from '../../constants'
+import { useApp } from '../../contexts/AppContext'
+import { useRAG } from '../../contexts/RAGContext'
+import { DuplicateCluster, DuplicateNotePair, mergeNoteContents } from '../../core/rag/duplicate-notes'
+import { SimilarChunkPair } from '../../database/modules/vector/vector-repository'
+import { t } from '../../lang/helpers'
+
+type NotePair = DuplicateNotePair<SimilarChunkPair>
+
+const DEFAULT_THRESHOLD = 0.9
+// Chunk pairs shown under the note diff, the best ones first
+const MAX_CHUNK_PAIRS = 5
+
+const getPairKey = (pair: NotePair) => pair.paths.join('\n')
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`
+
+// One side of the diff: unchanged lines and the lines only this note has
+const DiffColumn = ({ path, diff, side }: { path: string; diff: Change[]; side: 'removed' | 'added' }) => (
+	<div className="infio-duplicate-notes-diff-column">
+		<div className="infio-duplicate-notes-diff-title">{path}</div>
+		{diff
+			.filter((change) => (side === 'removed' ? !change.added : !change.removed))
+			.map((change, index) => (
+				<div
+					key={index}
+					className={`infio-diff-line ${change.added || change.removed ? side : ''}`}
+				>
+					{change.value}
+				</div>
+			))}
+	</div>
+)
+
+const NotePairComparison = ({ pair }: { pair: NotePair }) => {
+	const app = useApp()
+	const [contents, setContents] = useState<[string, string] | null>(null)
+
+	useEffect(() => {
+		let cancelled = false
+		void (async () => {
+			const files = pair.paths.map((path) => app.vault.getFileByPath(path))
+			if (!files[0] || !files[1]) {
+				if (!cancelled) setContents(null)
+				return
+			}
+			const [first, second] = await Promise.all(files.map((file) => app.vault.cachedRead(file)))
+			if (!cancelled) setContents([first, second])
+		})()
+		return () => {
+			cancelled = true
+		}
+	}, [app, pair])
+
+	const diff = useMemo(() => (contents ? diffLines(contents[0], contents[1]) : []), [contents])
+
+	// The merged note goes through the apply view, where each change can be accepted or excluded
+	const mergeInto = async (targetIndex: 0 | 1) => {
+		if (!contents) return
+		const sourceIndex = targetIndex === 0 ? 1 : 0
+		const newContent = mergeNoteContents(contents[targetIndex], contents[sourceIndex])
+		if (newContent === contents[targetIndex]) {
+			new Notice(String(t('duplicateNotes.nothingToMerge')))
+			return
+		}
+		await app.workspace.getLeaf(true).setViewState({
+			type: APPLY_VIEW_TYPE,
+			active: true,
+			state: {
+				file: pair.paths[targetIndex],
+				oldContent: contents[targetIndex],
+				newContent,
+			},
+		})
+	}
+
+	if (!contents) {
+		return <div className="infio-duplicate-notes-empty">{t('duplicateNotes.fileMissing')}</div>
+	}
+
+	return (
+		<div className="infio-duplicate-notes-comparison">
+			<div className="infio-duplicate-notes-actions">
+				<button onClick={() => void mergeInto(0)}>
+					{t('duplicateNotes.mergeInto', { name: pair.paths[0].split('/').pop() })}
+				</button>
+				<button onClick={() => void mergeInto(1)}>
+					{t('duplicateNotes.mergeInto', { name: pair.paths[1].split('/').pop() })}
+				</button>
+			</div>
+			<div className="infio-duplicate-notes-diff">
+				<DiffColumn path={pair.paths[0]} diff={diff} side="removed" />
+				<DiffColumn path={pair.paths[1]} diff={diff} side="added" />
+			</div>
+			<div className="infio-duplicate-notes-chunks-title">{t('duplicateNotes.matchingChunks')}</div>
+			{pair.chunkPairs.slice(0, MAX_CHUNK_PAIRS).map((chunkPair) => {
+				const sourceIsFirst = chunkPair.source_path === pair.paths[0]
+				return (
+					<div key={`${chunkPair.source_id}-${chunkPair.target_id}`} className="infio-duplicate-notes-chunk-pair">
+						<span className="infio-duplicate-notes-similarity">{chunkPair.similarity.toFixed(3)}</span>
+						<div className="infio-duplicate-notes-diff">
+							<div className="infio-duplicate-notes-diff-column">
+								{sourceIsFirst ? chunkPair.source_content : chunkPair.target_content}
+							</div>
+							<div className="infio-duplicate-notes-diff-column">
+								{sourceIsFirst ? chunkPair.target_content : chunkPair.source_content}
+							</div>
+						</div>
+					</div>
+				)
+			})}
+		</div>
+	)
+}
+
+const DuplicateNotesViewRoot = () => {
+	const { getRAGEngine } = useRAG()
+	const [threshold, setThreshold] = useState(DEFAULT_THRESHOLD)
+	const [clusters, setClusters] = useState<DuplicateCluster<SimilarChunkPair>[] | null>(null)
+	const [isScanning, setIsScanning] = useState(false)
+	const [selectedPairKey, setSelectedPairKey] = useState<string | null>(null)
+
+	const scan = async () => {
+		setIsScanning(true)
+		setSelectedPairKey(null)
+		try {
+			const ragEngine = await getRAGEngine()
+			setClusters(await ragEngine.findDuplicateNotes(threshold))
+		} catch (error) {
+			console.error('Failed to find duplicate notes:', error)
+			new Notice(String(t('duplicateNotes.scanFailed')))
+		} finally {
+			setIsScanning(false)
+		}
+	}
+
+	return (
+		<div className="infio-duplicate-notes">
+			<div className="infio-duplicate-notes-toolbar">
+				<label>
+					{t('duplicateNotes.threshold')}
+					<input
+						type="number"
+						min={0.5}
+						max={1}
+						step={0.01}
+						value={threshold}
+						onChange={(e) => {
+							const value = parseFloat(e.target.value)
+							if (!isNaN(value)) setThreshold(Math.min(Math.max(value, 0.5), 1))
+						}}
+					/>
+				</label>
+				<button className="mod-cta" disabled={isScanning} onClick={() => void scan()}>
+					{isScanning ? t('duplicateNotes.scanning') : t('duplicateNotes.scan')}
+				</button>
+			</div>
+			{clusters && clusters.length === 0 && (
+				<div className="infio-duplicate-notes-empty">{t('duplicateNotes.noResults')}</div>
+			)}
+			{clusters?.map((cluster) => (
+				<div key={cluster.paths.join('\n')} className="infio-duplicate-notes-cluster">
+					<div className="infio-duplicate-notes-cluster-title">
+						{t('duplicateNotes.cluster', { count: cluster.paths.length })}
+					</div>
+					{cluster.pairs.map((pair) => {
+						const key = getPairKey(pair)
+						return (
+							<div key={key}>
+								<div
+									className={`infio-duplicate-notes-pair${selectedPairKey === key ? ' is-selected' : ''}`}
+									onClick={() => setSelectedPairKey(selectedPairKey === key ? null : key)}
+								>
+									<span className={`infio-duplicate-notes-kind ${pair.kind}`}>
+										{t(`duplicateNotes.${pair.kind}`)}
+									</span>
+									<span className="infio-duplicate-notes-paths">{pair.paths.join(' ↔ ')}</span>
+									<span className="infio-duplicate-notes-similarity">
+										{pair.similarity.toFixed(3)} · {formatPercent(pair.coverage[0])} / {formatPercent(pair.coverage[1])}
+									</span>
+								</div>
+								{selectedPairKey === key && <NotePairComparison pair={pair} />}
+							</div>
+						)
+					})}
+				</div>
+			))}
+		</div>
+	)
+}
+
+export default DuplicateNotesViewRoot
@@ -0,0 +1,107 @@
+import { App, Modal } from 'obsidian'
+import React, { useState } from 'react'
+import { createRoot } from 'react-dom/client'
+
+import { t } from '../../lang/helpers'
+
+type CommandInputFormProps = {
+	commandName: string
+	inputNames: string[]
+	onSubmit: (inputs: Record<string, string>) => void
+}
+
+const CommandInputForm: React.FC<CommandInputFormProps> = ({
+	commandName,
+	inputNames,
+	onSubmit,
+}) => {
+	const [values, setValues] = useState<Record<string, string>>({})
+
+	const handleSubmit = (event: React.FormEvent) => {
+		event.preventDefault()
+		onSubmit(values)
+	}
+
+	return (
+		<form className="infio-command-input-form" onSubmit={handleSubmit}>
+			<h3>{commandName}</h3>
+			{inputNames.map((name, index) => (
+				<label key={name} className="infio-command-input-form-field">
+					<span className="infio-command-input-form-name">{name}</span>
+					<textarea
+						rows={2}
+						value={values[name] ?? ''}
+						autoFocus={index === 0}
+						onChange={(e) => setValues({ ...values, [name]: e.target.value })}
+						onKeyDown={(e) => {
+							if (e.key === 'Enter' && !e.shiftKey) {
+								e.preventDefault()
+								onSubmit(values)
+							}
+						}}
+					/>
+				</label>
+			))}
+			<div className="infio-command-input-form-actions">
+				<button type="submit" className="mod-cta">
+					{t('command.runCommand')}
+				</button>
+			</div>
+		</form>
+	)
+}
+
+export class CommandInputModal extends Modal {
+	private readonly commandName: string
+	private readonly inputNames: string[]
+	private readonly onResult: (inputs: Record<string, string> | null) => void
+	private submitted = false
+
+	constructor(
+		app: App,
+		commandName: string,
+		inputNames: string[],
+		onResult: (inputs: Record<string, string> | null) => void,
+	) {
+		super(app)
+		this.commandName = commandName
+		this.inputNames = inputNames
+		this.onResult = onResult
+	}
+
+	onOpen(): void {
+		const root = createRoot(this.contentEl)
+		root.render(
+			<CommandInputForm
+				commandName={this.commandName}
+				inputNames={this.inputNames}
+				onSubmit={(inputs) => {
+					this.submitted = true
+					this.close()
+					this.onResult(inputs)
+				}}
+			/>
+		)
+	}
+
+	onClose(): void {
+		this.contentEl.empty()
+		if (!this.submitted) {
+			this.onResult(null)
+		}
+	}
+}
+
+/**
+ * Asks for the `{{input:name}}` values of a command, resolves to null when
+ * the modal is dismissed.
+ */
+export function promptCommandInputs(
+	app: App,
+	commandName: string,
+	inputNames: string[],
+): Promise<Record<string, string> | null> {
+	return new Promise((resolve) => {
+		new CommandInputModal(app, commandName, inputNames, resolve).open()
+	})
+}
@@ -0,0 +1,259 @@
+import { App, Modal, Notice, normalizePath } from 'obsidian'
+import React, { useEffect, useState } from 'react'
+import { createRoot } from 'react-dom/client'
+
+import { BundleManager } from '../../database/json/bundle/BundleManager'
+import {
+	BUNDLE_ITEM_TYPES,
+	BundleConflict,
+	BundleItemType,
+	ConflictResolution,
+	DataBundle,
+} from '../../database/json/bundle/types'
+import { parseDataBundle } from '../../database/json/bundle/utils'
+import { t } from '../../lang/helpers'
+
+const itemTypeLabelKeys: Record<BundleItemType, string> = {
+	chats: 'bundle.chats',
+	commands: 'bundle.commands',
+	customModes: 'bundle.customModes',
+	workspaces: 'bundle.workspaces',
+}
+
+const resolutionLabelKeys: Record<ConflictResolution, string> = {
+	skip: 'bundle.resolutionSkip',
+	overwrite: 'bundle.resolutionOverwrite',
+	'keep-both': 'bundle.resolutionKeepBoth',
+}
+
+const isConflictResolution = (value: string): value is ConflictResolution =>
+	value in resolutionLabelKeys
+
+function ItemTypeCheckbox({
+	type,
+	checked,
+	onChange,
+	detail,
+}: {
+	type: BundleItemType
+	checked: boolean
+	onChange: (checked: boolean) => void
+	detail?: string
+}) {
+	return (
+		<label className="infio-bundle-form-type">
+			<input
+				type="checkbox"
+				checked={checked}
+				onChange={(e) => onChange(e.target.checked)}
+			/>
+			<span>{t(itemTypeLabelKeys[type])}</span>
+			{detail && <span className="infio-bundle-form-detail">{detail}</span>}
+		</label>
+	)
+}
+
+async function getExportPath(app: App): Promise<string> {
+	const date = new Date().toISOString().slice(0, 10)
+	let path = normalizePath(`infio-bundle-${date}.json`)
+	for (let counter = 2; await app.vault.adapter.exists(path); counter++) {
+		path = normalizePath(`infio-bundle-${date}-${counter}.json`)
+	}
+	return path
+}
+
+const ExportBundleForm: React.FC<{ app: App, onDone: () => void }> = ({ app, onDone }) => {
+	const [types, setTypes] = useState<BundleItemType[]>([...BUNDLE_ITEM_TYPES])
+	const [isExporting, setIsExporting] = useState(false)
+
+	const handleExport = async () => {
+		setIsExporting(true)
+		try {
+			const bundle = await new BundleManager(app).exportBundle(types)
+			const path = await getExportPath(app)
+			await app.vault.create(path, JSON.stringify(bundle, null, 2))
+			new Notice(String(t('bundle.exported', { path })))
+			onDone()
+		} catch (error) {
+			console.error('Failed to export bundle', error)
+			new Notice(String(t('bundle.exportFailed')))
+			setIsExporting(false)
+		}
+	}
+
+	return (
+		<div className="infio-bundle-form">
+			<h3>{t('bundle.exportTitle')}</h3>
+			<p className="infio-bundle-form-description">{t('bundle.exportDescription')}</p>
+			<div className="infio-bundle-form-types">
+				{BUNDLE_ITEM_TYPES.map((type) => (
+					<ItemTypeCheckbox
+						key={type}
+						type={type}
+						checked={types.includes(type)}
+						onChange={(checked) =>
+							setTypes(checked ? [...types, type] : types.filter((item) => item !== type))
+						}
+					/>
+				))}
+			</div>
+			<div className="infio-bundle-form-actions">
+				<button
+					className="mod-cta"
+					disabled={types.length === 0 || isExporting}
+					onClick={() => void handleExport()}
+				>
+					{t('bundle.export')}
+				</button>
+			</div>
+		</div>
+	)
+}
+
+const ImportBundleForm: React.FC<{ app: App, onDone: () => void }> = ({ app, onDone }) => {
+	const [bundle, setBundle] = useState<DataBundle | null>(null)
+	const [error, setError] = useState<string | null>(null)
+	const [types, setTypes] = useState<BundleItemType[]>([...BUNDLE_ITEM_TYPES])
+	const [conflicts, setConflicts] = useState<BundleConflict[]>([])
+	const [resolution, setResolution] = useState<ConflictResolution>('skip')
+	const [isImporting, setIsImporting] = useState(false)
+
+	useEffect(() => {
+		if (!bundle) return
+		let cancelled = false
+		new BundleManager(app)
+			.findConflicts(bundle, [...BUNDLE_ITEM_TYPES])
+			.then((found) => {
+				if (!cancelled) setConflicts(found)
+			})
+			.catch((error) => {
+				console.error('Failed to check bundle conflicts', error)
+			})
+		return () => {
+			cancelled = true
+		}
+	}, [app, bundle])
+
+	const handleFileChange = async (file: File | undefined) => {
+		setBundle(null)
+		setConflicts([])
+		setError(null)
+		if (!file) return
+		try {
+			setBundle(parseDataBundle(await file.text()))
+		} catch (error) {
+			setError(error instanceof Error ? error.message : String(error))
+		}
+	}
+
+	const handleImport = async () => {
+		if (!bundle) return
+		setIsImporting(true)
+		try {
+			const result = await new BundleManager(app).importBundle(bundle, types, resolution)
+			const imported = Object.values(result).reduce((sum, count) => sum + count.imported, 0)
+			const skipped = Object.values(result).reduce((sum, count) => sum + count.skipped, 0)
+			new Notice(String(t('bundle.imported', { imported, skipped })))
+			onDone()
+		} catch (error) {
+			console.error('Failed to import bundle', error)
+			new Notice(String(t('bundle.importFailed')))
+			setIsImporting(false)
+		}
+	}
+
+	const selectedConflicts = conflicts.filter((conflict) => types.includes(conflict.type))
+
+	return (
+		<div className="infio-bundle-form">
+			<h3>{t('bundle.importTitle')}</h3>
+			<input
+				type="file"
+				accept=".json,application/json"
+				onChange={(e) => void handleFileChange(e.target.files?.[0])}
+			/>
+			{error && <p className="infio-bundle-form-error">{error}</p>}
+			{bundle && (
+				<>
+					<div className="infio-bundle-form-types">
+						{BUNDLE_ITEM_TYPES.map((type) => (
+							<ItemTypeCheckbox
+								key={type}
+								type={type}
+								checked={types.includes(type)}
+								onChange={(checked) =>
+									setTypes(checked ? [...types, type] : types.filter((item) => item !== type))
+								}
+								detail={String(t('bundle.itemCount', {
+									count: bundle[type].length,
+									conflicts: conflicts.filter((conflict) => conflict.type === type).length,
+								}))}
+							/>
+						))}
+					</div>
+					{selectedConflicts.length > 0 && (
+						<div className="infio-bundle-form-conflicts">
+							<div>{t('bundle.conflicts')}</div>
+							<ul>
+								{selectedConflicts.map((conflict) => (
+									<li key={`${conflict.type}-${conflict.id}`}>
+										{t(itemTypeLabelKeys[conflict.type])}: {conflict.name}
+										<span className="infio-bundle-form-detail">
+											{conflict.reason === 'id' ? t('bundle.sameId') : t('bundle.sameName')}
+										</span>
+									</li>
+								))}
+							</ul>
+							<select
+								className="dropdown"
+								value={resolution}
+								onChange={(e) => {
+									if (isConflictResolution(e.target.value)) {
+										setResolution(e.target.value)
+									}
+								}}
+							>
+								{Object.entries(resolutionLabelKeys).map(([value, labelKey]) => (
+									<option key={value} value={value}>{t(labelKey)}</option>
+								))}
+							</select>
+						</div>
+					)}
+				</>
+			)}
+			<div className="infio-bundle-form-actions">
+				<button
+					className="mod-cta"
+					disabled={!bundle || types.length === 0 || isImporting}
+					onClick={() => void handleImport()}
+				>
+					{t('bundle.import')}
+				</button>
+			</div>
+		</div>
+	)
+}
+
+export class ExportBundleModal extends Modal {
+	onOpen(): void {
+		createRoot(this.contentEl).render(
+			<ExportBundleForm app={this.app} onDone={() => this.close()} />
+		)
+	}
+
+	onClose(): void {
+		this.contentEl.empty()
+	}
+}
+
+export class ImportBundleModal extends Modal {
+	onOpen(): void {
+		createRoot(this.contentEl).render(
+			<ImportBundleForm app={this.app} onDone={() => this.close()} />
+		)
+	}
+
+	onClose(): void {
+		this.contentEl.empty()
+	}
+}
@@ -0,0 +1,76 @@
+import { App, Modal, Notice, Setting } from 'obsidian'
+
+import { IndexIntegrityReport, isIndexHealthy } from '../../core/rag/index-integrity'
+import { t } from '../../lang/helpers'
+
+// Long lists are cut, the counts in the headings stay exact
+const MAX_LISTED_FILES = 50
+
+const SECTIONS: (keyof IndexIntegrityReport)[] = ['missing', 'stale', 'orphaned', 'empty']
+
+export class IndexIntegrityModal extends Modal {
+	private report: IndexIntegrityReport
+	private onRepair: (onProgress: (progress: { completed: number; total: number }) => void) => Promise<void>
+
+	constructor(
+		app: App,
+		report: IndexIntegrityReport,
+		onRepair: (onProgress: (progress: { completed: number; total: number }) => void) => Promise<void>,
+	) {
+		super(app)
+		this.report = report
+		this.onRepair = onRepair
+	}
+
+	onOpen() {
+		const { contentEl } = this
+		contentEl.empty()
+
+		this.titleEl.setText(String(t('indexIntegrity.title')))
+
+		if (isIndexHealthy(this.report)) {
+			contentEl.createEl('p', { text: String(t('indexIntegrity.healthy')) })
+		}
+
+		for (const section of SECTIONS) {
+			const paths = this.report[section]
+			if (paths.length === 0) continue
+			contentEl.createEl('h4', { text: String(t(`indexIntegrity.${section}`, { count: paths.length })) })
+			const list = contentEl.createEl('ul')
+			paths.slice(0, MAX_LISTED_FILES).forEach((path) => {
+				list.createEl('li', { text: path })
+			})
+			if (paths.length > MAX_LISTED_FILES) {
+				list.createEl('li', { text: String(t('indexIntegrity.more', { count: paths.length - MAX_LISTED_FILES })) })
+			}
+		}
+
+		if (isIndexHealthy(this.report)) return
+
+		new Setting(contentEl).addButton((button) =>
+			button
+				.setButtonText(String(t('indexIntegrity.repair')))
+				.setCta()
+				.onClick(async () => {
+					button.setDisabled(true)
+					try {
+						await this.onRepair(({ completed, total }) => {
+							button.setButtonText(String(t('indexIntegrity.repairing', { completed, total })))
+						})
+						new Notice(String(t('indexIntegrity.repairComplete')))
+						this.close()
+					} catch (error) {
+						console.error('Failed to repair the vector index:', error)
+						new Notice(String(t('indexIntegrity.repairFailed')))
+						button.setButtonText(String(t('indexIntegrity.repair')))
+						button.setDisabled(false)
+					}
+				}),
+		)
+	}
+
+	onClose() {
+		const { contentEl } = this
+		contentEl.empty()
+	}
+}
@@ -0,0 +1,107 @@
+import { App, Modal } from 'obsidian'
+import React, { useState } from 'react'
+import { createRoot } from 'react-dom/client'
+
+import { McpPrompt } from '../../core/mcp/type'
+import { t } from '../../lang/helpers'
+
+type McpPromptFormProps = {
+	serverName: string
+	prompt: McpPrompt
+	onSubmit: (args: Record<string, string>) => void
+}
+
+const McpPromptForm: React.FC<McpPromptFormProps> = ({
+	serverName,
+	prompt,
+	onSubmit,
+}) => {
+	const promptArguments = prompt.arguments ?? []
+	const [values, setValues] = useState<Record<string, string>>({})
+
+	const isComplete = promptArguments.every(
+		(arg) => !arg.required || (values[arg.name] ?? '').trim() !== '',
+	)
+
+	const handleSubmit = (event: React.FormEvent) => {
+		event.preventDefault()
+		if (!isComplete) return
+		// Optional arguments left empty are omitted so the server applies its own defaults
+		onSubmit(Object.fromEntries(
+			Object.entries(values).filter(([, value]) => value.trim() !== ''),
+		))
+	}
+
+	return (
+		<form className="infio-mcp-prompt-form" onSubmit={handleSubmit}>
+			<div className="infio-mcp-prompt-form-header">
+				<h3>{prompt.name}</h3>
+				<span className="infio-mcp-prompt-form-server">{serverName}</span>
+			</div>
+			{prompt.description && (
+				<p className="infio-mcp-prompt-form-description">{prompt.description}</p>
+			)}
+			{promptArguments.length > 0 && (
+				<div className="infio-mcp-prompt-form-arguments">
+					<div className="infio-mcp-prompt-form-title">{t('mcpHub.promptArguments')}</div>
+					{promptArguments.map((arg, index) => (
+						<label key={arg.name} className="infio-mcp-prompt-form-argument">
+							<span className="infio-mcp-prompt-form-argument-name">
+								{arg.name}
+								{arg.required && <span className="infio-mcp-prompt-form-required">*</span>}
+							</span>
+							<input
+								type="text"
+								value={values[arg.name] ?? ''}
+								placeholder={arg.description}
+								autoFocus={index === 0}
+								onChange={(e) => setValues({ ...values, [arg.name]: e.target.value })}
+							/>
+						</label>
+					))}
+				</div>
+			)}
+			<div className="infio-mcp-prompt-form-actions">
+				<button type="submit" className="mod-cta" disabled={!isComplete}>
+					{t('mcpHub.insertPrompt')}
+				</button>
+			</div>
+		</form>
+	)
+}
+
+export class McpPromptModal extends Modal {
+	private readonly serverName: string
+	private readonly prompt: McpPrompt
+	private readonly onSubmit: (args: Record<string, string>) => void
+
+	constructor(
+		app: App,
+		serverName: string,
+		prompt: McpPrompt,
+		onSubmit: (args: Record<string, string>) => void,
+	) {
+		super(app)
+		this.serverName = serverName
+		this.prompt = prompt
+		this.onSubmit = onSubmit
+	}
+
+	onOpen(): void {
+		const root = createRoot(this.contentEl)
+		root.render(
+			<McpPromptForm
+				serverName={this.serverName}
+				prompt={this.prompt}
+				onSubmit={(args) => {
+					this.close()
+					this.onSubmit(args)
+				}}
+			/>
+		)
+	}
+
+	onClose(): void {
+		this.contentEl.empty()
+	}
+}
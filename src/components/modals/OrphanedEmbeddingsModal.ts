@@ -0,0 +1,57 @@
+import { App, Modal, Notice, Setting } from 'obsidian'
+
+import { OrphanedTable } from '../../core/rag/embedding-index-state'
+import { t } from '../../lang/helpers'
+
+export class OrphanedEmbeddingsModal extends Modal {
+	private tables: OrphanedTable[]
+	private onCleanup: (tables: string[]) => Promise<void>
+
+	constructor(app: App, tables: OrphanedTable[], onCleanup: (tables: string[]) => Promise<void>) {
+		super(app)
+		this.tables = tables
+		this.onCleanup = onCleanup
+	}
+
+	onOpen() {
+		const { contentEl } = this
+		contentEl.empty()
+
+		this.titleEl.setText(String(t('embeddingMigration.orphanedTitle', { count: this.tables.length })))
+
+		if (this.tables.length === 0) {
+			contentEl.createEl('p', { text: String(t('embeddingMigration.noOrphanedTables')) })
+			return
+		}
+
+		contentEl.createEl('p', { text: String(t('embeddingMigration.orphanedDescription')) })
+		const list = contentEl.createEl('ul')
+		this.tables.forEach(({ table, rows, model }) => {
+			const owner = model ? ` · ${model.provider}/${model.modelId}` : ''
+			list.createEl('li', { text: String(t('embeddingMigration.orphanedTable', { table, rows, owner })) })
+		})
+
+		new Setting(contentEl).addButton((button) =>
+			button
+				.setButtonText(String(t('embeddingMigration.cleanup')))
+				.setWarning()
+				.onClick(async () => {
+					button.setDisabled(true)
+					try {
+						await this.onCleanup(this.tables.map(({ table }) => table))
+						new Notice(String(t('embeddingMigration.cleanupComplete', { count: this.tables.length })))
+						this.close()
+					} catch (error) {
+						console.error('Failed to clean up embedding tables:', error)
+						new Notice(String(t('embeddingMigration.cleanupFailed')))
+						button.setDisabled(false)
+					}
+				}),
+		)
+	}
+
+	onClose() {
+		const { contentEl } = this
+		contentEl.empty()
+	}
+}
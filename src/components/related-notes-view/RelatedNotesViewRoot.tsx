@@ -0,0 +1,166 @@
+import { Link, RefreshCw } from 'lucide-react'
+import { MarkdownView } from 'obsidian'
+import React, { useCallback, useEffect, useState } from 'react'
+
+import { useApp } from '../../contexts/AppContext'
+import { useRAG } from '../../contexts/RAGContext'
+import { formatHeadingPath } from '../../core/rag/markdown-chunker'
+import { RelatedNote } from '../../core/rag/related-notes'
+import { SelectVector } from '../../database/schema'
+import { t } from '../../lang/helpers'
+import { SerializedMentionable } from '../../types/mentionable'
+import { MENTIONABLE_DRAG_TYPE } from '../../utils/mentionable'
+import { openFileAtLocation } from '../../utils/obsidian'
+
+type RelatedChunk = Omit<SelectVector, 'embedding'> & { similarity: number }
+
+const SNIPPET_LENGTH = 160
+
+const formatChunkLocation = (metadata: SelectVector['metadata']) =>
+	metadata.page
+		? `P${metadata.page}`
+		: metadata.canvasNodeId
+			? `#${metadata.canvasNodeId}`
+			: `L${metadata.startLine}-${metadata.endLine}`
+
+const getSnippet = (content: string) => {
+	const text = content.replace(/\s+/g, ' ').trim()
+	return text.length > SNIPPET_LENGTH ? `${text.slice(0, SNIPPET_LENGTH)}…` : text
+}
+
+// The chat input turns the mentionable into a mention, editors get a plain link
+const setDragData = (event: React.DragEvent, mentionable: SerializedMentionable, path: string) => {
+	event.dataTransfer.setData(MENTIONABLE_DRAG_TYPE, JSON.stringify(mentionable))
+	event.dataTransfer.setData('text/plain', `[[${path.replace(/\.md$/, '')}]]`)
+	event.dataTransfer.effectAllowed = 'copy'
+}
+
+const RelatedNotesViewRoot = ({ filePath }: { filePath: string | null }) => {
+	const app = useApp()
+	const { getRAGEngine } = useRAG()
+	const [notes, setNotes] = useState<RelatedNote<RelatedChunk>[]>([])
+	const [isLoading, setIsLoading] = useState(false)
+	const [error, setError] = useState<string | null>(null)
+	const [refreshKey, setRefreshKey] = useState(0)
+
+	useEffect(() => {
+		if (!filePath) {
+			setNotes([])
+			return
+		}
+		let cancelled = false
+		setIsLoading(true)
+		setError(null)
+		void (async () => {
+			try {
+				const ragEngine = await getRAGEngine()
+				const related = await ragEngine.findRelatedNotes(filePath)
+				if (!cancelled) setNotes(related)
+			} catch (err) {
+				console.error('Failed to find related notes:', err)
+				if (!cancelled) {
+					setNotes([])
+					setError(err instanceof Error ? err.message : String(err))
+				}
+			} finally {
+				if (!cancelled) setIsLoading(false)
+			}
+		})()
+		return () => {
+			cancelled = true
+		}
+	}, [filePath, refreshKey, getRAGEngine])
+
+	const insertLink = useCallback((path: string) => {
+		const target = app.vault.getFileByPath(path)
+		const view = app.workspace
+			.getLeavesOfType('markdown')
+			.map((leaf) => leaf.view)
+			.find((view): view is MarkdownView => view instanceof MarkdownView && view.file?.path === filePath)
+		if (!target || !view) return
+		view.editor.replaceSelection(app.fileManager.generateMarkdownLink(target, filePath ?? ''))
+		view.editor.focus()
+	}, [app, filePath])
+
+	const openChunk = (chunk: RelatedChunk) => {
+		void openFileAtLocation(app, chunk.path, {
+			startLine: chunk.metadata.startLine,
+			page: chunk.metadata.page,
+			canvasNodeId: chunk.metadata.canvasNodeId,
+		})
+	}
+
+	return (
+		<div className="infio-related-notes">
+			<div className="infio-related-notes-header">
+				<span className="infio-related-notes-title">
+					{filePath ? filePath.split('/').pop() : t('relatedNotes.noActiveFile')}
+				</span>
+				<button
+					className="clickable-icon"
+					aria-label={String(t('relatedNotes.refresh'))}
+					disabled={!filePath || isLoading}
+					onClick={() => setRefreshKey((key) => key + 1)}
+				>
+					<RefreshCw size={14} />
+				</button>
+			</div>
+			{isLoading && <div className="infio-related-notes-empty">{t('relatedNotes.loading')}</div>}
+			{!isLoading && error && <div className="infio-related-notes-empty">{error}</div>}
+			{!isLoading && !error && filePath && notes.length === 0 && (
+				<div className="infio-related-notes-empty">{t('relatedNotes.noResults')}</div>
+			)}
+			{!isLoading && notes.map((note) => (
+				<div key={note.path} className="infio-related-notes-note">
+					<div
+						className="infio-related-notes-note-header"
+						draggable
+						onDragStart={(event) => setDragData(event, { type: 'file', file: note.path }, note.path)}
+						onClick={() => void app.workspace.openLinkText(note.path, filePath ?? '')}
+					>
+						<span className="infio-related-notes-note-name">
+							{note.path.split('/').pop()?.replace(/\.md$/, '')}
+						</span>
+						<span className="infio-related-notes-similarity">{note.similarity.toFixed(3)}</span>
+						<button
+							className="clickable-icon"
+							aria-label={String(t('relatedNotes.insertLink'))}
+							onClick={(event) => {
+								event.stopPropagation()
+								insertLink(note.path)
+							}}
+						>
+							<Link size={14} />
+						</button>
+					</div>
+					<div className="infio-related-notes-path">{note.path}</div>
+					{note.chunks.map((chunk) => (
+						<div
+							key={chunk.id}
+							className="infio-related-notes-chunk"
+							draggable
+							onDragStart={(event) =>
+								setDragData(event, {
+									type: 'block',
+									file: chunk.path,
+									content: chunk.content,
+									startLine: chunk.metadata.startLine,
+									endLine: chunk.metadata.endLine,
+								}, chunk.path)
+							}
+							onClick={() => openChunk(chunk)}
+						>
+							<div className="infio-related-notes-chunk-location">
+								{formatChunkLocation(chunk.metadata)}
+								{chunk.metadata.headingPath?.length > 0 && ` · ${formatHeadingPath(chunk.metadata.headingPath)}`}
+							</div>
+							<div className="infio-related-notes-chunk-content">{getSnippet(chunk.content)}</div>
+						</div>
+					))}
+				</div>
+			))}
+		</div>
+	)
+}
+
+export default RelatedNotesViewRoot
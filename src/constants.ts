@@ -4,6 +4,8 @@ export const CHAT_VIEW_TYPE = 'infio-chat-view'
 export const APPLY_VIEW_TYPE = 'infio-apply-view'
 export const PREVIEW_VIEW_TYPE = 'infio-preview-view'
 export const JSON_VIEW_TYPE = 'infio-json-view'
+export const RELATED_NOTES_VIEW_TYPE = 'infio-related-notes-view'
+export const DUPLICATE_NOTES_VIEW_TYPE = 'infio-duplicate-notes-view'
 
 export const DEFAULT_MODELS: LLMModel[] = []
 
@@ -2,22 +2,23 @@ import {
 	PropsWithChildren,
 	createContext,
 	useContext,
-	useMemo
 } from 'react'
 
 import { DiffStrategy } from '../core/diff/DiffStrategy'
 
+import { useSettings } from './SettingsContext'
+
 
 const DiffStrategyContext = createContext<DiffStrategy>(null)
 
 export function DiffStrategyProvider({
-	diffStrategy,
+	getDiffStrategy,
 	children,
-}: PropsWithChildren<{ diffStrategy: DiffStrategy }>) {
-
-	const value = useMemo(() => {
-		return diffStrategy
-	}, [diffStrategy])
+}: PropsWithChildren<{ getDiffStrategy: () => DiffStrategy }>) {
+	// The plugin rebuilds its strategy on settings changes, e.g. when the chat model changes.
+	// Subscribing to the settings re-renders the provider, which then reads the current strategy
+	useSettings()
+	const value = getDiffStrategy()
 
 	return <DiffStrategyContext.Provider value={value}>{children}</DiffStrategyContext.Provider>
 }
@@ -0,0 +1,24 @@
+import Context from "./context-detection";
+
+describe("Context.getContext", () => {
+	it("should detect the frontmatter until it is closed", () => {
+		expect(Context.getContext("---\ntitle: Graphs\ntags: ", "\n---\n# Graphs")).toBe(Context.Frontmatter);
+		expect(Context.getContext("---\ntitle: Graphs\n---\n", "")).toBe(Context.Text);
+	});
+
+	it("should detect an open wikilink outside of code blocks", () => {
+		expect(Context.getContext("See [[Graph th", "")).toBe(Context.WikiLink);
+		expect(Context.getContext("See [[Graph theory]] and ", "")).toBe(Context.Text);
+		expect(Context.getContext("```ts\nconst a = [[1", "\n```")).toBe(Context.CodeBlock);
+	});
+
+	it("should tell callouts apart from block quotes", () => {
+		expect(Context.getContext("> [!tip] Review\n> Review new cards ", "")).toBe(Context.Callout);
+		expect(Context.getContext("> To be or not ", "")).toBe(Context.BlockQuotes);
+	});
+
+	it("should detect tables and footnotes", () => {
+		expect(Context.getContext("| Name | Stable |\n| ---- | ------ |\n| ", "")).toBe(Context.Table);
+		expect(Context.getContext("Text.[^1]\n\n[^1]: Merton, ", "")).toBe(Context.Footnote);
+	});
+});
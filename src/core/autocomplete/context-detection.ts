@@ -6,6 +6,12 @@ const UNORDERED_LIST_REGEX = `^\\s*(-|\\*)\\s.*${UNIQUE_CURSOR}.*$`;
 const TASK_LIST_REGEX = `^\\s*(-|[0-9]+\\.) +\\[.\\]\\s.*${UNIQUE_CURSOR}.*$`;
 const BLOCK_QUOTES_REGEX = `^\\s*>.*${UNIQUE_CURSOR}.*$`;
 const NUMBERED_LIST_REGEX = `^\\s*\\d+\\.\\s.*${UNIQUE_CURSOR}.*$`
+const TABLE_REGEX = `^\\s*\\|.*${UNIQUE_CURSOR}.*$`;
+const FOOTNOTE_REGEX = `^\\[\\^[^\\]]+\\]:.*${UNIQUE_CURSOR}.*$`;
+const CALLOUT_HEADER_REGEX = /^\s*(>\s*)+\[!\w+\]/;
+const QUOTE_LINE_REGEX = /^\s*>/;
+const OPEN_WIKILINK_REGEX = /\[\[[^\]\n]*$/;
+const FRONTMATTER_FENCE_REGEX = /^---\s*$/;
 const MATH_BLOCK_REGEX = /\$\$[\s\S]*?\$\$/g;
 const INLINE_MATH_BLOCK_REGEX = /\$[\s\S]*?\$/g;
 const CODE_BLOCK_REGEX = /```[\s\S]*?```/g;
@@ -20,6 +26,11 @@ enum Context {
 	CodeBlock = "CodeBlock",
 	MathBlock = "MathBlock",
 	TaskList = "TaskList",
+	Table = "Table",
+	Callout = "Callout",
+	Frontmatter = "Frontmatter",
+	Footnote = "Footnote",
+	WikiLink = "WikiLink",
 }
 
 // eslint-disable-next-line @typescript-eslint/no-namespace
@@ -31,9 +42,18 @@ namespace Context {
 	}
 
 	export function getContext(prefix: string, suffix: string): Context {
+		if (isCursorInFrontmatter(prefix)) {
+			return Context.Frontmatter;
+		}
+		if (OPEN_WIKILINK_REGEX.test(prefix) && !isCursorInRegexBlock(prefix, suffix, CODE_BLOCK_REGEX)) {
+			return Context.WikiLink;
+		}
 		if (new RegExp(HEADER_REGEX, "gm").test(prefix + UNIQUE_CURSOR + suffix)) {
 			return Context.Heading;
 		}
+		if (isCursorInCallout(prefix)) {
+			return Context.Callout;
+		}
 		if (new RegExp(BLOCK_QUOTES_REGEX, "gm").test(prefix + UNIQUE_CURSOR + suffix)) {
 			return Context.BlockQuotes;
 		}
@@ -52,6 +72,12 @@ namespace Context {
 		if (isCursorInRegexBlock(prefix, suffix, CODE_BLOCK_REGEX) || isCursorInRegexBlock(prefix, suffix, INLINE_CODE_BLOCK_REGEX)) {
 			return Context.CodeBlock;
 		}
+		if (new RegExp(TABLE_REGEX, "gm").test(prefix + UNIQUE_CURSOR + suffix)) {
+			return Context.Table;
+		}
+		if (new RegExp(FOOTNOTE_REGEX, "gm").test(prefix + UNIQUE_CURSOR + suffix)) {
+			return Context.Footnote;
+		}
 		if (new RegExp(NUMBERED_LIST_REGEX, "gm").test(prefix + UNIQUE_CURSOR + suffix)) {
 			return Context.NumberedList;
 		}
@@ -72,6 +98,28 @@ namespace Context {
 	}
 }
 
+function isCursorInFrontmatter(prefix: string): boolean {
+	const lines = prefix.split("\n");
+	if (lines.length < 2 || !FRONTMATTER_FENCE_REGEX.test(lines[0])) {
+		return false;
+	}
+	// the closing fence must not appear before the cursor line
+	return !lines.slice(1, -1).some((line) => FRONTMATTER_FENCE_REGEX.test(line));
+}
+
+function isCursorInCallout(prefix: string): boolean {
+	const lines = prefix.split("\n");
+	for (let i = lines.length - 1; i >= 0; i--) {
+		if (!QUOTE_LINE_REGEX.test(lines[i])) {
+			return false;
+		}
+		if (CALLOUT_HEADER_REGEX.test(lines[i])) {
+			return true;
+		}
+	}
+	return false;
+}
+
 function isCursorInRegexBlock(
 	prefix: string,
 	suffix: string,
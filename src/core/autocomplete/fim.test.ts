@@ -0,0 +1,57 @@
+import { DEFAULT_SETTINGS } from "../../settings/versions";
+import { ApiProvider } from "../../types/llm/model";
+import { InfioSettings, parseInfioSettings } from "../../types/settings";
+
+import { isFimUnsupportedError, resolveFimEndpoint } from "./fim";
+
+describe("resolveFimEndpoint", () => {
+	const baseSettings = parseInfioSettings(DEFAULT_SETTINGS);
+	const withModel = (provider: ApiProvider, modelId: string, update: Partial<InfioSettings> = {}): InfioSettings => ({
+		...baseSettings,
+		...update,
+		applyModelProvider: provider,
+		applyModelId: modelId,
+	});
+
+	it("should use the Ollama generate endpoint for coder models", () => {
+		const settings = withModel(ApiProvider.Ollama, "qwen2.5-coder:7b", {
+			ollamaProvider: { ...baseSettings.ollamaProvider, baseUrl: "http://localhost:11434/" },
+		});
+		expect(resolveFimEndpoint(settings)).toEqual({
+			type: "ollama",
+			baseUrl: "http://localhost:11434",
+			model: "qwen2.5-coder:7b",
+		});
+	});
+
+	it("should use the DeepSeek beta completions endpoint for deepseek-chat only", () => {
+		expect(resolveFimEndpoint(withModel(ApiProvider.Deepseek, "deepseek-chat"))).toMatchObject({
+			type: "completions",
+			baseUrl: "https://api.deepseek.com/beta",
+		});
+		expect(resolveFimEndpoint(withModel(ApiProvider.Deepseek, "deepseek-reasoner"))).toBeNull();
+	});
+
+	it("should fall back to the chat path for chat-only models and providers", () => {
+		const settings = withModel(ApiProvider.Ollama, "llama3.1:8b", {
+			ollamaProvider: { ...baseSettings.ollamaProvider, baseUrl: "http://localhost:11434" },
+		});
+		expect(resolveFimEndpoint(settings)).toBeNull();
+		expect(resolveFimEndpoint(withModel(ApiProvider.OpenAI, "gpt-4o-mini"))).toBeNull();
+	});
+});
+
+describe("isFimUnsupportedError", () => {
+	it("should only treat missing suffix support as permanent", () => {
+		expect(isFimUnsupportedError(Object.assign(new Error("Request failed"), { status: 404 }))).toBe(true);
+		expect(isFimUnsupportedError(new Error("llama3.1 does not support insert"))).toBe(true);
+		expect(isFimUnsupportedError(new Error("suffix is not supported for this model"))).toBe(true);
+
+		expect(isFimUnsupportedError(Object.assign(new Error("Request failed"), { status: 400 }))).toBe(false);
+		expect(isFimUnsupportedError(Object.assign(new Error("max_tokens is not supported above 4096"), { status: 400 }))).toBe(false);
+		expect(isFimUnsupportedError(Object.assign(new Error("Request failed"), { status: 429 }))).toBe(false);
+		expect(isFimUnsupportedError(Object.assign(new Error("Request failed"), { status: 503 }))).toBe(false);
+		expect(isFimUnsupportedError(new Error("net::ERR_CONNECTION_REFUSED"))).toBe(false);
+		expect(isFimUnsupportedError("timeout")).toBe(false);
+	});
+});
@@ -0,0 +1,158 @@
+import { requestUrl } from "obsidian";
+
+import { DEEPSEEK_BASE_URL } from "../../constants";
+import { ApiProvider, LLMModel } from "../../types/llm/model";
+import { InfioSettings } from "../../types/settings";
+
+// model families whose templates understand a prefix/suffix pair. Ollama and OpenAI-compatible
+// servers do not report whether a model takes a suffix, so support is guessed from the model name
+// and a wrong guess is caught by isFimUnsupportedError on the first request
+const FIM_MODEL_PATTERN = /coder|codellama|starcoder|codegemma|codestral|stable-code|granite-code|codeqwen/i;
+
+const FIM_MAX_TOKENS = 256;
+
+// statuses and messages of servers that have no fill-in-the-middle support for the model. Other
+// 400s are usually about a single request, such as an oversized prompt, and only pause the endpoint
+const FIM_UNSUPPORTED_STATUSES = [404, 501];
+const FIM_UNSUPPORTED_MESSAGE = /does not support (insert|suffix|fill-in-the-middle)|(suffix|fill-in-the-middle) (is )?not supported/i;
+
+export type FimEndpoint =
+	| { type: "ollama"; baseUrl: string; model: string }
+	| { type: "completions"; provider: ApiProvider; baseUrl: string; apiKey: string; model: string };
+
+export type FimOptions = {
+	temperature?: number;
+	max_tokens?: number;
+}
+
+/**
+ * Picks the native fill-in-the-middle endpoint for an autocomplete model,
+ * or null when the model has to be prompted through the chat path.
+ */
+export function resolveFimEndpoint(
+	settings: InfioSettings,
+	{ provider, modelId: model }: LLMModel = { provider: settings.applyModelProvider, modelId: settings.applyModelId }
+): FimEndpoint | null {
+	if (!model) {
+		return null;
+	}
+
+	switch (provider) {
+		case ApiProvider.Ollama:
+			if (!settings.ollamaProvider.baseUrl || !FIM_MODEL_PATTERN.test(model)) {
+				return null;
+			}
+			return { type: "ollama", baseUrl: trimTrailingSlash(settings.ollamaProvider.baseUrl), model };
+		case ApiProvider.Deepseek: {
+			// only the chat model is served by the beta completions endpoint
+			if (model !== "deepseek-chat") {
+				return null;
+			}
+			const baseUrl = settings.deepseekProvider.baseUrl && settings.deepseekProvider.useCustomUrl
+				? settings.deepseekProvider.baseUrl
+				: DEEPSEEK_BASE_URL;
+			return {
+				type: "completions",
+				provider,
+				baseUrl: `${trimTrailingSlash(baseUrl)}/beta`,
+				apiKey: settings.deepseekProvider.apiKey,
+				model,
+			};
+		}
+		case ApiProvider.OpenAICompatible:
+			if (!settings.openaicompatibleProvider.baseUrl || !FIM_MODEL_PATTERN.test(model)) {
+				return null;
+			}
+			return {
+				type: "completions",
+				provider,
+				baseUrl: trimTrailingSlash(settings.openaicompatibleProvider.baseUrl),
+				apiKey: settings.openaicompatibleProvider.apiKey,
+				model,
+			};
+		default:
+			return null;
+	}
+}
+
+export function describeFimEndpoint(endpoint: FimEndpoint): string {
+	return endpoint.type === "ollama"
+		? `${endpoint.baseUrl}/api/generate`
+		: `${endpoint.baseUrl}/completions`;
+}
+
+type OllamaGenerateResponse = {
+	response: string;
+}
+
+type CompletionsResponse = {
+	choices: { text: string }[];
+}
+
+/**
+ * Tells errors of an endpoint or model without fill-in-the-middle support
+ * from transient ones such as timeouts, rate limits and server errors.
+ */
+export function isFimUnsupportedError(error: unknown): boolean {
+	if (typeof error !== "object" || error === null) {
+		return false;
+	}
+	if ("status" in error && typeof error.status === "number" && FIM_UNSUPPORTED_STATUSES.includes(error.status)) {
+		return true;
+	}
+	return "message" in error && typeof error.message === "string" && FIM_UNSUPPORTED_MESSAGE.test(error.message);
+}
+
+/**
+ * Requests `count` completions of the text between prefix and suffix.
+ * Endpoints that ignore `n` answer with fewer choices; the caller tops them up.
+ * Ollama's generate endpoint has no `n` at all and always answers with one.
+ */
+export async function fetchFimCompletions(
+	endpoint: FimEndpoint,
+	prefix: string,
+	suffix: string,
+	count: number,
+	options: FimOptions = {}
+): Promise<string[]> {
+	const maxTokens = options.max_tokens ?? FIM_MAX_TOKENS;
+
+	if (endpoint.type === "ollama") {
+		// one completion per request, the remaining candidates are requested one by one
+		const response = await requestUrl({
+			url: `${endpoint.baseUrl}/api/generate`,
+			method: "POST",
+			contentType: "application/json",
+			body: JSON.stringify({
+				model: endpoint.model,
+				prompt: prefix,
+				suffix,
+				stream: false,
+				options: { num_predict: maxTokens, temperature: options.temperature },
+			}),
+		});
+		const data: OllamaGenerateResponse = response.json;
+		return [data.response];
+	}
+
+	const response = await requestUrl({
+		url: `${endpoint.baseUrl}/completions`,
+		method: "POST",
+		contentType: "application/json",
+		headers: { Authorization: `Bearer ${endpoint.apiKey}` },
+		body: JSON.stringify({
+			model: endpoint.model,
+			prompt: prefix,
+			suffix,
+			max_tokens: maxTokens,
+			temperature: options.temperature,
+			n: count,
+		}),
+	});
+	const data: CompletionsResponse = response.json;
+	return data.choices.map((choice) => choice.text);
+}
+
+function trimTrailingSlash(url: string): string {
+	return url.replace(/\/+$/, "");
+}
@@ -1,5 +1,6 @@
 import * as Handlebars from "handlebars";
 import { Result, err, ok } from "neverthrow";
+import { parseYaml } from "obsidian";
 
 import { FewShotExample } from "../../settings/versions";
 import { LLMModel } from "../../types/llm/model";
@@ -8,28 +9,71 @@ import { InfioSettings } from "../../types/settings";
 import LLMManager from '../llm/manager';
 
 import Context from "./context-detection";
+import { FimEndpoint, FimOptions, fetchFimCompletions, isFimUnsupportedError, resolveFimEndpoint } from "./fim";
+import AlignTableColumns from "./post-processors/align-table-columns";
+import PreserveCalloutPrefix from "./post-processors/preserve-callout-prefix";
 import RemoveCodeIndicators from "./post-processors/remove-code-indicators";
 import RemoveMathIndicators from "./post-processors/remove-math-indicators";
 import RemoveOverlap from "./post-processors/remove-overlap";
 import RemoveWhitespace from "./post-processors/remove-whitespace";
+import ValidateFrontmatter from "./post-processors/validate-frontmatter";
 import DataViewRemover from "./pre-processors/data-view-remover";
 import LengthLimiter from "./pre-processors/length-limiter";
+import { resolveAutocompleteProfile } from "./profiles";
 import {
 	AutocompleteService,
 	ChatMessage,
+	ContextRetriever,
 	PostProcessor,
 	PreProcessor,
 	UserMessageFormatter,
 	UserMessageFormattingInputs
 } from "./types";
+import { dedupeCandidates } from "./utils";
+import { completeWikiLink } from "./wikilink";
+
+// how long a failing fill-in-the-middle endpoint is skipped before it is tried again
+const FIM_RETRY_DELAY_MS = 60_000;
 
 class LLMClient {
 	private llm: LLMManager;
 	private model: LLMModel;
+	private options: FimOptions;
+	private fimEndpoint: FimEndpoint | null;
+	// the chat path is used until then after a transient fill-in-the-middle failure
+	private fimRetryAt = 0;
 
-	constructor(llm: LLMManager, model: LLMModel) {
+	constructor(llm: LLMManager, model: LLMModel, options: FimOptions, fimEndpoint: FimEndpoint | null) {
 		this.llm = llm;
 		this.model = model;
+		this.options = options;
+		this.fimEndpoint = fimEndpoint;
+	}
+
+	hasFimEndpoint(): boolean {
+		return this.fimEndpoint !== null && Date.now() >= this.fimRetryAt;
+	}
+
+	// the endpoint does not support the model, so stay on the chat path until the settings change
+	disableFimEndpoint(): void {
+		this.fimEndpoint = null;
+	}
+
+	pauseFimEndpoint(): void {
+		this.fimRetryAt = Date.now() + FIM_RETRY_DELAY_MS;
+	}
+
+	async queryFimCandidates(prefix: string, suffix: string, count: number): Promise<Result<string, Error>[]> {
+		const endpoint = this.fimEndpoint;
+		if (endpoint === null) {
+			throw new Error("No fill-in-the-middle endpoint configured");
+		}
+		const completions = await fetchFimCompletions(endpoint, prefix, suffix, count, this.options);
+		return topUpCandidates(
+			completions.map((completion) => ok(completion)),
+			count,
+			async () => ok((await fetchFimCompletions(endpoint, prefix, suffix, 1, this.options))[0] ?? "")
+		);
 	}
 
 	async queryChatModel(messages: RequestMessage[]): Promise<Result<string, Error>> {
@@ -39,6 +83,7 @@ class LLMClient {
 				messages: messages,
 				model: this.model.modelId,
 				stream: true,
+				...this.options,
 			}
 		)
 
@@ -55,6 +100,7 @@ class LLMClient {
 			model: this.model.modelId,
 			messages: messages,
 			stream: true,
+			...this.options,
 		})
 		// eslint-disable-next-line no-inner-declarations
 		async function* streamResponse(): AsyncIterable<string> {
@@ -65,40 +111,97 @@ class LLMClient {
 
 		return streamResponse()
 	}
+
+	async queryChatModelCandidates(messages: RequestMessage[], count: number): Promise<Result<string, Error>[]> {
+		if (count <= 1) {
+			return [await this.queryChatModel(messages)];
+		}
+
+		const response = await this.llm.generateResponse(this.model, {
+			messages: messages,
+			model: this.model.modelId,
+			n: count,
+			...this.options,
+		})
+		return topUpCandidates(
+			response.choices.map((choice) => ok(choice.message.content ?? "")),
+			count,
+			() => this.queryChatModel(messages)
+		);
+	}
+}
+
+// providers without `n` support answer with a single choice, so top up with parallel requests
+async function topUpCandidates(
+	results: Result<string, Error>[],
+	count: number,
+	query: () => Promise<Result<string, Error>>
+): Promise<Result<string, Error>[]> {
+	const missing = count - results.length;
+	if (missing > 0) {
+		const extra = await Promise.allSettled(Array.from({ length: missing }, query));
+		for (const settled of extra) {
+			results.push(
+				settled.status === "fulfilled"
+					? settled.value
+					: err(settled.reason instanceof Error ? settled.reason : new Error(String(settled.reason)))
+			);
+		}
+	}
+	return results.slice(0, count);
 }
 
 
+type VaultContextOptions = {
+	retriever: ContextRetriever;
+	tokenBudget: number;
+	timeout: number;
+}
+
 class AutoComplete implements AutocompleteService {
-	private readonly client: LLMClient;
+	private readonly getClient: (context: Context) => LLMClient;
 	private readonly systemMessage: string;
 	private readonly userMessageFormatter: UserMessageFormatter;
 	private readonly removePreAnswerGenerationRegex: string;
 	private readonly preProcessors: PreProcessor[];
 	private readonly postProcessors: PostProcessor[];
 	private readonly fewShotExamples: FewShotExample[];
+	private readonly candidateCount: number;
+	private readonly vaultContext: VaultContextOptions | null;
+	private readonly getNoteTitles: (() => string[]) | null;
 	private debugMode: boolean;
 
 	private constructor(
-		client: LLMClient,
+		getClient: (context: Context) => LLMClient,
 		systemMessage: string,
 		userMessageFormatter: UserMessageFormatter,
 		removePreAnswerGenerationRegex: string,
 		preProcessors: PreProcessor[],
 		postProcessors: PostProcessor[],
 		fewShotExamples: FewShotExample[],
+		candidateCount: number,
+		vaultContext: VaultContextOptions | null,
+		getNoteTitles: (() => string[]) | null,
 		debugMode: boolean,
 	) {
-		this.client = client;
+		this.getClient = getClient;
 		this.systemMessage = systemMessage;
 		this.userMessageFormatter = userMessageFormatter;
 		this.removePreAnswerGenerationRegex = removePreAnswerGenerationRegex;
 		this.preProcessors = preProcessors;
 		this.postProcessors = postProcessors;
 		this.fewShotExamples = fewShotExamples;
+		this.candidateCount = candidateCount;
+		this.vaultContext = vaultContext;
+		this.getNoteTitles = getNoteTitles;
 		this.debugMode = debugMode;
 	}
 
-	public static fromSettings(settings: InfioSettings): AutocompleteService {
+	public static fromSettings(
+		settings: InfioSettings,
+		contextRetriever?: ContextRetriever,
+		getNoteTitles?: () => string[]
+	): AutocompleteService {
 		const formatter = Handlebars.compile<UserMessageFormattingInputs>(
 			settings.userMessageTemplate,
 			{ noEscape: true, strict: true }
@@ -124,22 +227,46 @@ class AutoComplete implements AutocompleteService {
 
 		postProcessors.push(new RemoveOverlap());
 		postProcessors.push(new RemoveWhitespace());
+		postProcessors.push(new AlignTableColumns());
+		postProcessors.push(new PreserveCalloutPrefix());
+		postProcessors.push(new ValidateFrontmatter(isValidYaml));
 
 		const llm_manager = new LLMManager(settings)
-		const model = {
-			provider: settings.applyModelProvider,
-			modelId: settings.applyModelId,
-		}
-		const llm = new LLMClient(llm_manager, model);
+		// one client per distinct profile, so a disabled FIM endpoint stays disabled for that model only
+		const clients = new Map<string, LLMClient>();
+		const getClient = (context: Context): LLMClient => {
+			const { model, temperature, maxTokens } = resolveAutocompleteProfile(settings, context);
+			const key = JSON.stringify([model.provider, model.modelId, temperature, maxTokens]);
+			let client = clients.get(key);
+			if (client === undefined) {
+				client = new LLMClient(
+					llm_manager,
+					model,
+					{ temperature, max_tokens: maxTokens },
+					resolveFimEndpoint(settings, model)
+				);
+				clients.set(key, client);
+			}
+			return client;
+		};
 
 		return new AutoComplete(
-			llm,
+			getClient,
 			settings.systemMessage,
 			formatter,
 			settings.chainOfThoughRemovalRegex,
 			preProcessors,
 			postProcessors,
 			settings.fewShotExamples,
+			settings.autocompleteCandidates,
+			settings.autocompleteVaultContext && contextRetriever
+				? {
+					retriever: contextRetriever,
+					tokenBudget: settings.autocompleteVaultContextTokens,
+					timeout: settings.autocompleteVaultContextTimeout,
+				}
+				: null,
+			getNoteTitles ?? null,
 			settings.debugMode,
 		);
 	}
@@ -147,12 +274,12 @@ class AutoComplete implements AutocompleteService {
 	async fetchPredictions(
 		prefix: string,
 		suffix: string
-	): Promise<Result<string, Error>> {
+	): Promise<Result<string[], Error>> {
 		const context: Context = Context.getContext(prefix, suffix);
 
 		for (const preProcessor of this.preProcessors) {
 			if (preProcessor.removesCursor(prefix, suffix)) {
-				return ok("");
+				return ok([]);
 			}
 
 			({ prefix, suffix } = preProcessor.process(
@@ -162,6 +289,31 @@ class AutoComplete implements AutocompleteService {
 			));
 		}
 
+		// links can only point to notes that exist, so they are completed from the vault instead of the model
+		if (context === Context.WikiLink && this.getNoteTitles !== null) {
+			return ok(completeWikiLink(prefix, suffix, this.getNoteTitles(), this.candidateCount));
+		}
+
+		const vaultContext = await this.retrieveVaultContext(prefix, suffix);
+		const client = this.getClient(context);
+
+		if (client.hasFimEndpoint()) {
+			try {
+				const fimPrefix = vaultContext ? `<!--\n${vaultContext}\n-->\n\n${prefix}` : prefix;
+				const responses = await client.queryFimCandidates(fimPrefix, suffix, this.candidateCount);
+				return this.processCandidates(responses, prefix, suffix, context, false);
+			} catch (error) {
+				if (this.debugMode) {
+					console.warn("Fill-in-the-middle request failed, falling back to the chat prompt:", error);
+				}
+				if (isFimUnsupportedError(error)) {
+					client.disableFimEndpoint();
+				} else {
+					client.pauseFimEndpoint();
+				}
+			}
+		}
+
 		const examples = this.fewShotExamples.filter(
 			(example) => example.context === context
 		);
@@ -170,7 +322,7 @@ class AutoComplete implements AutocompleteService {
 
 		const messages: RequestMessage[] = [
 			{
-				content: this.getSystemMessageFor(context),
+				content: this.getSystemMessageFor(context) + formatVaultContext(vaultContext),
 				role: "system"
 			},
 			...fewShotExamplesChatMessages,
@@ -187,20 +339,71 @@ class AutoComplete implements AutocompleteService {
 			console.log("Copilot messages send:\n", messages);
 		}
 
-		let result = await this.client.queryChatModel(messages);
-		if (this.debugMode && result.isOk()) {
-			console.log("Copilot response:\n", result.value);
+		const responses = await client.queryChatModelCandidates(messages, this.candidateCount);
+		return this.processCandidates(responses, prefix, suffix, context, true);
+	}
+
+	// retrieval never holds up a prediction for longer than the configured timeout
+	private async retrieveVaultContext(prefix: string, suffix: string): Promise<string> {
+		if (this.vaultContext === null) {
+			return "";
 		}
+		const { retriever, tokenBudget, timeout } = this.vaultContext;
+
+		// a retrieval that times out keeps running and is cached for the next request,
+		// the retriever aborts it once another paragraph is being written
+		let timer: ReturnType<typeof setTimeout> | undefined;
+		const timedOut = new Promise<string>((resolve) => {
+			timer = setTimeout(() => resolve(""), timeout);
+		});
+		try {
+			return await Promise.race([retriever.retrieve(prefix, suffix, tokenBudget), timedOut]);
+		} catch (error) {
+			if (this.debugMode) {
+				console.warn("Copilot could not retrieve vault context:", error);
+			}
+			return "";
+		} finally {
+			clearTimeout(timer);
+		}
+	}
 
-		result = this.extractAnswerFromChainOfThoughts(result);
+	private processCandidates(
+		responses: Result<string, Error>[],
+		prefix: string,
+		suffix: string,
+		context: Context,
+		hasChainOfThoughts: boolean
+	): Result<string[], Error> {
+		const candidates: string[] = [];
+		let firstError: Error | undefined;
+		for (let result of responses) {
+			if (this.debugMode && result.isOk()) {
+				console.log("Copilot response:\n", result.value);
+			}
 
-		for (const postProcessor of this.postProcessors) {
-			result = result.map((r) => postProcessor.process(prefix, suffix, r, context));
-		}
+			if (hasChainOfThoughts) {
+				result = this.extractAnswerFromChainOfThoughts(result);
+			}
 
-		result = this.checkAgainstGuardRails(result);
+			for (const postProcessor of this.postProcessors) {
+				result = result.map((r) => postProcessor.process(prefix, suffix, r, context));
+			}
 
-		return result;
+			result = this.checkAgainstGuardRails(result);
+
+			if (result.isOk()) {
+				candidates.push(result.value);
+			} else {
+				firstError ??= result.error;
+			}
+		}
+
+		const uniqueCandidates = dedupeCandidates(candidates);
+		if (uniqueCandidates.length === 0 && firstError !== undefined) {
+			return err(firstError);
+		}
+		return ok(uniqueCandidates);
 	}
 
 	private getSystemMessageFor(context: Context): string {
@@ -231,6 +434,21 @@ class AutoComplete implements AutocompleteService {
 		if (context === Context.TaskList) {
 			return this.systemMessage + "\n\n" + "The <mask/> is located in a task list. Your answer must include one or more (sub)tasks that are logical given the other tasks and the surrounding text.";
 		}
+		if (context === Context.Table) {
+			return this.systemMessage + "\n\n" + "The <mask/> is located in a Markdown table. Your answer must complete the current row or add rows with the same number of columns as the table, keeping the column widths of the surrounding rows.";
+		}
+		if (context === Context.Callout) {
+			return this.systemMessage + "\n\n" + "The <mask/> is located in an Obsidian callout. Your answer must continue the content of the callout and start every new line with the same \"> \" prefix as the surrounding lines.";
+		}
+		if (context === Context.Frontmatter) {
+			return this.systemMessage + "\n\n" + "The <mask/> is located in the YAML frontmatter of the note. Your answer must only contain valid YAML that fits the existing properties, without the --- fences.";
+		}
+		if (context === Context.Footnote) {
+			return this.systemMessage + "\n\n" + "The <mask/> is located in a footnote. Your answer must complete the footnote with a note or citation that supports the text that references it.";
+		}
+		if (context === Context.WikiLink) {
+			return this.systemMessage + "\n\n" + "The <mask/> is located in an Obsidian wikilink. Your answer must complete the title of a note that is likely to exist in the vault, followed by ]].";
+		}
 
 
 		return this.systemMessage;
@@ -270,6 +488,22 @@ class AutoComplete implements AutocompleteService {
 	}
 }
 
+function isValidYaml(yaml: string): boolean {
+	try {
+		parseYaml(yaml);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+function formatVaultContext(vaultContext: string): string {
+	if (vaultContext.length === 0) {
+		return "";
+	}
+	return "\n\n" + "The following excerpts come from notes in the user's vault that relate to the text around the <mask/>. Use their terminology and facts where they fit, but do not copy them verbatim.\n\n" + vaultContext;
+}
+
 function fewShotExamplesToChatMessages(
 	examples: FewShotExample[]
 ): ChatMessage[] {
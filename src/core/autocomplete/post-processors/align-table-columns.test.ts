@@ -0,0 +1,28 @@
+import Context from "../context-detection";
+
+import AlignTableColumns from "./align-table-columns";
+
+describe("AlignTableColumns", () => {
+	const processor = new AlignTableColumns();
+	const alignedTable = "| Algorithm  | Stable |\n| ---------- | ------ |\n| Merge sort | Yes    |\n";
+
+	it("should pad the completed row to the column widths of an aligned table", () => {
+		expect(processor.process(alignedTable + "| ", "", "Heap sort | No", Context.Table))
+			.toBe("Heap sort  | No     |");
+	});
+
+	it("should fix the column count of new rows", () => {
+		expect(processor.process(alignedTable + "| ", "", "Heap sort | No | O(n log n) |\n| Bubble sort", Context.Table))
+			.toBe("Heap sort  | No     |\n| Bubble sort |        |");
+	});
+
+	it("should only fix the column count of tables that are not aligned", () => {
+		expect(processor.process("| Algorithm | Stable |\n| --- | --- |\n| ", "", "Heap sort", Context.Table))
+			.toBe("Heap sort |  |");
+	});
+
+	it("should leave the rest of the completion after the table alone", () => {
+		expect(processor.process(alignedTable + "| ", "", "Heap sort | No |\n\nHeap sort is not stable.", Context.Table))
+			.toBe("Heap sort  | No     |\n\nHeap sort is not stable.");
+	});
+});
@@ -0,0 +1,92 @@
+import Context from "../context-detection";
+import { PostProcessor } from "../types";
+
+const TABLE_ROW_REGEX = /^\s*\|/;
+const CELL_SEPARATOR_REGEX = /(?<!\\)\|/;
+
+/**
+ * Keeps completed table rows at the column count of the table above the cursor.
+ * Tables whose rows all have the same width are also padded to the same column widths.
+ */
+class AlignTableColumns implements PostProcessor {
+	process(
+		prefix: string,
+		suffix: string,
+		completion: string,
+		context: Context
+	): string {
+		if (context !== Context.Table) {
+			return completion;
+		}
+
+		const prefixLines = prefix.split("\n");
+		const currentLine = prefixLines[prefixLines.length - 1];
+		const rows = getTableRowsAbove(prefixLines.slice(0, -1));
+		if (rows.length === 0) {
+			return completion;
+		}
+		const table = describeTable(rows);
+
+		const lines = completion.split("\n");
+		// the rest of the row follows the cursor, so the first line is not ours to format
+		const startIndex = suffix.split("\n")[0].trim() === "" ? 0 : 1;
+		for (let i = startIndex; i < lines.length; i++) {
+			const row = i === 0 ? currentLine + lines[0] : lines[i];
+			if (!TABLE_ROW_REGEX.test(row)) {
+				break;
+			}
+			const formatted = formatRow(splitCells(row), table);
+			if (i > 0) {
+				lines[i] = formatted;
+			} else if (formatted.startsWith(currentLine)) {
+				lines[0] = formatted.slice(currentLine.length);
+			}
+		}
+
+		return lines.join("\n");
+	}
+}
+
+type TableShape = {
+	widths: number[];
+	aligned: boolean;
+}
+
+function getTableRowsAbove(lines: string[]): string[] {
+	const rows: string[] = [];
+	for (let i = lines.length - 1; i >= 0 && TABLE_ROW_REGEX.test(lines[i]); i--) {
+		rows.unshift(lines[i]);
+	}
+	return rows;
+}
+
+function describeTable(rows: string[]): TableShape {
+	const cells = rows.map(splitCells);
+	const widths = cells[0].map((_, column) =>
+		Math.max(...cells.map((row) => row[column]?.length ?? 0))
+	);
+	const aligned = rows.every((row) => row.trimEnd().length === rows[0].trimEnd().length);
+	return { widths, aligned };
+}
+
+function splitCells(row: string): string[] {
+	const cells = row.trim().split(CELL_SEPARATOR_REGEX).map((cell) => cell.trim());
+	// drop the empty strings produced by the outer pipes
+	if (cells[0] === "") {
+		cells.shift();
+	}
+	if (cells.length > 0 && cells[cells.length - 1] === "") {
+		cells.pop();
+	}
+	return cells;
+}
+
+function formatRow(cells: string[], { widths, aligned }: TableShape): string {
+	const padded = widths.map((width, column) => {
+		const cell = cells[column] ?? "";
+		return aligned ? cell.padEnd(width) : cell;
+	});
+	return `| ${padded.join(" | ")} |`;
+}
+
+export default AlignTableColumns;
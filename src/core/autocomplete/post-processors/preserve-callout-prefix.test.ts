@@ -0,0 +1,17 @@
+import Context from "../context-detection";
+
+import PreserveCalloutPrefix from "./preserve-callout-prefix";
+
+describe("PreserveCalloutPrefix", () => {
+	const processor = new PreserveCalloutPrefix();
+
+	it("should prefix new lines with the quote prefix of the callout", () => {
+		expect(processor.process("> [!tip] Review\n> Review after one day.\n> ", "", "Then after three days.\nThen double it.\n\nDone.", Context.Callout))
+			.toBe("Then after three days.\n> Then double it.\n>\n> Done.");
+	});
+
+	it("should not repeat the prefix or the callout header", () => {
+		expect(processor.process("> [!note]\n> > ", "", "> > First\n> [!note]\n> > Second", Context.Callout))
+			.toBe("First\n> > Second");
+	});
+});
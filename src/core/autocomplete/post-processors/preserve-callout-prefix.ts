@@ -0,0 +1,41 @@
+import Context from "../context-detection";
+import { PostProcessor } from "../types";
+
+const QUOTE_PREFIX_REGEX = /^\s*(>\s?)+/;
+const CALLOUT_HEADER_REGEX = /^\s*(>\s*)*\[!\w+\]/;
+
+/**
+ * Continues every completed line of a callout with the quote prefix of the line at the cursor,
+ * so that the callout does not end halfway through the suggestion.
+ */
+class PreserveCalloutPrefix implements PostProcessor {
+	process(
+		prefix: string,
+		suffix: string,
+		completion: string,
+		context: Context
+	): string {
+		if (context !== Context.Callout) {
+			return completion;
+		}
+
+		const currentLine = prefix.split("\n").pop() ?? "";
+		const quotePrefix = QUOTE_PREFIX_REGEX.exec(currentLine)?.[0] ?? "> ";
+
+		const lines = completion.split("\n")
+			// the callout already has a header, a second one would start a new callout
+			.filter((line, index) => index === 0 || !CALLOUT_HEADER_REGEX.test(line));
+
+		if (currentLine.trim() === quotePrefix.trim()) {
+			lines[0] = lines[0].replace(QUOTE_PREFIX_REGEX, "");
+		}
+		for (let i = 1; i < lines.length; i++) {
+			const text = lines[i].replace(QUOTE_PREFIX_REGEX, "");
+			lines[i] = text.length === 0 ? quotePrefix.trimEnd() : quotePrefix + text;
+		}
+
+		return lines.join("\n");
+	}
+}
+
+export default PreserveCalloutPrefix;
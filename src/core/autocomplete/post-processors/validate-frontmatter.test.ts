@@ -0,0 +1,35 @@
+import Context from "../context-detection";
+
+import ValidateFrontmatter from "./validate-frontmatter";
+
+// accepts "key: value" properties and "  - item" list entries
+function isValidYaml(yaml: string): boolean {
+	return yaml.split("\n").every((line) => line === "" || /^\w+:( .*)?$/.test(line) || /^ {2}- .+$/.test(line));
+}
+
+describe("ValidateFrontmatter", () => {
+	const processor = new ValidateFrontmatter(isValidYaml);
+	const prefix = "---\ntitle: Graphs\ntags:\n  - ";
+	const suffix = "\n---\n# Graphs";
+
+	it("should keep valid completions", () => {
+		expect(processor.process(prefix, suffix, "math\n  - graphs", Context.Frontmatter)).toBe("math\n  - graphs");
+	});
+
+	it("should drop closing fences, code fences and trailing invalid lines", () => {
+		expect(processor.process(prefix, suffix, "math\n```\n---\n# Graphs", Context.Frontmatter)).toBe("math");
+		expect(processor.process(prefix, suffix, "math\nnot yaml", Context.Frontmatter)).toBe("math");
+	});
+
+	it("should skip the check when the prefix was trimmed past the opening fence", () => {
+		const validate = jest.fn(() => false);
+		const trimmed = new ValidateFrontmatter(validate);
+		expect(trimmed.process("  - a\n  - b\nauthor: ", suffix, "Bob\n---\n# Graphs", Context.Frontmatter)).toBe("Bob");
+		expect(validate).not.toHaveBeenCalled();
+	});
+
+	it("should return an empty completion when nothing is valid", () => {
+		expect(processor.process(prefix, suffix, "", Context.Frontmatter)).toBe("");
+		expect(processor.process("---\ntitle", suffix, " Graphs", Context.Frontmatter)).toBe("");
+	});
+});
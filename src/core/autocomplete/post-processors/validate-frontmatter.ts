@@ -0,0 +1,62 @@
+import Context from "../context-detection";
+import { PostProcessor } from "../types";
+
+const FRONTMATTER_FENCE_REGEX = /^---\s*$/;
+const CODE_FENCE_REGEX = /^\s*```/;
+
+/**
+ * Keeps frontmatter completions valid YAML by dropping trailing lines until the
+ * frontmatter parses again. Completions that cannot be repaired become empty.
+ */
+class ValidateFrontmatter implements PostProcessor {
+	private readonly isValidYaml: (yaml: string) => boolean;
+
+	constructor(isValidYaml: (yaml: string) => boolean) {
+		this.isValidYaml = isValidYaml;
+	}
+
+	process(
+		prefix: string,
+		suffix: string,
+		completion: string,
+		context: Context
+	): string {
+		if (context !== Context.Frontmatter) {
+			return completion;
+		}
+
+		const lines: string[] = [];
+		for (const line of completion.split("\n")) {
+			// the frontmatter is closed by the suffix, a fence in the completion would close it early
+			if (FRONTMATTER_FENCE_REGEX.test(line)) {
+				break;
+			}
+			if (!CODE_FENCE_REGEX.test(line)) {
+				lines.push(line);
+			}
+		}
+
+		// the prefix may have been trimmed to the length limit, without its opening fence the
+		// frontmatter before the cursor is incomplete and cannot be parsed
+		const [openingFence] = prefix.split("\n", 1);
+		if (!FRONTMATTER_FENCE_REGEX.test(openingFence)) {
+			return lines.join("\n");
+		}
+
+		const before = prefix.slice(prefix.indexOf("\n") + 1);
+		const afterLines = suffix.split("\n");
+		const closingFence = afterLines.findIndex((line) => FRONTMATTER_FENCE_REGEX.test(line));
+		const after = afterLines.slice(0, closingFence === -1 ? afterLines.length : closingFence).join("\n");
+
+		while (lines.length > 0) {
+			const candidate = lines.join("\n");
+			if (candidate.trim().length > 0 && this.isValidYaml(before + candidate + after)) {
+				return candidate;
+			}
+			lines.pop();
+		}
+		return "";
+	}
+}
+
+export default ValidateFrontmatter;
@@ -0,0 +1,47 @@
+import { DEFAULT_SETTINGS } from "../../settings/versions";
+import { ApiProvider } from "../../types/llm/model";
+import { parseInfioSettings } from "../../types/settings";
+
+import Context from "./context-detection";
+import { resolveAutocompleteProfile } from "./profiles";
+
+describe("resolveAutocompleteProfile", () => {
+	const settings = {
+		...parseInfioSettings(DEFAULT_SETTINGS),
+		applyModelProvider: ApiProvider.OpenAI,
+		applyModelId: "gpt-4o-mini",
+		delay: 500,
+		autocompleteProfiles: {
+			[Context.CodeBlock]: {
+				enabled: true,
+				modelProvider: ApiProvider.Ollama,
+				modelId: "qwen2.5-coder:7b",
+				temperature: 0.2,
+			},
+			[Context.Heading]: { enabled: false, delay: 1000 },
+		},
+	};
+
+	it("should fall back to the global settings without a profile", () => {
+		expect(resolveAutocompleteProfile(settings, Context.Text)).toEqual({
+			enabled: true,
+			model: { provider: ApiProvider.OpenAI, modelId: "gpt-4o-mini" },
+			temperature: undefined,
+			maxTokens: undefined,
+			delay: 500,
+		});
+	});
+
+	it("should apply the fields set in a profile", () => {
+		expect(resolveAutocompleteProfile(settings, Context.CodeBlock)).toMatchObject({
+			model: { provider: ApiProvider.Ollama, modelId: "qwen2.5-coder:7b" },
+			temperature: 0.2,
+			delay: 500,
+		});
+		expect(resolveAutocompleteProfile(settings, Context.Heading)).toMatchObject({
+			enabled: false,
+			model: { provider: ApiProvider.OpenAI, modelId: "gpt-4o-mini" },
+			delay: 1000,
+		});
+	});
+});
@@ -0,0 +1,30 @@
+import { LLMModel } from "../../types/llm/model";
+import { InfioSettings } from "../../types/settings";
+
+import Context from "./context-detection";
+
+export type ResolvedAutocompleteProfile = {
+	enabled: boolean;
+	model: LLMModel;
+	temperature?: number;
+	maxTokens?: number;
+	delay: number;
+}
+
+/**
+ * Applies the profile configured for a context on top of the global autocomplete settings.
+ */
+export function resolveAutocompleteProfile(settings: InfioSettings, context: Context): ResolvedAutocompleteProfile {
+	const profile = settings.autocompleteProfiles[context];
+	const model: LLMModel = profile?.modelProvider !== undefined && profile.modelId
+		? { provider: profile.modelProvider, modelId: profile.modelId }
+		: { provider: settings.applyModelProvider, modelId: settings.applyModelId };
+
+	return {
+		enabled: profile?.enabled ?? true,
+		model,
+		temperature: profile?.temperature,
+		maxTokens: profile?.maxTokens,
+		delay: profile?.delay ?? settings.delay,
+	};
+}
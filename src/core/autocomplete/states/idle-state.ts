@@ -20,11 +20,11 @@ class IdleState extends State {
       return;
     }
 
-    const cachedSuggestion = this.context.getCachedSuggestionFor(documentChanges.getPrefix(), documentChanges.getSuffix());
-    const isThereCachedSuggestion = cachedSuggestion !== undefined && cachedSuggestion.trim().length > 0;
+    const cachedSuggestions = this.context.getCachedSuggestionsFor(documentChanges.getPrefix(), documentChanges.getSuffix());
+    const isThereCachedSuggestion = cachedSuggestions !== undefined && cachedSuggestions.some((suggestion) => suggestion.trim().length > 0);
 
     if (this.context.settings.cacheSuggestions && isThereCachedSuggestion) {
-      this.context.transitionToSuggestingState(cachedSuggestion, documentChanges.getPrefix(), documentChanges.getSuffix());
+      this.context.transitionToSuggestingState(cachedSuggestions, documentChanges.getPrefix(), documentChanges.getSuffix());
       return;
 
     }
@@ -22,6 +22,14 @@ class InitState implements EventHandler {
     return false;
   }
 
+  handleNextCandidateKeyPressed(): boolean {
+    return false;
+  }
+
+  handlePreviousCandidateKeyPressed(): boolean {
+    return false;
+  }
+
   handlePredictCommand(): void { }
 
   handleAcceptCommand(): void { }
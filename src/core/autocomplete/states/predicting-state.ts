@@ -78,13 +78,13 @@ class PredictingState extends State {
 			this.context.transitionToIdleState();
 		}
 
-		const prediction = result.unwrapOr("");
+		const predictions = result.unwrapOr([]);
 
-		if (prediction === "") {
+		if (predictions.length === 0) {
 			this.context.transitionToIdleState();
 			return;
 		}
-		this.context.transitionToSuggestingState(prediction, this.prefix, this.suffix);
+		this.context.transitionToSuggestingState(predictions, this.prefix, this.suffix);
 	}
 
 
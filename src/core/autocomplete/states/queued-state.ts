@@ -27,8 +27,8 @@ class QueuedState extends State {
     suffix: string
   ): QueuedState {
     const state = new QueuedState(context, prefix, suffix);
-    state.startTimer();
     context.setContext(Context.getContext(prefix, suffix));
+    state.startTimer();
     return state;
   }
 
@@ -66,7 +66,7 @@ class QueuedState extends State {
     this.cancelTimer();
     this.timer = setTimeout(() => {
       this.context.transitionToPredictingState(this.prefix, this.suffix);
-    }, this.context.settings.delay);
+    }, this.getDelay());
   }
 
   private cancelTimer(): void {
@@ -76,8 +76,12 @@ class QueuedState extends State {
     }
   }
 
+  private getDelay(): number {
+    return this.context.getProfileFor(this.context.context).delay;
+  }
+
   getStatusBarText(): string {
-    return `Queued (${this.context.settings.delay} ms)`;
+    return `Queued (${this.getDelay()} ms)`;
   }
 }
 
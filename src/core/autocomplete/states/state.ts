@@ -47,6 +47,14 @@ abstract class State implements EventHandler {
     return false;
   }
 
+  handleNextCandidateKeyPressed(): boolean {
+    return false;
+  }
+
+  handlePreviousCandidateKeyPressed(): boolean {
+    return false;
+  }
+
   handlePredictCommand(prefix: string, suffix: string): void {
   }
 
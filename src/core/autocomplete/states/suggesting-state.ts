@@ -2,19 +2,23 @@
 import EventListener from "../../../event-listener";
 import { DocumentChanges } from "../../../render-plugin/document-changes-listener";
 import { InfioSettings } from "../../../types/settings";
-import { extractNextWordAndRemaining } from "../utils";
+import { extractNextWordAndRemaining, narrowCandidates } from "../utils";
 
 import State from "./state";
 
 class SuggestingState extends State {
+  private readonly candidates: string[];
+  private readonly candidateIndex: number;
   private readonly suggestion: string;
   private readonly prefix: string;
   private readonly suffix: string;
 
 
-  constructor(context: EventListener, suggestion: string, prefix: string, suffix: string) {
+  constructor(context: EventListener, candidates: string[], candidateIndex: number, prefix: string, suffix: string) {
     super(context);
-    this.suggestion = suggestion;
+    this.candidates = candidates;
+    this.candidateIndex = candidateIndex;
+    this.suggestion = candidates[candidateIndex];
     this.prefix = prefix;
     this.suffix = suffix;
   }
@@ -51,16 +55,16 @@ class SuggestingState extends State {
 
     const currentPrefix = documentChanges.getPrefix();
     const currentSuffix = documentChanges.getSuffix();
-    const suggestion = this.context.getCachedSuggestionFor(currentPrefix, currentSuffix);
-    const isThereCachedSuggestion = suggestion !== undefined;
-    const isCachedSuggestionDifferent = suggestion !== this.suggestion;
+    const suggestions = this.context.getCachedSuggestionsFor(currentPrefix, currentSuffix);
+    const isThereCachedSuggestion = suggestions !== undefined;
+    const isCachedSuggestionDifferent = !suggestions?.includes(this.suggestion);
 
     if (!isCachedSuggestionDifferent) {
       return;
     }
 
     if (isThereCachedSuggestion) {
-      this.context.transitionToSuggestingState(suggestion, currentPrefix, currentSuffix);
+      this.context.transitionToSuggestingState(suggestions, currentPrefix, currentSuffix);
       return;
     }
     this.clearPrediction();
@@ -84,14 +88,12 @@ class SuggestingState extends State {
       return;
     }
 
-    const startIdx = addedPrefixText.length;
-    const endIdx = this.suggestion.length - addedSuffixText.length
-    const remainingSuggestion = this.suggestion.substring(startIdx, endIdx);
+    const remaining = narrowCandidates(this.candidates, this.candidateIndex, addedPrefixText, addedSuffixText);
 
-    if (remainingSuggestion.trim() === "") {
+    if (remaining.index === -1) {
       this.clearPrediction();
     } else {
-      this.context.transitionToSuggestingState(remainingSuggestion, documentChanges.getPrefix(), documentChanges.getSuffix());
+      this.context.transitionToSuggestingState(remaining.candidates, documentChanges.getPrefix(), documentChanges.getSuffix(), true, remaining.index);
     }
   }
 
@@ -120,10 +122,13 @@ class SuggestingState extends State {
 
     if (nextWord !== undefined && remaining !== undefined) {
       const updatedPrefix = this.prefix + nextWord;
+      // keep the other candidates that start with the accepted word so they can still be cycled
+      const otherCandidates = narrowCandidates(this.candidates, this.candidateIndex, nextWord, "");
+      const remainingCandidates = otherCandidates.index === -1 ? [remaining] : otherCandidates.candidates;
 
       this.addPartialSuggestionCaches(nextWord, remaining);
       this.context.insertCurrentSuggestion(nextWord);
-      this.context.transitionToSuggestingState(remaining, updatedPrefix, this.suffix, false);
+      this.context.transitionToSuggestingState(remainingCandidates, updatedPrefix, this.suffix, false, Math.max(otherCandidates.index, 0));
     } else {
       this.accept();
     }
@@ -135,7 +140,7 @@ class SuggestingState extends State {
     for (let i = 0; i < acceptSuggestion.length; i++) {
       const prefix = this.prefix + acceptSuggestion.substring(0, i);
       const suggestion = acceptSuggestion.substring(i) + remainingSuggestion;
-      this.context.addSuggestionToCache(prefix, this.suffix, suggestion);
+      this.context.addSuggestionsToCache(prefix, this.suffix, [suggestion]);
     }
   }
 
@@ -158,11 +163,31 @@ class SuggestingState extends State {
     return true;
   }
 
+  handleNextCandidateKeyPressed(): boolean {
+    return this.showCandidate(this.candidateIndex + 1);
+  }
+
+  handlePreviousCandidateKeyPressed(): boolean {
+    return this.showCandidate(this.candidateIndex - 1);
+  }
+
+  private showCandidate(index: number): boolean {
+    const count = this.candidates.length;
+    if (count <= 1) {
+      return false;
+    }
+    this.context.transitionToSuggestingState(this.candidates, this.prefix, this.suffix, false, (index + count) % count);
+    return true;
+  }
+
   handleAcceptCommand() {
     this.accept();
   }
 
   getStatusBarText(): string {
+    if (this.candidates.length > 1) {
+      return `Suggesting for ${this.context.context} (${this.candidateIndex + 1}/${this.candidates.length})`;
+    }
     return `Suggesting for ${this.context.context}`;
   }
 
@@ -15,6 +15,10 @@ export type EventHandler = {
 
   handleCancelKeyPressed(): boolean;
 
+  handleNextCandidateKeyPressed(): boolean;
+
+  handlePreviousCandidateKeyPressed(): boolean;
+
   handlePredictCommand(prefix: string, suffix: string): void;
   handleAcceptCommand(): void;
 
@@ -6,7 +6,7 @@ export type AutocompleteService = {
   fetchPredictions(
     prefix: string,
     suffix: string
-  ): Promise<Result<string, Error>>;
+  ): Promise<Result<string[], Error>>;
 }
 
 export type PostProcessor = {
@@ -23,6 +23,10 @@ export type PreProcessor = {
   removesCursor(prefix: string, suffix: string): boolean;
 }
 
+export type ContextRetriever = {
+  retrieve(prefix: string, suffix: string, tokenBudget: number): Promise<string>;
+}
+
 export type PrefixAndSuffix = {
   prefix: string;
   suffix: string;
@@ -0,0 +1,26 @@
+import { dedupeCandidates, narrowCandidates } from "./utils";
+
+describe("dedupeCandidates", () => {
+  it("should drop empty candidates and candidates that only differ in whitespace", () => {
+    expect(dedupeCandidates([" the cat", "the  cat", "", "a dog", "  ", "a dog\n"])).toEqual([
+      " the cat",
+      "a dog",
+    ]);
+  });
+});
+
+describe("narrowCandidates", () => {
+  it("should keep the candidates matching the typed text and follow the shown one", () => {
+    expect(narrowCandidates(["fox jumps", "fish swims", "for now"], 2, "fo", "")).toEqual({
+      candidates: ["x jumps", "r now"],
+      index: 1,
+    });
+  });
+
+  it("should report when the shown candidate has been typed out", () => {
+    expect(narrowCandidates(["cat", "cats and dogs"], 0, "cat", "")).toEqual({
+      candidates: ["s and dogs"],
+      index: -1,
+    });
+  });
+});
@@ -66,3 +66,52 @@ export function extractNextWordAndRemaining(suggestion: string): [string | undef
 
   return [nextWord ? leadingWhitespaces + nextWord : undefined, remaining];
 }
+
+export function dedupeCandidates(candidates: string[]): string[] {
+  const seen = new Set<string>();
+  return candidates.filter((candidate) => {
+    const key = candidate.trim().replace(/\s+/g, " ");
+    if (key.length === 0 || seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Keeps the candidates the user is typing through and trims the typed text off them.
+ * The returned index points at the remainder of the candidate that was shown,
+ * or is -1 when that candidate has been typed out completely.
+ */
+export function narrowCandidates(
+  candidates: string[],
+  index: number,
+  addedPrefix: string,
+  addedSuffix: string
+): { candidates: string[]; index: number } {
+  const remaining: string[] = [];
+  let remainingIndex = -1;
+
+  candidates.forEach((candidate, i) => {
+    const lowerCandidate = candidate.toLowerCase();
+    if (
+      candidate.length < addedPrefix.length + addedSuffix.length
+      || !lowerCandidate.startsWith(addedPrefix.toLowerCase())
+      || !lowerCandidate.endsWith(addedSuffix.toLowerCase())
+    ) {
+      return;
+    }
+
+    const rest = candidate.substring(addedPrefix.length, candidate.length - addedSuffix.length);
+    if (rest.trim() === "") {
+      return;
+    }
+    if (i === index) {
+      remainingIndex = remaining.length;
+    }
+    remaining.push(rest);
+  });
+
+  return { candidates: remaining, index: remainingIndex };
+}
@@ -0,0 +1,38 @@
+import { VaultContextSnippet, getCurrentParagraph, getParagraphKey, packContextSnippets } from "./vault-context";
+
+describe("getCurrentParagraph", () => {
+  it("should return the paragraph around the cursor", () => {
+    expect(getCurrentParagraph("# Title\n\nFirst line\nsecond ", "half.\n\nNext paragraph")).toBe(
+      "First line\nsecond half."
+    );
+  });
+});
+
+describe("getParagraphKey", () => {
+  it("should stay the same while a word is typed and change in steps of words", () => {
+    expect(getParagraphKey("The quick bro")).toBe("the quick");
+    expect(getParagraphKey("The  quick brown")).toBe("the quick");
+    expect(getParagraphKey("The quick brown ")).toBe("the quick brown");
+
+    const words = Array.from({ length: 40 }, (_, index) => `w${index}`);
+    expect(getParagraphKey(words.slice(0, 11).join(" "))).toBe(words.slice(0, 8).join(" "));
+    expect(getParagraphKey(words.slice(0, 15).join(" "))).toBe(words.slice(0, 8).join(" "));
+    expect(getParagraphKey(words.join(" "))).toBe(words.slice(0, 32).join(" "));
+  });
+});
+
+describe("packContextSnippets", () => {
+  const countChars = (text: string) => Promise.resolve(text.length);
+
+  it("should interleave sources and skip snippets that do not fit the budget", async () => {
+    const snippets: VaultContextSnippet[] = [
+      { source: "link", path: "a.md", content: "alpha" },
+      { source: "link", path: "b.md", content: "a much longer excerpt that will not fit" },
+      { source: "semantic", path: "c.md", content: "gamma" },
+    ];
+
+    expect(await packContextSnippets(snippets, 50, countChars)).toBe(
+      "## a.md (link)\nalpha\n\n## c.md (semantic)\ngamma"
+    );
+  });
+});
@@ -0,0 +1,209 @@
+import { LRUCache } from "lru-cache";
+import { App, TFile, getLinkpath } from "obsidian";
+
+import { tokenCount } from "../../utils/token";
+import { RAGEngine } from "../rag/rag-engine";
+
+import { ContextRetriever } from "./types";
+
+const MAX_SNIPPETS_PER_SOURCE = 3;
+const MAX_SNIPPET_CHARS = 600;
+const CACHE_TTL_MS = 1000 * 60 * 5;
+const MAX_N_ITEMS_IN_CACHE = 200;
+// the paragraph key grows in steps of this many words, up to the maximum
+const PARAGRAPH_KEY_WORD_STEP = 8;
+const MAX_PARAGRAPH_KEY_WORDS = 32;
+
+export type VaultContextSnippet = {
+  source: "link" | "backlink" | "semantic";
+  path: string;
+  content: string;
+}
+
+/**
+ * Returns the paragraph around the cursor, which is what the retrieval searches for.
+ */
+export function getCurrentParagraph(prefix: string, suffix: string): string {
+  const paragraphStart = prefix.lastIndexOf("\n\n");
+  const paragraphEnd = suffix.indexOf("\n\n");
+  const before = paragraphStart === -1 ? prefix : prefix.slice(paragraphStart + 2);
+  const after = paragraphEnd === -1 ? suffix : suffix.slice(0, paragraphEnd);
+  return (before + after).trim();
+}
+
+/**
+ * Identifies the paragraph being written by its opening words, so typing
+ * reuses the retrieval for it. The word under the cursor is left out, and
+ * past the first few words the key only changes every few words.
+ */
+export function getParagraphKey(paragraph: string): string {
+  const words = paragraph.toLowerCase().split(/\s+/).filter((word) => word.length > 0);
+  if (!/\s$/.test(paragraph)) {
+    words.pop();
+  }
+  const count = words.length < PARAGRAPH_KEY_WORD_STEP
+    ? words.length
+    : Math.min(words.length - words.length % PARAGRAPH_KEY_WORD_STEP, MAX_PARAGRAPH_KEY_WORDS);
+  return words.slice(0, count).join(" ");
+}
+
+/**
+ * Interleaves the sources so each one gets a share of the budget, then adds
+ * snippets in that order for as long as they fit.
+ */
+export async function packContextSnippets(
+  snippets: VaultContextSnippet[],
+  tokenBudget: number,
+  countTokens: (text: string) => Promise<number>
+): Promise<string> {
+  const bySource = new Map<VaultContextSnippet["source"], VaultContextSnippet[]>();
+  for (const snippet of snippets) {
+    bySource.set(snippet.source, [...(bySource.get(snippet.source) ?? []), snippet]);
+  }
+  const queues = Array.from(bySource.values());
+  const interleaved: VaultContextSnippet[] = [];
+  for (let i = 0; queues.some((queue) => i < queue.length); i++) {
+    for (const queue of queues) {
+      if (i < queue.length) {
+        interleaved.push(queue[i]);
+      }
+    }
+  }
+
+  const sections: string[] = [];
+  let remaining = tokenBudget;
+  for (const snippet of interleaved) {
+    const section = `## ${snippet.path} (${snippet.source})\n${snippet.content.trim()}`;
+    const tokens = await countTokens(section);
+    if (tokens > remaining) {
+      continue;
+    }
+    sections.push(section);
+    remaining -= tokens;
+  }
+  return sections.join("\n\n");
+}
+
+/**
+ * Collects context for the paragraph being written from the notes it links to,
+ * the notes linking to it and the closest chunks in the vector index.
+ */
+export class VaultContextRetriever implements ContextRetriever {
+  private readonly app: App;
+  private readonly getRAGEngine: () => Promise<RAGEngine>;
+  private readonly getCurrentFile: () => TFile | null;
+  private readonly cache = new LRUCache<string, Promise<string>>({ max: MAX_N_ITEMS_IN_CACHE, ttl: CACHE_TTL_MS });
+  // only the paragraph being written matters, an older retrieval is aborted when another one starts
+  private inFlight: AbortController | null = null;
+
+  constructor(app: App, getRAGEngine: () => Promise<RAGEngine>, getCurrentFile: () => TFile | null) {
+    this.app = app;
+    this.getRAGEngine = getRAGEngine;
+    this.getCurrentFile = getCurrentFile;
+  }
+
+  retrieve(prefix: string, suffix: string, tokenBudget: number): Promise<string> {
+    const file = this.getCurrentFile();
+    const paragraph = getCurrentParagraph(prefix, suffix);
+    if (file === null || paragraph.length === 0) {
+      return Promise.resolve("");
+    }
+
+    const key = `${file.path}\u0000${tokenBudget}\u0000${getParagraphKey(paragraph)}`;
+    const cached = this.cache.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    this.inFlight?.abort();
+    const controller = new AbortController();
+    this.inFlight = controller;
+    const retrieval = this.collectSnippets(file, paragraph, controller.signal)
+      .then((snippets) => packContextSnippets(snippets, tokenBudget, tokenCount))
+      .finally(() => {
+        if (this.inFlight === controller) {
+          this.inFlight = null;
+        }
+      });
+    this.cache.set(key, retrieval);
+    retrieval.catch(() => this.cache.delete(key));
+    return retrieval;
+  }
+
+  private async collectSnippets(file: TFile, paragraph: string, signal: AbortSignal): Promise<VaultContextSnippet[]> {
+    const results = await Promise.allSettled([
+      this.getLinkedSnippets(file),
+      this.getBacklinkSnippets(file),
+      this.getSemanticSnippets(file, paragraph, signal),
+    ]);
+    signal.throwIfAborted();
+    return results.flatMap((result) => result.status === "fulfilled" ? result.value : []);
+  }
+
+  private async getLinkedSnippets(file: TFile): Promise<VaultContextSnippet[]> {
+    const links = this.app.metadataCache.getFileCache(file)?.links ?? [];
+    const targets = new Map<string, TFile>();
+    for (const link of links) {
+      const target = this.app.metadataCache.getFirstLinkpathDest(getLinkpath(link.link), file.path);
+      if (target && target.path !== file.path && target.extension === "md") {
+        targets.set(target.path, target);
+      }
+      if (targets.size >= MAX_SNIPPETS_PER_SOURCE) {
+        break;
+      }
+    }
+
+    return Promise.all(Array.from(targets.values()).map(async (target) => {
+      const content = await this.app.vault.cachedRead(target);
+      const bodyStart = this.app.metadataCache.getFileCache(target)?.frontmatterPosition?.end.offset ?? 0;
+      return {
+        source: "link" as const,
+        path: target.path,
+        content: content.slice(bodyStart).trim().slice(0, MAX_SNIPPET_CHARS),
+      };
+    }));
+  }
+
+  private async getBacklinkSnippets(file: TFile): Promise<VaultContextSnippet[]> {
+    const sources = Object.entries(this.app.metadataCache.resolvedLinks)
+      .filter(([sourcePath, links]) => sourcePath !== file.path && links[file.path] !== undefined)
+      .slice(0, MAX_SNIPPETS_PER_SOURCE)
+      .map(([sourcePath]) => this.app.vault.getFileByPath(sourcePath))
+      .filter((source): source is TFile => source !== null);
+
+    return Promise.all(sources.map(async (source) => {
+      const lines = (await this.app.vault.cachedRead(source)).split("\n");
+      // keep only the lines that mention the current note
+      const mentions = (this.app.metadataCache.getFileCache(source)?.links ?? [])
+        .filter((link) => this.app.metadataCache.getFirstLinkpathDest(getLinkpath(link.link), source.path)?.path === file.path)
+        .map((link) => lines[link.position.start.line]?.trim() ?? "")
+        .filter((line) => line.length > 0);
+      return {
+        source: "backlink" as const,
+        path: source.path,
+        content: Array.from(new Set(mentions)).join("\n").slice(0, MAX_SNIPPET_CHARS),
+      };
+    }));
+  }
+
+  private async getSemanticSnippets(file: TFile, paragraph: string, signal: AbortSignal): Promise<VaultContextSnippet[]> {
+    const ragEngine = await this.getRAGEngine();
+    // the embedding request is the slow part, skip it when the paragraph is no longer written
+    signal.throwIfAborted();
+    // reranking on the CPU takes longer than the autocomplete waits for context
+    const results = await ragEngine.processQuery({
+      query: paragraph,
+      limit: MAX_SNIPPETS_PER_SOURCE * 2,
+      expandQuery: false,
+      rerank: false,
+    });
+    return results
+      .filter((result) => result.path !== file.path)
+      .slice(0, MAX_SNIPPETS_PER_SOURCE)
+      .map((result) => ({
+        source: "semantic" as const,
+        path: result.path,
+        content: result.content.slice(0, MAX_SNIPPET_CHARS),
+      }));
+  }
+}
@@ -0,0 +1,23 @@
+import { completeWikiLink } from "./wikilink";
+
+describe("completeWikiLink", () => {
+	const titles = ["Graph theory", "Graphs", "Graph coloring", "Sorting", "Graphs"];
+
+	it("should complete the open link with matching titles, shortest first", () => {
+		expect(completeWikiLink("See [[gra", "", titles, 5)).toEqual(["phs]]", "ph theory]]", "ph coloring]]"]);
+	});
+
+	it("should not close a link that is already closed", () => {
+		expect(completeWikiLink("See [[Sor", "]] for details", titles, 5)).toEqual(["ting"]);
+	});
+
+	it("should respect the limit", () => {
+		expect(completeWikiLink("[[Graph", "", titles, 1)).toEqual(["s]]"]);
+	});
+
+	it("should not complete empty queries, aliases or headings", () => {
+		expect(completeWikiLink("[[", "", titles, 5)).toEqual([]);
+		expect(completeWikiLink("[[Graphs|gra", "", titles, 5)).toEqual([]);
+		expect(completeWikiLink("[[Graphs#Def", "", titles, 5)).toEqual([]);
+	});
+});
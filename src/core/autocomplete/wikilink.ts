@@ -0,0 +1,26 @@
+const OPEN_WIKILINK_REGEX = /\[\[([^\]\n]*)$/;
+
+/**
+ * Completes the wikilink that is open at the cursor with the titles of notes in the vault.
+ * Returns the text to insert for each matching title, shortest titles first.
+ */
+export function completeWikiLink(
+	prefix: string,
+	suffix: string,
+	titles: string[],
+	limit: number
+): string[] {
+	const query = OPEN_WIKILINK_REGEX.exec(prefix)?.[1];
+	// aliases and heading links refer to the text after the title, which we cannot complete
+	if (!query || query.includes("|") || query.includes("#")) {
+		return [];
+	}
+
+	const closing = suffix.startsWith("]]") ? "" : "]]";
+	const normalizedQuery = query.toLowerCase();
+	return [...new Set(titles)]
+		.filter((title) => title.length > query.length && title.toLowerCase().startsWith(normalizedQuery))
+		.sort((a, b) => a.length - b.length || a.localeCompare(b))
+		.slice(0, limit)
+		.map((title) => title.slice(query.length) + closing);
+}
@@ -0,0 +1,86 @@
+import {
+	FallbackDiffStrategy,
+	formatDiffStrategyRules,
+	matchModelPattern,
+	parseDiffStrategyRules,
+	selectDiffStrategies,
+} from './DiffStrategy'
+import { DiffResult, DiffStrategy } from './types'
+
+const stubStrategy = (name: string, result: DiffResult): DiffStrategy => ({
+	getName: () => name,
+	getToolDescription: () => '',
+	applyDiff: jest.fn(async () => result),
+})
+
+describe('matchModelPattern', () => {
+	it('should match globs and substrings case-insensitively', () => {
+		expect(matchModelPattern('claude-*', 'Claude-3-5-Sonnet')).toBe(true)
+		expect(matchModelPattern('*-mini', 'gpt-4o-mini')).toBe(true)
+		expect(matchModelPattern('gpt-4o', 'openai/gpt-4o-mini')).toBe(true)
+		expect(matchModelPattern('gpt-*', 'openai/gpt-4o')).toBe(false)
+		expect(matchModelPattern('', 'gpt-4o')).toBe(false)
+	})
+})
+
+describe('parseDiffStrategyRules', () => {
+	it('should parse one rule per line and skip invalid ones', () => {
+		const rules = parseDiffStrategyRules('llama3:8b = unified, new-unified\nclaude-* = search-replace\ngpt-4o = patch\n\n')
+		expect(rules).toEqual([
+			{ modelPattern: 'llama3:8b', strategy: 'unified', fallback: 'new-unified' },
+			{ modelPattern: 'claude-*', strategy: 'search-replace' },
+		])
+		expect(parseDiffStrategyRules(formatDiffStrategyRules(rules))).toEqual(rules)
+	})
+})
+
+describe('selectDiffStrategies', () => {
+	it('should use the first matching rule', () => {
+		const rules = [
+			{ modelPattern: 'deepseek', strategy: 'unified' as const },
+			{ modelPattern: '*', strategy: 'search-replace' as const, fallback: 'search-replace' as const },
+		]
+		expect(selectDiffStrategies('deepseek-chat', rules, false, true)).toEqual({
+			primary: 'unified',
+			fallback: 'new-unified',
+		})
+		expect(selectDiffStrategies('gpt-4o', rules, false, true)).toEqual({
+			primary: 'search-replace',
+			fallback: 'search-replace',
+		})
+	})
+
+	it('should fall back to the global diff settings', () => {
+		expect(selectDiffStrategies('gpt-4o', [], false, true).primary).toBe('multi-search-replace')
+		expect(selectDiffStrategies('gpt-4o', [], false, false).primary).toBe('search-replace')
+		expect(selectDiffStrategies('gpt-4o', [], true, true).primary).toBe('new-unified')
+	})
+})
+
+describe('FallbackDiffStrategy', () => {
+	it('should retry with the fallback and record both attempts', async () => {
+		const stats = { record: jest.fn(async () => undefined) }
+		const strategy = new FallbackDiffStrategy(
+			stubStrategy('Primary', { success: false, error: 'no match' }),
+			stubStrategy('Fallback', { success: true, content: 'patched' }),
+			'gpt-4o',
+			stats,
+		)
+
+		expect(await strategy.applyDiff('original', 'diff')).toEqual({ success: true, content: 'patched' })
+		expect(stats.record.mock.calls).toEqual([
+			['gpt-4o', 'Primary', false],
+			['gpt-4o', 'Fallback', true],
+		])
+	})
+
+	it('should keep the primary error when the fallback fails too', async () => {
+		const strategy = new FallbackDiffStrategy(
+			stubStrategy('Primary', { success: false, error: 'no match' }),
+			stubStrategy('Fallback', { success: false, error: 'invalid format' }),
+			'gpt-4o',
+		)
+
+		expect(await strategy.applyDiff('original', 'diff')).toEqual({ success: false, error: 'no match' })
+	})
+})
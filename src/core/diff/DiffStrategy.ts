@@ -1,13 +1,156 @@
 import { App } from "obsidian"
 
+import { DIFF_STRATEGY_NAMES, DiffStrategyName, DiffStrategyRule } from "../../types/settings"
+
+import { DiffStrategyStats } from "./DiffStrategyStats"
 import { MultiSearchReplaceDiffStrategy } from "./strategies/multi-search-replace"
 import { NewUnifiedDiffStrategy } from "./strategies/new-unified"
 import { SearchReplaceDiffStrategy } from "./strategies/search-replace"
 import { UnifiedDiffStrategy } from "./strategies/unified"
-import type { DiffStrategy } from "./types"
+import type { DiffResult, DiffStrategy } from "./types"
+
+// The fallback must accept the diff format the model was told to use
+const DEFAULT_FALLBACKS: Record<DiffStrategyName, DiffStrategyName> = {
+	"multi-search-replace": "search-replace",
+	"search-replace": "multi-search-replace",
+	"unified": "new-unified",
+	"new-unified": "unified",
+}
+
+/**
+ * Matches a model id against a rule pattern, case-insensitively.
+ * `*` matches any characters, a pattern without `*` matches as a substring.
+ */
+export function matchModelPattern(pattern: string, model: string): boolean {
+	const trimmed = pattern.trim().toLowerCase()
+	if (trimmed === "") {
+		return false
+	}
+	if (!trimmed.includes("*")) {
+		return model.toLowerCase().includes(trimmed)
+	}
+	const source = trimmed
+		.split("*")
+		.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+		.join(".*")
+	return new RegExp(`^${source}$`).test(model.toLowerCase())
+}
+
+const isDiffStrategyName = (value: string): value is DiffStrategyName =>
+	DIFF_STRATEGY_NAMES.some((name) => name === value)
+
+/**
+ * Parses the rules text edited in settings, one `pattern = strategy[, fallback]`
+ * rule per line. Lines that do not name known strategies are skipped.
+ */
+export function parseDiffStrategyRules(text: string): DiffStrategyRule[] {
+	const rules: DiffStrategyRule[] = []
+	for (const line of text.split("\n")) {
+		const separator = line.lastIndexOf("=")
+		if (separator === -1) {
+			continue
+		}
+		const modelPattern = line.slice(0, separator).trim()
+		const [strategy, fallback] = line.slice(separator + 1).split(",").map((part) => part.trim())
+		if (modelPattern === "" || !isDiffStrategyName(strategy)) {
+			continue
+		}
+		rules.push(fallback && isDiffStrategyName(fallback) ? { modelPattern, strategy, fallback } : { modelPattern, strategy })
+	}
+	return rules
+}
+
+export function formatDiffStrategyRules(rules: DiffStrategyRule[]): string {
+	return rules
+		.map((rule) => `${rule.modelPattern} = ${rule.strategy}${rule.fallback ? `, ${rule.fallback}` : ""}`)
+		.join("\n")
+}
+
+/**
+ * Resolves the primary and fallback strategy for a model. Rules are checked in
+ * order, models without a matching rule use the global diff settings.
+ */
+export function selectDiffStrategies(
+	model: string,
+	rules: DiffStrategyRule[],
+	experimentalDiffStrategy: boolean,
+	multiSearchReplaceDiffStrategy: boolean,
+): { primary: DiffStrategyName; fallback: DiffStrategyName } {
+	const rule = rules.find((rule) => matchModelPattern(rule.modelPattern, model))
+	if (rule) {
+		return { primary: rule.strategy, fallback: rule.fallback ?? DEFAULT_FALLBACKS[rule.strategy] }
+	}
+	const primary: DiffStrategyName = experimentalDiffStrategy
+		? "new-unified"
+		: multiSearchReplaceDiffStrategy
+			? "multi-search-replace"
+			: "search-replace"
+	return { primary, fallback: DEFAULT_FALLBACKS[primary] }
+}
+
+function createDiffStrategy(name: DiffStrategyName, app: App, fuzzyMatchThreshold?: number): DiffStrategy {
+	switch (name) {
+		case "new-unified":
+			return new NewUnifiedDiffStrategy(app, fuzzyMatchThreshold)
+		case "unified":
+			return new UnifiedDiffStrategy()
+		case "search-replace":
+			return new SearchReplaceDiffStrategy(fuzzyMatchThreshold)
+		case "multi-search-replace":
+			return new MultiSearchReplaceDiffStrategy(fuzzyMatchThreshold)
+	}
+}
+
+/**
+ * Applies diffs with the primary strategy and retries failures with the
+ * fallback. Prompts always describe the primary strategy's format.
+ */
+export class FallbackDiffStrategy implements DiffStrategy {
+	private primary: DiffStrategy
+	private fallback: DiffStrategy | null
+	private model: string
+	private stats?: Pick<DiffStrategyStats, "record">
+
+	constructor(
+		primary: DiffStrategy,
+		fallback: DiffStrategy | null,
+		model: string,
+		stats?: Pick<DiffStrategyStats, "record">,
+	) {
+		this.primary = primary
+		this.fallback = fallback
+		this.model = model
+		this.stats = stats
+	}
+
+	getName(): string {
+		return this.primary.getName()
+	}
+
+	getToolDescription(args: { cwd: string; toolOptions?: { [key: string]: string } }): string {
+		return this.primary.getToolDescription(args)
+	}
+
+	async applyDiff(originalContent: string, diffContent: string, startLine?: number, endLine?: number): Promise<DiffResult> {
+		const result = await this.primary.applyDiff(originalContent, diffContent, startLine, endLine)
+		void this.stats?.record(this.model, this.primary.getName(), result.success)
+		if (result.success || !this.fallback) {
+			return result
+		}
+
+		const retried = await this.fallback.applyDiff(originalContent, diffContent, startLine, endLine)
+		void this.stats?.record(this.model, this.fallback.getName(), retried.success)
+		// The primary error explains the format the model was asked to follow
+		return retried.success ? retried : result
+	}
+}
+
 /**
  * Get the appropriate diff strategy for the given model
  * @param model The name of the model being used (e.g., 'gpt-4', 'claude-3-opus')
+ * @param modelStrategies Per-model rules, they take precedence over the global flags
+ * @param retryWithFallback Whether failed diffs are retried with the fallback strategy
+ * @param stats Optional recorder for per-strategy success rates
  * @returns The appropriate diff strategy for the model
  */
 export function getDiffStrategy(
@@ -16,18 +159,23 @@ export function getDiffStrategy(
 	fuzzyMatchThreshold?: number,
 	experimentalDiffStrategy: boolean = false,
 	multiSearchReplaceDiffStrategy: boolean = false,
+	modelStrategies: DiffStrategyRule[] = [],
+	retryWithFallback: boolean = true,
+	stats?: DiffStrategyStats,
 ): DiffStrategy {
-	// if (experimentalDiffStrategy) {
-	// 	return new NewUnifiedDiffStrategy(app, fuzzyMatchThreshold)
-	// }
-
-	// if (multiSearchReplaceDiffStrategy) {
-	// 	return new MultiSearchReplaceDiffStrategy(fuzzyMatchThreshold)
-	// } else {
-	// 	return new SearchReplaceDiffStrategy(fuzzyMatchThreshold)
-	// }
-	return new MultiSearchReplaceDiffStrategy(0.9)
+	const { primary, fallback } = selectDiffStrategies(
+		model,
+		modelStrategies,
+		experimentalDiffStrategy,
+		multiSearchReplaceDiffStrategy,
+	)
+	return new FallbackDiffStrategy(
+		createDiffStrategy(primary, app, fuzzyMatchThreshold),
+		retryWithFallback && fallback !== primary ? createDiffStrategy(fallback, app, fuzzyMatchThreshold) : null,
+		model,
+		stats,
+	)
 }
 
-export { SearchReplaceDiffStrategy, UnifiedDiffStrategy }
+export { MultiSearchReplaceDiffStrategy, NewUnifiedDiffStrategy, SearchReplaceDiffStrategy, UnifiedDiffStrategy }
 export type { DiffStrategy }
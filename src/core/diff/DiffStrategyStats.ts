@@ -0,0 +1,91 @@
+import { App, normalizePath } from "obsidian"
+
+import { ROOT_DIR } from "../../database/json/constants"
+
+const STATS_FILE = "diff_strategy_stats.json"
+
+export type DiffStrategyStat = {
+	model: string
+	strategy: string
+	attempts: number
+	successes: number
+}
+
+/**
+ * Success counts of each diff strategy per chat model, persisted next to the
+ * JSON database so they survive restarts.
+ */
+export class DiffStrategyStats {
+	private app: App
+	private filePath: string
+	private stats: DiffStrategyStat[] | null = null
+	// Serializes writes, concurrent read-modify-write cycles would drop counts
+	private queue: Promise<void> = Promise.resolve()
+
+	constructor(app: App) {
+		this.app = app
+		this.filePath = normalizePath(`${ROOT_DIR}/${STATS_FILE}`)
+	}
+
+	async getStats(): Promise<DiffStrategyStat[]> {
+		if (this.stats === null) {
+			this.stats = await this.readStats()
+		}
+		return this.stats
+	}
+
+	record(model: string, strategy: string, success: boolean): Promise<void> {
+		this.queue = this.queue.then(async () => {
+			const stats = await this.getStats()
+			let stat = stats.find((entry) => entry.model === model && entry.strategy === strategy)
+			if (!stat) {
+				stat = { model, strategy, attempts: 0, successes: 0 }
+				stats.push(stat)
+			}
+			stat.attempts++
+			if (success) {
+				stat.successes++
+			}
+			await this.writeStats(stats)
+		}).catch((error) => {
+			console.error("Failed to record diff strategy stats:", error)
+		})
+		return this.queue
+	}
+
+	reset(): Promise<void> {
+		this.queue = this.queue.then(async () => {
+			this.stats = []
+			await this.writeStats(this.stats)
+		})
+		return this.queue
+	}
+
+	private async readStats(): Promise<DiffStrategyStat[]> {
+		if (!(await this.app.vault.adapter.exists(this.filePath))) {
+			return []
+		}
+		try {
+			const parsed: unknown = JSON.parse(await this.app.vault.adapter.read(this.filePath))
+			return Array.isArray(parsed) ? parsed.filter(isDiffStrategyStat) : []
+		} catch (error) {
+			console.error("Failed to read diff strategy stats:", error)
+			return []
+		}
+	}
+
+	private async writeStats(stats: DiffStrategyStat[]): Promise<void> {
+		if (!(await this.app.vault.adapter.exists(ROOT_DIR))) {
+			await this.app.vault.adapter.mkdir(ROOT_DIR)
+		}
+		await this.app.vault.adapter.write(this.filePath, JSON.stringify(stats, null, 2))
+	}
+}
+
+function isDiffStrategyStat(value: unknown): value is DiffStrategyStat {
+	return typeof value === "object" && value !== null
+		&& "model" in value && typeof value.model === "string"
+		&& "strategy" in value && typeof value.strategy === "string"
+		&& "attempts" in value && typeof value.attempts === "number"
+		&& "successes" in value && typeof value.successes === "number"
+}
@@ -4,6 +4,9 @@ import {
   MessageParam,
   MessageStreamEvent,
   TextBlockParam,
+  Tool,
+  ToolResultBlockParam,
+  ToolUseBlockParam,
 } from '@anthropic-ai/sdk/resources/messages'
 
 import { LLMModel } from '../../types/llm/model'
@@ -12,6 +15,8 @@ import {
   LLMRequestNonStreaming,
   LLMRequestStreaming,
   RequestMessage,
+  ToolCall,
+  ToolDefinition,
 } from '../../types/llm/request'
 import {
   LLMResponseNonStreaming,
@@ -54,11 +59,9 @@ export class AnthropicProvider implements BaseLLMProvider {
       const response = await this.client.messages.create(
         {
           model: request.model,
-          messages: request.messages
-            .filter((m) => m.role !== 'system')
-            .filter((m) => !AnthropicProvider.isMessageEmpty(m))
-            .map((m) => AnthropicProvider.parseRequestMessage(m)),
+          messages: AnthropicProvider.parseRequestMessages(request.messages),
           system: systemMessage,
+          tools: AnthropicProvider.parseTools(request.tools),
           max_tokens:
             request.max_tokens ?? AnthropicProvider.DEFAULT_MAX_TOKENS,
           temperature: request.temperature,
@@ -100,11 +103,9 @@ export class AnthropicProvider implements BaseLLMProvider {
       const stream = await this.client.messages.create(
         {
           model: request.model,
-          messages: request.messages
-            .filter((m) => m.role !== 'system')
-            .filter((m) => !AnthropicProvider.isMessageEmpty(m))
-            .map((m) => AnthropicProvider.parseRequestMessage(m)),
+          messages: AnthropicProvider.parseRequestMessages(request.messages),
           system: systemMessage,
+          tools: AnthropicProvider.parseTools(request.tools),
           max_tokens:
             request.max_tokens ?? AnthropicProvider.DEFAULT_MAX_TOKENS,
           temperature: request.temperature,
@@ -125,6 +126,8 @@ export class AnthropicProvider implements BaseLLMProvider {
           completion_tokens: 0,
           total_tokens: 0,
         }
+        // Index of the tool_use block being streamed, in OpenAI tool_calls numbering
+        let toolCallIndex = -1
 
         for await (const chunk of stream) {
           if (chunk.type === 'message_start') {
@@ -137,11 +140,23 @@ export class AnthropicProvider implements BaseLLMProvider {
                 chunk.message.usage.input_tokens +
                 chunk.message.usage.output_tokens,
             }
+          } else if (
+            chunk.type === 'content_block_start' &&
+            chunk.content_block.type === 'tool_use'
+          ) {
+            toolCallIndex++
+            yield AnthropicProvider.parseStreamingResponseChunk(
+              chunk,
+              messageId,
+              model,
+              toolCallIndex,
+            )
           } else if (chunk.type === 'content_block_delta') {
             yield AnthropicProvider.parseStreamingResponseChunk(
               chunk,
               messageId,
               model,
+              toolCallIndex,
             )
           } else if (chunk.type === 'message_delta') {
             usage = {
@@ -175,6 +190,46 @@ export class AnthropicProvider implements BaseLLMProvider {
     }
   }
 
+  // Tool results are sent back as tool_result blocks of a single user turn
+  static parseRequestMessages(messages: RequestMessage[]): MessageParam[] {
+    const result: MessageParam[] = []
+    for (const message of messages) {
+      if (message.role === 'system' || AnthropicProvider.isMessageEmpty(message)) {
+        continue
+      }
+      if (message.role === 'tool') {
+        const toolResult: ToolResultBlockParam = {
+          type: 'tool_result',
+          tool_use_id: message.tool_call_id,
+          content: message.content,
+        }
+        const last = result[result.length - 1]
+        if (last?.role === 'user' && Array.isArray(last.content)) {
+          last.content.push(toolResult)
+        } else {
+          result.push({ role: 'user', content: [toolResult] })
+        }
+        continue
+      }
+      result.push(AnthropicProvider.parseRequestMessage(message))
+    }
+    return result
+  }
+
+  static parseTools(tools?: ToolDefinition[]): Tool[] | undefined {
+    if (!tools?.length) {
+      return undefined
+    }
+    return tools.map((tool) => ({
+      name: tool.function.name,
+      description: tool.function.description,
+      input_schema: {
+        ...tool.function.parameters,
+        type: 'object',
+      },
+    }))
+  }
+
   static parseRequestMessage(message: RequestMessage): MessageParam {
     if (message.role !== 'user' && message.role !== 'assistant') {
       throw new Error(`Anthropic does not support role: ${message.role}`)
@@ -207,17 +262,54 @@ export class AnthropicProvider implements BaseLLMProvider {
       return { role: 'user', content }
     }
 
+    if (message.role === 'assistant' && message.tool_calls?.length) {
+      const content: (TextBlockParam | ToolUseBlockParam)[] = []
+      if (typeof message.content === 'string' && message.content.trim() !== '') {
+        content.push({ type: 'text', text: message.content })
+      }
+      for (const toolCall of message.tool_calls) {
+        content.push({
+          type: 'tool_use',
+          id: toolCall.id,
+          name: toolCall.function.name,
+          input: AnthropicProvider.parseToolInput(toolCall.function.arguments),
+        })
+      }
+      return { role: 'assistant', content }
+    }
+
     return {
       role: message.role,
       content: message.content as string,
     }
   }
 
+  private static parseToolInput(args: string): unknown {
+    try {
+      return JSON.parse(args || '{}')
+    } catch {
+      return {}
+    }
+  }
+
   static parseNonStreamingResponse(
     response: Anthropic.Message,
   ): LLMResponseNonStreaming {
-    if (response.content[0].type === 'tool_use') {
-      throw new Error('Unsupported content type: tool_use')
+    let content = ''
+    const toolCalls: ToolCall[] = []
+    for (const block of response.content) {
+      if (block.type === 'text') {
+        content += block.text
+      } else if (block.type === 'tool_use') {
+        toolCalls.push({
+          id: block.id,
+          type: 'function',
+          function: {
+            name: block.name,
+            arguments: JSON.stringify(block.input),
+          },
+        })
+      }
     }
     return {
       id: response.id,
@@ -225,8 +317,9 @@ export class AnthropicProvider implements BaseLLMProvider {
         {
           finish_reason: response.stop_reason,
           message: {
-            content: response.content[0].text,
+            content,
             role: response.role,
+            tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
           },
         },
       ],
@@ -245,12 +338,57 @@ export class AnthropicProvider implements BaseLLMProvider {
     chunk: MessageStreamEvent,
     messageId: string,
     model: string,
+    toolCallIndex = 0,
   ): LLMResponseStreaming {
+    if (
+      chunk.type === 'content_block_start' &&
+      chunk.content_block.type === 'tool_use'
+    ) {
+      return {
+        id: messageId,
+        choices: [
+          {
+            finish_reason: null,
+            delta: {
+              content: null,
+              tool_calls: [
+                {
+                  index: toolCallIndex,
+                  id: chunk.content_block.id,
+                  type: 'function',
+                  function: { name: chunk.content_block.name, arguments: '' },
+                },
+              ],
+            },
+          },
+        ],
+        object: 'chat.completion.chunk',
+        model: model,
+      }
+    }
     if (chunk.type !== 'content_block_delta') {
       throw new Error('Unsupported chunk type')
     }
     if (chunk.delta.type === 'input_json_delta') {
-      throw new Error('Unsupported content type: input_json_delta')
+      return {
+        id: messageId,
+        choices: [
+          {
+            finish_reason: null,
+            delta: {
+              content: null,
+              tool_calls: [
+                {
+                  index: toolCallIndex,
+                  function: { arguments: chunk.delta.partial_json },
+                },
+              ],
+            },
+          },
+        ],
+        object: 'chat.completion.chunk',
+        model: model,
+      }
     }
     return {
       id: messageId,
@@ -285,6 +423,10 @@ export class AnthropicProvider implements BaseLLMProvider {
   }
 
   private static isMessageEmpty(message: RequestMessage) {
+    // Every tool_use block must be answered by its tool_result, even an empty one
+    if (message.role === 'tool' || message.tool_calls?.length) {
+      return false
+    }
     if (typeof message.content === 'string') {
       return message.content.trim() === ''
     }
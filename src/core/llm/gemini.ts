@@ -1,7 +1,11 @@
 import {
 	Content,
+	FunctionCall,
 	GoogleGenAI,
 	Part,
+	Schema,
+	Tool,
+	Type,
 	type GenerateContentConfig,
 	type GenerateContentParameters,
 	type GenerateContentResponse,
@@ -9,14 +13,18 @@ import {
 
 import { LLMModel } from '../../types/llm/model'
 import {
+	JsonSchema,
 	LLMOptions,
 	LLMRequestNonStreaming,
 	LLMRequestStreaming,
 	RequestMessage,
+	ToolCall,
+	ToolDefinition,
 } from '../../types/llm/request'
 import {
 	LLMResponseNonStreaming,
 	LLMResponseStreaming,
+	ToolCallDelta,
 } from '../../types/llm/response'
 import {
 	GeminiModelId,
@@ -107,12 +115,11 @@ export class GeminiProvider implements BaseLLMProvider {
 				topP: request.top_p ?? 1,
 				presencePenalty: request.presence_penalty ?? 0,
 				frequencyPenalty: request.frequency_penalty ?? 0,
+				tools: GeminiProvider.parseTools(request.tools),
 			}
 			const params: GenerateContentParameters = {
 				model: modelName,
-				contents: request.messages
-					.map((message) => GeminiProvider.parseRequestMessage(message))
-					.filter((m): m is Content => m !== null),
+				contents: GeminiProvider.parseRequestMessages(request.messages),
 				config,
 			}
 
@@ -166,12 +173,11 @@ export class GeminiProvider implements BaseLLMProvider {
 				topP: request.top_p ?? 1,
 				presencePenalty: request.presence_penalty ?? 0,
 				frequencyPenalty: request.frequency_penalty ?? 0,
+				tools: GeminiProvider.parseTools(request.tools),
 			}
 			const params: GenerateContentParameters = {
 				model: modelName,
-				contents: request.messages
-					.map((message) => GeminiProvider.parseRequestMessage(message))
-					.filter((m): m is Content => m !== null),
+				contents: GeminiProvider.parseRequestMessages(request.messages),
 				config,
 			}
 
@@ -198,8 +204,80 @@ export class GeminiProvider implements BaseLLMProvider {
 		model: string,
 		messageId: string,
 	): AsyncIterable<LLMResponseStreaming> {
+		// Gemini sends each function call whole, so every call gets its own index
+		let toolCallCount = 0
 		for await (const chunk of stream) {
-			yield GeminiProvider.parseStreamingResponseChunk(chunk, model, messageId)
+			const response = GeminiProvider.parseStreamingResponseChunk(
+				chunk,
+				model,
+				messageId,
+				toolCallCount,
+			)
+			toolCallCount += response.choices[0]?.delta.tool_calls?.length ?? 0
+			yield response
+		}
+	}
+
+	// Function responses of the same turn are grouped into a single user content
+	static parseRequestMessages(messages: RequestMessage[]): Content[] {
+		const contents: Content[] = []
+		for (const message of messages) {
+			const content = GeminiProvider.parseRequestMessage(message)
+			if (!content) {
+				continue
+			}
+			const last = contents[contents.length - 1]
+			if (
+				message.role === 'tool' &&
+				last?.role === 'user' &&
+				last.parts?.every((part) => part.functionResponse)
+			) {
+				last.parts.push(...content.parts)
+				continue
+			}
+			contents.push(content)
+		}
+		return contents
+	}
+
+	static parseTools(tools?: ToolDefinition[]): Tool[] | undefined {
+		if (!tools?.length) {
+			return undefined
+		}
+		return [
+			{
+				functionDeclarations: tools.map((tool) => ({
+					name: tool.function.name,
+					description: tool.function.description,
+					parameters: GeminiProvider.parseSchema(tool.function.parameters),
+				})),
+			},
+		]
+	}
+
+	private static parseSchema(schema: JsonSchema): Schema {
+		const types: Record<NonNullable<JsonSchema['type']>, Type> = {
+			object: Type.OBJECT,
+			array: Type.ARRAY,
+			string: Type.STRING,
+			number: Type.NUMBER,
+			integer: Type.INTEGER,
+			boolean: Type.BOOLEAN,
+		}
+		return {
+			type: schema.type ? types[schema.type] : undefined,
+			description: schema.description,
+			enum: schema.enum,
+			required: schema.required,
+			items: schema.items ? GeminiProvider.parseSchema(schema.items) : undefined,
+			properties: schema.properties
+				? Object.fromEntries(
+					Object.entries(schema.properties).map(([key, value]) => [
+						key,
+						GeminiProvider.parseSchema(value),
+					]),
+				)
+				: undefined,
 		}
 	}
 
@@ -208,6 +286,38 @@ export class GeminiProvider implements BaseLLMProvider {
 			return null
 		}
 
+		if (message.role === 'tool') {
+			return {
+				role: 'user',
+				parts: [
+					{
+						functionResponse: {
+							id: message.tool_call_id,
+							name: message.name,
+							response: { output: message.content },
+						},
+					},
+				],
+			}
+		}
+
+		if (message.role === 'assistant' && message.tool_calls?.length) {
+			const parts: Part[] = []
+			if (typeof message.content === 'string' && message.content.trim() !== '') {
+				parts.push({ text: message.content })
+			}
+			for (const toolCall of message.tool_calls) {
+				parts.push({
+					functionCall: {
+						id: toolCall.id,
+						name: toolCall.function.name,
+						args: GeminiProvider.parseToolArgs(toolCall.function.arguments),
+					},
+				})
+			}
+			return { role: 'model', parts }
+		}
+
 		if (Array.isArray(message.content)) {
 			return {
 				role: message.role === 'user' ? 'user' : 'model',
@@ -243,11 +353,38 @@ export class GeminiProvider implements BaseLLMProvider {
 		}
 	}
 
+	private static parseToolArgs(args: string): Record<string, unknown> {
+		try {
+			const parsed: unknown = JSON.parse(args || '{}')
+			return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+				? Object.fromEntries(Object.entries(parsed))
+				: {}
+		} catch {
+			return {}
+		}
+	}
+
+	// Gemini API does not always return call ids, so they are derived from the response id and
+	// the position of the call, which keeps the id of a call the same across streamed chunks
+	private static parseFunctionCall(functionCall: FunctionCall, messageId: string, index: number): ToolCall {
+		return {
+			id: functionCall.id ?? `call_${messageId}_${index}`,
+			type: 'function',
+			function: {
+				name: functionCall.name ?? '',
+				arguments: JSON.stringify(functionCall.args ?? {}),
+			},
+		}
+	}
+
 	static parseNonStreamingResponse(
 		response: GenerateContentResponse,
 		model: string,
 		messageId: string,
 	): LLMResponseNonStreaming {
+		const toolCalls = response.functionCalls?.map((functionCall, index) =>
+			GeminiProvider.parseFunctionCall(functionCall, messageId, index),
+		)
 		return {
 			id: messageId,
 			choices: [
@@ -257,6 +394,7 @@ export class GeminiProvider implements BaseLLMProvider {
 					message: {
 						content: response.candidates?.[0]?.content?.parts?.[0]?.text ?? '',
 						role: 'assistant',
+						tool_calls: toolCalls?.length ? toolCalls : undefined,
 					},
 				},
 			],
@@ -278,10 +416,17 @@ export class GeminiProvider implements BaseLLMProvider {
 		chunk: GenerateContentResponse,
 		model: string,
 		messageId: string,
+		toolCallIndex = 0,
 	): LLMResponseStreaming {
 		const firstCandidate = chunk.candidates?.[0]
 		const textContent = firstCandidate?.content?.parts?.[0]?.text || ''
-		
+		const toolCalls: ToolCallDelta[] | undefined = chunk.functionCalls?.map(
+			(functionCall, index) => ({
+				index: toolCallIndex + index,
+				...GeminiProvider.parseFunctionCall(functionCall, messageId, toolCallIndex + index),
+			}),
+		)
+
 		return {
 			id: messageId,
 			choices: [
@@ -289,6 +434,7 @@ export class GeminiProvider implements BaseLLMProvider {
 					finish_reason: firstCandidate?.finishReason ?? null,
 					delta: {
 						content: textContent,
+						tool_calls: toolCalls?.length ? toolCalls : undefined,
 					},
 				},
 			],
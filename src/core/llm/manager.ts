@@ -32,6 +32,13 @@ export type LLMManagerInterface = {
 	): Promise<AsyncIterable<LLMResponseStreaming>>
 }
 
+// Providers whose adapters translate LLMRequestBase.tools and return structured tool calls
+export function supportsNativeToolCalling(provider: ApiProvider): boolean {
+	return provider === ApiProvider.OpenAI
+		|| provider === ApiProvider.Anthropic
+		|| provider === ApiProvider.Google
+}
+
 class LLMManager implements LLMManagerInterface {
 	private openaiProvider: OpenAIAuthenticatedProvider
 	private deepseekProvider: OpenAICompatibleProvider
@@ -4,6 +4,8 @@ import {
   ChatCompletionChunk,
   ChatCompletionContentPart,
   ChatCompletionMessageParam,
+  ChatCompletionMessageToolCall,
+  ChatCompletionTool,
 } from 'openai/resources/chat/completions'
 
 import {
@@ -11,6 +13,8 @@ import {
   LLMRequestNonStreaming,
   LLMRequestStreaming,
   RequestMessage,
+  ToolCall,
+  ToolDefinition,
 } from '../../types/llm/request'
 import {
   LLMResponseNonStreaming,
@@ -37,6 +41,8 @@ export class OpenAIMessageAdapter {
         presence_penalty: request.presence_penalty,
         logit_bias: request.logit_bias,
         prediction: request.prediction,
+        n: request.n,
+        ...OpenAIMessageAdapter.parseTools(request.tools),
         ...extraParams,
       },
       {
@@ -68,6 +74,7 @@ export class OpenAIMessageAdapter {
         stream_options: {
           include_usage: true,
 				},
+				...OpenAIMessageAdapter.parseTools(request.tools),
 				...extraParams,
       },
       {
@@ -106,8 +113,22 @@ export class OpenAIMessageAdapter {
         if (Array.isArray(message.content)) {
           throw new Error('Assistant message should be a string')
         }
+        if (message.tool_calls?.length) {
+          return {
+            role: 'assistant',
+            content: message.content || null,
+            tool_calls: message.tool_calls,
+          }
+        }
         return { role: 'assistant', content: message.content }
       }
+      case 'tool': {
+        return {
+          role: 'tool',
+          content: message.content,
+          tool_call_id: message.tool_call_id,
+        }
+      }
       case 'system': {
         if (Array.isArray(message.content)) {
           throw new Error('System message should be a string')
@@ -117,6 +138,43 @@ export class OpenAIMessageAdapter {
     }
   }
 
+  // The agent applies one tool per turn, so parallel calls are disabled
+  static parseTools(tools?: ToolDefinition[]): {
+    tools?: ChatCompletionTool[]
+    parallel_tool_calls?: boolean
+  } {
+    if (!tools?.length) {
+      return {}
+    }
+    return {
+      tools: tools.map((tool) => ({
+        type: 'function',
+        function: {
+          name: tool.function.name,
+          description: tool.function.description,
+          parameters: tool.function.parameters,
+        },
+      })),
+      parallel_tool_calls: false,
+    }
+  }
+
+  static parseToolCalls(
+    toolCalls?: ChatCompletionMessageToolCall[],
+  ): ToolCall[] | undefined {
+    if (!toolCalls?.length) {
+      return undefined
+    }
+    return toolCalls.map((toolCall) => ({
+      id: toolCall.id,
+      type: 'function',
+      function: {
+        name: toolCall.function.name,
+        arguments: toolCall.function.arguments,
+      },
+    }))
+  }
+
   static parseNonStreamingResponse(
     response: ChatCompletion,
   ): LLMResponseNonStreaming {
@@ -130,6 +188,7 @@ export class OpenAIMessageAdapter {
             ? (choice.message.reasoning_content as string) 
             : ('reasoning' in choice.message ? (choice.message.reasoning as string) : null),
           role: choice.message.role,
+          tool_calls: OpenAIMessageAdapter.parseToolCalls(choice.message.tool_calls),
         },
       })),
       created: response.created,
@@ -153,6 +212,12 @@ export class OpenAIMessageAdapter {
             ? (choice.delta.reasoning_content as string) 
             : ('reasoning' in choice.delta ? (choice.delta.reasoning as string) : null),
           role: choice.delta.role,
+          tool_calls: choice.delta.tool_calls?.map((toolCall) => ({
+            index: toolCall.index,
+            id: toolCall.id,
+            type: toolCall.type,
+            function: toolCall.function,
+          })),
         },
       })),
       created: chunk.created,
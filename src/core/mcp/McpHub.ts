@@ -5,8 +5,11 @@ import * as path from "path";
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
 import {
 	CallToolResultSchema,
+	GetPromptResultSchema,
+	ListPromptsResultSchema,
 	ListResourceTemplatesResultSchema,
 	ListResourcesResultSchema,
 	ListToolsResultSchema,
@@ -27,7 +30,11 @@ import InfioPlugin from "../../main";
 import { injectEnv } from "../../utils/config";
 import { ROOT_DIR } from '../prompts/constants';
 
+import { resolveResourceUri } from "./resource-template";
+import { ReconnectPolicySchema, closeStreamableHttpTransport, createStreamableHttpTransport } from "./streamable-http";
 import {
+	McpPrompt,
+	McpPromptResponse,
 	McpResource,
 	McpResourceResponse,
 	McpResourceTemplate,
@@ -39,7 +46,7 @@ import {
 export type McpConnection = {
 	server: McpServer
 	client: Client
-	transport: StdioClientTransport | SSEClientTransport
+	transport: StdioClientTransport | SSEClientTransport | StreamableHTTPClientTransport
 }
 
 // 添加内置服务器连接类型
@@ -59,14 +66,16 @@ const BaseConfigSchema = z.object({
 })
 
 // Custom error messages for better user feedback
-const typeErrorMessage = "Server type must be either 'stdio' or 'sse'"
+const typeErrorMessage = "Server type must be one of 'stdio', 'sse' or 'streamable-http'"
 const stdioFieldsErrorMessage =
 	"For 'stdio' type servers, you must provide a 'command' field and can optionally include 'args' and 'env'"
 const sseFieldsErrorMessage =
 	"For 'sse' type servers, you must provide a 'url' field and can optionally include 'headers'"
+const streamableHttpFieldsErrorMessage =
+	"For 'streamable-http' type servers, you must provide a 'url' field and can optionally include 'headers' and 'reconnect'"
 const mixedFieldsErrorMessage =
-	"Cannot mix 'stdio' and 'sse' fields. For 'stdio' use 'command', 'args', and 'env'. For 'sse' use 'url' and 'headers'"
-const missingFieldsErrorMessage = "Server configuration must include either 'command' (for stdio) or 'url' (for sse)"
+	"Cannot mix 'stdio' and 'sse' fields. For 'stdio' use 'command', 'args', and 'env'. For 'sse' or 'streamable-http' use 'url' and 'headers'"
+const missingFieldsErrorMessage = "Server configuration must include either 'command' (for stdio) or 'url' (for sse or streamable-http)"
 
 // Helper function to create a refined schema with better error messages
 const createServerTypeSchema = () => {
@@ -108,6 +117,17 @@ const createServerTypeSchema = () => {
 				type: "sse" as const,
 			}))
 			.refine((data) => data.type === undefined || data.type === "sse", { message: typeErrorMessage }),
+		// Streamable HTTP config (has url field, the type is required since a bare url means sse)
+		BaseConfigSchema.extend({
+			type: z.enum(["streamable-http"]),
+			url: z.string().url("URL must be a valid URL format"),
+			headers: z.record(z.string()).optional(),
+			reconnect: ReconnectPolicySchema.optional(),
+			// Ensure no stdio fields are present
+			command: z.undefined().optional(),
+			args: z.undefined().optional(),
+			env: z.undefined().optional(),
+		}),
 	])
 }
 
@@ -243,7 +263,7 @@ export class McpHub {
 			} else {
 				throw new Error(missingFieldsErrorMessage)
 			}
-		} else if (mutableConfig.type !== "stdio" && mutableConfig.type !== "sse") {
+		} else if (mutableConfig.type !== "stdio" && mutableConfig.type !== "sse" && mutableConfig.type !== "streamable-http") {
 			throw new Error(typeErrorMessage)
 		}
 
@@ -254,6 +274,9 @@ export class McpHub {
 		if (mutableConfig.type === "sse" && !hasSseFields) {
 			throw new Error(sseFieldsErrorMessage)
 		}
+		if (mutableConfig.type === "streamable-http" && !hasSseFields) {
+			throw new Error(streamableHttpFieldsErrorMessage)
+		}
 
 		// Validate the config against the schema
 		try {
@@ -559,7 +582,7 @@ export class McpHub {
 				},
 			)
 
-			let transport: StdioClientTransport | SSEClientTransport
+			let transport: StdioClientTransport | SSEClientTransport | StreamableHTTPClientTransport
 
 			// Inject environment variables to the config
 			let configInjected = { ...config };
@@ -647,6 +670,29 @@ export class McpHub {
 					console.error(`No stderr stream for ${name}`)
 				}
 				transport.start = async () => { } // No-op now, .connect() won't fail
+			} else if (configInjected.type === "streamable-http") {
+				// Streamable HTTP connection, the SDK reconnects the SSE stream following the reconnect policy
+				transport = createStreamableHttpTransport({
+					url: configInjected.url,
+					headers: configInjected.headers,
+					reconnect: configInjected.reconnect,
+				})
+
+				transport.onerror = async (error) => {
+					console.error(`Transport error for "${name}":`, error)
+					const connection = this.findConnection(name, source)
+					if (connection) {
+						connection.server.status = "disconnected"
+						this.appendErrorMessage(connection, error instanceof Error ? error.message : String(error))
+					}
+				}
+
+				transport.onclose = async () => {
+					const connection = this.findConnection(name, source)
+					if (connection) {
+						connection.server.status = "disconnected"
+					}
+				}
 			} else {
 				// SSE connection
 				const sseOptions = {
@@ -682,6 +728,7 @@ export class McpHub {
 					name,
 					config: JSON.stringify(configInjected),
 					status: "connecting",
+					transportType: configInjected.type,
 					disabled: configInjected.disabled,
 					source,
 					projectPath: source === "project" ? this.app.vault.getRoot().path : undefined,
@@ -701,6 +748,7 @@ export class McpHub {
 			connection.server.tools = await this.fetchToolsList(name, source)
 			connection.server.resources = await this.fetchResourcesList(name, source)
 			connection.server.resourceTemplates = await this.fetchResourceTemplatesList(name, source)
+			connection.server.prompts = await this.fetchPromptsList(name, source)
 		} catch (error) {
 			// Update status with error
 			const connection = this.findConnection(name, source)
@@ -853,6 +901,22 @@ export class McpHub {
 		}
 	}
 
+	private async fetchPromptsList(serverName: string, source: "global" | "project" = "global"): Promise<McpPrompt[]> {
+		try {
+			const connection = this.findConnection(serverName, source)
+			// Servers without the prompts capability reject prompts/list
+			if (!connection?.client.getServerCapabilities()?.prompts) {
+				return []
+			}
+			const response = await connection.client.request({ method: "prompts/list" }, ListPromptsResultSchema)
+			// @ts-expect-error - 服务器返回的提示对象中 name 是可选的，但 McpPrompt 类型要求它是必需的
+			return response?.prompts || []
+		} catch (error) {
+			console.error(`Failed to fetch prompts for ${serverName}:`, error)
+			return []
+		}
+	}
+
 	async deleteConnection(name: string, source: "global" | "project" = "global"): Promise<void> {
 		// If source is provided, only delete connections from that source
 		const connections = source
@@ -861,7 +925,11 @@ export class McpHub {
 
 		for (const connection of connections) {
 			try {
-				await connection.transport.close()
+				if (connection.transport instanceof StreamableHTTPClientTransport) {
+					await closeStreamableHttpTransport(connection.transport)
+				} else {
+					await connection.transport.close()
+				}
 				await connection.client.close()
 			} catch (error) {
 				console.error(`Failed to close transport for ${name}:`, error)
@@ -1082,6 +1150,7 @@ export class McpHub {
 							serverName,
 							serverSource,
 						)
+						connection.server.prompts = await this.fetchPromptsList(serverName, serverSource)
 					}
 				} catch (error) {
 					console.error(`Failed to refresh capabilities for ${serverName}:`, error)
@@ -1331,6 +1400,24 @@ export class McpHub {
 		}
 	}
 
+	/**
+	 * Resolves a requested resource against the server's direct resources and resource templates.
+	 * A template uri is expanded with the given arguments, a concrete uri is matched against the templates.
+	 */
+	resolveResourceUri(
+		serverName: string,
+		uri: string,
+		args: Record<string, unknown> = {},
+		source: "global" | "project" = "global",
+	): { uri: string; resource?: McpResource; template?: McpResourceTemplate } {
+		const connection = this.findConnection(serverName, source)
+		if (!connection) {
+			throw new Error(`No connection found for server: ${serverName}${source ? ` with source ${source}` : ""}`)
+		}
+		const { resources = [], resourceTemplates = [] } = connection.server
+		return resolveResourceUri(uri, args, resources, resourceTemplates)
+	}
+
 	async readResource(serverName: string, uri: string, source: "global" | "project" = "global"): Promise<McpResourceResponse> {
 		const connection = this.findConnection(serverName, source)
 		if (!connection) {
@@ -1351,6 +1438,32 @@ export class McpHub {
 		)
 	}
 
+	async getPrompt(
+		serverName: string,
+		promptName: string,
+		promptArguments?: Record<string, string>,
+		source: "global" | "project" = "global",
+	): Promise<McpPromptResponse> {
+		const connection = this.findConnection(serverName, source)
+		if (!connection) {
+			throw new Error(`No connection found for server: ${serverName}${source ? ` with source ${source}` : ""}`)
+		}
+		if (connection.server.disabled) {
+			throw new Error(`Server "${serverName}" is disabled`)
+		}
+		// @ts-expect-error - 服务器返回的消息内容类型比 McpPromptResponse 定义的更宽泛
+		return await connection.client.request(
+			{
+				method: "prompts/get",
+				params: {
+					name: promptName,
+					arguments: promptArguments,
+				},
+			},
+			GetPromptResultSchema,
+		)
+	}
+
 	async callTool(
 		serverName: string,
 		toolName: string,
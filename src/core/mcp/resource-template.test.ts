@@ -0,0 +1,80 @@
+import {
+	expandUriTemplate,
+	getUriTemplateVariables,
+	matchUriTemplate,
+	resolveResourceUri,
+} from './resource-template'
+import { McpResource, McpResourceTemplate } from './type'
+
+describe('expandUriTemplate', () => {
+	it('should expand simple, reserved and multi-variable expressions', () => {
+		expect(expandUriTemplate('weather://{city}/current', { city: 'New York' })).toBe('weather://New%20York/current')
+		expect(expandUriTemplate('file:///{+path}', { path: 'notes/a b.md' })).toBe('file:///notes/a%20b.md')
+		expect(expandUriTemplate('map://{lat,lon}', { lat: 52.5, lon: 13.4 })).toBe('map://52.5,13.4')
+	})
+
+	it('should expand prefixed operators and drop undefined variables', () => {
+		expect(expandUriTemplate('search://notes{?q,limit}', { q: 'graph', limit: 5 })).toBe('search://notes?q=graph&limit=5')
+		expect(expandUriTemplate('search://notes{?q,limit}', { q: 'graph' })).toBe('search://notes?q=graph')
+		expect(expandUriTemplate('files://{/dir,name}', { dir: 'notes', name: 'a.md' })).toBe('files:///notes/a.md')
+		expect(expandUriTemplate('repo://{owner}/{name}', { owner: 'obsidian' })).toBe('repo://obsidian/')
+	})
+
+	it('should list the template variables', () => {
+		expect(getUriTemplateVariables('repo://{owner}/{name}{?ref,path*}')).toEqual(['owner', 'name', 'ref', 'path'])
+		expect(getUriTemplateVariables('repo://{owner}/{name}{?ref}{&path}', { requiredOnly: true })).toEqual(['owner', 'name'])
+	})
+})
+
+describe('matchUriTemplate', () => {
+	it('should extract the variables of a matching uri', () => {
+		expect(matchUriTemplate('repo://{owner}/{name}', 'repo://obsidian/infio%20copilot')).toEqual({
+			owner: 'obsidian',
+			name: 'infio copilot',
+		})
+		expect(matchUriTemplate('file:///{+path}', 'file:///notes/daily/today.md')).toEqual({ path: 'notes/daily/today.md' })
+		expect(matchUriTemplate('search://notes{?q}', 'search://notes?q=graph')).toEqual({ q: 'graph' })
+	})
+
+	it('should return null for uris that do not match', () => {
+		expect(matchUriTemplate('repo://{owner}/{name}', 'repo://obsidian')).toBeNull()
+		expect(matchUriTemplate('repo://{owner}/{name}', 'weather://berlin/current')).toBeNull()
+	})
+})
+
+describe('resolveResourceUri', () => {
+	const resources: McpResource[] = [{ uri: 'notes://index', name: 'Index' }]
+	const templates: McpResourceTemplate[] = [{ uriTemplate: 'repo://{owner}/{name}', name: 'Repository' }]
+
+	it('should expand a template uri with the given arguments', () => {
+		expect(resolveResourceUri('repo://{owner}/{name}', { owner: 'obsidian', name: 'vault' }, resources, templates)).toEqual({
+			uri: 'repo://obsidian/vault',
+			template: templates[0],
+		})
+	})
+
+	it('should reject a template uri with missing arguments', () => {
+		expect(() => resolveResourceUri('repo://{owner}/{name}', { owner: 'obsidian' }, resources, templates))
+			.toThrow('Missing arguments for resource template repo://{owner}/{name}: name')
+	})
+
+	it('should allow query variables to be left out', () => {
+		expect(resolveResourceUri('search://notes{?q,limit}', {}, resources, templates)).toEqual({ uri: 'search://notes', template: undefined })
+		expect(resolveResourceUri('repo://{owner}/{name}{?ref}{&path}', { owner: 'obsidian', name: 'vault', ref: 'main' }, resources, templates))
+			.toEqual({ uri: 'repo://obsidian/vault?ref=main', template: undefined })
+		expect(() => resolveResourceUri('repo://{owner}/{name}{?ref}', { name: 'vault' }, resources, templates))
+			.toThrow('Missing arguments for resource template repo://{owner}/{name}{?ref}: owner')
+	})
+
+	it('should resolve concrete uris to a resource or a matching template', () => {
+		expect(resolveResourceUri('notes://index', {}, resources, templates)).toEqual({ uri: 'notes://index', resource: resources[0] })
+		expect(resolveResourceUri('repo://obsidian/vault', {}, resources, templates)).toEqual({
+			uri: 'repo://obsidian/vault',
+			template: templates[0],
+		})
+	})
+
+	it('should pass through uris that match neither a resource nor a template', () => {
+		expect(resolveResourceUri('weather://berlin', {}, resources, templates)).toEqual({ uri: 'weather://berlin', template: undefined })
+	})
+})
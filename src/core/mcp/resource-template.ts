@@ -0,0 +1,111 @@
+// Minimal RFC 6570 support for MCP resource templates.
+// Covers simple `{var}`, reserved `{+var}`, comma separated `{a,b}` and operator
+// expressions such as `{?q}` or `{/path}`, which is what MCP servers publish in practice.
+
+import { McpResource, McpResourceTemplate } from './type'
+
+const EXPRESSION_REGEX = /\{([+#./;?&]?)([^}]+)\}/g
+
+const SEPARATORS: Record<string, string> = { '.': '.', '/': '/', ';': ';', '?': '&', '&': '&' }
+
+function encodeValue(value: unknown, reserved: boolean): string {
+	const str = Array.isArray(value) ? value.map(String).join(',') : String(value)
+	return reserved ? encodeURI(str) : encodeURIComponent(str)
+}
+
+export function isUriTemplate(uri: string): boolean {
+	return /\{[^}]+\}/.test(uri)
+}
+
+// Form-style query expressions are optional, an absent variable is left out of the expanded uri
+const OPTIONAL_OPERATORS = ['?', '&']
+
+export function getUriTemplateVariables(uriTemplate: string, { requiredOnly = false } = {}): string[] {
+	const names: string[] = []
+	for (const match of uriTemplate.matchAll(EXPRESSION_REGEX)) {
+		if (requiredOnly && OPTIONAL_OPERATORS.includes(match[1])) {
+			continue
+		}
+		for (const name of match[2].split(',')) {
+			names.push(name.trim().replace(/\*$/, ''))
+		}
+	}
+	return names
+}
+
+export function expandUriTemplate(uriTemplate: string, args: Record<string, unknown>): string {
+	return uriTemplate.replace(EXPRESSION_REGEX, (_match, operator: string, names: string) => {
+		const reserved = operator === '+' || operator === '#'
+		// query, continuation and path-parameter expressions name their variables
+		const named = operator === '?' || operator === '&' || operator === ';'
+		const values = names
+			.split(',')
+			.map((name) => name.trim().replace(/\*$/, ''))
+			.filter((name) => args[name] !== undefined && args[name] !== null)
+			.map((name) => (named ? `${name}=` : '') + encodeValue(args[name], reserved))
+		if (values.length === 0) {
+			return ''
+		}
+		const prefix = operator === '+' || operator === '' ? '' : operator
+		return prefix + values.join(SEPARATORS[operator] ?? ',')
+	})
+}
+
+// Returns the template variables when the uri is an expansion of the template, otherwise null
+export function matchUriTemplate(uriTemplate: string, uri: string): Record<string, string> | null {
+	const names: string[] = []
+	let pattern = '^'
+	let lastIndex = 0
+	for (const match of uriTemplate.matchAll(EXPRESSION_REGEX)) {
+		pattern += escapeRegExp(uriTemplate.slice(lastIndex, match.index))
+		const reserved = match[1] === '+' || match[1] === '#'
+		const name = match[2].split(',')[0].trim().replace(/\*$/, '')
+		const named = match[1] === '?' || match[1] === '&' || match[1] === ';'
+		const prefix = reserved || match[1] === '' ? '' : escapeRegExp(match[1] + (named ? `${name}=` : ''))
+		names.push(name)
+		pattern += `${prefix}(${reserved ? '.*' : '[^/?#&;]*'})`
+		lastIndex = match.index + match[0].length
+	}
+	pattern += escapeRegExp(uriTemplate.slice(lastIndex)) + '$'
+
+	const result = new RegExp(pattern).exec(uri)
+	if (!result) {
+		return null
+	}
+	const variables: Record<string, string> = {}
+	names.forEach((name, index) => {
+		variables[name] = decodeURIComponent(result[index + 1])
+	})
+	return variables
+}
+
+/**
+ * Resolves a requested resource against a server's direct resources and resource templates.
+ * A template uri is expanded with the given arguments, a concrete uri is matched against the templates.
+ */
+export function resolveResourceUri(
+	uri: string,
+	args: Record<string, unknown>,
+	resources: McpResource[],
+	resourceTemplates: McpResourceTemplate[],
+): { uri: string; resource?: McpResource; template?: McpResourceTemplate } {
+	if (isUriTemplate(uri)) {
+		const missing = getUriTemplateVariables(uri, { requiredOnly: true }).filter((name) => args[name] === undefined)
+		if (missing.length > 0) {
+			throw new Error(`Missing arguments for resource template ${uri}: ${missing.join(', ')}`)
+		}
+		const template = resourceTemplates.find((template) => template.uriTemplate === uri)
+		return { uri: expandUriTemplate(uri, args), template }
+	}
+
+	const resource = resources.find((resource) => resource.uri === uri)
+	if (resource) {
+		return { uri, resource }
+	}
+	const template = resourceTemplates.find((template) => matchUriTemplate(template.uriTemplate, uri) !== null)
+	return { uri, template }
+}
+
+function escapeRegExp(str: string): string {
+	return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
@@ -0,0 +1,67 @@
+import { randomUUID } from 'crypto'
+import { Server as HttpServer, createServer } from 'http'
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { Server } from '@modelcontextprotocol/sdk/server/index.js'
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js'
+
+import {
+	closeStreamableHttpTransport,
+	createStreamableHttpTransport,
+	toReconnectionOptions,
+} from './streamable-http'
+
+// Local stand-in for a streamable HTTP MCP server exposing a single echo tool
+async function startStandInServer(): Promise<{ url: string, httpServer: HttpServer, requestHeaders: string[] }> {
+	const mcpServer = new Server({ name: 'stand-in', version: '1.0.0' }, { capabilities: { tools: {} } })
+	mcpServer.setRequestHandler(ListToolsRequestSchema, async () => ({
+		tools: [{ name: 'echo', inputSchema: { type: 'object', properties: { text: { type: 'string' } } } }],
+	}))
+	mcpServer.setRequestHandler(CallToolRequestSchema, async (request) => ({
+		content: [{ type: 'text', text: String(request.params.arguments?.text ?? '') }],
+	}))
+	const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: () => randomUUID() })
+	await mcpServer.connect(transport)
+
+	const requestHeaders: string[] = []
+	const httpServer = createServer((req, res) => {
+		requestHeaders.push(String(req.headers['x-api-key'] ?? ''))
+		void transport.handleRequest(req, res)
+	})
+	await new Promise<void>((resolve) => httpServer.listen(0, '127.0.0.1', resolve))
+	const address = httpServer.address()
+	const port = typeof address === 'object' && address ? address.port : 0
+	return { url: `http://127.0.0.1:${port}/mcp`, httpServer, requestHeaders }
+}
+
+describe('streamable HTTP transport', () => {
+	it('should map the reconnect policy onto the SDK options', () => {
+		expect(toReconnectionOptions({ maxRetries: 5, initialDelay: 500 })).toEqual({
+			maxRetries: 5,
+			initialReconnectionDelay: 500,
+			maxReconnectionDelay: 30000,
+			reconnectionDelayGrowFactor: 1.5,
+		})
+	})
+
+	it('should list and call tools on a local server', async () => {
+		const { url, httpServer, requestHeaders } = await startStandInServer()
+		const client = new Client({ name: 'test', version: '1.0.0' }, { capabilities: {} })
+		const transport = createStreamableHttpTransport({ url, headers: { 'x-api-key': 'secret' } })
+		try {
+			await client.connect(transport)
+			expect(transport.sessionId).toBeDefined()
+
+			const { tools } = await client.listTools()
+			expect(tools.map((tool) => tool.name)).toEqual(['echo'])
+
+			const result = await client.callTool({ name: 'echo', arguments: { text: 'hello' } })
+			expect(result.content).toEqual([{ type: 'text', text: 'hello' }])
+			expect(requestHeaders.every((header) => header === 'secret')).toBe(true)
+		} finally {
+			await closeStreamableHttpTransport(transport)
+			await new Promise((resolve) => httpServer.close(resolve))
+		}
+	})
+})
@@ -0,0 +1,61 @@
+import {
+	StreamableHTTPClientTransport,
+	StreamableHTTPReconnectionOptions,
+} from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { z } from "zod";
+
+// Same defaults as the SDK, spelled out so the settings file documents them
+export const DEFAULT_RECONNECT_POLICY = {
+	maxRetries: 2,
+	initialDelay: 1000,
+	maxDelay: 30000,
+	growFactor: 1.5,
+}
+
+// Reconnect policy for the server-to-client SSE stream, delays are in milliseconds
+export const ReconnectPolicySchema = z.object({
+	maxRetries: z.number().int().min(0).default(DEFAULT_RECONNECT_POLICY.maxRetries),
+	initialDelay: z.number().min(0).default(DEFAULT_RECONNECT_POLICY.initialDelay),
+	maxDelay: z.number().min(0).default(DEFAULT_RECONNECT_POLICY.maxDelay),
+	growFactor: z.number().min(1).default(DEFAULT_RECONNECT_POLICY.growFactor),
+})
+
+export type ReconnectPolicy = z.infer<typeof ReconnectPolicySchema>
+
+export function toReconnectionOptions(policy?: Partial<ReconnectPolicy>): StreamableHTTPReconnectionOptions {
+	const { maxRetries, initialDelay, maxDelay, growFactor } = { ...DEFAULT_RECONNECT_POLICY, ...policy }
+	return {
+		maxRetries,
+		initialReconnectionDelay: initialDelay,
+		maxReconnectionDelay: Math.max(maxDelay, initialDelay),
+		reconnectionDelayGrowFactor: growFactor,
+	}
+}
+
+export function createStreamableHttpTransport(config: {
+	url: string
+	headers?: Record<string, string>
+	reconnect?: Partial<ReconnectPolicy>
+}): StreamableHTTPClientTransport {
+	return new StreamableHTTPClientTransport(new URL(config.url), {
+		requestInit: {
+			headers: config.headers,
+		},
+		reconnectionOptions: toReconnectionOptions(config.reconnect),
+	})
+}
+
+/**
+ * Ends the server side session before closing, servers that keep per-session
+ * state would otherwise hold it until their own timeout.
+ */
+export async function closeStreamableHttpTransport(transport: StreamableHTTPClientTransport): Promise<void> {
+	if (transport.sessionId) {
+		try {
+			await transport.terminateSession()
+		} catch (error) {
+			console.warn("Failed to terminate streamable HTTP session:", error)
+		}
+	}
+	await transport.close()
+}
@@ -8,11 +8,13 @@ export type McpServer = {
 	name: string
 	config: string
 	status: "connected" | "connecting" | "disconnected"
+	transportType?: "stdio" | "sse" | "streamable-http"
 	error?: string
 	errorHistory?: McpErrorEntry[]
 	tools?: McpTool[]
 	resources?: McpResource[]
 	resourceTemplates?: McpResourceTemplate[]
+	prompts?: McpPrompt[]
 	disabled?: boolean
 	timeout?: number
 	source: "global" | "project"
@@ -40,6 +42,47 @@ export type McpResourceTemplate = {
 	mimeType?: string
 }
 
+export type McpPromptArgument = {
+	name: string
+	description?: string
+	required?: boolean
+}
+
+export type McpPrompt = {
+	name: string
+	description?: string
+	arguments?: McpPromptArgument[]
+}
+
+export type McpPromptMessage = {
+	role: "user" | "assistant"
+	content:
+		| {
+				type: "text"
+				text: string
+		  }
+		| {
+				type: "image" | "audio"
+				data: string
+				mimeType: string
+		  }
+		| {
+				type: "resource"
+				resource: {
+					uri: string
+					mimeType?: string
+					text?: string
+					blob?: string
+				}
+		  }
+}
+
+export type McpPromptResponse = {
+	_meta?: Record<string, unknown>
+	description?: string
+	messages: McpPromptMessage[]
+}
+
 export type McpResourceResponse = {
 	_meta?: Record<string, any>
 	contents: Array<{
@@ -0,0 +1,11 @@
+export const QUERY_REWRITE_PROMPT = `# SYSTEM ROLE
+You help a semantic search engine find notes in a personal knowledge base.
+
+# TASK
+For the search query given by the user:
+1. Write {count} paraphrases that use different words and likely synonyms, each as short as a search query.
+2. Write a hypothetical passage of 2-4 sentences that a note answering the query could contain.
+
+Keep the language of the query. Respond with JSON only, in this shape:
+{"paraphrases": ["..."], "hypothetical_answer": "..."}
+`;
@@ -1,11 +1,11 @@
 
-function getDefaultToolUseGuidelines(): string {
+function getDefaultToolUseGuidelines(nativeToolCalling: boolean): string {
 	return `# Tool Use Guidelines
 
 1. In <thinking> tags, assess what information you already have and what information you need to proceed with the task.
 2. Choose the most appropriate tool based on the task and the tool descriptions provided. Assess if you need additional information to proceed, and which of the available tools would be most effective for gathering this information. It's critical that you think about each available tool and use the one that best fits the current step in the task.
 3. If multiple actions are needed, use one tool at a time per message to accomplish the task iteratively, with each tool use being informed by the result of the previous tool use. Do not assume the outcome of any tool use. Each step must be informed by the previous step's result.
-4. Formulate your tool use using the XML format specified for each tool.
+4. ${nativeToolCalling ? "Call tools through the function calling interface, using the parameters of their function definitions." : "Formulate your tool use using the XML format specified for each tool."}
 5. After each tool use, the user will respond with the result of that tool use. This result will provide you with the necessary information to continue your task or make further decisions. This response may include:
   - Information about whether the tool succeeded or failed, along with any reasons for failure.
   - Any other relevant feedback or information related to the tool use.
@@ -20,6 +20,6 @@ It is crucial to proceed step-by-step, waiting for the user's message after each
 By waiting for and carefully considering the user's response after each tool use, you can react accordingly and make informed decisions about how to proceed with the task. This iterative process helps ensure the overall success and accuracy of your work.`
 }
 
-export function getToolUseGuidelinesSection(mode?: string): string {
-	return getDefaultToolUseGuidelines();
+export function getToolUseGuidelinesSection(mode?: string, nativeToolCalling = false): string {
+	return getDefaultToolUseGuidelines(nativeToolCalling);
 }
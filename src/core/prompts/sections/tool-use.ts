@@ -1,4 +1,7 @@
-export function getSharedToolUseSection(): string {
+export function getSharedToolUseSection(nativeToolCalling = false): string {
+	if (nativeToolCalling) {
+		return getNativeToolUseSection()
+	}
 	return `====
 
 TOOL USE
@@ -23,3 +26,16 @@ For example:
 
 Always adhere to this format for the tool use to ensure proper parsing and execution.`
 }
+
+
+function getNativeToolUseSection(): string {
+	return `====
+
+TOOL USE
+
+You have access to a set of tools that are executed upon the user's approval. You can use one tool per message, and will receive the result of that tool use in the user's response. You use tools step-by-step to accomplish a given task, with each tool use informed by the result of the previous tool use.
+
+## Tool Use Formatting
+
+Tools are called through the function calling interface, with the parameters passed as JSON arguments. The available tools and their parameters are described by the function definitions sent with this request. Never write a tool call as XML in your response. JSON array and object parameters are passed as real arrays and objects, not as strings.`
+}
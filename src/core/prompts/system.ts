@@ -79,6 +79,7 @@ export class SystemPrompt {
 		diffEnabled?: boolean,
 		experiments?: Record<string, boolean>,
 		enableMcpServerCreation?: boolean,
+		nativeToolCalling?: boolean,
 	): Promise<string> {
 
 		// Get the full mode config to ensure we have the role definition
@@ -94,9 +95,9 @@ export class SystemPrompt {
 
 		const basePrompt = `${roleDefinition}
 
-${getSharedToolUseSection()}
+${getSharedToolUseSection(nativeToolCalling)}
 
-${getToolDescriptionsForMode(
+${nativeToolCalling ? "" : getToolDescriptionsForMode(
 			mode,
 			cwd,
 			searchSettings,
@@ -109,7 +110,7 @@ ${getToolDescriptionsForMode(
 			experiments,
 		)}
 
-${getToolUseGuidelinesSection(mode)}
+${getToolUseGuidelinesSection(mode, nativeToolCalling)}
 
 ${mcpServersSection}
 
@@ -153,6 +154,7 @@ ${await addCustomInstructions(this.app, promptComponent?.customInstructions || m
 		diffEnabled?: boolean,
 		experiments?: Record<string, boolean>,
 		enableMcpServerCreation?: boolean,
+		nativeToolCalling?: boolean,
 	): Promise<string> {
 
 		const getPromptComponent = (value: unknown): PromptComponent | undefined => {
@@ -209,6 +211,7 @@ ${customInstructions}`
 			diffEnabled,
 			experiments,
 			enableMcpServerCreation,
+			nativeToolCalling,
 		)
 	}
 }
@@ -8,11 +8,17 @@ export function getAccessMcpResourceDescription(args: ToolArgs): string | undefi
 Description: Request to access a resource provided by a connected MCP server. Resources represent data sources that can be used as context, such as files, API responses, or system information.
 Parameters:
 - server_name: (required) The name of the MCP server providing the resource
-- uri: (required) The URI identifying the specific resource to access
+- uri: (required) The URI identifying the specific resource to access. This is either one of the server's direct resources, or a resource template URI
+- arguments: (optional) A JSON object with the values for the template variables, required when uri is a resource template such as \`weather://{city}/current\`
 Usage:
 <access_mcp_resource>
 <server_name>server name here</server_name>
 <uri>resource URI here</uri>
+<arguments>
+{
+  "variable": "value"
+}
+</arguments>
 </access_mcp_resource>
 
 Example: Requesting to access an MCP resource
@@ -20,5 +26,17 @@ Example: Requesting to access an MCP resource
 <access_mcp_resource>
 <server_name>weather-server</server_name>
 <uri>weather://san-francisco/current</uri>
+</access_mcp_resource>
+
+Example: Requesting a resource from a resource template
+
+<access_mcp_resource>
+<server_name>weather-server</server_name>
+<uri>weather://{city}/forecast</uri>
+<arguments>
+{
+  "city": "san-francisco"
+}
+</arguments>
 </access_mcp_resource>`
 }
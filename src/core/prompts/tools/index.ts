@@ -1,3 +1,4 @@
+import { ToolDefinition } from "../../../types/llm/request"
 import { FilesSearchSettings } from "../../../types/settings"
 import { Mode, ModeConfig, getGroupName, getModeConfig, isToolAllowedForMode } from "../../../utils/modes"
 import { DiffStrategy } from "../../diff/DiffStrategy"
@@ -17,6 +18,7 @@ import { getSearchAndReplaceDescription } from "./search-and-replace"
 import { getSearchFilesDescription } from "./search-files"
 import { getSearchWebDescription } from "./search-web"
 import { getSwitchModeDescription } from "./switch-mode"
+import { toolDefinitionMap } from "./tool-definitions"
 import { ALWAYS_AVAILABLE_TOOLS, TOOL_GROUPS } from "./tool-groups"
 import { ToolArgs } from "./types"
 import { getUseMcpToolDescription } from "./use-mcp-tool"
@@ -57,8 +59,6 @@ export function getToolDescriptionsForMode(
 	experiments?: Record<string, boolean>,
 ): string {
 	// console.log("getToolDescriptionsForMode", mode, customModes)
-	const config = getModeConfig(mode, customModes)
-	// console.log("config", config)
 	const args: ToolArgs = {
 		cwd,
 		searchSettings,
@@ -68,14 +68,62 @@ export function getToolDescriptionsForMode(
 		browserViewportSize,
 		mcpHub,
 	}
+	const tools = getToolNamesForMode(mode, customModes, experiments)
+
+	// Map tool descriptions for allowed tools
+	const descriptions = Array.from(tools).map((toolName) => {
+		const descriptionFn = toolDescriptionMap[toolName]
+		// console.log("descriptionFn", descriptionFn)
+		if (!descriptionFn) {
+			return undefined
+		}
+
+		return descriptionFn({
+			...args,
+			toolOptions: undefined, // No tool options in group-based approach
+		})
+	})
+
+	return `# Tools\n\n${descriptions.filter(Boolean).join("\n\n")}`
+}
+
+// JSON schema counterpart of getToolDescriptionsForMode, used with native function calling
+export function getToolDefinitionsForMode(
+	mode: Mode,
+	cwd: string,
+	searchSettings: FilesSearchSettings,
+	searchTool: string,
+	diffStrategy?: DiffStrategy,
+	mcpHub?: McpHub,
+	customModes?: ModeConfig[],
+	experiments?: Record<string, boolean>,
+): ToolDefinition[] {
+	const args: ToolArgs = {
+		cwd,
+		searchSettings,
+		searchTool,
+		supportsComputerUse: false,
+		diffStrategy,
+		mcpHub,
+	}
+	return Array.from(getToolNamesForMode(mode, customModes, experiments))
+		.map((toolName) => toolDefinitionMap[toolName]?.(args))
+		.filter((definition): definition is ToolDefinition => definition !== undefined)
+}
 
+function getToolNamesForMode(
+	mode: Mode,
+	customModes?: ModeConfig[],
+	experiments?: Record<string, boolean>,
+): Set<string> {
+	const config = getModeConfig(mode, customModes)
+	// console.log("config", config)
 	const tools = new Set<string>()
 
 	// Add tools from mode's groups
 	config.groups.forEach((groupEntry) => {
 		const groupName = getGroupName(groupEntry)
 		const toolGroup = TOOL_GROUPS[groupName]
-		console.log("toolGroup", toolGroup)
 		if (toolGroup) {
 			toolGroup.tools.forEach((tool) => {
 				if (isToolAllowedForMode(tool, mode, customModes ?? [], experiments ?? {})) {
@@ -88,21 +136,7 @@ export function getToolDescriptionsForMode(
 	// Add always available tools
 	ALWAYS_AVAILABLE_TOOLS.forEach((tool) => tools.add(tool))
 	// console.log("tools", tools)
-	// Map tool descriptions for allowed tools
-	const descriptions = Array.from(tools).map((toolName) => {
-		const descriptionFn = toolDescriptionMap[toolName]
-		// console.log("descriptionFn", descriptionFn)
-		if (!descriptionFn) {
-			return undefined
-		}
-
-		return descriptionFn({
-			...args,
-			toolOptions: undefined, // No tool options in group-based approach
-		})
-	})
-
-	return `# Tools\n\n${descriptions.filter(Boolean).join("\n\n")}`
+	return tools
 }
 
 // Export individual description functions for backward compatibility
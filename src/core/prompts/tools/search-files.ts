@@ -77,15 +77,35 @@ Description: Request to perform a semantic search across files in a specified di
 Parameters:
 - path: (required) The path of the directory to search in (relative to the current working directory ${args.cwd}). This directory will be recursively searched.
 - query: (required) The natural language query describing the information you're looking for. The system will find documents with similar semantic meaning.
+- tags: (optional) Comma separated tags the notes must have, e.g. \`meeting, project/x\`. A tag also matches its nested tags.
+- frontmatter: (optional) Frontmatter conditions separated by \`;\`, each one of \`key=value\`, \`key!=value\`, \`key~text\` (contains) or \`key\` (property exists).
+- modified_after: (optional) Only search notes modified on or after this date (YYYY-MM-DD).
+- modified_before: (optional) Only search notes modified on or before this date (YYYY-MM-DD).
+- path_glob: (optional) Comma separated glob patterns the note paths must match, e.g. \`Work/**/*.md\`.
 Usage:
 <semantic_search_files>
 <path>Directory path here</path>
 <query>Your natural language query here</query>
+<tags>Optional tags here</tags>
+<frontmatter>Optional frontmatter conditions here</frontmatter>
+<modified_after>Optional start date here</modified_after>
+<modified_before>Optional end date here</modified_before>
+<path_glob>Optional glob patterns here</path_glob>
 </semantic_search_files>
 
 Example: Requesting to find documents related to a specific topic
 <semantic_search_files>
 <path>Project/notes</path>
 <query>Benefits of meditation for stress reduction</query>
+</semantic_search_files>
+
+Example: Requesting to find decisions in meeting notes from May 2024 that are not drafts
+<semantic_search_files>
+<path>/</path>
+<query>Decisions about the release schedule</query>
+<tags>meeting</tags>
+<frontmatter>status!=draft</frontmatter>
+<modified_after>2024-05-01</modified_after>
+<modified_before>2024-05-31</modified_before>
 </semantic_search_files>`
 }
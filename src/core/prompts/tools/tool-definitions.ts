@@ -0,0 +1,264 @@
+import { JsonSchema, ToolDefinition } from "../../../types/llm/request"
+
+import { ToolArgs } from "./types"
+
+// Parameter names mirror the XML tags. In native mode these definitions replace the XML tool descriptions in the system prompt
+function defineTool(
+	name: string,
+	description: string,
+	properties: Record<string, JsonSchema>,
+	required: string[],
+): ToolDefinition {
+	return {
+		type: "function",
+		function: {
+			name,
+			description,
+			parameters: {
+				type: "object",
+				properties,
+				required,
+			},
+		},
+	}
+}
+
+const pathParam = (args: ToolArgs, description: string): JsonSchema => ({
+	type: "string",
+	description: `${description} (relative to the current working directory ${args.cwd})`,
+})
+
+function getSearchFilesDefinition(args: ToolArgs): ToolDefinition | undefined {
+	const path = pathParam(args, "The path of the directory to search in, searched recursively")
+	if (args.searchTool === "match") {
+		return defineTool(
+			"match_search_files",
+			"Perform a match/fuzzy search across files in a directory, returning each match with its surrounding context.",
+			{ path, query: { type: "string", description: "The keyword/phrase to search for" } },
+			["path", "query"],
+		)
+	} else if (args.searchTool === "regex") {
+		return defineTool(
+			"regex_search_files",
+			"Perform a regex search across files in a directory, returning each match with its surrounding context.",
+			{ path, regex: { type: "string", description: "The regular expression pattern to search for, without word boundaries (\\b)" } },
+			["path", "regex"],
+		)
+	} else if (args.searchTool === "semantic") {
+		return defineTool(
+			"semantic_search_files",
+			"Perform a semantic search across files in a directory, returning the most relevant passages.",
+			{
+				path,
+				query: { type: "string", description: "The natural language query to search for" },
+				tags: { type: "string", description: "Comma separated tags the notes must have, nested tags included" },
+				frontmatter: { type: "string", description: "Frontmatter conditions separated by ';', each one of key=value, key!=value, key~text or key" },
+				modified_after: { type: "string", description: "Only notes modified on or after this date (YYYY-MM-DD)" },
+				modified_before: { type: "string", description: "Only notes modified on or before this date (YYYY-MM-DD)" },
+				path_glob: { type: "string", description: "Comma separated glob patterns the note paths must match" },
+			},
+			["path", "query"],
+		)
+	}
+	return undefined
+}
+
+// Map of tool names to their JSON schema definitions, keys match toolDescriptionMap in ./index
+export const toolDefinitionMap: Record<string, (args: ToolArgs) => ToolDefinition | undefined> = {
+	read_file: (args) =>
+		defineTool(
+			"read_file",
+			"Read the contents of a file. The output is prefixed with line numbers.",
+			{ path: pathParam(args, "The path of the file to read") },
+			["path"],
+		),
+	write_to_file: (args) =>
+		defineTool(
+			"write_to_file",
+			"Write the complete content to a file, creating it if it does not exist and overwriting it otherwise.",
+			{
+				path: pathParam(args, "The path of the file to write to"),
+				content: { type: "string", description: "The complete intended content of the file, without line numbers" },
+				line_count: { type: "integer", description: "The number of lines in the file" },
+			},
+			["path", "content", "line_count"],
+		),
+	search_files: (args) => getSearchFilesDefinition(args),
+	list_files: (args) =>
+		defineTool(
+			"list_files",
+			"List the files and directories within a directory.",
+			{
+				path: pathParam(args, "The path of the directory to list contents for"),
+				recursive: { type: "boolean", description: "Whether to list files recursively" },
+			},
+			["path"],
+		),
+	insights: (args) =>
+		defineTool(
+			"insights",
+			"Apply an insight transformation to a file or folder.",
+			{
+				path: pathParam(args, "The path to the file or folder to be processed"),
+				transformation: {
+					type: "string",
+					enum: ["simple_summary", "key_insights", "dense_summary", "reflections", "table_of_contents", "analyze_paper"],
+				},
+			},
+			["path", "transformation"],
+		),
+	dataview_query: () =>
+		defineTool(
+			"dataview_query",
+			"Run a Dataview query (DQL) against the vault.",
+			{
+				query: { type: "string", description: "The Dataview query statement" },
+				output_format: { type: "string", enum: ["table", "list", "task", "calendar"] },
+			},
+			["query"],
+		),
+	ask_followup_question: () =>
+		defineTool(
+			"ask_followup_question",
+			"Ask the user a question to gather additional information needed to complete the task.",
+			{ question: { type: "string", description: "The question to ask the user" } },
+			["question"],
+		),
+	attempt_completion: () =>
+		defineTool(
+			"attempt_completion",
+			"Present the result of the task to the user once it is complete.",
+			{ result: { type: "string", description: "The final result of the task" } },
+			["result"],
+		),
+	switch_mode: () =>
+		defineTool(
+			"switch_mode",
+			"Request to switch to a different mode.",
+			{
+				mode_slug: { type: "string", description: "The slug of the mode to switch to" },
+				reason: { type: "string", description: "The reason for switching modes" },
+			},
+			["mode_slug"],
+		),
+	insert_content: (args) =>
+		defineTool(
+			"insert_content",
+			"Insert content at specific lines of a file without overwriting the existing content.",
+			{
+				path: pathParam(args, "The path of the file to insert content into"),
+				operations: {
+					type: "array",
+					items: {
+						type: "object",
+						properties: {
+							start_line: { type: "integer", description: "The line number where the content is inserted" },
+							content: { type: "string", description: "The content to insert" },
+						},
+						required: ["start_line", "content"],
+					},
+				},
+			},
+			["path", "operations"],
+		),
+	use_mcp_tool: (args) =>
+		args.mcpHub
+			? defineTool(
+				"use_mcp_tool",
+				"Use a tool provided by a connected MCP server.",
+				{
+					server_name: { type: "string", description: "The name of the MCP server providing the tool" },
+					tool_name: { type: "string", description: "The name of the tool to execute" },
+					arguments: { type: "object", description: "The tool's input parameters, following its input schema" },
+				},
+				["server_name", "tool_name", "arguments"],
+			)
+			: undefined,
+	access_mcp_resource: (args) =>
+		args.mcpHub
+			? defineTool(
+				"access_mcp_resource",
+				"Read a resource provided by a connected MCP server.",
+				{
+					server_name: { type: "string", description: "The name of the MCP server providing the resource" },
+					uri: { type: "string", description: "The URI or URI template identifying the resource" },
+					arguments: { type: "object", description: "Values for the variables of a resource template" },
+				},
+				["server_name", "uri"],
+			)
+			: undefined,
+	search_and_replace: (args) =>
+		defineTool(
+			"search_and_replace",
+			"Find and replace text or regex patterns in a file.",
+			{
+				path: pathParam(args, "The path of the file to modify"),
+				operations: {
+					type: "array",
+					items: {
+						type: "object",
+						properties: {
+							search: { type: "string" },
+							replace: { type: "string" },
+							start_line: { type: "integer" },
+							end_line: { type: "integer" },
+							use_regex: { type: "boolean" },
+							ignore_case: { type: "boolean" },
+							regex_flags: { type: "string" },
+						},
+						required: ["search", "replace"],
+					},
+				},
+			},
+			["path", "operations"],
+		),
+	manage_files: () =>
+		defineTool(
+			"manage_files",
+			"Move, rename, delete files or folders and create folders.",
+			{
+				operations: {
+					type: "array",
+					items: {
+						type: "object",
+						properties: {
+							action: { type: "string", enum: ["create_folder", "move", "delete", "copy", "rename"] },
+							path: { type: "string" },
+							source_path: { type: "string" },
+							destination_path: { type: "string" },
+							new_name: { type: "string" },
+						},
+						required: ["action"],
+					},
+				},
+			},
+			["operations"],
+		),
+	apply_diff: (args) =>
+		args.diffStrategy
+			? defineTool(
+				"apply_diff",
+				// Native mode leaves the XML tool descriptions out of the system prompt, so the diff format travels here
+				`Replace existing content in a file using search/replace blocks, in the diff format below.\n\n${args.diffStrategy.getToolDescription({ cwd: args.cwd, toolOptions: args.toolOptions })}`,
+				{
+					path: pathParam(args, "The path of the file to modify"),
+					diff: { type: "string", description: "The search/replace blocks defining the changes, in the diff format of the tool description" },
+				},
+				["path", "diff"],
+			)
+			: undefined,
+	search_web: () =>
+		defineTool(
+			"search_web",
+			"Search the internet for up-to-date information.",
+			{ query: { type: "string", description: "The search query" } },
+			["query"],
+		),
+	fetch_urls_content: () =>
+		defineTool(
+			"fetch_urls_content",
+			"Fetch the content of web pages.",
+			{ urls: { type: "array", items: { type: "string" }, description: "Complete URLs including the protocol" } },
+			["urls"],
+		),
+}
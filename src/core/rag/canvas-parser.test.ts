@@ -0,0 +1,32 @@
+import { parseCanvas } from './canvas-parser'
+
+describe('parseCanvas', () => {
+	it('should extract text nodes, file nodes and edge labels', () => {
+		const canvas = JSON.stringify({
+			nodes: [
+				{ id: 'g1', type: 'group', label: 'Roadmap', x: 0, y: 0, width: 1000, height: 1000 },
+				{ id: 'g2', type: 'group', label: 'Q3', x: 10, y: 10, width: 500, height: 500 },
+				{ id: 't1', type: 'text', text: '# Launch\nShip the beta', x: 20, y: 20, width: 200, height: 100 },
+				{ id: 'f1', type: 'file', file: 'Specs/Beta plan.md', subpath: '#Scope', x: 600, y: 20, width: 200, height: 100 },
+				{ id: 'l1', type: 'link', url: 'https://example.com', x: 2000, y: 0, width: 100, height: 100 },
+				{ id: 't2', type: 'text', text: '   ', x: 2000, y: 200, width: 100, height: 100 },
+			],
+			edges: [
+				{ id: 'e1', fromNode: 't1', toNode: 'f1', label: 'described in' },
+				{ id: 'e2', fromNode: 'f1', toNode: 't1' },
+			],
+		})
+
+		expect(parseCanvas(canvas)).toEqual([
+			{ nodeId: 't1', groupPath: ['Roadmap', 'Q3'], text: '# Launch\nShip the beta' },
+			{ nodeId: 'f1', groupPath: ['Roadmap'], text: '[[Specs/Beta plan.md#Scope]]' },
+			{ nodeId: 't1', groupPath: ['Roadmap', 'Q3'], text: 'Launch → Beta plan: described in' },
+		])
+	})
+
+	it('should ignore malformed canvas files', () => {
+		expect(parseCanvas('')).toEqual([])
+		expect(parseCanvas('{"nodes": "none"}')).toEqual([])
+		expect(parseCanvas('{"nodes": [{"type": "text"}], "edges": [{}]}')).toEqual([])
+	})
+})
@@ -0,0 +1,117 @@
+export type CanvasSection = {
+	// Node that a search hit on this section should focus
+	nodeId: string
+	// Labels of the groups around the node, outermost first
+	groupPath: string[]
+	// Markdown that is fed to the chunker
+	text: string
+}
+
+type CanvasNode = {
+	id: string
+	type: string
+	x: number
+	y: number
+	width: number
+	height: number
+	text?: string
+	file?: string
+	subpath?: string
+	label?: string
+}
+
+type CanvasEdge = {
+	fromNode: string
+	toNode: string
+	label?: string
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+	typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const optionalString = (value: unknown) => (typeof value === 'string' ? value : undefined)
+
+function toCanvasNode(value: unknown): CanvasNode | null {
+	if (!isRecord(value) || typeof value.id !== 'string' || typeof value.type !== 'string') return null
+	return {
+		id: value.id,
+		type: value.type,
+		x: Number(value.x) || 0,
+		y: Number(value.y) || 0,
+		width: Number(value.width) || 0,
+		height: Number(value.height) || 0,
+		text: optionalString(value.text),
+		file: optionalString(value.file),
+		subpath: optionalString(value.subpath),
+		label: optionalString(value.label),
+	}
+}
+
+function toCanvasEdge(value: unknown): CanvasEdge | null {
+	if (!isRecord(value) || typeof value.fromNode !== 'string' || typeof value.toNode !== 'string') return null
+	return { fromNode: value.fromNode, toNode: value.toNode, label: optionalString(value.label) }
+}
+
+const contains = (group: CanvasNode, node: CanvasNode) =>
+	group.id !== node.id &&
+	node.x >= group.x &&
+	node.y >= group.y &&
+	node.x + node.width <= group.x + group.width &&
+	node.y + node.height <= group.y + group.height
+
+// Short name of a node, used to describe the ends of an edge
+function getNodeName(node: CanvasNode | undefined): string {
+	if (!node) return ''
+	if (node.type === 'file' && node.file) return node.file.split('/').pop()?.replace(/\.md$/, '') ?? node.file
+	if (node.type === 'group') return node.label ?? ''
+	const firstLine = (node.text ?? '').trim().split('\n')[0].replace(/^#+\s*/, '')
+	return firstLine.length > 60 ? `${firstLine.slice(0, 60)}…` : firstLine
+}
+
+/**
+ * Extracts the searchable parts of a `.canvas` file: text nodes, links to
+ * files and edge labels. Nodes inside a group get the group label as context.
+ */
+export function parseCanvas(json: string): CanvasSection[] {
+	let data: unknown
+	try {
+		data = JSON.parse(json)
+	} catch {
+		return []
+	}
+	if (!isRecord(data)) return []
+
+	const nodes = (Array.isArray(data.nodes) ? data.nodes : []).map(toCanvasNode).filter((node) => node !== null)
+	const edges = (Array.isArray(data.edges) ? data.edges : []).map(toCanvasEdge).filter((edge) => edge !== null)
+	const nodesById = new Map(nodes.map((node) => [node.id, node]))
+	// Larger groups first, so nested group labels come out outermost first
+	const groups = nodes
+		.filter((node) => node.type === 'group' && node.label)
+		.sort((a, b) => b.width * b.height - a.width * a.height)
+	const getGroupPath = (node: CanvasNode | undefined) =>
+		node ? groups.filter((group) => contains(group, node)).map((group) => group.label ?? '') : []
+
+	const sections: CanvasSection[] = []
+	for (const node of nodes) {
+		const text =
+			node.type === 'text'
+				? node.text ?? ''
+				: node.type === 'file' && node.file
+					? `[[${node.file}${node.subpath ?? ''}]]`
+					: ''
+		if (text.trim()) {
+			sections.push({ nodeId: node.id, groupPath: getGroupPath(node), text })
+		}
+	}
+	for (const edge of edges) {
+		if (!edge.label?.trim()) continue
+		const from = nodesById.get(edge.fromNode)
+		const to = nodesById.get(edge.toNode)
+		sections.push({
+			nodeId: edge.fromNode,
+			groupPath: getGroupPath(from),
+			text: `${getNodeName(from)} → ${getNodeName(to)}: ${edge.label.trim()}`,
+		})
+	}
+	return sections
+}
@@ -0,0 +1,42 @@
+import { clusterDuplicates, mergeNoteContents } from './duplicate-notes'
+
+const pair = (sourceId: number, sourcePath: string, targetId: number, targetPath: string, similarity: number) => ({
+	source_id: sourceId,
+	source_path: sourcePath,
+	target_id: targetId,
+	target_path: targetPath,
+	similarity,
+})
+
+describe('clusterDuplicates', () => {
+	it('should link notes that share chunks into clusters', () => {
+		const chunkCounts = new Map([['a.md', 2], ['b.md', 2], ['c.md', 4], ['x.md', 1], ['y.md', 1]])
+		const clusters = clusterDuplicates(
+			[
+				pair(1, 'a.md', 3, 'b.md', 0.97),
+				pair(4, 'b.md', 2, 'a.md', 0.95),
+				pair(3, 'b.md', 5, 'c.md', 0.93),
+				pair(7, 'x.md', 8, 'y.md', 0.99),
+			],
+			chunkCounts,
+		)
+
+		expect(clusters.map(({ paths, similarity }) => ({ paths, similarity }))).toEqual([
+			{ paths: ['x.md', 'y.md'], similarity: 0.99 },
+			{ paths: ['a.md', 'b.md', 'c.md'], similarity: 0.97 },
+		])
+		expect(clusters[1].pairs.map(({ paths, kind, coverage }) => ({ paths, kind, coverage }))).toEqual([
+			{ paths: ['a.md', 'b.md'], kind: 'duplicate', coverage: [1, 1] },
+			{ paths: ['b.md', 'c.md'], kind: 'overlap', coverage: [0.5, 0.25] },
+		])
+	})
+})
+
+describe('mergeNoteContents', () => {
+	it('should keep the target and add the lines only the source has', () => {
+		expect(mergeNoteContents('# Plan\nShip beta\n', '# Plan\nShip beta\nWrite docs')).toBe(
+			'# Plan\nShip beta\nWrite docs\n',
+		)
+		expect(mergeNoteContents('a\nb\n', 'a\nc\n')).toBe('a\nb\nc\n')
+	})
+})
@@ -0,0 +1,102 @@
+import { diffLines } from 'diff'
+
+type ChunkPair = {
+	source_id: number
+	source_path: string
+	target_id: number
+	target_path: string
+	similarity: number
+}
+
+export type DuplicateNotePair<T extends ChunkPair> = {
+	paths: [string, string]
+	// Near-duplicates match on almost every chunk, overlapping notes share some passages
+	kind: 'duplicate' | 'overlap'
+	// Best chunk pair similarity
+	similarity: number
+	// Share of the chunks of each note that have a match in the other
+	coverage: [number, number]
+	chunkPairs: T[]
+}
+
+export type DuplicateCluster<T extends ChunkPair> = {
+	paths: string[]
+	similarity: number
+	pairs: DuplicateNotePair<T>[]
+}
+
+const DUPLICATE_COVERAGE = 0.8
+
+/**
+ * Groups similar chunk pairs by the two notes they belong to, then links
+ * notes that share chunks into clusters, most similar first.
+ */
+export function clusterDuplicates<T extends ChunkPair>(
+	chunkPairs: T[],
+	chunkCounts: Map<string, number>,
+): DuplicateCluster<T>[] {
+	const notePairs = new Map<string, { paths: [string, string]; chunkPairs: T[]; matched: [Set<number>, Set<number>] }>()
+	for (const pair of chunkPairs) {
+		const [first, second] = [pair.source_path, pair.target_path].sort()
+		const key = JSON.stringify([first, second])
+		let notePair = notePairs.get(key)
+		if (!notePair) {
+			notePair = { paths: [first, second], chunkPairs: [], matched: [new Set(), new Set()] }
+			notePairs.set(key, notePair)
+		}
+		notePair.chunkPairs.push(pair)
+		const sourceIsFirst = pair.source_path === first
+		notePair.matched[0].add(sourceIsFirst ? pair.source_id : pair.target_id)
+		notePair.matched[1].add(sourceIsFirst ? pair.target_id : pair.source_id)
+	}
+
+	// Union-find over note paths
+	const parents = new Map<string, string>()
+	const find = (path: string): string => {
+		const parent = parents.get(path) ?? path
+		if (parent === path) return path
+		const root = find(parent)
+		parents.set(path, root)
+		return root
+	}
+
+	const clusters = new Map<string, DuplicateCluster<T>>()
+	const duplicatePairs: DuplicateNotePair<T>[] = []
+	for (const { paths, chunkPairs: pairs, matched } of notePairs.values()) {
+		const coverage: [number, number] = [
+			Math.min(matched[0].size / (chunkCounts.get(paths[0]) ?? matched[0].size), 1),
+			Math.min(matched[1].size / (chunkCounts.get(paths[1]) ?? matched[1].size), 1),
+		]
+		const sortedPairs = [...pairs].sort((a, b) => b.similarity - a.similarity)
+		duplicatePairs.push({
+			paths,
+			kind: Math.min(...coverage) >= DUPLICATE_COVERAGE ? 'duplicate' : 'overlap',
+			similarity: sortedPairs[0].similarity,
+			coverage,
+			chunkPairs: sortedPairs,
+		})
+		parents.set(find(paths[1]), find(paths[0]))
+	}
+
+	for (const pair of duplicatePairs.sort((a, b) => b.similarity - a.similarity)) {
+		const root = find(pair.paths[0])
+		const cluster = clusters.get(root) ?? { paths: [], similarity: pair.similarity, pairs: [] }
+		for (const path of pair.paths) {
+			if (!cluster.paths.includes(path)) cluster.paths.push(path)
+		}
+		cluster.pairs.push(pair)
+		clusters.set(root, cluster)
+	}
+	return [...clusters.values()].sort((a, b) => b.similarity - a.similarity)
+}
+
+/**
+ * Merges `source` into `target`: the lines of both notes in the order of
+ * their diff, so the merge only adds to the target.
+ */
+export function mergeNoteContents(target: string, source: string): string {
+	const withNewline = (text: string) => (text === '' || text.endsWith('\n') ? text : `${text}\n`)
+	return diffLines(withNewline(target), withNewline(source))
+		.map((change) => change.value)
+		.join('')
+}
@@ -0,0 +1,51 @@
+import { EmbeddingIndexStateData, findOrphanedTables, planModelSwitch } from './embedding-index-state'
+
+const small = { provider: 'openai', modelId: 'text-embedding-3-small', dimension: 1536 }
+const local = { provider: 'localprovider', modelId: 'Xenova/bge-small-en-v1.5', dimension: 384 }
+const otherLocal = { provider: 'localprovider', modelId: 'Xenova/all-MiniLM-L6-v2', dimension: 384 }
+
+const state = (data: Partial<EmbeddingIndexStateData>): EmbeddingIndexStateData => ({
+	active: null,
+	tables: {},
+	migration: null,
+	...data,
+})
+
+describe('planModelSwitch', () => {
+	it('should migrate only when the old index would stop matching', () => {
+		expect(planModelSwitch(state({}), local)).toEqual({ type: 'none' })
+		expect(planModelSwitch(state({ active: local }), local)).toEqual({ type: 'none' })
+		expect(planModelSwitch(state({ active: local }), small)).toEqual({ type: 'migrate', from: local })
+		// Same dimension, the table still holds the vectors of the old model
+		expect(
+			planModelSwitch(state({ active: local, tables: { embeddings_384: local } }), otherLocal),
+		).toEqual({ type: 'migrate', from: local })
+		// Switching back to a model whose table was left in place
+		expect(
+			planModelSwitch(state({ active: local, tables: { embeddings_384: local, embeddings_1536: small } }), small),
+		).toEqual({ type: 'activate' })
+	})
+})
+
+describe('findOrphanedTables', () => {
+	it('should report tables the active model can not use', () => {
+		const rowCounts = {
+			embeddings_384: 120,
+			embeddings_1536: 80,
+			embeddings_768: 0,
+			embeddings_512_migration: 10,
+			source_insight_384: 5,
+			source_insight_1536: 7,
+		}
+		expect(findOrphanedTables(state({ active: local, tables: { embeddings_1536: small } }), rowCounts)).toEqual([
+			{ table: 'embeddings_1536', rows: 80, model: small },
+			{ table: 'embeddings_512_migration', rows: 10 },
+			{ table: 'source_insight_1536', rows: 7 },
+		])
+	})
+
+	it('should keep both indexes of a running migration', () => {
+		const migrating = state({ active: local, migration: { from: local, to: small, startedAt: 0 } })
+		expect(findOrphanedTables(migrating, { embeddings_384: 120, embeddings_1536_migration: 40 })).toEqual([])
+	})
+})
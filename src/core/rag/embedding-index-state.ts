@@ -0,0 +1,213 @@
+import { App, normalizePath } from 'obsidian'
+
+import { ROOT_DIR } from '../../database/json/constants'
+
+const STATE_FILE = 'embedding_index.json'
+
+export type EmbeddingModelRef = {
+	provider: string
+	modelId: string
+	dimension: number
+}
+
+export type EmbeddingMigration = {
+	from: EmbeddingModelRef
+	to: EmbeddingModelRef
+	startedAt: number
+}
+
+export type EmbeddingIndexStateData = {
+	// Model that answers queries, null before the first index
+	active: EmbeddingModelRef | null
+	// Model whose vectors each embeddings table holds
+	tables: Record<string, EmbeddingModelRef>
+	migration: EmbeddingMigration | null
+}
+
+export type ModelSwitchPlan =
+	| { type: 'none' }
+	// The new model already has its own table, queries move over right away
+	| { type: 'activate' }
+	| { type: 'migrate'; from: EmbeddingModelRef }
+
+export type OrphanedTable = {
+	table: string
+	rows: number
+	// Model that built the table, when it is known
+	model?: EmbeddingModelRef
+}
+
+export const getVectorTableName = (dimension: number) => `embeddings_${dimension}`
+
+export const getStagingTableName = (dimension: number) => `embeddings_${dimension}_migration`
+
+export const getInsightTableName = (dimension: number) => `source_insight_${dimension}`
+
+export const isSameModel = (a: EmbeddingModelRef | null | undefined, b: EmbeddingModelRef | null | undefined) =>
+	Boolean(a && b && a.provider === b.provider && a.modelId === b.modelId)
+
+/**
+ * Decides what switching the embedding model to `next` needs. A full
+ * re-index into a staging table is only needed when the old model has an
+ * index that would stop matching the queries.
+ */
+export function planModelSwitch(state: EmbeddingIndexStateData, next: EmbeddingModelRef): ModelSwitchPlan {
+	if (!state.active || isSameModel(state.active, next)) {
+		return { type: 'none' }
+	}
+	if (isSameModel(state.tables[getVectorTableName(next.dimension)], next)) {
+		return { type: 'activate' }
+	}
+	return { type: 'migrate', from: state.active }
+}
+
+/**
+ * Lists tables that hold rows the active model can not use: vector tables of
+ * other models, staging tables of abandoned migrations and insight tables of
+ * other dimensions.
+ */
+export function findOrphanedTables(
+	state: EmbeddingIndexStateData,
+	rowCounts: Record<string, number>,
+): OrphanedTable[] {
+	const activeTable = state.active ? getVectorTableName(state.active.dimension) : null
+	const activeInsightTable = state.active ? getInsightTableName(state.active.dimension) : null
+	const stagingTable = state.migration ? getStagingTableName(state.migration.to.dimension) : null
+	// Keep the old index while a migration still serves queries from it
+	const servingTable = state.migration ? getVectorTableName(state.migration.from.dimension) : null
+
+	return Object.entries(rowCounts)
+		.filter(([table, rows]) =>
+			rows > 0 &&
+			table !== activeTable &&
+			table !== activeInsightTable &&
+			table !== stagingTable &&
+			table !== servingTable,
+		)
+		.map(([table, rows]) => {
+			const model = state.tables[table]
+			return model ? { table, rows, model } : { table, rows }
+		})
+		.sort((a, b) => a.table.localeCompare(b.table))
+}
+
+const isModelRef = (value: unknown): value is EmbeddingModelRef =>
+	typeof value === 'object' && value !== null &&
+	'provider' in value && typeof value.provider === 'string' &&
+	'modelId' in value && typeof value.modelId === 'string' &&
+	'dimension' in value && typeof value.dimension === 'number'
+
+function parseState(value: unknown): EmbeddingIndexStateData | null {
+	if (typeof value !== 'object' || value === null) return null
+	const active = 'active' in value && isModelRef(value.active) ? value.active : null
+	const tables: Record<string, EmbeddingModelRef> = {}
+	if ('tables' in value && typeof value.tables === 'object' && value.tables !== null) {
+		for (const [table, model] of Object.entries(value.tables)) {
+			if (isModelRef(model)) tables[table] = model
+		}
+	}
+	let migration: EmbeddingMigration | null = null
+	if ('migration' in value && typeof value.migration === 'object' && value.migration !== null) {
+		const stored = value.migration
+		if ('from' in stored && isModelRef(stored.from) && 'to' in stored && isModelRef(stored.to)) {
+			migration = {
+				from: stored.from,
+				to: stored.to,
+				startedAt: 'startedAt' in stored && typeof stored.startedAt === 'number' ? stored.startedAt : Date.now(),
+			}
+		}
+	}
+	return { active, tables, migration }
+}
+
+/**
+ * Remembers which embedding model built each vector table and the state of
+ * a running model migration, next to the JSON database.
+ */
+export class EmbeddingIndexState {
+	private app: App
+	private filePath: string
+	private data: EmbeddingIndexStateData = { active: null, tables: {}, migration: null }
+	private loaded = false
+	// Serializes writes, an older snapshot must not overwrite a newer one
+	private saveQueue: Promise<void> = Promise.resolve()
+
+	constructor(app: App) {
+		this.app = app
+		this.filePath = normalizePath(`${ROOT_DIR}/${STATE_FILE}`)
+	}
+
+	get snapshot(): EmbeddingIndexStateData {
+		return this.data
+	}
+
+	get isLoaded(): boolean {
+		return this.loaded
+	}
+
+	async load(): Promise<void> {
+		if (this.loaded) return
+		if (await this.app.vault.adapter.exists(this.filePath)) {
+			try {
+				const parsed: unknown = JSON.parse(await this.app.vault.adapter.read(this.filePath))
+				this.data = parseState(parsed) ?? this.data
+			} catch (error) {
+				console.error('Failed to read embedding index state:', error)
+			}
+		}
+		this.loaded = true
+	}
+
+	// Records the model that answers queries, e.g. after its first index
+	async setActive(model: EmbeddingModelRef): Promise<void> {
+		this.data = {
+			...this.data,
+			active: model,
+			tables: { ...this.data.tables, [getVectorTableName(model.dimension)]: model },
+		}
+		await this.save()
+	}
+
+	async startMigration(from: EmbeddingModelRef, to: EmbeddingModelRef): Promise<void> {
+		this.data = { ...this.data, migration: { from, to, startedAt: Date.now() } }
+		await this.save()
+	}
+
+	async cancelMigration(): Promise<void> {
+		this.data = { ...this.data, migration: null }
+		await this.save()
+	}
+
+	// Called once the staging table has replaced the vector table of the new model
+	async completeMigration(): Promise<void> {
+		const migration = this.data.migration
+		if (!migration) return
+		this.data = {
+			active: migration.to,
+			tables: { ...this.data.tables, [getVectorTableName(migration.to.dimension)]: migration.to },
+			migration: null,
+		}
+		await this.save()
+	}
+
+	async forgetTables(tables: string[]): Promise<void> {
+		this.data = {
+			...this.data,
+			tables: Object.fromEntries(Object.entries(this.data.tables).filter(([table]) => !tables.includes(table))),
+		}
+		await this.save()
+	}
+
+	private save(): Promise<void> {
+		const snapshot = this.data
+		this.saveQueue = this.saveQueue.then(async () => {
+			if (!(await this.app.vault.adapter.exists(ROOT_DIR))) {
+				await this.app.vault.adapter.mkdir(ROOT_DIR)
+			}
+			await this.app.vault.adapter.write(this.filePath, JSON.stringify(snapshot, null, 2))
+		}).catch((error) => {
+			console.error('Failed to save embedding index state:', error)
+		})
+		return this.saveQueue
+	}
+}
@@ -0,0 +1,28 @@
+import { diffIndex, isIndexHealthy } from './index-integrity'
+
+describe('diffIndex', () => {
+	it('should report missing, stale, orphaned and empty files', () => {
+		const files = [
+			{ path: 'b.md', mtime: 200, empty: false },
+			{ path: 'a.md', mtime: 100, empty: false },
+			{ path: 'fresh.md', mtime: 100, empty: false },
+			{ path: 'empty.md', mtime: 100, empty: true },
+			{ path: 'frontmatter-only.md', mtime: 100, empty: true },
+		]
+		const indexed = new Map([
+			['b.md', 150],
+			['fresh.md', 100],
+			['deleted.md', 100],
+		])
+
+		const report = diffIndex(files, indexed)
+		expect(report).toEqual({
+			missing: ['a.md'],
+			stale: ['b.md'],
+			orphaned: ['deleted.md'],
+			empty: ['empty.md', 'frontmatter-only.md'],
+		})
+		expect(isIndexHealthy(report)).toBe(false)
+		expect(isIndexHealthy({ ...report, missing: [], stale: [], orphaned: [] })).toBe(true)
+	})
+})
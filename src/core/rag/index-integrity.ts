@@ -0,0 +1,45 @@
+export type VaultFileInfo = {
+	path: string
+	mtime: number
+	// Produces no chunks, e.g. a blank note or one with only frontmatter
+	empty: boolean
+}
+
+export type IndexIntegrityReport = {
+	// Indexable files without any vectors
+	missing: string[]
+	// Files modified after their vectors were written
+	stale: string[]
+	// Vectors of files that were deleted or are excluded now
+	orphaned: string[]
+	// Files that produce no chunks, they have no vectors and are not re-indexed
+	empty: string[]
+}
+
+export const isIndexHealthy = (report: IndexIntegrityReport) =>
+	report.missing.length === 0 && report.stale.length === 0 && report.orphaned.length === 0
+
+/**
+ * Diffs the indexable files of the vault against the indexed paths and the
+ * oldest mtime stored for each of them.
+ */
+export function diffIndex(files: VaultFileInfo[], indexedMtimes: Map<string, number>): IndexIntegrityReport {
+	const report: IndexIntegrityReport = { missing: [], stale: [], orphaned: [], empty: [] }
+	const filePaths = new Set<string>()
+	for (const file of files) {
+		filePaths.add(file.path)
+		const indexedMtime = indexedMtimes.get(file.path)
+		if (indexedMtime === undefined) {
+			report[file.empty ? 'empty' : 'missing'].push(file.path)
+		} else if (indexedMtime < file.mtime) {
+			report.stale.push(file.path)
+		}
+	}
+	for (const path of indexedMtimes.keys()) {
+		if (!filePaths.has(path)) report.orphaned.push(path)
+	}
+	for (const paths of Object.values(report)) {
+		paths.sort()
+	}
+	return report
+}
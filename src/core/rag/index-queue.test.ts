@@ -0,0 +1,82 @@
+import { IndexTask, enqueueIndexTask, shouldIndexPath } from './index-queue'
+
+const enqueueAll = (tasks: IndexTask[]) => tasks.reduce(enqueueIndexTask, [])
+
+describe('enqueueIndexTask', () => {
+	it('should update each file once', () => {
+		expect(
+			enqueueAll([
+				{ type: 'update', path: 'a.md' },
+				{ type: 'update', path: 'b.md' },
+				{ type: 'update', path: 'a.md' },
+			]),
+		).toEqual([
+			{ type: 'update', path: 'a.md' },
+			{ type: 'update', path: 'b.md' },
+		])
+	})
+
+	it('should drop pending work on deleted files', () => {
+		expect(
+			enqueueAll([
+				{ type: 'update', path: 'a.md' },
+				{ type: 'delete', path: 'a.md' },
+			]),
+		).toEqual([{ type: 'delete', path: 'a.md' }])
+	})
+
+	it('should move vectors on rename and follow rename chains', () => {
+		expect(enqueueAll([{ type: 'rename', oldPath: 'a.md', path: 'b.md' }])).toEqual([
+			{ type: 'rename', oldPath: 'a.md', path: 'b.md' },
+		])
+		expect(
+			enqueueAll([
+				{ type: 'rename', oldPath: 'a.md', path: 'b.md' },
+				{ type: 'rename', oldPath: 'b.md', path: 'c.md' },
+			]),
+		).toEqual([{ type: 'rename', oldPath: 'a.md', path: 'c.md' }])
+		expect(
+			enqueueAll([
+				{ type: 'rename', oldPath: 'a.md', path: 'b.md' },
+				{ type: 'rename', oldPath: 'b.md', path: 'a.md' },
+			]),
+		).toEqual([])
+	})
+
+	it('should re-embed renamed files that have pending changes', () => {
+		expect(
+			enqueueAll([
+				{ type: 'update', path: 'a.md' },
+				{ type: 'rename', oldPath: 'a.md', path: 'b.md' },
+			]),
+		).toEqual([
+			{ type: 'update', path: 'b.md' },
+			{ type: 'delete', path: 'a.md' },
+		])
+	})
+
+	it('should delete vectors under the old path of renamed files', () => {
+		expect(
+			enqueueAll([
+				{ type: 'rename', oldPath: 'a.md', path: 'b.md' },
+				{ type: 'delete', path: 'b.md' },
+			]),
+		).toEqual([
+			{ type: 'delete', path: 'a.md' },
+			{ type: 'delete', path: 'b.md' },
+		])
+	})
+})
+
+describe('shouldIndexPath', () => {
+	it('should apply include and exclude patterns to indexable files', () => {
+		const patterns = { includePatterns: ['notes/**'], excludePatterns: ['notes/private/**'] }
+		expect(shouldIndexPath('notes/a.md', patterns)).toBe(true)
+		expect(shouldIndexPath('notes/private/a.md', patterns)).toBe(false)
+		expect(shouldIndexPath('other/a.md', patterns)).toBe(false)
+		expect(shouldIndexPath('notes/a.png', patterns)).toBe(false)
+		expect(shouldIndexPath('notes/a.pdf', patterns)).toBe(true)
+		expect(shouldIndexPath('notes/board.canvas', patterns)).toBe(true)
+		expect(shouldIndexPath('a.md', { includePatterns: [], excludePatterns: [] })).toBe(true)
+	})
+})
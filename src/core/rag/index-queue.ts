@@ -0,0 +1,235 @@
+import { minimatch } from 'minimatch'
+import { App, normalizePath } from 'obsidian'
+
+import { ROOT_DIR } from '../../database/json/constants'
+
+const QUEUE_FILE = 'index_queue.json'
+const PROCESS_DELAY_MS = 5000
+const RETRY_DELAY_MS = 60000
+const MAX_ATTEMPTS = 3
+
+export type IndexTask =
+	| { type: 'update'; path: string }
+	| { type: 'delete'; path: string }
+	| { type: 'rename'; oldPath: string; path: string }
+
+/**
+ * Adds a task to the pending ones, merging it with earlier tasks on the same
+ * file so every file is embedded at most once per run.
+ */
+export function enqueueIndexTask(tasks: IndexTask[], task: IndexTask): IndexTask[] {
+	switch (task.type) {
+		case 'update':
+			return tasks.some((pending) => pending.type === 'update' && pending.path === task.path)
+				? tasks
+				: [...tasks, task]
+		case 'delete': {
+			// A file renamed and then deleted still has its vectors under the old path
+			const renamed = tasks.find((pending) => pending.type === 'rename' && pending.path === task.path)
+			const remaining = tasks.filter((pending) => pending.path !== task.path)
+			return renamed && renamed.type === 'rename'
+				? [...remaining, { type: 'delete', path: renamed.oldPath }, task]
+				: [...remaining, task]
+		}
+		case 'rename': {
+			const hasChainedRename = tasks.some((pending) => pending.type === 'rename' && pending.path === task.oldPath)
+			const hasUpdate = tasks.some((pending) => pending.type === 'update' && pending.path === task.oldPath)
+			// Pending work on the old path follows the file
+			const moved = tasks.flatMap((pending): IndexTask[] => {
+				if (pending.type === 'rename' && pending.path === task.oldPath) {
+					return pending.oldPath === task.path ? [] : [{ ...pending, path: task.path }]
+				}
+				if (pending.type === 'update' && pending.path === task.oldPath) {
+					return [{ ...pending, path: task.path }]
+				}
+				return [pending]
+			})
+			if (hasChainedRename) {
+				return moved
+			}
+			// The file is embedded again anyway, so the old vectors are dropped instead of moved
+			return hasUpdate ? [...moved, { type: 'delete', path: task.oldPath }] : [...moved, task]
+		}
+	}
+}
+
+// Markdown notes, PDFs and Canvas boards are embedded
+export const INDEXABLE_EXTENSIONS = ['md', 'pdf', 'canvas']
+
+export const isIndexableExtension = (extension: string) => INDEXABLE_EXTENSIONS.includes(extension.toLowerCase())
+
+/**
+ * Applies the include and exclude globs of the RAG settings, the same way a
+ * full vault index does.
+ */
+export function shouldIndexPath(
+	path: string,
+	{ includePatterns, excludePatterns }: { includePatterns: string[]; excludePatterns: string[] },
+): boolean {
+	if (!isIndexableExtension(path.split('.').pop() ?? '')) return false
+	if (excludePatterns.some((pattern) => minimatch(path, pattern))) return false
+	return includePatterns.length === 0 || includePatterns.some((pattern) => minimatch(path, pattern))
+}
+
+export type IndexQueueOptions = {
+	shouldIndex: (path: string) => boolean
+	// Processing waits while this returns false, e.g. without an embedding model
+	canProcess: () => boolean
+	runTask: (task: IndexTask) => Promise<void>
+	onSizeChange?: (size: number) => void
+}
+
+/**
+ * Keeps the vector index in sync with vault changes. Tasks are debounced,
+ * merged per file and persisted next to the JSON database so pending work
+ * survives restarts.
+ */
+export class IndexQueue {
+	private app: App
+	private options: IndexQueueOptions
+	private filePath: string
+	private tasks: IndexTask[] = []
+	private runningTask: IndexTask | null = null
+	private attempts = new Map<string, number>()
+	private timer: ReturnType<typeof setTimeout> | null = null
+	private disposed = false
+	// Serializes writes, an older snapshot must not overwrite a newer one
+	private saveQueue: Promise<void> = Promise.resolve()
+
+	constructor(app: App, options: IndexQueueOptions) {
+		this.app = app
+		this.options = options
+		this.filePath = normalizePath(`${ROOT_DIR}/${QUEUE_FILE}`)
+	}
+
+	get size(): number {
+		return this.tasks.length + (this.runningTask ? 1 : 0)
+	}
+
+	async load(): Promise<void> {
+		if (await this.app.vault.adapter.exists(this.filePath)) {
+			try {
+				const parsed: unknown = JSON.parse(await this.app.vault.adapter.read(this.filePath))
+				const stored = Array.isArray(parsed) ? parsed.filter(isIndexTask) : []
+				this.tasks = stored.reduce(enqueueIndexTask, this.tasks)
+			} catch (error) {
+				console.error('Failed to read index queue:', error)
+			}
+		}
+		this.options.onSizeChange?.(this.size)
+		if (this.tasks.length > 0) {
+			this.schedule(PROCESS_DELAY_MS)
+		}
+	}
+
+	fileChanged(path: string): void {
+		if (this.options.shouldIndex(path)) {
+			this.enqueue({ type: 'update', path })
+		}
+	}
+
+	fileDeleted(path: string): void {
+		this.enqueue({ type: 'delete', path })
+	}
+
+	fileRenamed(oldPath: string, path: string): void {
+		const wasIndexed = this.options.shouldIndex(oldPath)
+		const isIndexed = this.options.shouldIndex(path)
+		if (wasIndexed && isIndexed) {
+			this.enqueue({ type: 'rename', oldPath, path })
+		} else if (wasIndexed) {
+			this.enqueue({ type: 'delete', path: oldPath })
+		} else if (isIndexed) {
+			this.enqueue({ type: 'update', path })
+		}
+	}
+
+	// Starts processing pending tasks, e.g. once an embedding model is configured
+	resume(): void {
+		if (this.tasks.length > 0) {
+			this.schedule(0)
+		}
+	}
+
+	dispose(): void {
+		this.disposed = true
+		if (this.timer) {
+			clearTimeout(this.timer)
+			this.timer = null
+		}
+	}
+
+	private enqueue(task: IndexTask): void {
+		if (this.disposed) return
+		this.tasks = enqueueIndexTask(this.tasks, task)
+		this.changed()
+		this.schedule(PROCESS_DELAY_MS)
+	}
+
+	private schedule(delay: number): void {
+		if (this.timer) {
+			clearTimeout(this.timer)
+		}
+		this.timer = setTimeout(() => {
+			this.timer = null
+			void this.process()
+		}, delay)
+	}
+
+	private async process(): Promise<void> {
+		if (this.runningTask || this.disposed || !this.options.canProcess()) return
+
+		while (this.tasks.length > 0 && !this.disposed) {
+			const task = this.tasks[0]
+			this.tasks = this.tasks.slice(1)
+			this.runningTask = task
+			try {
+				await this.options.runTask(task)
+				this.attempts.delete(getTaskKey(task))
+			} catch (error) {
+				const key = getTaskKey(task)
+				const attempts = (this.attempts.get(key) ?? 0) + 1
+				console.error(`Failed to index ${task.path} (attempt ${attempts}):`, error)
+				if (attempts < MAX_ATTEMPTS) {
+					this.attempts.set(key, attempts)
+					this.tasks = [task, ...this.tasks]
+					this.runningTask = null
+					this.changed()
+					this.schedule(RETRY_DELAY_MS)
+					return
+				}
+				this.attempts.delete(key)
+			}
+			this.runningTask = null
+			this.changed()
+		}
+	}
+
+	private changed(): void {
+		this.options.onSizeChange?.(this.size)
+		const snapshot = this.runningTask ? [this.runningTask, ...this.tasks] : this.tasks
+		this.saveQueue = this.saveQueue.then(async () => {
+			if (!(await this.app.vault.adapter.exists(ROOT_DIR))) {
+				await this.app.vault.adapter.mkdir(ROOT_DIR)
+			}
+			await this.app.vault.adapter.write(this.filePath, JSON.stringify(snapshot))
+		}).catch((error) => {
+			console.error('Failed to save index queue:', error)
+		})
+	}
+}
+
+function getTaskKey(task: IndexTask): string {
+	return task.type === 'rename' ? `rename:${task.oldPath}:${task.path}` : `${task.type}:${task.path}`
+}
+
+function isIndexTask(value: unknown): value is IndexTask {
+	if (typeof value !== 'object' || value === null || !('type' in value) || !('path' in value)) {
+		return false
+	}
+	if (typeof value.path !== 'string') return false
+	if (value.type === 'rename') {
+		return 'oldPath' in value && typeof value.oldPath === 'string'
+	}
+	return value.type === 'update' || value.type === 'delete'
+}
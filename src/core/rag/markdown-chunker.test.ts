@@ -0,0 +1,79 @@
+import { chunkMarkdown, formatHeadingPath } from './markdown-chunker'
+
+describe('chunkMarkdown', () => {
+	it('should track heading paths and skip frontmatter', () => {
+		const text = [
+			'---',
+			'tags: [project]',
+			'---',
+			'# Project X',
+			'Intro text.',
+			'## Risks',
+			'Budget may slip. ^risk-1',
+			'### Details',
+			'Vendor delays.',
+			'## Timeline',
+			'Q3 launch.',
+		].join('\n')
+
+		expect(chunkMarkdown(text, 1000)).toEqual([
+			{ content: 'Intro text.', startLine: 5, endLine: 5, headingPath: ['Project X'], blockIds: [], type: 'text' },
+			{ content: 'Budget may slip.', startLine: 7, endLine: 7, headingPath: ['Project X', 'Risks'], blockIds: ['risk-1'], type: 'text' },
+			{ content: 'Vendor delays.', startLine: 9, endLine: 9, headingPath: ['Project X', 'Risks', 'Details'], blockIds: [], type: 'text' },
+			{ content: 'Q3 launch.', startLine: 11, endLine: 11, headingPath: ['Project X', 'Timeline'], blockIds: [], type: 'text' },
+		])
+	})
+
+	it('should keep code blocks, tables and callouts whole when they fit', () => {
+		const code = ['```ts', 'const a = 1', '', '# not a heading', '```']
+		const table = ['| a | b |', '| - | - |', '| 1 | 2 |']
+		const callout = ['> [!warning] Careful', '> first line', '> second line']
+		const chunks = chunkMarkdown([...code, '', ...table, '', ...callout].join('\n'), 50)
+
+		expect(chunks.map((chunk) => [chunk.type, chunk.content, chunk.startLine, chunk.endLine])).toEqual([
+			['code', code.join('\n'), 1, 5],
+			['table', table.join('\n'), 7, 9],
+			['callout', callout.join('\n'), 11, 13],
+		])
+	})
+
+	it('should group small blocks and split long paragraphs by sentence', () => {
+		const chunks = chunkMarkdown('One.\n\nTwo.\n\nFirst sentence here. Second sentence here.', 25)
+		expect(chunks.map((chunk) => chunk.content)).toEqual([
+			'One.\n\nTwo.',
+			'First sentence here.',
+			'Second sentence here.',
+		])
+		expect(chunks.map((chunk) => chunk.startLine)).toEqual([1, 5, 5])
+	})
+
+	it('should split paragraphs and blocks that are longer than a chunk', () => {
+		const words = 'alpha beta gamma delta epsilon zeta eta theta'
+		expect(chunkMarkdown(words, 20).map((chunk) => chunk.content)).toEqual([
+			'alpha beta gamma',
+			'delta epsilon zeta',
+			'eta theta',
+		])
+		expect(chunkMarkdown('x'.repeat(25), 10).map((chunk) => chunk.content)).toEqual(['x'.repeat(10), 'x'.repeat(10), 'x'.repeat(5)])
+
+		const code = ['```ts', 'const a = 1', 'const b = 2', 'const c = 3', '```']
+		const codeChunks = chunkMarkdown(code.join('\n'), 36)
+		expect(codeChunks.map((chunk) => [chunk.content, chunk.startLine, chunk.endLine])).toEqual([
+			['```ts\nconst a = 1\nconst b = 2\n```', 1, 3],
+			['```ts\nconst c = 3\n```', 4, 5],
+		])
+
+		const table = ['| a | b |', '| - | - |', '| 1 | 2 |', '| 3 | 4 |', '| 5 | 6 |']
+		const tableChunks = chunkMarkdown(table.join('\n'), 40)
+		expect(tableChunks.map((chunk) => chunk.content)).toEqual([
+			table.slice(0, 4).join('\n'),
+			[...table.slice(0, 2), table[4]].join('\n'),
+		])
+		expect([...codeChunks, ...tableChunks].every((chunk) => chunk.content.length <= 40)).toBe(true)
+	})
+
+	it('should format heading breadcrumbs', () => {
+		expect(formatHeadingPath(['Project X', 'Risks'])).toBe('Project X > Risks')
+		expect(formatHeadingPath(undefined)).toBe('')
+	})
+})
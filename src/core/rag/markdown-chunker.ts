@@ -0,0 +1,273 @@
+export type MarkdownChunkType = 'text' | 'code' | 'table' | 'callout' | 'quote'
+
+export type MarkdownChunk = {
+	// Raw Markdown of the chunk, without the headings above it
+	content: string
+	// 1-based, inclusive
+	startLine: number
+	endLine: number
+	headingPath: string[]
+	blockIds: string[]
+	type: MarkdownChunkType
+}
+
+type Block = {
+	type: MarkdownChunkType
+	lines: string[]
+	startLine: number
+	endLine: number
+	headingPath: string[]
+}
+
+const HEADING_REGEX = /^(#{1,6})\s+(.+?)\s*#*\s*$/
+const FENCE_REGEX = /^\s*(`{3,}|~{3,})/
+const BLOCK_ID_REGEX = /\s\^([A-Za-z0-9-]+)\s*$/
+// Splits after sentence punctuation, including the full width forms used in CJK text
+const SENTENCE_REGEX = /[^.!?。！？]+(?:[.!?。！？]+\s*|$)/g
+
+const isTableLine = (line: string) => line.trimStart().startsWith('|')
+const isQuoteLine = (line: string) => line.trimStart().startsWith('>')
+
+// Number of lines taken by a leading YAML frontmatter block, 0 when there is none
+function getFrontmatterLength(lines: string[]): number {
+	if (lines[0]?.trim() !== '---') return 0
+	const end = lines.findIndex((line, index) => index > 0 && line.trim() === '---')
+	return end === -1 ? 0 : end + 1
+}
+
+function parseBlocks(lines: string[]): Block[] {
+	const blocks: Block[] = []
+	const headings: { level: number; text: string }[] = []
+	let index = getFrontmatterLength(lines)
+
+	const push = (type: MarkdownChunkType, start: number, end: number) => {
+		blocks.push({
+			type,
+			lines: lines.slice(start, end),
+			startLine: start + 1,
+			endLine: end,
+			headingPath: headings.map((heading) => heading.text),
+		})
+	}
+
+	while (index < lines.length) {
+		const line = lines[index]
+		if (line.trim() === '') {
+			index++
+			continue
+		}
+
+		const heading = HEADING_REGEX.exec(line)
+		if (heading) {
+			const level = heading[1].length
+			while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+				headings.pop()
+			}
+			headings.push({ level, text: heading[2].replace(BLOCK_ID_REGEX, '').trim() })
+			index++
+			continue
+		}
+
+		const start = index
+		const fence = FENCE_REGEX.exec(line)
+		if (fence) {
+			// An unclosed fence runs to the end of the file, as in Obsidian
+			const marker = fence[1]
+			index++
+			while (index < lines.length && !lines[index].trimStart().startsWith(marker[0].repeat(marker.length))) {
+				index++
+			}
+			index = Math.min(index + 1, lines.length)
+			push('code', start, index)
+			continue
+		}
+
+		if (isTableLine(line)) {
+			while (index < lines.length && isTableLine(lines[index])) index++
+			push('table', start, index)
+			continue
+		}
+
+		if (isQuoteLine(line)) {
+			while (index < lines.length && isQuoteLine(lines[index])) index++
+			push(/^\s*>\s*\[!/.test(line) ? 'callout' : 'quote', start, index)
+			continue
+		}
+
+		while (
+			index < lines.length &&
+			lines[index].trim() !== '' &&
+			!HEADING_REGEX.test(lines[index]) &&
+			!FENCE_REGEX.test(lines[index]) &&
+			!isTableLine(lines[index]) &&
+			!isQuoteLine(lines[index])
+		) {
+			index++
+		}
+		push('text', start, index)
+	}
+	return blocks
+}
+
+// Cuts text that is still longer than a chunk, at the last space before the limit when there is one
+function splitHard(text: string, chunkSize: number): string[] {
+	const pieces: string[] = []
+	let rest = text
+	while (rest.length > chunkSize) {
+		const space = rest.lastIndexOf(' ', chunkSize)
+		const cut = space > chunkSize / 2 ? space : chunkSize
+		pieces.push(rest.slice(0, cut).trimEnd())
+		rest = rest.slice(cut).trimStart()
+	}
+	if (rest !== '') pieces.push(rest)
+	return pieces
+}
+
+// Cuts a text block that is longer than a chunk at line, then sentence boundaries,
+// and sentences that are longer than a chunk anywhere
+function splitTextBlock(block: Block, chunkSize: number): Block[] {
+	const parts: Block[] = []
+	let current: Block | null = null
+	const flush = () => {
+		if (current) parts.push(current)
+		current = null
+	}
+
+	block.lines.forEach((line, offset) => {
+		const lineNumber = block.startLine + offset
+		const pieces = line.length > chunkSize
+			? (line.match(SENTENCE_REGEX) ?? [line])
+				.map((piece) => piece.trim())
+				.filter((piece) => piece !== '')
+				.flatMap((piece) => splitHard(piece, chunkSize))
+			: [line]
+		for (const piece of pieces) {
+			const size = current ? current.lines.join('\n').length + piece.length + 1 : piece.length
+			if (current && size > chunkSize) flush()
+			if (!current) {
+				current = { ...block, lines: [], startLine: lineNumber, endLine: lineNumber }
+			}
+			current.lines.push(piece)
+			current.endLine = lineNumber
+		}
+	})
+	flush()
+	return parts
+}
+
+// Cuts a code block, table or quote that is longer than a chunk at line boundaries. Each part
+// repeats the code fence or the table header, unless they would take most of the chunk
+function splitStructuredBlock(block: Block, chunkSize: number): Block[] {
+	let header: string[] = []
+	let footer: string[] = []
+	let bodyOffset = 0
+	let body = block.lines
+	const fence = block.type === 'code' ? FENCE_REGEX.exec(block.lines[0]) : null
+	if (fence) {
+		const closed = block.lines.length > 1 && FENCE_REGEX.test(block.lines[block.lines.length - 1])
+		header = [block.lines[0]]
+		footer = [closed ? block.lines[block.lines.length - 1] : fence[1]]
+		bodyOffset = 1
+		body = block.lines.slice(1, closed ? -1 : undefined)
+	} else if (block.type === 'table' && block.lines.length > 2) {
+		header = block.lines.slice(0, 2)
+		bodyOffset = 2
+		body = block.lines.slice(2)
+	}
+	let overhead = [...header, ...footer].reduce((total, line) => total + line.length + 1, 0)
+	if (overhead * 2 > chunkSize) {
+		header = []
+		footer = []
+		bodyOffset = 0
+		body = block.lines
+		overhead = 0
+	}
+	const limit = chunkSize - overhead
+
+	const parts: Block[] = []
+	let lines: string[] = []
+	let startLine = block.startLine
+	let endLine = block.startLine
+	const flush = () => {
+		if (lines.length === 0) return
+		parts.push({ ...block, lines: [...header, ...lines, ...footer], startLine, endLine })
+		lines = []
+	}
+
+	body.forEach((line, offset) => {
+		const lineNumber = block.startLine + bodyOffset + offset
+		for (const piece of line.length > limit ? splitHard(line, limit) : [line]) {
+			if (lines.length > 0 && lines.join('\n').length + piece.length + 1 > limit) {
+				flush()
+				startLine = lineNumber
+			}
+			lines.push(piece)
+			endLine = lineNumber
+		}
+	})
+	flush()
+	if (parts.length > 0) {
+		parts[0].startLine = block.startLine
+		parts[parts.length - 1].endLine = block.endLine
+	}
+	return parts
+}
+
+/**
+ * Splits a note along its Markdown structure. Chunks never cross a heading,
+ * and code blocks, tables and callouts are kept whole as long as they fit in
+ * a chunk. No chunk is longer than the chunk size.
+ */
+export function chunkMarkdown(text: string, chunkSize: number): MarkdownChunk[] {
+	const blocks = parseBlocks(text.split(/\r?\n/)).flatMap((block) => {
+		if (block.lines.join('\n').length <= chunkSize) return [block]
+		return block.type === 'text' ? splitTextBlock(block, chunkSize) : splitStructuredBlock(block, chunkSize)
+	})
+
+	const chunks: MarkdownChunk[] = []
+	let group: Block[] = []
+	const flush = () => {
+		if (group.length === 0) return
+		const blockIds: string[] = []
+		const content = group
+			.map((block) =>
+				block.lines
+					.map((line) => {
+						const blockId = BLOCK_ID_REGEX.exec(line)
+						if (!blockId || block.type === 'code') return line
+						blockIds.push(blockId[1])
+						return line.replace(BLOCK_ID_REGEX, '')
+					})
+					.join('\n'),
+			)
+			.join('\n\n')
+		const types = new Set(group.map((block) => block.type))
+		chunks.push({
+			content,
+			startLine: group[0].startLine,
+			endLine: group[group.length - 1].endLine,
+			headingPath: group[0].headingPath,
+			blockIds,
+			type: types.size === 1 ? group[0].type : 'text',
+		})
+		group = []
+	}
+
+	for (const block of blocks) {
+		const previous = group[group.length - 1]
+		const size = [...group, block].reduce((total, item) => total + item.lines.join('\n').length + 2, 0)
+		if (previous && (previous.headingPath.join('\n') !== block.headingPath.join('\n') || size > chunkSize)) {
+			flush()
+		}
+		group.push(block)
+	}
+	flush()
+	return chunks
+}
+
+/**
+ * Breadcrumb shown for a chunk, e.g. `Project X > Risks`.
+ */
+export function formatHeadingPath(headingPath: string[] | undefined): string {
+	return (headingPath ?? []).join(' > ')
+}
@@ -0,0 +1,27 @@
+import { QueryRewriter, parseQueryRewrite } from './query-rewriter'
+
+describe('parseQueryRewrite', () => {
+	it('should read fenced JSON and drop paraphrases that repeat the query', () => {
+		const response = '```json\n{"paraphrases": ["Sleep Schedule", "bedtime routine", "bedtime routine", "", "wake up time", "circadian rhythm"], "hypothetical_answer": " I go to bed at 11pm. "}\n```'
+		expect(parseQueryRewrite(response, 'sleep schedule')).toEqual({
+			paraphrases: ['bedtime routine', 'wake up time', 'circadian rhythm'],
+			hypotheticalAnswer: 'I go to bed at 11pm.',
+		})
+	})
+
+	it('should return an empty rewrite for malformed responses', () => {
+		expect(parseQueryRewrite('no json here', 'query')).toEqual({ paraphrases: [], hypotheticalAnswer: null })
+		expect(parseQueryRewrite('{"paraphrases": "one"}', 'query')).toEqual({ paraphrases: [], hypotheticalAnswer: null })
+	})
+})
+
+describe('QueryRewriter', () => {
+	it('should cache rewrites per query', async () => {
+		const complete = jest.fn(async () => '{"paraphrases": ["b"], "hypothetical_answer": "c"}')
+		const rewriter = new QueryRewriter(complete)
+
+		await rewriter.rewrite('a')
+		expect(await rewriter.rewrite(' a ')).toEqual({ paraphrases: ['b'], hypotheticalAnswer: 'c' })
+		expect(complete).toHaveBeenCalledTimes(1)
+	})
+})
@@ -0,0 +1,83 @@
+import { RequestMessage } from '../../types/llm/request'
+import { QUERY_REWRITE_PROMPT } from '../prompts/query-rewrite'
+
+export type QueryRewrite = {
+	paraphrases: string[]
+	// Passage a matching note could contain (HyDE), embedded instead of a question
+	hypotheticalAnswer: string | null
+}
+
+const PARAPHRASE_COUNT = 3
+// Rewrites are kept for the session, the oldest query is dropped first
+const CACHE_SIZE = 100
+
+const asString = (value: unknown) => (typeof value === 'string' ? value.trim() : '')
+
+/**
+ * Reads the JSON the model was asked for, also when it is wrapped in a code
+ * fence or surrounded by other text.
+ */
+export function parseQueryRewrite(response: string, query: string): QueryRewrite {
+	const start = response.indexOf('{')
+	const end = response.lastIndexOf('}')
+	if (start === -1 || end <= start) {
+		return { paraphrases: [], hypotheticalAnswer: null }
+	}
+	let data: unknown
+	try {
+		data = JSON.parse(response.slice(start, end + 1))
+	} catch {
+		return { paraphrases: [], hypotheticalAnswer: null }
+	}
+	if (typeof data !== 'object' || data === null) {
+		return { paraphrases: [], hypotheticalAnswer: null }
+	}
+
+	const normalizedQuery = query.trim().toLowerCase()
+	const paraphrases = 'paraphrases' in data && Array.isArray(data.paraphrases)
+		? data.paraphrases.map(asString).filter((paraphrase) => paraphrase && paraphrase.toLowerCase() !== normalizedQuery)
+		: []
+	const hypotheticalAnswer = 'hypothetical_answer' in data ? asString(data.hypothetical_answer) : ''
+	return {
+		paraphrases: [...new Set(paraphrases)].slice(0, PARAPHRASE_COUNT),
+		hypotheticalAnswer: hypotheticalAnswer || null,
+	}
+}
+
+export class QueryRewriter {
+	// Sends the messages to the insight model and returns its answer
+	private complete: (messages: RequestMessage[]) => Promise<string>
+	private cache = new Map<string, Promise<QueryRewrite>>()
+
+	constructor(complete: (messages: RequestMessage[]) => Promise<string>) {
+		this.complete = complete
+	}
+
+	async rewrite(query: string): Promise<QueryRewrite> {
+		const key = query.trim()
+		const cached = this.cache.get(key)
+		if (cached) {
+			return cached
+		}
+		const rewrite = this.requestRewrite(key)
+		this.cache.set(key, rewrite)
+		if (this.cache.size > CACHE_SIZE) {
+			this.cache.delete(Array.from(this.cache.keys())[0])
+		}
+		try {
+			return await rewrite
+		} catch (error) {
+			// Failed requests are retried on the next search
+			this.cache.delete(key)
+			throw error
+		}
+	}
+
+	private async requestRewrite(query: string): Promise<QueryRewrite> {
+		const response = await this.complete([
+			{ role: 'system', content: QUERY_REWRITE_PROMPT.replace('{count}', String(PARAPHRASE_COUNT)) },
+			{ role: 'user', content: query },
+		])
+		return parseQueryRewrite(response, query)
+	}
+}
@@ -1,16 +1,36 @@
-import { App, TFile } from 'obsidian'
+import { App, Notice, TFile } from 'obsidian'
 
 import { QueryProgressState } from '../../components/chat-view/QueryProgress'
 import { DBManager } from '../../database/database-manager'
 import { Workspace } from '../../database/json/workspace/types'
 import { VectorManager } from '../../database/modules/vector/vector-manager'
+import { SimilarChunkPair } from '../../database/modules/vector/vector-repository'
 import { SelectVector } from '../../database/schema'
+import { t } from '../../lang/helpers'
 import { EmbeddingModel } from '../../types/embedding'
 import { ApiProvider } from '../../types/llm/model'
 import { InfioSettings } from '../../types/settings'
 import { getFilesWithTag } from '../../utils/glob-utils'
+import LLMManager from '../llm/manager'
 
+import { DuplicateCluster, clusterDuplicates } from './duplicate-notes'
 import { getEmbeddingModel } from './embedding'
+import {
+	EmbeddingIndexState,
+	EmbeddingModelRef,
+	ModelSwitchPlan,
+	OrphanedTable,
+	findOrphanedTables,
+	getStagingTableName,
+	isSameModel,
+	planModelSwitch,
+} from './embedding-index-state'
+import { IndexIntegrityReport, VaultFileInfo, diffIndex } from './index-integrity'
+import { isIndexableExtension } from './index-queue'
+import { QueryRewrite, QueryRewriter } from './query-rewriter'
+import { RelatedNote, groupRelatedChunks } from './related-notes'
+import { rerankResults } from './reranker'
+import { SearchFilters } from './search-filters'
 
 // EmbeddingManager 类型定义
 type EmbeddingManager = {
@@ -19,6 +39,8 @@ type EmbeddingManager = {
 	loadModel(modelId: string, useGpu: boolean): Promise<unknown>
 	embed(text: string): Promise<{ vec: number[] }>
 	embedBatch(texts: string[]): Promise<{ vec: number[] }[]>
+	loadRerankModel(modelId: string): Promise<unknown>
+	rerank(query: string, documents: string[]): Promise<number[]>
 }
 
 export class RAGEngine {
@@ -26,50 +48,277 @@ export class RAGEngine {
 	private settings: InfioSettings
 	private embeddingManager?: EmbeddingManager
 	private vectorManager: VectorManager | null = null
+	// 迁移期间为旧模型，继续响应查询和增量索引
 	private embeddingModel: EmbeddingModel | null = null
+	// 正在迁移到的新模型，向量写入临时表
+	private migrationTarget: EmbeddingModel | null = null
+	private indexState?: EmbeddingIndexState
+	private llmManager: LLMManager
+	// 使用洞察模型改写查询，未配置洞察模型时为 null
+	private queryRewriter: QueryRewriter | null = null
+	// 改写器对应的模型，模型不变时保留改写器和它的缓存
+	private queryRewriterModel: string | null = null
 	private initialized = false
+	// 只在第一次按标签或属性过滤时检查一次旧索引
+	private outdatedIndexChecked = false
 
 	constructor(
 		app: App,
 		settings: InfioSettings,
 		dbManager: DBManager,
 		embeddingManager?: EmbeddingManager,
+		indexState?: EmbeddingIndexState,
 	) {
 		this.app = app
 		this.settings = settings
 		this.embeddingManager = embeddingManager
+		this.indexState = indexState
 		this.vectorManager = dbManager.getVectorManager()
-		if (settings.embeddingModelId && settings.embeddingModelId.trim() !== '') {
-			try {
-				this.embeddingModel = getEmbeddingModel(settings, embeddingManager)
-			} catch (error) {
-				console.warn('Failed to initialize embedding model:', error)
-				this.embeddingModel = null
-			}
-		} else {
-			this.embeddingModel = null
-		}
+		this.llmManager = new LLMManager(settings)
+		this.updateEmbeddingModels()
+		this.updateQueryRewriter()
 	}
 
 	cleanup() {
 		this.embeddingModel = null
+		this.migrationTarget = null
 		this.vectorManager = null
+		this.queryRewriter = null
+		this.queryRewriterModel = null
 	}
 
 	setSettings(settings: InfioSettings) {
 		this.settings = settings
-		if (settings.embeddingModelId && settings.embeddingModelId.trim() !== '') {
-			try {
-				this.embeddingModel = getEmbeddingModel(settings, this.embeddingManager)
-			} catch (error) {
-				console.warn('Failed to initialize embedding model:', error)
-				this.embeddingModel = null
+		this.llmManager = new LLMManager(settings)
+		this.updateEmbeddingModels()
+		this.updateQueryRewriter()
+	}
+
+	private updateQueryRewriter() {
+		const { insightModelProvider: provider, insightModelId: modelId } = this.settings
+		const model = modelId ? `${provider}/${modelId}` : null
+		if (model === this.queryRewriterModel) {
+			return
+		}
+		this.queryRewriterModel = model
+		if (!modelId) {
+			this.queryRewriter = null
+			return
+		}
+		this.queryRewriter = new QueryRewriter(async (messages) => {
+			const response = await this.llmManager.generateResponse(
+				{ provider, modelId },
+				{ model: modelId, messages, temperature: 0.3 },
+			)
+			return response.choices[0]?.message?.content ?? ''
+		})
+	}
+
+	/**
+	 * 生成查询的改写和假设性答案（HyDE），失败时返回 null，按原查询继续搜索
+	 */
+	private async rewriteQuery(query: string): Promise<QueryRewrite | null> {
+		if (!this.queryRewriter) {
+			return null
+		}
+		try {
+			const rewrite = await this.queryRewriter.rewrite(query)
+			return rewrite.paraphrases.length > 0 || rewrite.hypotheticalAnswer ? rewrite : null
+		} catch (error) {
+			console.warn('Failed to rewrite query, searching with the original query:', error)
+			return null
+		}
+	}
+
+	private createEmbeddingModel(provider: string, modelId: string): EmbeddingModel | null {
+		const embeddingModelProvider = Object.values(ApiProvider).find((value) => String(value) === provider)
+		if (!embeddingModelProvider || !modelId || modelId.trim() === '') {
+			return null
+		}
+		try {
+			return getEmbeddingModel(
+				{ ...this.settings, embeddingModelProvider, embeddingModelId: modelId },
+				this.embeddingManager,
+			)
+		} catch (error) {
+			console.warn('Failed to initialize embedding model:', error)
+			return null
+		}
+	}
+
+	private updateEmbeddingModels() {
+		const settingsModel = this.createEmbeddingModel(this.settings.embeddingModelProvider, this.settings.embeddingModelId)
+		const migration = this.indexState?.snapshot.migration
+		if (settingsModel && migration && isSameModel(migration.to, this.getSettingsModelRef(0))) {
+			// 新索引完成之前，旧模型继续响应查询
+			const previousModel = this.createEmbeddingModel(migration.from.provider, migration.from.modelId)
+			if (previousModel) {
+				previousModel.dimension = migration.from.dimension
+				this.embeddingModel = previousModel
+				this.migrationTarget = settingsModel
+				return
+			}
+		}
+		this.embeddingModel = settingsModel
+		this.migrationTarget = null
+	}
+
+	private getSettingsModelRef(dimension: number): EmbeddingModelRef {
+		return {
+			provider: this.settings.embeddingModelProvider,
+			modelId: this.settings.embeddingModelId,
+			dimension,
+		}
+	}
+
+	private async getModelDimension(model: EmbeddingModel): Promise<number> {
+		if (model.dimension === 0) {
+			model.dimension = (await model.getEmbedding('hello world')).length
+		}
+		return model.dimension
+	}
+
+	/**
+	 * Compares the embedding model in the settings with the model that built
+	 * the index. A different model starts a migration, the caller runs it with
+	 * `runEmbeddingMigration`. `previous` describes the index of vaults that
+	 * were indexed before the index state was recorded.
+	 */
+	async syncEmbeddingModel(previous?: { provider: string; modelId: string }): Promise<ModelSwitchPlan['type']> {
+		if (!this.indexState) {
+			return 'none'
+		}
+		await this.indexState.load()
+		const settingsModel = this.createEmbeddingModel(this.settings.embeddingModelProvider, this.settings.embeddingModelId)
+		if (!settingsModel) {
+			return 'none'
+		}
+		const next = this.getSettingsModelRef(await this.getModelDimension(settingsModel))
+
+		if (!this.indexState.snapshot.active && previous && !isSameModel({ ...previous, dimension: 0 }, next)) {
+			const previousModel = this.createEmbeddingModel(previous.provider, previous.modelId)
+			if (previousModel) {
+				await this.indexState.setActive({ ...previous, dimension: await this.getModelDimension(previousModel) })
 			}
-		} else {
-			this.embeddingModel = null
+		}
+
+		const migration = this.indexState.snapshot.migration
+		if (migration) {
+			if (isSameModel(migration.to, next)) {
+				this.updateEmbeddingModels()
+				return 'migrate'
+			}
+			// 迁移目标又变了，放弃未完成的临时表
+			await this.vectorManager.clearEmbeddingTable(getStagingTableName(migration.to.dimension))
+			await this.indexState.cancelMigration()
+		}
+
+		const plan = planModelSwitch(this.indexState.snapshot, next)
+		if (plan.type === 'migrate') {
+			await this.indexState.startMigration(plan.from, next)
+		} else if (plan.type === 'activate' || !this.indexState.snapshot.active) {
+			await this.indexState.setActive(next)
+		}
+		this.updateEmbeddingModels()
+		return plan.type
+	}
+
+	get isMigrating(): boolean {
+		return this.migrationTarget !== null
+	}
+
+	/**
+	 * Re-embeds the vault with the new model into a staging table while the
+	 * old index keeps answering queries, then swaps the tables. Files edited
+	 * in the meantime are picked up by another pass. Returns false when the
+	 * migration was stopped before the swap.
+	 */
+	async runEmbeddingMigration(
+		onProgress?: (progress: { completed: number; total: number }) => void,
+		shouldStop?: () => boolean,
+	): Promise<boolean> {
+		const target = this.migrationTarget
+		if (!target || !this.indexState?.snapshot.migration) {
+			return false
+		}
+		const dimension = await this.getModelDimension(target)
+		const stagingTable = getStagingTableName(dimension)
+		await this.vectorManager.createStagingTable(stagingTable, dimension)
+		const staging = this.vectorManager.forTable(stagingTable)
+
+		for (let pass = 0; pass < 3; pass++) {
+			const files = await this.vectorManager.getIndexableFiles({
+				excludePatterns: this.settings.ragOptions.excludePatterns,
+				includePatterns: this.settings.ragOptions.includePatterns,
+			})
+			const filePaths = new Set(files.map((file) => file.path))
+			const indexedMtimes = await staging.getIndexedFileMtimes(target)
+			const removedPaths = [...indexedMtimes.keys()].filter((path) => !filePaths.has(path))
+			if (removedPaths.length > 0) {
+				await staging.deleteVectorsForMultipleFiles(removedPaths, target)
+			}
+			const pendingFiles = files.filter((file) => (indexedMtimes.get(file.path) ?? -1) < file.stat.mtime)
+			if (pendingFiles.length === 0) {
+				break
+			}
+			for (const [index, file] of pendingFiles.entries()) {
+				if (shouldStop?.()) {
+					return false
+				}
+				await staging.UpdateFileVectorIndex(
+					target,
+					this.settings.ragOptions.chunkSize,
+					this.settings.ragOptions.batchSize,
+					file,
+				)
+				onProgress?.({ completed: index + 1, total: pendingFiles.length })
+			}
+		}
+
+		if (shouldStop?.()) {
+			return false
+		}
+		await this.vectorManager.swapStagingTable(stagingTable, dimension)
+		await this.indexState.completeMigration()
+		this.updateEmbeddingModels()
+		return true
+	}
+
+	async getOrphanedEmbeddingTables(): Promise<OrphanedTable[]> {
+		if (!this.indexState) {
+			return []
+		}
+		await this.indexState.load()
+		if (!this.indexState.snapshot.active) {
+			return []
+		}
+		const rowCounts = await this.vectorManager.getEmbeddingTableRowCounts()
+		return findOrphanedTables(this.indexState.snapshot, rowCounts)
+	}
+
+	// 标签和属性过滤会漏掉保存这些字段之前索引的笔记，下次增量更新索引时会重新索引它们
+	private async noticeOutdatedIndex(filters?: SearchFilters): Promise<void> {
+		if (this.outdatedIndexChecked || !this.embeddingModel || !(filters?.tags?.length || filters?.frontmatter?.length)) {
+			return
+		}
+		this.outdatedIndexChecked = true
+		try {
+			const outdated = await this.vectorManager.getPathsWithoutTagMetadata(this.embeddingModel)
+			if (outdated.length > 0) {
+				new Notice(String(t('notifications.outdatedIndex', { count: outdated.length })), 10000)
+			}
+		} catch (error) {
+			console.error('Failed to check the vault index:', error)
 		}
 	}
 
+	async cleanupEmbeddingTables(tables: string[]): Promise<void> {
+		for (const table of tables) {
+			await this.vectorManager.clearEmbeddingTable(table)
+		}
+		await this.indexState?.forgetTables(tables)
+	}
+
 	async initializeDimension(): Promise<void> {
 		if (this.embeddingModel.dimension === 0 &&
 			(this.settings.embeddingModelProvider === ApiProvider.Ollama || this.settings.embeddingModelProvider === ApiProvider.OpenAICompatible)) {
@@ -150,7 +399,7 @@ export class RAGEngine {
 		)
 	}
 
-	async deleteFileIndex(file: TFile) {
+	async deleteFileIndex(filePath: string) {
 		if (!this.embeddingModel) {
 			throw new Error('Embedding model is not set')
 		}
@@ -159,13 +408,77 @@ export class RAGEngine {
 
 		await this.vectorManager.DeleteFileVectorIndex(
 			this.embeddingModel,
-			file,
+			filePath,
+		)
+	}
+
+	async renameFileIndex(oldPath: string, newPath: string) {
+		if (!this.embeddingModel) {
+			throw new Error('Embedding model is not set')
+		}
+
+		await this.initializeDimension()
+
+		await this.vectorManager.RenameFileVectorIndex(
+			this.embeddingModel,
+			oldPath,
+			newPath,
 		)
 	}
 
+	// 对比库中文件与已索引的路径和 mtime，找出缺失、过期和孤立的索引
+	async verifyIndex(): Promise<IndexIntegrityReport> {
+		if (!this.embeddingModel) {
+			throw new Error('Embedding model is not set')
+		}
+		await this.initializeDimension()
+
+		const files = await this.vectorManager.getIndexableFiles({
+			excludePatterns: this.settings.ragOptions.excludePatterns,
+			includePatterns: this.settings.ragOptions.includePatterns,
+		})
+		const indexedMtimes = await this.vectorManager.getIndexedFileMtimes(this.embeddingModel)
+		const fileInfos: VaultFileInfo[] = []
+		for (const file of files) {
+			// 只有未索引的文件才需要分块，判断它是否本来就没有内容
+			const empty = !indexedMtimes.has(file.path) &&
+				!(await this.vectorManager.hasChunks(file, this.settings.ragOptions.chunkSize))
+			fileInfos.push({ path: file.path, mtime: file.stat.mtime, empty })
+		}
+		return diffIndex(fileInfos, indexedMtimes)
+	}
+
+	async repairIndex(
+		report: IndexIntegrityReport,
+		onProgress?: (progress: { completed: number; total: number }) => void,
+	): Promise<void> {
+		if (!this.embeddingModel) {
+			throw new Error('Embedding model is not set')
+		}
+		await this.initializeDimension()
+
+		if (report.orphaned.length > 0) {
+			await this.vectorManager.deleteVectorsForMultipleFiles(report.orphaned, this.embeddingModel)
+		}
+		const paths = [...report.missing, ...report.stale]
+		for (const [index, path] of paths.entries()) {
+			const file = this.app.vault.getFileByPath(path)
+			if (file) {
+				await this.vectorManager.UpdateFileVectorIndex(
+					this.embeddingModel,
+					this.settings.ragOptions.chunkSize,
+					this.settings.ragOptions.batchSize,
+					file,
+				)
+			}
+			onProgress?.({ completed: index + 1, total: paths.length })
+		}
+	}
+
 	async processSimilarityQuery({
 		query,
 		scope,
+		filters,
 		limit,
 		onQueryProgressChange,
 	}: {
@@ -174,6 +487,7 @@ export class RAGEngine {
 			files: string[]
 			folders: string[]
 		}
+		filters?: SearchFilters
 		limit?: number
 		onQueryProgressChange?: (queryProgress: QueryProgressState) => void
 	}): Promise<
@@ -186,6 +500,7 @@ export class RAGEngine {
 		}
 
 		await this.initializeDimension()
+		void this.noticeOutdatedIndex(filters)
 
 		// if (!this.initialized) {
 		// 	console.log("need to updateVaultIndex")
@@ -202,6 +517,7 @@ export class RAGEngine {
 				minSimilarity: this.settings.ragOptions.minSimilarity,
 				limit: limit ?? this.settings.ragOptions.limit,
 				scope,
+				filters,
 			},
 		)
 		onQueryProgressChange?.({
@@ -214,8 +530,11 @@ export class RAGEngine {
 	async processQuery({
 		query,
 		scope,
+		filters,
 		limit,
 		language,
+		expandQuery,
+		rerank,
 		onQueryProgressChange,
 	}: {
 		query: string
@@ -223,8 +542,13 @@ export class RAGEngine {
 			files: string[]
 			folders: string[]
 		}
+		filters?: SearchFilters
 		limit?: number
 		language?: string
+		// 是否先改写查询，未指定时使用设置
+		expandQuery?: boolean
+		// 是否重排序，未指定时使用设置
+		rerank?: boolean
 		onQueryProgressChange?: (queryProgress: QueryProgressState) => void
 	}): Promise<
 		(Omit<SelectVector, 'embedding'> & {
@@ -236,23 +560,75 @@ export class RAGEngine {
 		}
 
 		await this.initializeDimension()
+		const resultLimit = limit ?? this.settings.ragOptions.limit
+		// 重排序时多取一些候选结果，排序后再截取到 limit
+		const rerankEnabled = rerank ?? this.settings.ragOptions.rerankEnabled
+		const retrievalLimit = rerankEnabled
+			? Math.max(resultLimit, this.settings.ragOptions.rerankCandidates)
+			: resultLimit
+
+		let rewrite: QueryRewrite | null = null
+		if (expandQuery ?? this.settings.ragOptions.queryExpansionEnabled) {
+			onQueryProgressChange?.({
+				type: 'rewriting-query',
+			})
+			rewrite = await this.rewriteQuery(query)
+		}
 
 		onQueryProgressChange?.({
 			type: 'querying',
+			rewrittenQueries: rewrite
+				? [...rewrite.paraphrases, ...(rewrite.hypotheticalAnswer ? [rewrite.hypotheticalAnswer] : [])]
+				: undefined,
 		})
 
+		if (rewrite) {
+			// 改写和假设性答案都做向量搜索，假设性答案不适合全文搜索
+			const similarityQueries = [query, ...rewrite.paraphrases, ...(rewrite.hypotheticalAnswer ? [rewrite.hypotheticalAnswer] : [])]
+			const fulltextQueries = [query, ...rewrite.paraphrases]
+			const resultLists = await Promise.all([
+				...similarityQueries.map((variant) =>
+					this.processSimilarityQuery({ query: variant, scope, filters, limit: retrievalLimit }),
+				),
+				...fulltextQueries.map((variant) =>
+					this.processFulltextQuery({ query: variant, scope, filters, limit: retrievalLimit, language }),
+				),
+			])
+			let expandedResults: (Omit<SelectVector, 'embedding'> & { similarity: number })[] = this.mergeWithRRF(
+				resultLists.filter((results) => results.length > 0),
+			)
+				.map(({ rrfScore, ...result }) => ({
+					...result,
+					similarity: rrfScore,
+				}))
+
+			if (rerankEnabled) {
+				expandedResults = await this.rerank(query, expandedResults)
+			}
+			expandedResults = expandedResults.slice(0, resultLimit)
+
+			onQueryProgressChange?.({
+				type: 'querying-done',
+				queryResult: expandedResults,
+			})
+
+			return expandedResults
+		}
+
 		// 并行执行相似度搜索和全文搜索
 		const [similarityResults, fulltextResults] = await Promise.all([
 			this.processSimilarityQuery({
 				query,
 				scope,
-				limit,
+				filters,
+				limit: retrievalLimit,
 				onQueryProgressChange: undefined, // 避免重复触发进度回调
 			}),
 			this.processFulltextQuery({
 				query,
 				scope,
-				limit,
+				filters,
+				limit: retrievalLimit,
 				language,
 				onQueryProgressChange: undefined, // 避免重复触发进度回调
 			}),
@@ -273,7 +649,7 @@ export class RAGEngine {
 		} else {
 			// 两个搜索都有结果，使用 RRF 算法合并
 			const rrf_k = 60 // RRF 常数
-			const mergedResults = this.mergeWithRRF(similarityResults, fulltextResults, rrf_k)
+			const mergedResults = this.mergeWithRRF([similarityResults, fulltextResults], rrf_k)
 
 			// 转换为与现有接口兼容的格式
 			finalResults = mergedResults.map(result => ({
@@ -282,6 +658,11 @@ export class RAGEngine {
 			}))
 		}
 
+		if (rerankEnabled) {
+			finalResults = await this.rerank(query, finalResults)
+		}
+		finalResults = finalResults.slice(0, resultLimit)
+
 		onQueryProgressChange?.({
 			type: 'querying-done',
 			queryResult: finalResults,
@@ -291,15 +672,35 @@ export class RAGEngine {
 	}
 
 	/**
-	 * 使用倒数排名融合（RRF）算法合并相似度搜索和全文搜索结果
-	 * @param similarityResults 相似度搜索结果
-	 * @param fulltextResults 全文搜索结果
+	 * 使用本地交叉编码器对合并后的结果重新排序，失败时保留原有顺序
+	 */
+	private async rerank(
+		query: string,
+		results: (Omit<SelectVector, 'embedding'> & { similarity: number })[],
+	): Promise<(Omit<SelectVector, 'embedding'> & { similarity: number })[]> {
+		if (!this.embeddingManager) {
+			return results
+		}
+		try {
+			await this.embeddingManager.loadRerankModel(this.settings.ragOptions.rerankModel)
+			return await rerankResults(query, results, {
+				candidateCount: this.settings.ragOptions.rerankCandidates,
+				score: (rerankQuery, documents) => this.embeddingManager.rerank(rerankQuery, documents),
+			})
+		} catch (error) {
+			console.warn('Failed to rerank search results:', error)
+			return results
+		}
+	}
+
+	/**
+	 * 使用倒数排名融合（RRF）算法合并多个搜索结果列表
+	 * @param resultLists 各次搜索的结果，按排名排序，例如相似度搜索和全文搜索
 	 * @param k RRF 常数，通常为 60
 	 * @returns 合并后的结果，按 RRF 分数排序
 	 */
 	private mergeWithRRF(
-		similarityResults: (Omit<SelectVector, 'embedding'> & { similarity: number })[],
-		fulltextResults: (Omit<SelectVector, 'embedding'> & { rank: number })[],
+		resultLists: Omit<SelectVector, 'embedding'>[][],
 		k: number = 60
 	): (Omit<SelectVector, 'embedding'> & { rrfScore: number })[] {
 		// 创建一个 Map 来存储每个文档的 RRF 分数
@@ -308,54 +709,28 @@ export class RAGEngine {
 			score: number
 		}>()
 
-		// 处理相似度搜索结果
-		similarityResults.forEach((result, index) => {
-			const key = `${result.path}-${result.id}`
-			const rank = index + 1
-			const rrfScore = 1 / (k + rank)
-			
-			if (rrfScores.has(key)) {
-				const existing = rrfScores.get(key)
-				if (existing) {
-					existing.score += rrfScore
-				}
-			} else {
-				rrfScores.set(key, {
-					doc: {
-						id: result.id,
-						path: result.path,
-						mtime: result.mtime,
-						content: result.content,
-						metadata: result.metadata,
-					},
-					score: rrfScore
-				})
-			}
-		})
+		resultLists.forEach((results) => {
+			results.forEach((result, index) => {
+				const key = `${result.path}-${result.id}`
+				const rank = index + 1
+				const rrfScore = 1 / (k + rank)
 
-		// 处理全文搜索结果
-		fulltextResults.forEach((result, index) => {
-			const key = `${result.path}-${result.id}`
-			const rank = index + 1
-			const rrfScore = 1 / (k + rank)
-			
-			if (rrfScores.has(key)) {
 				const existing = rrfScores.get(key)
 				if (existing) {
 					existing.score += rrfScore
+				} else {
+					rrfScores.set(key, {
+						doc: {
+							id: result.id,
+							path: result.path,
+							mtime: result.mtime,
+							content: result.content,
+							metadata: result.metadata,
+						},
+						score: rrfScore
+					})
 				}
-			} else {
-				rrfScores.set(key, {
-					doc: {
-						id: result.id,
-						path: result.path,
-						mtime: result.mtime,
-						content: result.content,
-						metadata: result.metadata,
-					},
-					score: rrfScore
-				})
-			}
+			})
 		})
 
 		// 转换为数组并进行归一化处理
@@ -378,6 +753,7 @@ export class RAGEngine {
 	async processFulltextQuery({
 		query,
 		scope,
+		filters,
 		limit,
 		language,
 		onQueryProgressChange,
@@ -387,6 +763,7 @@ export class RAGEngine {
 			files: string[]
 			folders: string[]
 		}
+		filters?: SearchFilters
 		limit?: number
 		language?: string
 		onQueryProgressChange?: (queryProgress: QueryProgressState) => void
@@ -400,6 +777,7 @@ export class RAGEngine {
 		}
 
 		await this.initializeDimension()
+		void this.noticeOutdatedIndex(filters)
 
 		onQueryProgressChange?.({
 			type: 'querying',
@@ -411,6 +789,7 @@ export class RAGEngine {
 			{
 				limit: limit ?? this.settings.ragOptions.limit,
 				scope,
+				filters,
 				language: language || 'english',
 			},
 		)
@@ -426,6 +805,46 @@ export class RAGEngine {
 		return queryResult
 	}
 
+	/**
+	 * Finds the notes closest to an indexed file, using the mean of the
+	 * file's chunk vectors as the query. Unindexed files have no related notes.
+	 */
+	async findRelatedNotes(
+		filePath: string,
+		limit?: number,
+	): Promise<RelatedNote<Omit<SelectVector, 'embedding'> & { similarity: number }>[]> {
+		if (!this.embeddingModel) {
+			throw new Error('Embedding model is not set')
+		}
+		await this.initializeDimension()
+
+		const noteLimit = limit ?? this.settings.ragOptions.limit
+		const chunks = await this.vectorManager.findRelatedChunks(filePath, this.embeddingModel, {
+			minSimilarity: this.settings.ragOptions.minSimilarity,
+			// Several chunks of one note usually come back together
+			limit: noteLimit * 5,
+		})
+		return groupRelatedChunks(chunks, { limit: noteLimit, chunksPerNote: 3 })
+	}
+
+	/**
+	 * Clusters notes whose chunks are at least `minSimilarity` apart. Each
+	 * chunk is only compared with its nearest chunks in other notes.
+	 */
+	async findDuplicateNotes(minSimilarity: number): Promise<DuplicateCluster<SimilarChunkPair>[]> {
+		if (!this.embeddingModel) {
+			throw new Error('Embedding model is not set')
+		}
+		await this.initializeDimension()
+
+		const chunkPairs = await this.vectorManager.findSimilarChunkPairs(this.embeddingModel, {
+			minSimilarity,
+			neighborCount: 5,
+		})
+		const chunkCounts = await this.vectorManager.getFileChunkCounts(this.embeddingModel)
+		return clusterDuplicates(chunkPairs, chunkCounts)
+	}
+
 	async getEmbedding(query: string): Promise<number[]> {
 		if (!this.embeddingModel) {
 			throw new Error('Embedding model is not set')
@@ -470,7 +889,8 @@ export class RAGEngine {
 					const folderPath = item.content
 					
 					// 获取文件夹下的所有文件
-					const folderFiles = this.app.vault.getMarkdownFiles().filter(file => 
+					const folderFiles = this.app.vault.getFiles().filter(file =>
+						isIndexableExtension(file.extension) &&
 						file.path.startsWith(folderPath === '/' ? '' : folderPath + '/')
 					)
 					
@@ -0,0 +1,19 @@
+import { groupRelatedChunks } from './related-notes'
+
+describe('groupRelatedChunks', () => {
+	it('should group chunks by note and order notes by their best chunk', () => {
+		const chunks = [
+			{ path: 'b.md', similarity: 0.6, id: 1 },
+			{ path: 'a.md', similarity: 0.9, id: 2 },
+			{ path: 'b.md', similarity: 0.8, id: 3 },
+			{ path: 'a.md', similarity: 0.5, id: 4 },
+			{ path: 'a.md', similarity: 0.7, id: 5 },
+			{ path: 'c.md', similarity: 0.4, id: 6 },
+		]
+
+		expect(groupRelatedChunks(chunks, { limit: 2, chunksPerNote: 2 })).toEqual([
+			{ path: 'a.md', similarity: 0.9, chunks: [chunks[1], chunks[4]] },
+			{ path: 'b.md', similarity: 0.8, chunks: [chunks[2], chunks[0]] },
+		])
+	})
+})
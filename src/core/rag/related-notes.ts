@@ -0,0 +1,31 @@
+type RelatedChunk = {
+	path: string
+	similarity: number
+}
+
+export type RelatedNote<T extends RelatedChunk> = {
+	path: string
+	// Best chunk similarity, notes are ordered by it
+	similarity: number
+	chunks: T[]
+}
+
+/**
+ * Groups the chunks most similar to a note by the note they belong to. Each
+ * note keeps its best `chunksPerNote` chunks, the list keeps `limit` notes.
+ */
+export function groupRelatedChunks<T extends RelatedChunk>(
+	chunks: T[],
+	{ limit, chunksPerNote }: { limit: number; chunksPerNote: number },
+): RelatedNote<T>[] {
+	const notes = new Map<string, RelatedNote<T>>()
+	for (const chunk of [...chunks].sort((a, b) => b.similarity - a.similarity)) {
+		const note = notes.get(chunk.path)
+		if (!note) {
+			notes.set(chunk.path, { path: chunk.path, similarity: chunk.similarity, chunks: [chunk] })
+		} else if (note.chunks.length < chunksPerNote) {
+			note.chunks.push(chunk)
+		}
+	}
+	return [...notes.values()].slice(0, Math.max(limit, 0))
+}
@@ -0,0 +1,43 @@
+import { rerankResults } from './reranker'
+
+const result = (content: string, similarity: number, headingPath?: string[]) => ({
+	content,
+	similarity,
+	metadata: { headingPath },
+})
+
+describe('rerankResults', () => {
+	it('should re-order the top candidates by score and keep the rest behind', async () => {
+		const score = jest.fn(async (_query: string, documents: string[]) => documents.map((doc) => doc.length / 100))
+		const results = [result('a', 0.03), result('ccc', 0.02, ['Notes', 'Plan']), result('bb', 0.01), result('dddd', 0.005)]
+
+		const reranked = await rerankResults('query', results, { candidateCount: 3, score })
+
+		expect(score).toHaveBeenCalledWith('query', ['a', 'Notes > Plan\nccc', 'bb'])
+		expect(reranked.map(({ content, similarity }) => [content, similarity])).toEqual([
+			['ccc', 0.16],
+			['bb', 0.02],
+			['a', 0.01],
+			['dddd', 0.005],
+		])
+	})
+
+	it('should score the rest below the reranked candidates', async () => {
+		const score = jest.fn(async () => [0.002, 0.004])
+		const results = [result('a', 0.033), result('b', 0.032), result('c', 0.031), result('d', 0.03)]
+
+		const reranked = await rerankResults('query', results, { candidateCount: 2, score })
+
+		expect(reranked.map(({ content }) => content)).toEqual(['b', 'a', 'c', 'd'])
+		expect(reranked[2].similarity).toBeCloseTo(0.002 * 2 / 3, 6)
+		expect(reranked[3].similarity).toBeCloseTo(0.002 / 3, 6)
+	})
+
+	it('should skip scoring when there is nothing to re-order', async () => {
+		const score = jest.fn(async () => [1])
+		const results = [result('a', 0.5), result('b', 0.4)]
+
+		expect(await rerankResults('query', results, { candidateCount: 1, score })).toBe(results)
+		expect(score).not.toHaveBeenCalled()
+	})
+})
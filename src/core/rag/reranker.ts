@@ -0,0 +1,51 @@
+import { formatHeadingPath } from './markdown-chunker'
+
+type RerankCandidate = {
+	content: string
+	similarity: number
+	metadata?: { headingPath?: string[] }
+}
+
+export type RerankOptions = {
+	// Only the best fused results are scored, the cross-encoder is slow on CPU
+	candidateCount: number
+	score: (query: string, documents: string[]) => Promise<number[]>
+}
+
+// The breadcrumb gives the cross-encoder the context a chunk was written in
+const getRerankText = ({ content, metadata }: RerankCandidate) => {
+	const breadcrumb = formatHeadingPath(metadata?.headingPath)
+	return breadcrumb ? `${breadcrumb}\n${content}` : content
+}
+
+/**
+ * Re-orders the top candidates by cross-encoder score, which replaces their
+ * similarity. Results past the candidate count keep their order behind them,
+ * with scores spread evenly below the lowest reranked one so the two stay comparable.
+ */
+export async function rerankResults<T extends RerankCandidate>(
+	query: string,
+	results: T[],
+	{ candidateCount, score }: RerankOptions,
+): Promise<T[]> {
+	const candidates = results.slice(0, Math.max(candidateCount, 0))
+	if (candidates.length < 2) {
+		return results
+	}
+
+	const scores = await score(query, candidates.map(getRerankText))
+	if (scores.length !== candidates.length) {
+		throw new Error(`Expected ${candidates.length} rerank scores, got ${scores.length}`)
+	}
+
+	const reranked = candidates
+		.map((result, index) => ({ ...result, similarity: scores[index] }))
+		.sort((a, b) => b.similarity - a.similarity)
+	// fused scores are on another scale than the cross-encoder's (0, 1) scores
+	const lowest = reranked[reranked.length - 1].similarity
+	const rest = results.slice(candidates.length)
+	return [
+		...reranked,
+		...rest.map((result, index) => ({ ...result, similarity: (lowest * (rest.length - index)) / (rest.length + 1) })),
+	]
+}
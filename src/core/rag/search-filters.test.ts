@@ -0,0 +1,52 @@
+import {
+	buildSearchFilterSql,
+	globToRegExpSource,
+	hasSearchFilters,
+	parseSearchFilterArgs,
+} from './search-filters'
+
+describe('search filters', () => {
+	it('should parse the text form of filters', () => {
+		const filters = parseSearchFilterArgs({
+			tags: '#Meeting, project/x',
+			frontmatter: 'status=done; type != "draft"\nsummary~budget; reviewed',
+			modified_after: '2024-05-01',
+			modified_before: '2024-05-31',
+			path_glob: 'Work/**',
+		})
+		expect(filters.tags).toEqual(['meeting', 'project/x'])
+		expect(filters.frontmatter).toEqual([
+			{ key: 'status', operator: '=', value: 'done' },
+			{ key: 'type', operator: '!=', value: 'draft' },
+			{ key: 'summary', operator: '~', value: 'budget' },
+			{ key: 'reviewed', operator: 'exists' },
+		])
+		expect(filters.modifiedAfter).toBe(new Date(2024, 4, 1).getTime())
+		expect(filters.modifiedBefore).toBe(new Date(2024, 4, 31, 23, 59, 59, 999).getTime())
+		expect(filters.pathGlobs).toEqual(['Work/**'])
+		expect(hasSearchFilters(filters)).toBe(true)
+		expect(hasSearchFilters(parseSearchFilterArgs({ tags: ' ', modified_after: 'soon' }))).toBe(false)
+	})
+
+	it('should convert globs to anchored regular expressions', () => {
+		const matches = (glob: string, path: string) => new RegExp(globToRegExpSource(glob)).test(path)
+		expect(matches('Work/**', 'Work/a/b.md')).toBe(true)
+		expect(matches('Work/*.md', 'Work/a/b.md')).toBe(false)
+		expect(matches('**/daily/*.md', 'daily/2024.md')).toBe(true)
+		expect(matches('{Work,Home}/?.md', 'Home/a.md')).toBe(true)
+		expect(matches('notes.md', 'notes_md')).toBe(false)
+	})
+
+	it('should number placeholders after the existing ones', () => {
+		const { sql, params } = buildSearchFilterSql(
+			{ tags: ['meeting'], modifiedAfter: 10, pathGlobs: ['a/**', 'b/**'] },
+			4,
+		)
+		expect(params).toEqual([['meeting'], ['meeting/%'], 10, '^a/.*$', '^b/.*$'])
+		expect(sql).toContain('= ANY($4)')
+		expect(sql).toContain('LIKE ANY($5)')
+		expect(sql).toContain('AND mtime >= $6')
+		expect(sql).toContain('AND (path ~ $7 OR path ~ $8)')
+		expect(buildSearchFilterSql(undefined, 4)).toEqual({ sql: '', params: [] })
+	})
+})
@@ -0,0 +1,186 @@
+export type FrontmatterPredicate = {
+	key: string
+	// `~` is a case-insensitive substring match, `exists` ignores the value
+	operator: '=' | '!=' | '~' | 'exists'
+	value?: string
+}
+
+export type SearchFilters = {
+	// Without the leading `#`, a tag also matches its nested tags
+	tags?: string[]
+	frontmatter?: FrontmatterPredicate[]
+	// Unix milliseconds, inclusive
+	modifiedAfter?: number
+	modifiedBefore?: number
+	pathGlobs?: string[]
+}
+
+// Raw filter values as typed in the search view or sent by the agent
+export type SearchFilterArgs = {
+	tags?: string
+	frontmatter?: string
+	modified_after?: string
+	modified_before?: string
+	path_glob?: string
+}
+
+export const SEARCH_FILTER_ARG_NAMES: (keyof SearchFilterArgs)[] = [
+	'tags',
+	'frontmatter',
+	'modified_after',
+	'modified_before',
+	'path_glob',
+]
+
+const splitList = (value: string | undefined, separator: RegExp): string[] =>
+	(value ?? '').split(separator).map((item) => item.trim()).filter((item) => item !== '')
+
+// `YYYY-MM-DD` is read as a local date, other formats as understood by Date
+function parseDate(value: string | undefined, endOfDay: boolean): number | undefined {
+	if (!value?.trim()) return undefined
+	const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim())
+	const time = match
+		? endOfDay
+			? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]), 23, 59, 59, 999).getTime()
+			: new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])).getTime()
+		: Date.parse(value)
+	return Number.isNaN(time) ? undefined : time
+}
+
+function parseFrontmatterPredicate(text: string): FrontmatterPredicate | null {
+	const match = /^([^!=~]+?)\s*(!=|=|~)\s*(.*)$/.exec(text)
+	if (!match) {
+		return { key: text, operator: 'exists' }
+	}
+	const [, key, operator, value] = match
+	if (!key.trim() || (operator !== '=' && operator !== '!=' && operator !== '~')) return null
+	return { key: key.trim(), operator, value: value.trim().replace(/^["']|["']$/g, '') }
+}
+
+/**
+ * Parses the text form of search filters: comma separated tags and globs,
+ * `key=value`, `key!=value`, `key~value` or `key` frontmatter predicates
+ * separated by `;` or new lines, and dates such as `2024-05-01`.
+ */
+export function parseSearchFilterArgs(args: SearchFilterArgs): SearchFilters {
+	return {
+		tags: splitList(args.tags, /[,\s]+/).map((tag) => tag.replace(/^#/, '').toLowerCase()),
+		frontmatter: splitList(args.frontmatter, /[;\n]/)
+			.map(parseFrontmatterPredicate)
+			.filter((predicate) => predicate !== null),
+		modifiedAfter: parseDate(args.modified_after, false),
+		modifiedBefore: parseDate(args.modified_before, true),
+		pathGlobs: splitList(args.path_glob, /[,\n]/),
+	}
+}
+
+export function hasSearchFilters(filters: SearchFilters | undefined): boolean {
+	return Boolean(
+		filters &&
+		(filters.tags?.length ||
+			filters.frontmatter?.length ||
+			filters.modifiedAfter !== undefined ||
+			filters.modifiedBefore !== undefined ||
+			filters.pathGlobs?.length),
+	)
+}
+
+/**
+ * Converts a path glob into an anchored regular expression that behaves the
+ * same in JavaScript and PostgreSQL.
+ */
+export function globToRegExpSource(glob: string): string {
+	let source = ''
+	let inBraces = false
+	for (let index = 0; index < glob.length; index++) {
+		const char = glob[index]
+		if (char === '*' && glob[index + 1] === '*') {
+			// `**/` also matches no folder at all
+			if (glob[index + 2] === '/') {
+				source += '(.*/)?'
+				index += 2
+			} else {
+				source += '.*'
+				index += 1
+			}
+		} else if (char === '*') {
+			source += '[^/]*'
+		} else if (char === '?') {
+			source += '[^/]'
+		} else if (char === '{' && !inBraces) {
+			source += '('
+			inBraces = true
+		} else if (char === '}' && inBraces) {
+			source += ')'
+			inBraces = false
+		} else if (char === ',' && inBraces) {
+			source += '|'
+		} else {
+			source += char.replace(/[.+^$()|[\]\\{}]/g, '\\$&')
+		}
+	}
+	return `^${source}$`
+}
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, '\\$&')
+
+/**
+ * Builds `AND ...` conditions on the vector table for the given filters.
+ * Placeholders start at `paramIndex`, the returned params fill them in order.
+ */
+export function buildSearchFilterSql(
+	filters: SearchFilters | undefined,
+	paramIndex: number,
+): { sql: string; params: unknown[] } {
+	const conditions: string[] = []
+	const params: unknown[] = []
+	const param = (value: unknown) => {
+		params.push(value)
+		return `$${paramIndex + params.length - 1}`
+	}
+
+	if (filters?.tags?.length) {
+		const exact = param(filters.tags)
+		const nested = param(filters.tags.map((tag) => `${escapeLike(tag)}/%`))
+		conditions.push(
+			`EXISTS (SELECT 1 FROM jsonb_array_elements_text(COALESCE(metadata->'tags', '[]'::jsonb)) AS tag ` +
+			`WHERE lower(ltrim(tag, '#')) = ANY(${exact}) OR lower(ltrim(tag, '#')) LIKE ANY(${nested}))`,
+		)
+	}
+
+	for (const predicate of filters?.frontmatter ?? []) {
+		const key = param(predicate.key)
+		const field = `metadata->'frontmatter'->${key}`
+		if (predicate.operator === 'exists') {
+			conditions.push(`${field} IS NOT NULL`)
+			continue
+		}
+		if (predicate.operator === '~') {
+			conditions.push(`metadata->'frontmatter'->>${key} ILIKE ${param(`%${escapeLike(predicate.value ?? '')}%`)}`)
+			continue
+		}
+		const value = param(predicate.value ?? '')
+		// Scalars compare as text, list properties match when any item does
+		const equals =
+			`(lower(metadata->'frontmatter'->>${key}) = lower(${value}) OR EXISTS (` +
+			`SELECT 1 FROM jsonb_array_elements_text(CASE WHEN jsonb_typeof(${field}) = 'array' THEN ${field} ELSE '[]'::jsonb END) AS item ` +
+			`WHERE lower(item) = lower(${value})))`
+		conditions.push(predicate.operator === '=' ? equals : `NOT COALESCE(${equals}, false)`)
+	}
+
+	if (filters?.modifiedAfter !== undefined) {
+		conditions.push(`mtime >= ${param(filters.modifiedAfter)}`)
+	}
+	if (filters?.modifiedBefore !== undefined) {
+		conditions.push(`mtime <= ${param(filters.modifiedBefore)}`)
+	}
+
+	if (filters?.pathGlobs?.length) {
+		conditions.push(`(${filters.pathGlobs.map((glob) => `path ~ ${param(globToRegExpSource(glob))}`).join(' OR ')})`)
+	}
+
+	return {
+		sql: conditions.map((condition) => `AND ${condition}`).join('\n'),
+		params,
+	}
+}
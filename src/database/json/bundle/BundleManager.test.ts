@@ -0,0 +1,102 @@
+import { App } from 'obsidian'
+
+import { BundleManager } from './BundleManager'
+import { BUNDLE_FORMAT, DataBundle } from './types'
+
+jest.mock('obsidian', () => ({
+	App: jest.fn(),
+	normalizePath: (path: string) => path,
+}))
+// Published as ES modules only, the titles used here need no escaping
+jest.mock('sanitize-basename', () => ({ __esModule: true, default: (name: string) => name }))
+jest.mock('unsanitize-basename', () => ({ __esModule: true, default: (name: string) => name }), { virtual: true })
+
+// Keeps the plugin's JSON files in memory instead of the vault
+function createApp(): App {
+	const files = new Map<string, string>()
+	const folders = new Set<string>()
+	const app = new App()
+	Object.assign(app, {
+		vault: {
+			adapter: {
+				exists: async (path: string) => files.has(path) || folders.has(path),
+				mkdir: async (path: string) => {
+					folders.add(path)
+				},
+				write: async (path: string, content: string) => {
+					files.set(path, content)
+				},
+				read: async (path: string) => files.get(path) ?? '',
+				remove: async (path: string) => {
+					files.delete(path)
+				},
+				list: async (dir: string) => ({
+					files: Array.from(files.keys()).filter((path) => path.startsWith(`${dir}/`)),
+					folders: [],
+				}),
+			},
+		},
+		workspace: { trigger: jest.fn() },
+	})
+	return app
+}
+
+const WORKSPACE_ID = '00000000-0000-4000-8000-000000000001'
+const CHAT_ID = '00000000-0000-4000-8000-000000000002'
+
+const bundle: DataBundle = {
+	format: BUNDLE_FORMAT,
+	schemaVersion: 1,
+	exportedAt: 1,
+	chats: [{
+		id: CHAT_ID,
+		title: 'Research plan',
+		messages: [],
+		activeMessageId: null,
+		createdAt: 1,
+		updatedAt: 1,
+		schemaVersion: 3,
+		workspace: 'Research',
+	}],
+	commands: [],
+	customModes: [],
+	workspaces: [{
+		id: WORKSPACE_ID,
+		name: 'Research',
+		content: [{ type: 'folder', content: 'research' }],
+		chatHistory: [{ id: CHAT_ID, title: 'Research plan' }],
+		metadata: {},
+		createdAt: 1,
+		updatedAt: 1,
+		schemaVersion: 1,
+	}],
+}
+
+describe('BundleManager', () => {
+	it('should keep imported chats and workspaces linked when both are kept', async () => {
+		const manager = new BundleManager(createApp())
+		await manager.importBundle(bundle, ['chats', 'workspaces'], 'keep-both')
+
+		const result = await manager.importBundle(bundle, ['chats', 'workspaces'], 'keep-both')
+		expect(result.chats.imported).toBe(1)
+		expect(result.workspaces.imported).toBe(1)
+
+		const exported = await manager.exportBundle(['chats', 'workspaces'])
+		const copy = exported.workspaces.find((workspace) => workspace.name === 'Research 2')
+		const copiedChat = exported.chats.find((chat) => chat.id !== CHAT_ID)
+		expect(copy?.id).not.toBe(WORKSPACE_ID)
+		expect(copiedChat?.workspace).toBe('Research 2')
+		expect(copy?.chatHistory).toEqual([{ id: copiedChat?.id, title: 'Research plan' }])
+
+		const original = exported.workspaces.find((workspace) => workspace.name === 'Research')
+		expect(original?.chatHistory).toEqual([{ id: CHAT_ID, title: 'Research plan' }])
+	})
+
+	it('should list imported chats in the chat history of their workspace', async () => {
+		const manager = new BundleManager(createApp())
+		await manager.importBundle({ ...bundle, workspaces: [{ ...bundle.workspaces[0], chatHistory: [] }] }, ['chats', 'workspaces'], 'skip')
+
+		const [workspace] = (await manager.exportBundle(['workspaces'])).workspaces
+		expect(workspace.chatHistory).toEqual([{ id: CHAT_ID, title: 'Research plan' }])
+	})
+})
@@ -0,0 +1,237 @@
+import { App } from 'obsidian'
+import { v4 as uuidv4 } from 'uuid'
+
+import { ChatManager, migrateChatConversation } from '../chat/ChatManager'
+import { CommandManager } from '../command/CommandManager'
+import { COMMANDS_CHANGED_EVENT } from '../command/types'
+import { CustomModeManager } from '../custom-mode/CustomModeManager'
+import { WorkspaceManager } from '../workspace/WorkspaceManager'
+
+import {
+	BUNDLE_FORMAT,
+	BUNDLE_SCHEMA_VERSION,
+	BundleConflict,
+	BundleImportResult,
+	BundleItemType,
+	ConflictResolution,
+	DataBundle,
+} from './types'
+import { BundleIdentity, findBundleConflicts, getUniqueName } from './utils'
+
+type ImportPlan = {
+	// Stored rows replaced by the imported one
+	replacedIds: string[]
+	// Identity the imported row is written with
+	id: string
+	name: string
+} | null
+
+/**
+ * Moves chats, commands, custom modes and workspaces between vaults as a
+ * single JSON bundle.
+ */
+export class BundleManager {
+	private app: App
+	private workspaceManager: WorkspaceManager
+	private chatManager: ChatManager
+	private commandManager: CommandManager
+	private customModeManager: CustomModeManager
+
+	constructor(app: App) {
+		this.app = app
+		this.workspaceManager = new WorkspaceManager(app)
+		this.chatManager = new ChatManager(app, this.workspaceManager)
+		this.commandManager = new CommandManager(app)
+		this.customModeManager = new CustomModeManager(app)
+	}
+
+	public async exportBundle(types: BundleItemType[]): Promise<DataBundle> {
+		const include = new Set(types)
+		const bundle: DataBundle = {
+			format: BUNDLE_FORMAT,
+			schemaVersion: BUNDLE_SCHEMA_VERSION,
+			exportedAt: Date.now(),
+			chats: [],
+			commands: [],
+			customModes: [],
+			workspaces: [],
+		}
+		if (include.has('chats')) {
+			const chats = await Promise.all(
+				(await this.chatManager.listChats()).map((meta) => this.chatManager.findById(meta.id)),
+			)
+			bundle.chats = chats.filter((chat) => chat !== null)
+		}
+		if (include.has('commands')) {
+			bundle.commands = (await this.commandManager.ListCommands()).filter((command) => command !== null)
+		}
+		if (include.has('customModes')) {
+			bundle.customModes = (await this.customModeManager.ListCustomModes()).filter((mode) => mode !== null)
+		}
+		if (include.has('workspaces')) {
+			const workspaces = await Promise.all(
+				(await this.workspaceManager.listWorkspaces()).map((meta) => this.workspaceManager.findById(meta.id)),
+			)
+			bundle.workspaces = workspaces.filter((workspace) => workspace !== null)
+		}
+		return bundle
+	}
+
+	public async findConflicts(bundle: DataBundle, types: BundleItemType[]): Promise<BundleConflict[]> {
+		const conflicts = await Promise.all(
+			types.map(async (type) =>
+				findBundleConflicts(type, getBundleIdentities(bundle, type), await this.getExistingIdentities(type), type !== 'chats'),
+			),
+		)
+		return conflicts.flat()
+	}
+
+	public async importBundle(
+		bundle: DataBundle,
+		types: BundleItemType[],
+		resolution: ConflictResolution,
+	): Promise<BundleImportResult> {
+		const result: BundleImportResult = {
+			chats: { imported: 0, skipped: 0 },
+			commands: { imported: 0, skipped: 0 },
+			customModes: { imported: 0, skipped: 0 },
+			workspaces: { imported: 0, skipped: 0 },
+		}
+		const include = new Set(types)
+
+		// Chats are planned first, so that workspaces can point their chat history at the ids chats are written with
+		const chatPlans = include.has('chats')
+			? await Promise.all(bundle.chats.map(async (storedChat) => {
+				const chat = migrateChatConversation(storedChat)
+				return { chat, plan: await this.planImport('chats', { id: chat.id, name: chat.title }, resolution) }
+			}))
+			: []
+		const chatIds = new Map(chatPlans.flatMap(({ chat, plan }) => (plan ? [[chat.id, plan.id] as const] : [])))
+		// Chats refer to their workspace by name, older ones by id
+		const workspaceRefs = new Map<string, string>()
+
+		if (include.has('workspaces')) {
+			for (const workspace of bundle.workspaces) {
+				const plan = await this.planImport('workspaces', { id: workspace.id, name: workspace.name }, resolution)
+				if (!plan) {
+					result.workspaces.skipped++
+					continue
+				}
+				await Promise.all(plan.replacedIds.map((id) => this.workspaceManager.deleteWorkspace(id)))
+				await this.workspaceManager.create({
+					...workspace,
+					id: plan.id,
+					name: plan.name,
+					chatHistory: workspace.chatHistory.map((entry) => ({ ...entry, id: chatIds.get(entry.id) ?? entry.id })),
+				})
+				workspaceRefs.set(workspace.name, plan.name)
+				workspaceRefs.set(workspace.id, plan.id)
+				result.workspaces.imported++
+			}
+		}
+
+		for (const { chat, plan } of chatPlans) {
+			if (!plan) {
+				result.chats.skipped++
+				continue
+			}
+			await Promise.all(plan.replacedIds.map((id) => this.chatManager.deleteChat(id)))
+			// Creating the chat through the chat manager also lists it in its workspace's chat history
+			await this.chatManager.createChat({
+				...chat,
+				id: plan.id,
+				workspace: chat.workspace ? workspaceRefs.get(chat.workspace) ?? chat.workspace : undefined,
+			})
+			result.chats.imported++
+		}
+
+		if (include.has('commands')) {
+			for (const command of bundle.commands) {
+				const plan = await this.planImport('commands', { id: command.id, name: command.name }, resolution)
+				if (!plan) {
+					result.commands.skipped++
+					continue
+				}
+				await Promise.all(plan.replacedIds.map((id) => this.commandManager.deleteCommand(id)))
+				await this.commandManager.create({ ...command, id: plan.id, name: plan.name })
+				result.commands.imported++
+			}
+			this.app.workspace.trigger(COMMANDS_CHANGED_EVENT)
+		}
+
+		if (include.has('customModes')) {
+			for (const mode of bundle.customModes) {
+				const plan = await this.planImport('customModes', { id: mode.id, name: mode.name }, resolution)
+				if (!plan) {
+					result.customModes.skipped++
+					continue
+				}
+				await Promise.all(plan.replacedIds.map((id) => this.customModeManager.deleteCustomMode(id)))
+				await this.customModeManager.create({
+					...mode,
+					id: plan.id,
+					name: plan.name,
+					slug: plan.name.toLowerCase().replace(/ /g, '-'),
+				})
+				result.customModes.imported++
+			}
+		}
+
+		return result
+	}
+
+	// Rows are planned one at a time, so rows written earlier in the same import count as existing
+	private async planImport(
+		type: BundleItemType,
+		item: BundleIdentity,
+		resolution: ConflictResolution,
+	): Promise<ImportPlan> {
+		const existing = await this.getExistingIdentities(type)
+		// Chat titles are not unique, only their ids can collide
+		const matchNames = type !== 'chats'
+		const conflictingIds = existing
+			.filter((row) => row.id === item.id || (matchNames && row.name === item.name))
+			.map((row) => row.id)
+		if (conflictingIds.length === 0) {
+			return { replacedIds: [], ...item }
+		}
+		switch (resolution) {
+			case 'skip':
+				return null
+			case 'overwrite':
+				return { replacedIds: Array.from(new Set(conflictingIds)), ...item }
+			case 'keep-both':
+				return {
+					replacedIds: [],
+					id: uuidv4(),
+					name: matchNames ? getUniqueName(item.name, new Set(existing.map((row) => row.name))) : item.name,
+				}
+		}
+	}
+
+	private async getExistingIdentities(type: BundleItemType): Promise<BundleIdentity[]> {
+		switch (type) {
+			case 'chats':
+				return (await this.chatManager.listChats()).map((chat) => ({ id: chat.id, name: chat.title }))
+			case 'commands':
+				return (await this.commandManager.listMetadata()).map((command) => ({ id: command.id, name: command.name }))
+			case 'customModes':
+				return (await this.customModeManager.listMetadata()).map((mode) => ({ id: mode.id, name: mode.name }))
+			case 'workspaces':
+				return (await this.workspaceManager.listWorkspaces()).map((workspace) => ({ id: workspace.id, name: workspace.name }))
+		}
+	}
+}
+
+function getBundleIdentities(bundle: DataBundle, type: BundleItemType): BundleIdentity[] {
+	switch (type) {
+		case 'chats':
+			return bundle.chats.map((chat) => ({ id: chat.id, name: chat.title }))
+		case 'commands':
+			return bundle.commands.map((command) => ({ id: command.id, name: command.name }))
+		case 'customModes':
+			return bundle.customModes.map((mode) => ({ id: mode.id, name: mode.name }))
+		case 'workspaces':
+			return bundle.workspaces.map((workspace) => ({ id: workspace.id, name: workspace.name }))
+	}
+}
@@ -0,0 +1,35 @@
+import { StoredChatConversation } from '../chat/types'
+import { Command } from '../command/types'
+import { CustomMode } from '../custom-mode/types'
+import { Workspace } from '../workspace/types'
+
+export const BUNDLE_FORMAT = 'infio-copilot-bundle'
+export const BUNDLE_SCHEMA_VERSION = 1
+
+export const BUNDLE_ITEM_TYPES = ['chats', 'commands', 'customModes', 'workspaces'] as const
+
+export type BundleItemType = (typeof BUNDLE_ITEM_TYPES)[number]
+
+// Rows keep their own schemaVersion so older rows can be migrated on import
+export type DataBundle = {
+  format: typeof BUNDLE_FORMAT
+  schemaVersion: number
+  exportedAt: number
+  chats: StoredChatConversation[]
+  commands: Command[]
+  customModes: CustomMode[]
+  workspaces: Workspace[]
+}
+
+export type ConflictResolution = 'skip' | 'overwrite' | 'keep-both'
+
+export type BundleConflict = {
+  type: BundleItemType
+  id: string
+  name: string
+  // Id of the stored row the imported one collides with
+  existingId: string
+  reason: 'id' | 'name'
+}
+
+export type BundleImportResult = Record<BundleItemType, { imported: number; skipped: number }>
@@ -0,0 +1,52 @@
+import { InvalidBundleException } from '../exception'
+
+import { BUNDLE_FORMAT } from './types'
+import { findBundleConflicts, getUniqueName, parseDataBundle } from './utils'
+
+const command = (id: string, name: string) => ({
+	id,
+	name,
+	content: { nodes: [] },
+	createdAt: 1,
+	updatedAt: 1,
+	schemaVersion: 1,
+})
+
+describe('data bundle', () => {
+	it('should parse a bundle and drop malformed rows', () => {
+		const bundle = parseDataBundle(JSON.stringify({
+			format: BUNDLE_FORMAT,
+			schemaVersion: 1,
+			exportedAt: 1,
+			commands: [command('a', 'Summarize'), { id: 'b' }],
+			customModes: 'not a list',
+		}))
+		expect(bundle.commands).toEqual([command('a', 'Summarize')])
+		expect(bundle.customModes).toEqual([])
+		expect(bundle.chats).toEqual([])
+	})
+
+	it('should reject files that are not bundles', () => {
+		expect(() => parseDataBundle('not json')).toThrow(InvalidBundleException)
+		expect(() => parseDataBundle(JSON.stringify({ format: 'other' }))).toThrow(InvalidBundleException)
+		expect(() =>
+			parseDataBundle(JSON.stringify({ format: BUNDLE_FORMAT, schemaVersion: 99, exportedAt: 1 })),
+		).toThrow('newer version')
+	})
+
+	it('should detect conflicts by id before name', () => {
+		const existing = [{ id: '1', name: 'Summarize' }, { id: '2', name: 'Translate' }]
+		const items = [{ id: '1', name: 'Renamed' }, { id: '3', name: 'Translate' }, { id: '4', name: 'New' }]
+
+		expect(findBundleConflicts('commands', items, existing, true)).toEqual([
+			{ type: 'commands', id: '1', name: 'Renamed', existingId: '1', reason: 'id' },
+			{ type: 'commands', id: '3', name: 'Translate', existingId: '2', reason: 'name' },
+		])
+		expect(findBundleConflicts('chats', items, existing, false)).toHaveLength(1)
+	})
+
+	it('should number duplicated names', () => {
+		expect(getUniqueName('New', new Set(['Old']))).toBe('New')
+		expect(getUniqueName('Summarize', new Set(['Summarize', 'Summarize 2']))).toBe('Summarize 3')
+	})
+})
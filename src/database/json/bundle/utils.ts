@@ -0,0 +1,125 @@
+import { z } from 'zod'
+
+import { StoredChatConversation } from '../chat/types'
+import { Command } from '../command/types'
+import { modeConfigSchema } from '../custom-mode/types'
+import { InvalidBundleException } from '../exception'
+import { Workspace } from '../workspace/types'
+
+import {
+	BUNDLE_FORMAT,
+	BUNDLE_SCHEMA_VERSION,
+	BundleConflict,
+	BundleItemType,
+	DataBundle,
+} from './types'
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+	typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const hasIdentity = (value: Record<string, unknown>, nameKey: string): boolean =>
+	typeof value.id === 'string' &&
+	typeof value[nameKey] === 'string' &&
+	typeof value.schemaVersion === 'number'
+
+// Rows are checked for the fields import relies on, their content is kept as exported
+const chatSchema = z.custom<StoredChatConversation>(
+	(value) => isRecord(value) && hasIdentity(value, 'title') && Array.isArray(value.messages),
+)
+
+const commandSchema = z.custom<Command>(
+	(value) =>
+		isRecord(value) &&
+		hasIdentity(value, 'name') &&
+		isRecord(value.content) &&
+		Array.isArray(value.content.nodes),
+)
+
+const workspaceSchema = z.custom<Workspace>(
+	(value) =>
+		isRecord(value) &&
+		hasIdentity(value, 'name') &&
+		Array.isArray(value.content) &&
+		Array.isArray(value.chatHistory),
+)
+
+// Rows failing validation are left out instead of failing the whole import
+const listOf = <T>(schema: z.ZodType<T>) =>
+	z
+		.array(z.unknown())
+		.catch([])
+		.transform((items) =>
+			items.flatMap((item) => {
+				const result = schema.safeParse(item)
+				return result.success ? [result.data] : []
+			}),
+		)
+
+const bundleSchema = z.object({
+	format: z.literal(BUNDLE_FORMAT),
+	schemaVersion: z.number().int().positive(),
+	exportedAt: z.number(),
+	chats: listOf(chatSchema),
+	commands: listOf(commandSchema),
+	customModes: listOf(modeConfigSchema),
+	workspaces: listOf(workspaceSchema),
+})
+
+/**
+ * Parses an exported bundle file.
+ */
+export function parseDataBundle(text: string): DataBundle {
+	let json: unknown
+	try {
+		json = JSON.parse(text)
+	} catch {
+		throw new InvalidBundleException('not a JSON file')
+	}
+	const result = bundleSchema.safeParse(json)
+	if (!result.success) {
+		throw new InvalidBundleException(result.error.issues[0]?.message ?? 'unknown format')
+	}
+	if (result.data.schemaVersion > BUNDLE_SCHEMA_VERSION) {
+		throw new InvalidBundleException('created by a newer version of the plugin')
+	}
+	const { format, schemaVersion, exportedAt, chats, commands, customModes, workspaces } = result.data
+	return { format, schemaVersion, exportedAt, chats, commands, customModes, workspaces }
+}
+
+export type BundleIdentity = { id: string; name: string }
+
+/**
+ * Finds imported rows that collide with stored ones, first by id and then,
+ * when names must be unique, by name.
+ */
+export function findBundleConflicts(
+	type: BundleItemType,
+	items: BundleIdentity[],
+	existing: BundleIdentity[],
+	matchNames: boolean,
+): BundleConflict[] {
+	const existingIds = new Set(existing.map((item) => item.id))
+	const existingByName = new Map(existing.map((item) => [item.name, item.id]))
+	return items.flatMap((item): BundleConflict[] => {
+		if (existingIds.has(item.id)) {
+			return [{ type, id: item.id, name: item.name, existingId: item.id, reason: 'id' }]
+		}
+		const existingId = matchNames ? existingByName.get(item.name) : undefined
+		if (existingId !== undefined) {
+			return [{ type, id: item.id, name: item.name, existingId, reason: 'name' }]
+		}
+		return []
+	})
+}
+
+/**
+ * Appends a counter to a name until it no longer collides, e.g. `Summary 2`.
+ */
+export function getUniqueName(name: string, takenNames: Set<string>): string {
+	if (!takenNames.has(name)) return name
+	let counter = 2
+	while (takenNames.has(`${name} ${counter}`)) {
+		counter++
+	}
+	return `${name} ${counter}`
+}
@@ -4,6 +4,7 @@ import sanitize from 'sanitize-basename'
 import unsanitize from 'unsanitize-basename'
 
 import { ChatConversationMeta } from '../../../types/chat'
+import { linearMessagesToChatTree } from '../../../utils/chat-tree'
 import { AbstractJsonRepository } from '../base'
 import { CHAT_DIR, ROOT_DIR } from '../constants'
 import { EmptyChatTitleException } from '../exception'
@@ -11,11 +12,28 @@ import { WorkspaceManager } from '../workspace/WorkspaceManager'
 
 import {
 	CHAT_SCHEMA_VERSION,
-	ChatConversation
+	ChatConversation,
+	StoredChatConversation
 } from './types'
 
+/**
+ * 将旧版本的线性消息列表迁移为 v3 消息树
+ */
+export function migrateChatConversation(chat: StoredChatConversation): ChatConversation {
+	if ('activeMessageId' in chat) {
+		return chat
+	}
+	const tree = linearMessagesToChatTree(chat.messages)
+	return {
+		...chat,
+		messages: tree.nodes,
+		activeMessageId: tree.activeMessageId,
+		schemaVersion: CHAT_SCHEMA_VERSION,
+	}
+}
+
 export class ChatManager extends AbstractJsonRepository<
-	ChatConversation,
+	StoredChatConversation,
 	ChatConversationMeta
 > {
 	private workspaceManager?: WorkspaceManager
@@ -25,8 +43,8 @@ export class ChatManager extends AbstractJsonRepository<
 		this.workspaceManager = workspaceManager
 	}
 
-	protected generateFileName(chat: ChatConversation): string {
-		// 新格式 v2: v{schemaVersion}_{sanitizedTitle}_{updatedAt}_{id}_{workspaceId}.json
+	protected generateFileName(chat: StoredChatConversation): string {
+		// 新格式 v2 及之后: v{schemaVersion}_{sanitizedTitle}_{updatedAt}_{id}_{workspaceId}.json
 		const sanitizedTitle = sanitize(chat.title, { maxLength: 100 })
 		// 如果没有工作区，使用 'vault' 作为默认值
 		const workspaceId = chat.workspace || 'vault'
@@ -34,23 +52,23 @@ export class ChatManager extends AbstractJsonRepository<
 	}
 
 	protected parseFileName(fileName: string): ChatConversationMeta | null {
-		// 通过头两个字符判断版本
-		if (fileName.startsWith('v2_')) {
-			return this.parseFileNameV2(fileName)
-		} else if (fileName.startsWith('v1_')) {
+		// 通过前缀判断版本，v2 之后的版本沿用 v2 的文件名格式
+		if (fileName.startsWith('v1_')) {
 			return this.parseFileNameV1(fileName)
+		} else if (/^v\d+_/.test(fileName)) {
+			return this.parseFileNameV2(fileName)
 		}
 		
 		return null
 	}
 
 	/**
-	 * 解析新版本 (v2) 文件名
-	 * 格式: v2_{sanitizedTitle}_{updatedAt}_{id}_{workspaceId}.json
+	 * 解析新版本 (v2 及之后) 文件名
+	 * 格式: v{schemaVersion}_{sanitizedTitle}_{updatedAt}_{id}_{workspaceId}.json
 	 */
 	private parseFileNameV2(fileName: string): ChatConversationMeta | null {
 		const regex = new RegExp(
-			`^v2_(.+)_(\\d+)_([0-9a-f-]+)(?:_([^_]+))?\\.json$`,
+			`^v(\\d+)_(.+)_(\\d+)_([0-9a-f-]+)(?:_([^_]+))?\\.json$`,
 		)
 		const match = fileName.match(regex)
 
@@ -58,14 +76,15 @@ export class ChatManager extends AbstractJsonRepository<
 
 		try {
 			// 使用 unsanitize-basename 还原原始标题
-			const title = unsanitize(match[1])
-			const updatedAt = parseInt(match[2], 10)
-			const id = match[3]
-			const workspaceId = match[4] // 可能为undefined（老格式）
+			const schemaVersion = parseInt(match[1], 10)
+			const title = unsanitize(match[2])
+			const updatedAt = parseInt(match[3], 10)
+			const id = match[4]
+			const workspaceId = match[5] // 可能为undefined（老格式）
 
 			return {
 				id,
-				schemaVersion: 2,
+				schemaVersion,
 				title,
 				updatedAt,
 				createdAt: 0,
@@ -124,6 +143,7 @@ export class ChatManager extends AbstractJsonRepository<
 			id: uuidv4(),
 			title: 'New chat',
 			messages: [],
+			activeMessageId: null,
 			createdAt: now,
 			updatedAt: now,
 			schemaVersion: CHAT_SCHEMA_VERSION,
@@ -149,6 +169,11 @@ export class ChatManager extends AbstractJsonRepository<
 	}
 
 	public async findById(id: string): Promise<ChatConversation | null> {
+		const chat = await this.findStoredById(id)
+		return chat ? migrateChatConversation(chat) : null
+	}
+
+	private async findStoredById(id: string): Promise<StoredChatConversation | null> {
 		const allMetadata = await this.listMetadata()
 		const targetMetadatas = allMetadata.filter((meta) => meta.id === id)
 
@@ -167,7 +192,8 @@ export class ChatManager extends AbstractJsonRepository<
 			Omit<ChatConversation, 'id' | 'createdAt' | 'updatedAt' | 'schemaVersion'>
 		>,
 	): Promise<ChatConversation | null> {
-		const chat = await this.findById(id)
+		// 保留存储时的版本号，以便定位并替换旧文件
+		const chat = await this.findStoredById(id)
 		if (!chat) return null
 
 		if (updates.title !== undefined && updates.title.length === 0) {
@@ -175,7 +201,7 @@ export class ChatManager extends AbstractJsonRepository<
 		}
 
 		const updatedChat: ChatConversation = {
-			...chat,
+			...migrateChatConversation(chat),
 			...updates,
 			updatedAt: Date.now(),
 		}
@@ -1,17 +1,27 @@
 import { SerializedChatMessage } from '../../../types/chat'
+import { ChatTreeNode } from '../../../utils/chat-tree'
 
-export const CHAT_SCHEMA_VERSION = 2
+export const CHAT_SCHEMA_VERSION = 3
 
 export type ChatConversation = {
   id: string
   title: string
-  messages: SerializedChatMessage[]
+  // 消息树：编辑或重新生成的消息作为兄弟分支保存
+  messages: ChatTreeNode<SerializedChatMessage>[]
+  activeMessageId: string | null
   createdAt: number
   updatedAt: number
   schemaVersion: number
   workspace?: string // 工作区ID，可选字段用于向后兼容
 }
 
+// v1 和 v2 中消息为线性列表
+export type LegacyChatConversation = Omit<ChatConversation, 'messages' | 'activeMessageId'> & {
+  messages: SerializedChatMessage[]
+}
+
+export type StoredChatConversation = ChatConversation | LegacyChatConversation
+
 export type ChatConversationMetadata = {
   id: string
   title: string
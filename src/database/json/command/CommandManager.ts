@@ -9,7 +9,7 @@ import {
 	EmptyCommandNameException,
 } from '../exception'
 
-import { COMMAND_SCHEMA_VERSION, Command, CommandMetadata } from './types'
+import { COMMANDS_CHANGED_EVENT, COMMAND_SCHEMA_VERSION, Command, CommandMetadata } from './types'
 
 export class CommandManager extends AbstractJsonRepository<
 	Command,
@@ -62,6 +62,7 @@ export class CommandManager extends AbstractJsonRepository<
 		}
 
 		await this.create(newCommand)
+		this.app.workspace.trigger(COMMANDS_CHANGED_EVENT)
 		return newCommand
 	}
 
@@ -116,6 +117,7 @@ export class CommandManager extends AbstractJsonRepository<
 		}
 
 		await this.update(command, updatedCommand)
+		this.app.workspace.trigger(COMMANDS_CHANGED_EVENT)
 		return updatedCommand
 	}
 
@@ -125,6 +127,7 @@ export class CommandManager extends AbstractJsonRepository<
 
 		const fileName = this.generateFileName(command)
 		await this.delete(fileName)
+		this.app.workspace.trigger(COMMANDS_CHANGED_EVENT)
 		return true
 	}
 
@@ -2,6 +2,9 @@ import { SerializedLexicalNode } from 'lexical'
 
 export const COMMAND_SCHEMA_VERSION = 1
 
+// Triggered on app.workspace whenever a saved command is created, updated or deleted
+export const COMMANDS_CHANGED_EVENT = 'infio:commands-changed'
+
 export type Command = {
   id: string
   name: string
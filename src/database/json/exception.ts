@@ -31,4 +31,10 @@ export class EmptyCustomModeNameException extends Error {
     super('Custom mode name cannot be empty')
     this.name = 'EmptyCustomModeNameException'
   }
-}
\ No newline at end of file
+}
+export class InvalidBundleException extends Error {
+  constructor(reason: string) {
+    super(`Invalid bundle: ${reason}`)
+    this.name = 'InvalidBundleException'
+  }
+}
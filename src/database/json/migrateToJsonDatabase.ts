@@ -1,5 +1,6 @@
 import { App, normalizePath } from 'obsidian'
 
+import { linearMessagesToChatTree } from '../../utils/chat-tree'
 import { DBManager } from '../database-manager'
 import { DuplicateCommandException } from '../exception'
 import { ConversationManager } from '../modules/conversation/conversation-manager'
@@ -40,10 +41,12 @@ async function transferChatHistory(app: App, dbManager: DBManager): Promise<void
 				continue
 			}
 
+			const messageTree = linearMessagesToChatTree(oldChatMessageList.map(msg => serializeChatMessage(msg)))
 			await newChatManager.createChat({
 				id: chatMeta.id,
 				title: chatMeta.title,
-				messages: oldChatMessageList.map(msg => serializeChatMessage(msg)),
+				messages: messageTree.nodes,
+				activeMessageId: messageTree.activeMessageId,
 				createdAt: chatMeta.created_at instanceof Date ? chatMeta.created_at.getTime() : chatMeta.created_at,
 				updatedAt: chatMeta.updated_at instanceof Date ? chatMeta.updated_at.getTime() : chatMeta.updated_at,
 			})
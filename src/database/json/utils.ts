@@ -19,6 +19,8 @@ export const serializeChatMessage = (message: ChatMessage): SerializedChatMessag
 				id: message.id,
 				mentionables: message.mentionables.map(serializeMentionable),
 				similaritySearchResults: message.similaritySearchResults,
+				toolCallId: message.toolCallId,
+				presetPrompt: message.presetPrompt,
 			}
 		case 'assistant':
 			return {
@@ -27,6 +29,7 @@ export const serializeChatMessage = (message: ChatMessage): SerializedChatMessag
 				content: message.content,
 				reasoningContent: message.reasoningContent,
 				id: message.id,
+				toolCalls: message.toolCalls,
 				metadata: message.metadata,
 			}
 	}
@@ -48,6 +51,8 @@ export const deserializeChatMessage = (
 					.map((m) => deserializeMentionable(m, app))
 					.filter((m): m is Mentionable => m !== null),
 				similaritySearchResults: message.similaritySearchResults,
+				toolCallId: message.toolCallId,
+				presetPrompt: message.presetPrompt,
 			}
 		}
 		case 'assistant':
@@ -57,6 +62,7 @@ export const deserializeChatMessage = (
 				content: message.content,
 				reasoningContent: message.reasoningContent,
 				id: message.id,
+				toolCalls: message.toolCalls,
 				metadata: message.metadata,
 			}
 	}
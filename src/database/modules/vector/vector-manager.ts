@@ -1,7 +1,6 @@
 import { backOff } from 'exponential-backoff';
-import { RecursiveCharacterTextSplitter } from 'langchain/text_splitter';
 import { minimatch } from 'minimatch';
-import { App, Notice, TFile } from 'obsidian';
+import { App, Notice, TFile, getAllTags } from 'obsidian';
 import pLimit from 'p-limit';
 import removeMarkdown from 'remove-markdown';
 
@@ -12,90 +11,176 @@ import {
 	LLMBaseUrlNotSetException,
 	LLMRateLimitExceededException,
 } from '../../../core/llm/exception';
-import { InsertVector, SelectVector } from '../../../database/schema';
+import { parseCanvas } from '../../../core/rag/canvas-parser';
+import { isIndexableExtension } from '../../../core/rag/index-queue';
+import { chunkMarkdown, formatHeadingPath } from '../../../core/rag/markdown-chunker';
+import { SearchFilters } from '../../../core/rag/search-filters';
+import { InsertVector, SelectVector, VectorMetaData } from '../../../database/schema';
 import { EmbeddingModel } from '../../../types/embedding';
 import { getFilesWithTag } from '../../../utils/glob-utils';
+import { parsePdfPages } from '../../../utils/obsidian';
 import { openSettingsModalWithError } from '../../../utils/open-settings-modal';
 import { DBManager } from '../../database-manager';
 import { Workspace } from '../../json/workspace/types';
 import { vectorTables } from '../../schema';
 
-import { VectorRepository } from './vector-repository';
+import { SimilarChunkPair, VectorRepository } from './vector-repository';
+
+type FileSection = {
+	text: string
+	// PDF 文本不是 Markdown，不去除标记
+	isMarkdown: boolean
+	headingPath: string[]
+	metadata: Partial<VectorMetaData>
+}
 
 export class VectorManager {
 	private app: App
 	private repository: VectorRepository
 	private dbManager: DBManager
 
-	constructor(app: App, dbManager: DBManager) {
+	constructor(app: App, dbManager: DBManager, tableName?: string) {
 		this.app = app
 		this.dbManager = dbManager
-		this.repository = new VectorRepository(app, dbManager.getPgClient() as any)
+		this.repository = new VectorRepository(app, dbManager.getPgClient() as any, tableName)
 	}
 
-	// 添加合并小chunks的辅助方法（仅在同一文件内合并）
-	private mergeSmallChunks(chunks: { pageContent: string; metadata: any }[], minChunkSize: number): typeof chunks {
-		if (!chunks || chunks.length === 0) {
-			return []
-		}
+	// Reads and writes the given table instead of the table of the embedding model
+	forTable(tableName: string): VectorManager {
+		return new VectorManager(this.app, this.dbManager, tableName)
+	}
 
-		const mergedChunks: typeof chunks = []
-		let currentChunkBuffer = ""
-		let currentMetadata: any = null
+	async getIndexedFileMtimes(embeddingModel: EmbeddingModel): Promise<Map<string, number>> {
+		return await this.repository.getIndexedFileMtimes(embeddingModel)
+	}
 
-		for (const chunk of chunks) {
-			const content = chunk.pageContent.trim()
-			if (content.length === 0) continue
+	async getPathsWithoutTagMetadata(embeddingModel: EmbeddingModel): Promise<string[]> {
+		return await this.repository.getPathsWithoutTagMetadata(embeddingModel)
+	}
 
-			// 将当前块加入缓冲区
-			const combined = currentChunkBuffer ? `${currentChunkBuffer} ${content}` : content
-			
-			// 更新metadata，记录起始和结束位置
-			const combinedMetadata = currentMetadata ? {
-				...currentMetadata,
-				endLine: chunk.metadata?.loc?.lines?.to || chunk.metadata?.endLine || currentMetadata.endLine
-			} : {
-				...chunk.metadata,
-				startLine: chunk.metadata?.loc?.lines?.from || chunk.metadata?.startLine,
-				endLine: chunk.metadata?.loc?.lines?.to || chunk.metadata?.endLine
-			}
+	async createStagingTable(tableName: string, dimension: number): Promise<void> {
+		await this.repository.createStagingTable(tableName, dimension)
+	}
 
-			if (combined.length < minChunkSize) {
-				// 如果组合后仍然太小，则更新缓冲区并继续循环
-				currentChunkBuffer = combined
-				currentMetadata = combinedMetadata
-			} else {
-				// 如果组合后达到或超过最小尺寸，将其推入最终数组，并清空缓冲区
-				mergedChunks.push({
-					pageContent: combined,
-					metadata: combinedMetadata
-				})
-				currentChunkBuffer = ""
-				currentMetadata = null
-			}
+	async swapStagingTable(stagingTableName: string, dimension: number): Promise<void> {
+		await this.repository.swapStagingTable(stagingTableName, dimension)
+	}
+
+	async getEmbeddingTableRowCounts(): Promise<Record<string, number>> {
+		return await this.repository.getEmbeddingTableRowCounts()
+	}
+
+	async clearEmbeddingTable(tableName: string): Promise<void> {
+		await this.repository.clearEmbeddingTable(tableName)
+	}
+
+	async deleteVectorsForMultipleFiles(filePaths: string[], embeddingModel: EmbeddingModel): Promise<void> {
+		await this.repository.deleteVectorsForMultipleFiles(filePaths, embeddingModel)
+	}
+
+	// All files the include and exclude patterns select, regardless of the index
+	async getIndexableFiles(options: { excludePatterns: string[]; includePatterns: string[] }): Promise<TFile[]> {
+		return await this.getFilesToIndex({ embeddingModel: null, ...options, reindexAll: true })
+	}
+
+	private segmentTextForTsvector(text: string): string {
+		return this.repository.segmentTextForTsvector(text)
+	}
+
+	// 把文件拆成可以独立分块的部分：PDF 按页，Canvas 按节点和连线，笔记为整篇
+	private async getFileSections(file: TFile): Promise<FileSection[]> {
+		if (file.extension === 'pdf') {
+			const pages = await parsePdfPages(file, this.app)
+			return pages.map((text, index) => ({
+				text,
+				isMarkdown: false,
+				headingPath: [],
+				metadata: { page: index + 1 },
+			}))
 		}
 
-		// 处理循环结束后缓冲区里可能剩下的最后一个小块
-		if (currentChunkBuffer) {
-			if (mergedChunks.length > 0) {
-				// 策略1：如果缓冲区有内容，将其合并到最后一个块中
-				const lastChunk = mergedChunks[mergedChunks.length - 1]
-				lastChunk.pageContent += ` ${currentChunkBuffer}`
-				lastChunk.metadata.endLine = currentMetadata?.endLine || lastChunk.metadata.endLine
-			} else {
-				// 策略2：或者如果就没有足够大的块，把它自己作为一个块
-				mergedChunks.push({
-					pageContent: currentChunkBuffer,
-					metadata: currentMetadata
-				})
+		// 清理null字节，防止PostgreSQL UTF8编码错误
+		const fileContent = (await this.app.vault.cachedRead(file)).replace(/\0/g, '')
+		if (file.extension === 'canvas') {
+			return parseCanvas(fileContent).map((section) => ({
+				text: section.text,
+				isMarkdown: true,
+				headingPath: section.groupPath,
+				metadata: { canvasNodeId: section.nodeId },
+			}))
+		}
+
+		const cache = this.app.metadataCache.getFileCache(file)
+		const frontmatter = cache?.frontmatter
+		// 保存 frontmatter 字段，用于搜索时按属性过滤
+		const frontmatterFields: Record<string, unknown> = Object.fromEntries(
+			Object.entries(frontmatter ?? {}).filter(([key]) => key !== 'position'),
+		)
+		return [{
+			text: fileContent,
+			isMarkdown: true,
+			headingPath: [],
+			metadata: {
+				// 包含 frontmatter 标签和正文中的 #标签
+				tags: (cache ? getAllTags(cache) : null) ?? [],
+				frontmatter: frontmatterFields,
+			},
+		}]
+	}
+
+	// 按 Markdown 结构分块，并记录标题路径、标签、块 ID 和分块类型
+	private async chunkFile(file: TFile, chunkSize: number): Promise<InsertVector[]> {
+		const sections = await this.getFileSections(file)
+		return sections.flatMap((section) => chunkMarkdown(section.text, chunkSize)
+			.map((chunk): InsertVector | null => {
+				// 代码块和 PDF 文本保留原文，其余内容去除 Markdown 标记
+				const cleanContent = (chunk.type === 'code' || !section.isMarkdown ? chunk.content : removeMarkdown(chunk.content)).trim()
+				if (cleanContent.length === 0) {
+					return null
+				}
+				return {
+					path: file.path,
+					mtime: file.stat.mtime,
+					// Use Intl.Segmenter to add spaces for better TSVECTOR indexing
+					content: this.segmentTextForTsvector(cleanContent),
+					embedding: [],
+					metadata: {
+						...section.metadata,
+						startLine: chunk.startLine,
+						endLine: chunk.endLine,
+						headingPath: [...section.headingPath, ...chunk.headingPath],
+						blockIds: chunk.blockIds,
+						chunkType: chunk.type,
+					},
+				}
+			})
+			.filter((chunk): chunk is InsertVector => chunk !== null))
+	}
+
+	// 统计分块总数；PDF 解析较慢，保留其分块供嵌入阶段复用，避免重复解析
+	private async countChunks(
+		files: TFile[],
+		chunkSize: number,
+	): Promise<{ totalChunks: number; pdfChunks: Map<string, InsertVector[]> }> {
+		let totalChunks = 0
+		const pdfChunks = new Map<string, InsertVector[]>()
+		for (const file of files) {
+			try {
+				const chunks = await this.chunkFile(file, chunkSize)
+				totalChunks += chunks.length
+				if (file.extension === 'pdf') {
+					pdfChunks.set(file.path, chunks)
+				}
+			} catch (error) {
+				// 统计阶段跳过错误文件
 			}
 		}
-		console.log("mergedChunks: ", mergedChunks)
-		return mergedChunks
+		return { totalChunks, pdfChunks }
 	}
 
-	private segmentTextForTsvector(text: string): string {
-		return this.repository.segmentTextForTsvector(text)
+	// Whether the file produces any chunks, blank notes and notes with only frontmatter do not
+	async hasChunks(file: TFile, chunkSize: number): Promise<boolean> {
+		return (await this.chunkFile(file, chunkSize)).length > 0
 	}
 
 	async performSimilaritySearch(
@@ -108,6 +193,7 @@ export class VectorManager {
 				files: string[]
 				folders: string[]
 			}
+			filters?: SearchFilters
 		},
 	): Promise<
 		(Omit<SelectVector, 'embedding'> & {
@@ -121,6 +207,35 @@ export class VectorManager {
 		)
 	}
 
+	async findSimilarChunkPairs(
+		embeddingModel: EmbeddingModel,
+		options: {
+			minSimilarity: number
+			neighborCount: number
+		},
+	): Promise<SimilarChunkPair[]> {
+		return await this.repository.findSimilarChunkPairs(embeddingModel, options)
+	}
+
+	async getFileChunkCounts(embeddingModel: EmbeddingModel): Promise<Map<string, number>> {
+		return await this.repository.getFileChunkCounts(embeddingModel)
+	}
+
+	async findRelatedChunks(
+		filePath: string,
+		embeddingModel: EmbeddingModel,
+		options: {
+			minSimilarity: number
+			limit: number
+		},
+	): Promise<
+		(Omit<SelectVector, 'embedding'> & {
+			similarity: number
+		})[]
+	> {
+		return await this.repository.findRelatedChunks(filePath, embeddingModel, options)
+	}
+
 	async performFulltextSearch(
 		searchQuery: string,
 		embeddingModel: EmbeddingModel,
@@ -130,6 +245,7 @@ export class VectorManager {
 				files: string[]
 				folders: string[]
 			}
+			filters?: SearchFilters
 			language?: string
 		},
 	): Promise<
@@ -266,30 +382,6 @@ export class VectorManager {
 			return
 		}
 
-		// Embed the files
-		const overlap = Math.floor(options.chunkSize * 0.15)
-		const textSplitter = new RecursiveCharacterTextSplitter({
-			chunkSize: options.chunkSize,
-			chunkOverlap: overlap,
-			separators: [
-				"\n\n",
-				"\n",
-				".",
-				",",
-				" ",
-				"\u200b",  // Zero-width space
-				"\uff0c",  // Fullwidth comma
-				"\u3001",  // Ideographic comma
-				"\uff0e",  // Fullwidth full stop
-				"\u3002",  // Ideographic full stop
-				"",
-			],
-		});
-		
-		// 设置最小chunk大小，防止产生太小的chunks
-		const minChunkSize = Math.max(100, Math.floor(options.chunkSize * 0.3)); // 最小50字符或chunk_size的50%
-		console.log("textSplitter chunkSize: ", options.chunkSize, "overlap: ", overlap, "minChunkSize: ", minChunkSize)
-
 		const skippedFiles: string[] = []
 		const embeddingProgress = { completed: 0, totalChunks: 0 }
 		
@@ -299,26 +391,7 @@ export class VectorManager {
 		const embeddingBatchSize = options.batchSize
 		
 		// 首先统计总的分块数量用于进度显示
-		let totalChunks = 0
-		for (let i = 0; i < filesToIndex.length; i += FILE_BATCH_SIZE) {
-			const fileBatch = filesToIndex.slice(i, Math.min(i + FILE_BATCH_SIZE, filesToIndex.length))
-			for (const file of fileBatch) {
-				try {
-					let fileContent = await this.app.vault.cachedRead(file)
-					fileContent = fileContent.replace(/\0/g, '')
-					const fileDocuments = await textSplitter.createDocuments([fileContent])
-					// 统计阶段也需要使用相同的清理和合并逻辑
-					const cleanedChunks = fileDocuments.map(chunk => ({
-						pageContent: removeMarkdown(chunk.pageContent).replace(/\0/g, '').trim(),
-						metadata: chunk.metadata
-					})).filter(chunk => chunk.pageContent.length > 0)
-					const filteredDocuments = this.mergeSmallChunks(cleanedChunks, minChunkSize)
-					totalChunks += filteredDocuments.length
-				} catch (error) {
-					// 统计阶段跳过错误文件
-				}
-			}
-		}
+		const { totalChunks, pdfChunks } = await this.countChunks(filesToIndex, options.chunkSize)
 		
 		embeddingProgress.totalChunks = totalChunks
 		updateProgress?.({
@@ -337,40 +410,9 @@ export class VectorManager {
 					await Promise.all(
 						fileBatch.map(async (file) => {
 							try {
-								let fileContent = await this.app.vault.cachedRead(file)
-								// 清理null字节，防止PostgreSQL UTF8编码错误
-								fileContent = fileContent.replace(/\0/g, '')
-								const fileDocuments = await textSplitter.createDocuments([
-									fileContent,
-								])
-								
-								// 先清理每个chunk的内容，然后基于清理后的内容进行合并
-								const cleanedChunks = fileDocuments.map(chunk => ({
-									pageContent: removeMarkdown(chunk.pageContent).replace(/\0/g, '').trim(),
-									metadata: chunk.metadata
-								})).filter(chunk => chunk.pageContent.length > 0)
-								
-								const filteredDocuments = this.mergeSmallChunks(cleanedChunks, minChunkSize)
-								return filteredDocuments
-									.map((chunk): InsertVector | null => {
-										const cleanContent = chunk.pageContent
-										if (!cleanContent || cleanContent.trim().length === 0) {
-											return null
-										}
-										// Use Intl.Segmenter to add spaces for better TSVECTOR indexing
-										const segmentedContent = this.segmentTextForTsvector(cleanContent)
-										return {
-											path: file.path,
-											mtime: file.stat.mtime,
-											content: segmentedContent, // 使用分词后的内容
-											embedding: [],
-											metadata: {
-												startLine: Number(chunk.metadata.loc?.lines?.from || chunk.metadata.startLine),
-												endLine: Number(chunk.metadata.loc?.lines?.to || chunk.metadata.endLine),
-											},
-										}
-									})
-									.filter((chunk): chunk is InsertVector => chunk !== null)
+								const parsed = pdfChunks.get(file.path)
+								pdfChunks.delete(file.path)
+								return parsed ?? await this.chunkFile(file, options.chunkSize)
 							} catch (error) {
 								console.warn(`跳过文件 ${file.path}:`, error.message)
 								skippedFiles.push(file.path)
@@ -403,7 +445,7 @@ export class VectorManager {
 									return
 								}
 
-								const batchTexts = validBatchData.map(chunk => chunk.content)
+								const batchTexts = validBatchData.map(chunk => getEmbeddingText(chunk.content, chunk.metadata))
 								const batchEmbeddings = await embeddingModel.getBatchEmbeddings(batchTexts)
 
 								// 合并embedding结果到chunk数据
@@ -460,7 +502,7 @@ export class VectorManager {
 												return
 											}
 
-											const embedding = await embeddingModel.getEmbedding(content)
+											const embedding = await embeddingModel.getEmbedding(getEmbeddingText(content, chunk.metadata))
 											const embeddedChunk = {
 												path: chunk.path,
 												mtime: chunk.mtime,
@@ -580,30 +622,6 @@ export class VectorManager {
 			return
 		}
 
-		// Embed the files (使用与 updateVaultIndex 相同的逻辑)
-		const overlap = Math.floor(options.chunkSize * 0.15)
-		const textSplitter = new RecursiveCharacterTextSplitter({
-			chunkSize: options.chunkSize,
-			chunkOverlap: overlap,
-			separators: [
-				"\n\n",
-				"\n",
-				".",
-				",",
-				" ",
-				"\u200b",  // Zero-width space
-				"\uff0c",  // Fullwidth comma
-				"\u3001",  // Ideographic comma
-				"\uff0e",  // Fullwidth full stop
-				"\u3002",  // Ideographic full stop
-				"",
-			],
-		});
-		
-		// 设置最小chunk大小，防止产生太小的chunks
-		const minChunkSize = Math.max(100, Math.floor(options.chunkSize * 0.5)); // 最小50字符或chunk_size的10%
-		console.log("textSplitter chunkSize: ", options.chunkSize, "overlap: ", overlap, "minChunkSize: ", minChunkSize)
-
 		const skippedFiles: string[] = []
 		const embeddingProgress = { completed: 0, totalChunks: 0 }
 		
@@ -613,26 +631,7 @@ export class VectorManager {
 		const embeddingBatchSize = options.batchSize
 		
 		// 首先统计总的分块数量用于进度显示
-		let totalChunks = 0
-		for (let i = 0; i < filesToIndex.length; i += FILE_BATCH_SIZE) {
-			const fileBatch = filesToIndex.slice(i, Math.min(i + FILE_BATCH_SIZE, filesToIndex.length))
-			for (const file of fileBatch) {
-				try {
-					let fileContent = await this.app.vault.cachedRead(file)
-					fileContent = fileContent.replace(/\0/g, '')
-					const fileDocuments = await textSplitter.createDocuments([fileContent])
-					// 统计阶段也需要使用相同的清理和合并逻辑
-					const cleanedChunks = fileDocuments.map(chunk => ({
-						pageContent: removeMarkdown(chunk.pageContent).replace(/\0/g, '').trim(),
-						metadata: chunk.metadata
-					})).filter(chunk => chunk.pageContent.length > 0)
-					const filteredDocuments = this.mergeSmallChunks(cleanedChunks, minChunkSize)
-					totalChunks += filteredDocuments.length
-				} catch (error) {
-					// 统计阶段跳过错误文件
-				}
-			}
-		}
+		const { totalChunks, pdfChunks } = await this.countChunks(filesToIndex, options.chunkSize)
 		
 		embeddingProgress.totalChunks = totalChunks
 		updateProgress?.({
@@ -651,40 +650,9 @@ export class VectorManager {
 					await Promise.all(
 						fileBatch.map(async (file) => {
 							try {
-								let fileContent = await this.app.vault.cachedRead(file)
-								// 清理null字节，防止PostgreSQL UTF8编码错误
-								fileContent = fileContent.replace(/\0/g, '')
-								const fileDocuments = await textSplitter.createDocuments([
-									fileContent,
-								])
-								
-								// 先清理每个chunk的内容，然后基于清理后的内容进行合并
-								const cleanedChunks = fileDocuments.map(chunk => ({
-									pageContent: removeMarkdown(chunk.pageContent).replace(/\0/g, '').trim(),
-									metadata: chunk.metadata
-								})).filter(chunk => chunk.pageContent.length > 0)
-								
-								const filteredDocuments = this.mergeSmallChunks(cleanedChunks, minChunkSize)
-								return filteredDocuments
-									.map((chunk): InsertVector | null => {
-										const cleanContent = chunk.pageContent
-										if (!cleanContent || cleanContent.trim().length === 0) {
-											return null
-										}
-										// Use Intl.Segmenter to add spaces for better TSVECTOR indexing
-										const segmentedContent = this.segmentTextForTsvector(cleanContent)
-										return {
-											path: file.path,
-											mtime: file.stat.mtime,
-											content: segmentedContent, // 使用分词后的内容
-											embedding: [],
-											metadata: {
-												startLine: Number(chunk.metadata.loc?.lines?.from || chunk.metadata.startLine),
-												endLine: Number(chunk.metadata.loc?.lines?.to || chunk.metadata.endLine),
-											},
-										}
-									})
-									.filter((chunk): chunk is InsertVector => chunk !== null)
+								const parsed = pdfChunks.get(file.path)
+								pdfChunks.delete(file.path)
+								return parsed ?? await this.chunkFile(file, options.chunkSize)
 							} catch (error) {
 								console.warn(`跳过文件 ${file.path}:`, error.message)
 								skippedFiles.push(file.path)
@@ -722,7 +690,7 @@ export class VectorManager {
 									return
 								}
 
-								const batchTexts = validBatchData.map(chunk => chunk.content)
+								const batchTexts = validBatchData.map(chunk => getEmbeddingText(chunk.content, chunk.metadata))
 								const batchEmbeddings = await embeddingModel.getBatchEmbeddings(batchTexts)
 
 								// 合并embedding结果到chunk数据
@@ -779,7 +747,7 @@ export class VectorManager {
 												return
 											}
 
-											const embedding = await embeddingModel.getEmbedding(content)
+											const embedding = await embeddingModel.getEmbedding(getEmbeddingText(content, chunk.metadata))
 											const embeddedChunk = {
 												path: chunk.path,
 												mtime: chunk.mtime,
@@ -862,64 +830,7 @@ export class VectorManager {
 				embeddingModel,
 			)
 
-			// Embed the files
-			const overlap = Math.floor(chunkSize * 0.15)
-			const textSplitter = new RecursiveCharacterTextSplitter({
-				chunkSize: chunkSize,
-				chunkOverlap: overlap,
-				separators: [
-					"\n\n",
-					"\n",
-					".",
-					",",
-					" ",
-					"\u200b",  // Zero-width space
-					"\uff0c",  // Fullwidth comma
-					"\u3001",  // Ideographic comma
-					"\uff0e",  // Fullwidth full stop
-					"\u3002",  // Ideographic full stop
-					"",
-				],
-			});
-			
-			// 设置最小chunk大小，防止产生太小的chunks
-			const minChunkSize = Math.max(50, Math.floor(chunkSize * 0.1)); // 最小50字符或chunk_size的10%
-			
-			let fileContent = await this.app.vault.cachedRead(file)
-			// 清理null字节，防止PostgreSQL UTF8编码错误
-			fileContent = fileContent.replace(/\0/g, '')
-			const fileDocuments = await textSplitter.createDocuments([
-				fileContent,
-			])
-			
-			// 先清理每个chunk的内容，然后基于清理后的内容进行合并
-			const cleanedChunks = fileDocuments.map(chunk => ({
-				pageContent: removeMarkdown(chunk.pageContent).replace(/\0/g, '').trim(),
-				metadata: chunk.metadata
-			})).filter(chunk => chunk.pageContent.length > 0)
-			
-			const filteredDocuments = this.mergeSmallChunks(cleanedChunks, minChunkSize)
-
-			const contentChunks: InsertVector[] = filteredDocuments
-				.map((chunk): InsertVector | null => {
-					const cleanContent = chunk.pageContent
-					if (!cleanContent || cleanContent.trim().length === 0) {
-						return null
-					}
-					// Use Intl.Segmenter to add spaces for better TSVECTOR indexing
-					const segmentedContent = this.segmentTextForTsvector(cleanContent)
-					return {
-						path: file.path,
-						mtime: file.stat.mtime,
-						content: segmentedContent, // 使用分词后的内容
-						embedding: [],
-						metadata: {
-							startLine: Number(chunk.metadata.loc?.lines?.from || chunk.metadata.startLine),
-							endLine: Number(chunk.metadata.loc?.lines?.to || chunk.metadata.endLine),
-						},
-					}
-				})
-				.filter((chunk): chunk is InsertVector => chunk !== null)
+			const contentChunks = await this.chunkFile(file, chunkSize)
 
 			let batchCount = 0
 
@@ -944,7 +855,7 @@ export class VectorManager {
 										return
 									}
 
-									const batchTexts = validBatchData.map(chunk => chunk.content)
+									const batchTexts = validBatchData.map(chunk => getEmbeddingText(chunk.content, chunk.metadata))
 									const batchEmbeddings = await embeddingModel.getBatchEmbeddings(batchTexts)
 
 									// 合并embedding结果到chunk数据
@@ -1008,7 +919,7 @@ export class VectorManager {
 												return
 											}
 
-											const embedding = await embeddingModel.getEmbedding(content)
+											const embedding = await embeddingModel.getEmbedding(getEmbeddingText(content, chunk.metadata))
 											const embeddedChunk = {
 												path: chunk.path,
 												mtime: chunk.mtime,
@@ -1059,9 +970,18 @@ export class VectorManager {
 
 	async DeleteFileVectorIndex(
 		embeddingModel: EmbeddingModel,
-		file: TFile
+		filePath: string
+	) {
+		await this.repository.deleteVectorsForSingleFile(filePath, embeddingModel)
+	}
+
+	// 重命名时直接迁移向量，无需重新嵌入
+	async RenameFileVectorIndex(
+		embeddingModel: EmbeddingModel,
+		oldPath: string,
+		newPath: string
 	) {
-		await this.repository.deleteVectorsForSingleFile(file.path, embeddingModel)
+		await this.repository.moveVectorsToPath(oldPath, newPath, embeddingModel)
 	}
 
 	private async cleanVectorsForDeletedFiles(
@@ -1088,7 +1008,7 @@ export class VectorManager {
 		includePatterns: string[]
 		reindexAll?: boolean
 	}): Promise<TFile[]> {
-		let filesToIndex = this.app.vault.getMarkdownFiles()
+		let filesToIndex = this.app.vault.getFiles().filter((file) => isIndexableExtension(file.extension))
 		console.log("get all vault files: ", filesToIndex.length)
 
 		filesToIndex = filesToIndex.filter((file) => {
@@ -1115,9 +1035,12 @@ export class VectorManager {
 				return filesToIndex
 			}
 
+			// 早期索引的笔记没有标签和属性，需要重新索引才能按它们过滤
+			const outdatedPaths = new Set(await this.repository.getPathsWithoutTagMetadata(embeddingModel))
+
 			// 筛选出在数据库最后更新时间之后修改的文件
 			return filesToIndex.filter((file) => {
-				return file.stat.mtime > maxMtime
+				return file.stat.mtime > maxMtime || outdatedPaths.has(file.path)
 			})
 		} catch (error) {
 			console.error("Error getting max mtime from database:", error)
@@ -1148,7 +1071,8 @@ export class VectorManager {
 					const folderPath = item.content
 					
 					// 获取文件夹下的所有文件
-					const files = this.app.vault.getMarkdownFiles().filter(file => 
+					const files = this.app.vault.getFiles().filter(file =>
+						isIndexableExtension(file.extension) &&
 						file.path.startsWith(folderPath === '/' ? '' : folderPath + '/')
 					)
 					
@@ -1200,9 +1124,12 @@ export class VectorManager {
 				return filesToIndex
 			}
 
+			// 早期索引的笔记没有标签和属性，需要重新索引才能按它们过滤
+			const outdatedPaths = new Set(await this.repository.getPathsWithoutTagMetadata(embeddingModel))
+
 			// 筛选出在数据库最后更新时间之后修改的文件
 			return filesToIndex.filter((file) => {
-				return file.stat.mtime > maxMtime
+				return file.stat.mtime > maxMtime || outdatedPaths.has(file.path)
 			})
 		} catch (error) {
 			console.error("Error getting max mtime from database:", error)
@@ -1274,3 +1201,9 @@ export class VectorManager {
 		return tableDefinition.name
 	}
 }
+
+// 嵌入文本前加上标题路径，例如 "Project X > Risks"
+function getEmbeddingText(content: string, metadata: VectorMetaData): string {
+	const headingPath = formatHeadingPath(metadata.headingPath)
+	return headingPath ? `${headingPath}\n${content}` : content
+}
@@ -0,0 +1,128 @@
+import { PGlite } from '@electric-sql/pglite'
+// @ts-expect-error the subpath export is not resolved with the node module resolution
+import { vector } from '@electric-sql/pglite/vector'
+import { App } from 'obsidian'
+
+import { EmbeddingModel } from '../../../types/embedding'
+import { migrations } from '../../sql'
+
+import { VectorRepository } from './vector-repository'
+
+const embeddingModel: EmbeddingModel = {
+	id: 'test-model',
+	dimension: 384,
+	supportsBatch: false,
+	getEmbedding: () => Promise.resolve([]),
+	getBatchEmbeddings: () => Promise.resolve([]),
+}
+
+describe('VectorRepository staging table', () => {
+	let db: PGlite
+
+	beforeAll(async () => {
+		db = await PGlite.create({ extensions: { vector } })
+		for (const migration of Object.values(migrations)) {
+			await db.exec(migration.sql)
+		}
+	}, 60000)
+
+	afterAll(async () => {
+		await db.close()
+	})
+
+	it('should keep full-text search working after the swap', async () => {
+		const repository = new VectorRepository(new App(), db)
+		const staging = new VectorRepository(new App(), db, 'embeddings_384_migration')
+		await repository.insertVectors([{
+			path: 'old.md',
+			mtime: 1,
+			content: 'outdated pelican notes',
+			embedding: Array<number>(384).fill(0.1),
+			metadata: { startLine: 1, endLine: 1 },
+		}], embeddingModel)
+
+		await repository.createStagingTable('embeddings_384_migration', 384)
+		await staging.insertVectors([{
+			path: 'new.md',
+			mtime: 2,
+			content: 'migrated pelican notes',
+			embedding: Array<number>(384).fill(0.2),
+			metadata: { startLine: 1, endLine: 1 },
+		}], embeddingModel)
+		await repository.swapStagingTable('embeddings_384_migration', 384)
+
+		const results = await repository.performFulltextSearch('pelican', embeddingModel, { limit: 10 })
+		expect(results.map((result) => result.path)).toEqual(['new.md'])
+
+		const indexed = await db.query<{ content_tsv: string | null }>('SELECT content_tsv FROM "embeddings_384"')
+		expect(indexed.rows.every((row) => row.content_tsv !== null)).toBe(true)
+		const indexes = await db.query<{ indexname: string }>(
+			`SELECT indexname FROM pg_indexes WHERE tablename = 'embeddings_384'`,
+		)
+		expect(indexes.rows.map((row) => row.indexname)).toContain('embeddings_content_tsv_idx_384')
+
+		// the renamed trigger still fills the column of rows inserted later
+		await repository.insertVectors([{
+			path: 'later.md',
+			mtime: 3,
+			content: 'another pelican',
+			embedding: Array<number>(384).fill(0.3),
+			metadata: { startLine: 1, endLine: 1 },
+		}], embeddingModel)
+		const later = await db.query<{ filled: boolean }>(
+			`SELECT content_tsv IS NOT NULL AS filled FROM "embeddings_384" WHERE path = 'later.md'`,
+		)
+		expect(later.rows[0].filled).toBe(true)
+	})
+})
+
+describe('VectorRepository similar chunk pairs', () => {
+	let db: PGlite
+
+	beforeAll(async () => {
+		db = await PGlite.create({ extensions: { vector } })
+		for (const migration of Object.values(migrations)) {
+			await db.exec(migration.sql)
+		}
+	}, 60000)
+
+	afterAll(async () => {
+		await db.close()
+	})
+
+	it('should only pair Markdown notes', async () => {
+		const repository = new VectorRepository(new App(), db)
+		const embedding = Array<number>(384).fill(0.1)
+		await repository.insertVectors(['a.md', 'b.md', 'scan.pdf', 'board.canvas'].map((path) => ({
+			path,
+			mtime: 1,
+			content: 'the same paragraph',
+			embedding,
+			metadata: { startLine: 1, endLine: 1 },
+		})), embeddingModel)
+
+		const pairs = await repository.findSimilarChunkPairs(embeddingModel, { minSimilarity: 0.9, neighborCount: 5 })
+		expect(pairs.map((pair) => [pair.source_path, pair.target_path])).toEqual([['a.md', 'b.md']])
+	})
+
+	it('should keep a pair found only from the later path', async () => {
+		const repository = new VectorRepository(new App(), db)
+		await db.query('DELETE FROM "embeddings_384"')
+		// b.md is the nearest neighbour of z.md, but z.md is not among the neighbours of b.md
+		const vectorAt = (angle: number) => [Math.cos(angle), Math.sin(angle), ...Array<number>(382).fill(0)]
+		await repository.insertVectors([
+			['a.md', 0],
+			['b.md', 0.05],
+			['z.md', 0.12],
+		].map(([path, angle]: [string, number]) => ({
+			path,
+			mtime: 1,
+			content: path,
+			embedding: vectorAt(angle),
+			metadata: { startLine: 1, endLine: 1 },
+		})), embeddingModel)
+
+		const pairs = await repository.findSimilarChunkPairs(embeddingModel, { minSimilarity: 0.9, neighborCount: 1 })
+		expect(pairs.map((pair) => [pair.source_path, pair.target_path]).sort()).toEqual([['a.md', 'b.md'], ['b.md', 'z.md']])
+	})
+})
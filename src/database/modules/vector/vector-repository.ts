@@ -1,18 +1,34 @@
 import { PGliteInterface } from '@electric-sql/pglite'
 import { App } from 'obsidian'
 
+import { SearchFilters, buildSearchFilterSql } from '../../../core/rag/search-filters'
 import { EmbeddingModel } from '../../../types/embedding'
 import { DatabaseNotInitializedException } from '../../exception'
 import { InsertVector, SelectVector, vectorTables } from '../../schema'
 
+export type SimilarChunkPair = {
+	source_id: number
+	source_path: string
+	source_content: string
+	source_metadata: SelectVector['metadata']
+	target_id: number
+	target_path: string
+	target_content: string
+	target_metadata: SelectVector['metadata']
+	similarity: number
+}
+
 export class VectorRepository {
 	private app: App
 	private db: PGliteInterface | null
 	private stopWords: Set<string>
+	// Set for the staging table of a model migration, overrides the table of the model
+	private tableName?: string
 
-	constructor(app: App, pgClient: PGliteInterface | null) {
+	constructor(app: App, pgClient: PGliteInterface | null, tableName?: string) {
 		this.app = app
 		this.db = pgClient
+		this.tableName = tableName
 		this.stopWords = new Set([
 			// Chinese stop words
 			'的', '在', '是', '了', '我', '你', '他', '她', '它', '请问', '如何', '一个', '什么', '怎么',
@@ -49,6 +65,9 @@ export class VectorRepository {
 	}
 
 	private getTableName(embeddingModel: EmbeddingModel): string {
+		if (this.tableName) {
+			return this.tableName
+		}
 		const tableDefinition = vectorTables[embeddingModel.dimension]
 		if (!tableDefinition) {
 			throw new Error(`No table definition found for model: ${embeddingModel.id}`)
@@ -67,6 +86,30 @@ export class VectorRepository {
 		return result.rows.map((row: { path: string }) => row.path)
 	}
 
+	// Oldest indexed mtime of every file, used to resume a model migration
+	async getIndexedFileMtimes(embeddingModel: EmbeddingModel): Promise<Map<string, number>> {
+		if (!this.db) {
+			throw new DatabaseNotInitializedException()
+		}
+		const tableName = this.getTableName(embeddingModel)
+		const result = await this.db.query<{ path: string; mtime: number }>(
+			`SELECT path, MIN(mtime) AS mtime FROM "${tableName}" GROUP BY path`
+		)
+		return new Map(result.rows.map((row) => [row.path, Number(row.mtime)]))
+	}
+
+	// Notes indexed before tags and frontmatter were stored with their chunks
+	async getPathsWithoutTagMetadata(embeddingModel: EmbeddingModel): Promise<string[]> {
+		if (!this.db) {
+			throw new DatabaseNotInitializedException()
+		}
+		const tableName = this.getTableName(embeddingModel)
+		const result = await this.db.query<{ path: string }>(
+			`SELECT DISTINCT path FROM "${tableName}" WHERE path ILIKE '%.md' AND NOT (metadata ? 'tags')`
+		)
+		return result.rows.map((row) => row.path)
+	}
+
 	async getMaxMtime(embeddingModel: EmbeddingModel): Promise<number | null> {
 		if (!this.db) {
 			throw new DatabaseNotInitializedException()
@@ -121,6 +164,21 @@ export class VectorRepository {
 		)
 	}
 
+	async moveVectorsToPath(
+		oldPath: string,
+		newPath: string,
+		embeddingModel: EmbeddingModel,
+	): Promise<void> {
+		if (!this.db) {
+			throw new DatabaseNotInitializedException()
+		}
+		const tableName = this.getTableName(embeddingModel)
+		await this.db.transaction(async (tx) => {
+			await tx.query(`DELETE FROM "${tableName}" WHERE path = $1`, [newPath])
+			await tx.query(`UPDATE "${tableName}" SET path = $2 WHERE path = $1`, [oldPath, newPath])
+		})
+	}
+
 	async clearAllVectors(embeddingModel: EmbeddingModel): Promise<void> {
 		if (!this.db) {
 			throw new DatabaseNotInitializedException()
@@ -169,6 +227,7 @@ export class VectorRepository {
 				files: string[]
 				folders: string[]
 			}
+			filters?: SearchFilters
 		},
 	): Promise<
 		(Omit<SelectVector, 'embedding'> & {
@@ -207,6 +266,9 @@ export class VectorRepository {
 			}
 		}
 
+		const filterCondition = buildSearchFilterSql(options.filters, paramIndex)
+		params.push(...filterCondition.params)
+
 		const query = `
       SELECT 
         id, path, mtime, content, metadata,
@@ -214,6 +276,7 @@ export class VectorRepository {
       FROM "${tableName}"
       WHERE 1 - (embedding <=> $1::vector) > $2
       ${scopeCondition}
+      ${filterCondition.sql}
       ORDER BY similarity DESC
       LIMIT $3
     `
@@ -224,6 +287,105 @@ export class VectorRepository {
 		return result.rows
 	}
 
+	// 以文件所有分块向量的均值作为查询向量，查找其他文件中最相似的分块
+	async findRelatedChunks(
+		filePath: string,
+		embeddingModel: EmbeddingModel,
+		options: {
+			minSimilarity: number
+			limit: number
+		},
+	): Promise<
+		(Omit<SelectVector, 'embedding'> & {
+			similarity: number
+		})[]
+	> {
+		if (!this.db) {
+			throw new DatabaseNotInitializedException()
+		}
+		const tableName = this.getTableName(embeddingModel)
+
+		const query = `
+      WITH source AS (
+        SELECT AVG(embedding) AS centroid FROM "${tableName}" WHERE path = $1
+      )
+      SELECT
+        t.id, t.path, t.mtime, t.content, t.metadata,
+        1 - (t.embedding <=> source.centroid) as similarity
+      FROM "${tableName}" t, source
+      WHERE source.centroid IS NOT NULL
+        AND t.path <> $1
+        AND 1 - (t.embedding <=> source.centroid) > $2
+      ORDER BY similarity DESC
+      LIMIT $3
+    `
+
+		type SearchResult = Omit<SelectVector, 'embedding'> & { similarity: number }
+		const result = await this.db.query<SearchResult>(query, [filePath, options.minSimilarity, options.limit])
+		return result.rows
+	}
+
+	// 每个分块取最近的 neighborCount 个其他文件的分块，每对只返回一次
+	// 只比较 Markdown 笔记，PDF 和 Canvas 无法作为文本合并
+	async findSimilarChunkPairs(
+		embeddingModel: EmbeddingModel,
+		options: {
+			minSimilarity: number
+			neighborCount: number
+		},
+	): Promise<SimilarChunkPair[]> {
+		if (!this.db) {
+			throw new DatabaseNotInitializedException()
+		}
+		const tableName = this.getTableName(embeddingModel)
+
+		// 两个方向的近邻都收集后再按路径排序去重，只有一方在对方近邻中的分块对也会保留
+		const query = `
+      WITH neighbors AS (
+        SELECT
+          CASE WHEN a.path < b.path THEN a.id ELSE b.id END AS source_id,
+          CASE WHEN a.path < b.path THEN b.id ELSE a.id END AS target_id,
+          1 - (a.embedding <=> b.embedding) AS similarity
+        FROM "${tableName}" a
+        CROSS JOIN LATERAL (
+          SELECT id, path, embedding
+          FROM "${tableName}" n
+          WHERE n.path <> a.path AND n.path ILIKE '%.md'
+          ORDER BY n.embedding <=> a.embedding
+          LIMIT $2
+        ) b
+        WHERE a.path ILIKE '%.md'
+      ),
+      pairs AS (
+        SELECT DISTINCT ON (source_id, target_id) source_id, target_id, similarity
+        FROM neighbors
+        WHERE similarity >= $1
+        ORDER BY source_id, target_id
+      )
+      SELECT
+        s.id AS source_id, s.path AS source_path, s.content AS source_content, s.metadata AS source_metadata,
+        t.id AS target_id, t.path AS target_path, t.content AS target_content, t.metadata AS target_metadata,
+        p.similarity
+      FROM pairs p
+      JOIN "${tableName}" s ON s.id = p.source_id
+      JOIN "${tableName}" t ON t.id = p.target_id
+      ORDER BY p.similarity DESC
+    `
+		const result = await this.db.query<SimilarChunkPair>(query, [options.minSimilarity, options.neighborCount])
+		return result.rows
+	}
+
+	async getFileChunkCounts(embeddingModel: EmbeddingModel): Promise<Map<string, number>> {
+		if (!this.db) {
+			throw new DatabaseNotInitializedException()
+		}
+		const tableName = this.getTableName(embeddingModel)
+		const result = await this.db.query<{ path: string; count: number }>(
+			`SELECT path, COUNT(*)::int AS count FROM "${tableName}" GROUP BY path`
+		)
+		return new Map(result.rows.map((row) => [row.path, row.count]))
+	}
+
 	async performFulltextSearch(
 		searchQuery: string,
 		embeddingModel: EmbeddingModel,
@@ -233,6 +395,7 @@ export class VectorRepository {
 				files: string[]
 				folders: string[]
 			}
+			filters?: SearchFilters
 			language?: string
 		},
 	): Promise<
@@ -277,6 +440,9 @@ export class VectorRepository {
 			}
 		}
 
+		const filterCondition = buildSearchFilterSql(options.filters, paramIndex)
+		params.push(...filterCondition.params)
+
 		const query = `
       SELECT 
         id, path, mtime, content, metadata,
@@ -290,6 +456,7 @@ export class VectorRepository {
         OR (content_tsv IS NULL AND to_tsvector('${language}', coalesce(content, '')) @@ to_tsquery('${language}', $1))
       )
       ${scopeCondition}
+      ${filterCondition.sql}
       ORDER BY rank DESC
       LIMIT $2
     `
@@ -446,6 +613,97 @@ export class VectorRepository {
 		}
 	}
 
+	/**
+	 * Creates an empty table with the layout of `embeddings_{dimension}`,
+	 * including the full-text column and its trigger. It gets its indexes
+	 * when it replaces the vector table.
+	 */
+	async createStagingTable(tableName: string, dimension: number): Promise<void> {
+		if (!this.db) {
+			throw new DatabaseNotInitializedException()
+		}
+		await this.db.query(`
+			CREATE TABLE IF NOT EXISTS "${tableName}" (
+				"id" serial PRIMARY KEY NOT NULL,
+				"path" text NOT NULL,
+				"mtime" bigint NOT NULL,
+				"content" text NOT NULL,
+				"embedding" vector(${dimension}),
+				"metadata" jsonb NOT NULL,
+				"content_tsv" TSVECTOR
+			)
+		`)
+		// Staging tables of migrations started before the table had the column
+		await this.db.query(`ALTER TABLE "${tableName}" ADD COLUMN IF NOT EXISTS "content_tsv" TSVECTOR`)
+		await this.db.query(`DROP TRIGGER IF EXISTS "tsvector_update_${tableName}" ON "${tableName}"`)
+		await this.db.query(`
+			CREATE TRIGGER "tsvector_update_${tableName}"
+			BEFORE INSERT OR UPDATE ON "${tableName}"
+			FOR EACH ROW EXECUTE FUNCTION embeddings_tsv_trigger()
+		`)
+	}
+
+	/**
+	 * Replaces `embeddings_{dimension}` with the staging table in one
+	 * transaction, so queries see either the old or the complete new index.
+	 */
+	async swapStagingTable(stagingTableName: string, dimension: number): Promise<void> {
+		if (!this.db) {
+			throw new DatabaseNotInitializedException()
+		}
+		const tableDefinition = vectorTables[dimension]
+		if (!tableDefinition) {
+			throw new Error(`No table definition found for dimension: ${dimension}`)
+		}
+		const tableName = tableDefinition.name
+		await this.db.transaction(async (tx) => {
+			await tx.query(`DROP TABLE IF EXISTS "${tableName}"`)
+			await tx.query(`ALTER TABLE "${stagingTableName}" RENAME TO "${tableName}"`)
+			await tx.query(`ALTER SEQUENCE IF EXISTS "${stagingTableName}_id_seq" RENAME TO "${tableName}_id_seq"`)
+			await tx.query(`ALTER TRIGGER "tsvector_update_${stagingTableName}" ON "${tableName}" RENAME TO "tsvector_update_${tableName}"`)
+			if (dimension <= 2000) {
+				await tx.query(`CREATE INDEX IF NOT EXISTS "embeddingIndex_${dimension}" ON "${tableName}" USING hnsw ("embedding" vector_cosine_ops)`)
+			}
+			await tx.query(`CREATE INDEX IF NOT EXISTS "pathIndex_${dimension}" ON "${tableName}" ("path")`)
+			await tx.query(`CREATE INDEX IF NOT EXISTS "embeddings_content_tsv_idx_${dimension}" ON "${tableName}" USING GIN(content_tsv)`)
+		})
+	}
+
+	// Row counts of every vector, staging and insight table
+	async getEmbeddingTableRowCounts(): Promise<Record<string, number>> {
+		if (!this.db) {
+			throw new DatabaseNotInitializedException()
+		}
+		const tables = await this.db.query<{ table_name: string }>(
+			`SELECT table_name FROM information_schema.tables
+			WHERE table_schema = 'public' AND (table_name LIKE 'embeddings\\_%' OR table_name LIKE 'source\\_insight\\_%')`
+		)
+		const rowCounts: Record<string, number> = {}
+		for (const { table_name } of tables.rows) {
+			const result = await this.db.query<{ count: number }>(`SELECT COUNT(*) AS count FROM "${table_name}"`)
+			rowCounts[table_name] = Number(result.rows[0]?.count ?? 0)
+		}
+		return rowCounts
+	}
+
+	/**
+	 * Empties a table that belongs to no model. Staging tables are dropped,
+	 * the fixed vector and insight tables are kept for later use.
+	 */
+	async clearEmbeddingTable(tableName: string): Promise<void> {
+		if (!this.db) {
+			throw new DatabaseNotInitializedException()
+		}
+		if (!/^(embeddings_\d+(_migration)?|source_insight_\d+)$/.test(tableName)) {
+			throw new Error(`Not an embedding table: ${tableName}`)
+		}
+		if (tableName.endsWith('_migration')) {
+			await this.db.query(`DROP TABLE IF EXISTS "${tableName}"`)
+		} else {
+			await this.db.query(`DELETE FROM "${tableName}"`)
+		}
+	}
+
 	async getVaultStatistics(embeddingModel: EmbeddingModel): Promise<{
 		totalFiles: number
 		totalChunks: number
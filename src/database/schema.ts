@@ -1,6 +1,7 @@
 import { SerializedLexicalNode } from 'lexical'
 
 import { SUPPORT_EMBEDDING_SIMENTION } from '../constants'
+import { MarkdownChunkType } from '../core/rag/markdown-chunker'
 // import { EmbeddingModelId } from '../types/embedding'
 
 // PostgreSQL column types
@@ -76,6 +77,16 @@ export type InsertVector = Omit<VectorRecord, 'id'>
 export type VectorMetaData = {
 	startLine: number
 	endLine: number
+	// Set by the Markdown chunker, rows indexed before it only have line numbers
+	headingPath?: string[]
+	tags?: string[]
+	frontmatter?: Record<string, unknown>
+	blockIds?: string[]
+	chunkType?: MarkdownChunkType
+	// 1-based page of a PDF chunk, line numbers are relative to the page
+	page?: number
+	// Canvas node a chunk was taken from, line numbers are relative to the node
+	canvasNodeId?: string
 }
 
 // // Export individual vector tables for reference
@@ -21,6 +21,10 @@ export interface TokenCountResult {
 	tokens: number;
 }
 
+export interface RerankResult {
+	scores: number[];
+}
+
 // Worker 消息类型定义
 interface WorkerMessage {
 	id: number;
@@ -39,6 +43,7 @@ export class EmbeddingManager {
 	private nextRequestId = 0;
 	private isModelLoaded = false;
 	private currentModelId: string | null = null;
+	private currentRerankModelId: string | null = null;
 
 	constructor() {
 		// 创建 Worker，使用与 pgworker 相同的模式
@@ -82,6 +87,7 @@ export class EmbeddingManager {
 			// 重置状态
 			this.isModelLoaded = false;
 			this.currentModelId = null;
+			this.currentRerankModelId = null;
 		};
 	}
 
@@ -197,6 +203,45 @@ export class EmbeddingManager {
 		}
 	}
 
+	/**
+	 * 加载用于重排序的交叉编码器模型，与嵌入模型互不影响。
+	 * @param modelId 交叉编码器模型 ID
+	 */
+	public async loadRerankModel(modelId: string): Promise<ModelLoadResult> {
+		if (this.currentRerankModelId === modelId) {
+			return { model_loaded: true };
+		}
+
+		try {
+			const result = await this.postRequest<ModelLoadResult>('load_reranker', { model_key: modelId });
+			this.currentRerankModelId = result.model_loaded ? modelId : null;
+			return result;
+		} catch (error) {
+			console.error(`Failed to load rerank model ${modelId}:`, error);
+			this.currentRerankModelId = null;
+			throw error;
+		}
+	}
+
+	/**
+	 * 使用交叉编码器为每个文档与查询的相关性打分。
+	 * @param query 查询文本
+	 * @param documents 候选文档
+	 * @returns 与 documents 一一对应的 0 到 1 之间的分数
+	 */
+	public async rerank(query: string, documents: string[]): Promise<number[]> {
+		if (!this.currentRerankModelId) {
+			throw new Error('Rerank model not loaded. Please call loadRerankModel() first.');
+		}
+
+		if (documents.length === 0) {
+			return [];
+		}
+
+		const result = await this.postRequest<RerankResult>('rerank', { query, documents });
+		return result.scores;
+	}
+
 	/**
 	 * 卸载模型，释放内存。
 	 */
@@ -284,5 +329,6 @@ export class EmbeddingManager {
 		this.worker.terminate();
 		this.requests.clear();
 		this.isModelLoaded = false;
+		this.currentRerankModelId = null;
 	}
 } 
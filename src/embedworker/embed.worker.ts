@@ -21,7 +21,16 @@ interface EmbedBatchParams {
 	inputs: EmbedInput[];
 }
 
-type WorkerParams = LoadParams | EmbedBatchParams | string | undefined;
+interface LoadRerankerParams {
+	model_key: string;
+}
+
+interface RerankParams {
+	query: string;
+	documents: string[];
+}
+
+type WorkerParams = LoadParams | EmbedBatchParams | LoadRerankerParams | RerankParams | string | undefined;
 
 interface WorkerMessage {
 	method: string;
@@ -73,11 +82,20 @@ interface TokenizerResult {
 	};
 }
 
+interface RerankerInfo {
+	model_key: string;
+	model: unknown;
+	tokenizer: unknown;
+}
+
 interface GlobalTransformers {
 	pipelineFactory: (task: string, model: string, options?: PipelineOptions) => Promise<unknown>;
 	AutoTokenizer: {
 		from_pretrained: (model: string) => Promise<unknown>;
 	};
+	AutoModelForSequenceClassification: {
+		from_pretrained: (model: string, options?: PipelineOptions) => Promise<unknown>;
+	};
 	env: TransformersEnv;
 }
 
@@ -85,6 +103,8 @@ interface GlobalTransformers {
 let model: ModelInfo | null = null;
 let pipeline: unknown = null;
 let tokenizer: unknown = null;
+// 交叉编码器与嵌入模型相互独立，可以同时加载
+let reranker: RerankerInfo | null = null;
 let processing_message = false;
 let transformersLoaded = false;
 
@@ -156,7 +176,7 @@ async function loadTransformers(): Promise<void> {
 		await initializeEndpoint();
 
 		// 尝试使用旧版本的 Transformers.js，它在 Worker 中更稳定
-		const { pipeline: pipelineFactory, env, AutoTokenizer } = await import('@xenova/transformers');
+		const { pipeline: pipelineFactory, env, AutoTokenizer, AutoModelForSequenceClassification } = await import('@xenova/transformers');
 
 		// 配置环境以适应浏览器 Worker
 		env.allowLocalModels = false;
@@ -174,6 +194,7 @@ async function loadTransformers(): Promise<void> {
 		globalTransformers.transformers = {
 			pipelineFactory,
 			AutoTokenizer,
+			AutoModelForSequenceClassification,
 			env: env as unknown as TransformersEnv
 		};
 
@@ -284,6 +305,78 @@ async function unloadModel(): Promise<{ model_unloaded: boolean }> {
 	}
 }
 
+async function loadReranker(modelKey: string): Promise<{ model_loaded: boolean }> {
+	try {
+		if (reranker?.model_key === modelKey) {
+			return { model_loaded: true };
+		}
+
+		console.log(`Loading reranker: ${modelKey}`);
+		await loadTransformers();
+
+		const globalTransformers = globalThis as unknown as { transformers?: GlobalTransformers };
+		const transformers = globalTransformers.transformers;
+
+		if (!transformers) {
+			throw new Error('Transformers.js not loaded');
+		}
+
+		// 交叉编码器始终在 CPU 上运行
+		const rerankerModel = await transformers.AutoModelForSequenceClassification.from_pretrained(modelKey, { quantized: true });
+		const rerankerTokenizer = await transformers.AutoTokenizer.from_pretrained(modelKey);
+
+		reranker = {
+			model_key: modelKey,
+			model: rerankerModel,
+			tokenizer: rerankerTokenizer
+		};
+
+		console.log(`Reranker ${modelKey} loaded successfully`);
+		return { model_loaded: true };
+
+	} catch (error) {
+		console.error('Error loading reranker:', error);
+		reranker = null;
+		throw new Error(`Failed to load reranker: ${error}`);
+	}
+}
+
+/**
+ * 使用交叉编码器为每个文档与查询的相关性打分，分数在 0 到 1 之间。
+ */
+async function rerank(query: string, documents: string[]): Promise<{ scores: number[] }> {
+	if (!reranker) {
+		throw new Error('Reranker not loaded');
+	}
+
+	const tokenizerCall = reranker.tokenizer as (
+		text: string[],
+		options: { text_pair: string[]; padding: boolean; truncation: boolean }
+	) => unknown;
+	const modelCall = reranker.model as (inputs: unknown) => Promise<{ logits: { data: ArrayLike<number>; dims: number[] } }>;
+
+	const scores: number[] = [];
+	// 小批量处理，避免长文档一次占用过多内存
+	const batchSize = 8;
+	for (let i = 0; i < documents.length; i += batchSize) {
+		const batch = documents.slice(i, i + batchSize);
+		const inputs = tokenizerCall(new Array<string>(batch.length).fill(query), {
+			text_pair: batch,
+			padding: true,
+			truncation: true
+		});
+		const { logits } = await modelCall(inputs);
+		// 单标签模型直接输出相关性，多标签模型取最后一个（相关）标签
+		const labels = logits.dims[1] ?? 1;
+		for (let j = 0; j < batch.length; j++) {
+			const logit = logits.data[j * labels + labels - 1];
+			scores.push(1 / (1 + Math.exp(-logit)));
+		}
+	}
+
+	return { scores };
+}
+
 async function countTokens(input: string): Promise<{ tokens: number }> {
 	try {
 		if (!tokenizer) {
@@ -450,6 +543,26 @@ async function processMessage(data: WorkerMessage): Promise<WorkerResponse> {
 				processing_message = false;
 				break;
 
+			case 'load_reranker':
+				console.log('Load reranker method called with params:', params);
+				result = await loadReranker((params as LoadRerankerParams).model_key);
+				break;
+
+			case 'rerank':
+				console.log('Rerank method called');
+
+				// 等待之前的处理完成
+				if (processing_message) {
+					while (processing_message) {
+						await new Promise(resolve => setTimeout(resolve, 100));
+					}
+				}
+
+				processing_message = true;
+				result = await rerank((params as RerankParams).query, (params as RerankParams).documents);
+				processing_message = false;
+				break;
+
 			case 'count_tokens':
 				console.log('Count tokens method called');
 				if (!model) {
@@ -11,5 +11,6 @@ export type {
 	EmbedResult,
 	ModelLoadResult,
 	ModelUnloadResult,
+	RerankResult,
 	TokenCountResult
 } from './EmbeddingManager';
@@ -5,6 +5,7 @@ import { App, TFile } from "obsidian";
 
 import AutoComplete from "./core/autocomplete";
 import Context from "./core/autocomplete/context-detection";
+import { ResolvedAutocompleteProfile, resolveAutocompleteProfile } from "./core/autocomplete/profiles";
 import DisabledFileSpecificState from "./core/autocomplete/states/disabled-file-specific-state";
 import DisabledInvalidSettingsState from "./core/autocomplete/states/disabled-invalid-settings-state";
 import DisabledManualState from "./core/autocomplete/states/disabled-manual-state";
@@ -15,8 +16,10 @@ import QueuedState from "./core/autocomplete/states/queued-state";
 import State from "./core/autocomplete/states/state";
 import SuggestingState from "./core/autocomplete/states/suggesting-state";
 import { EventHandler } from "./core/autocomplete/states/types";
-import { AutocompleteService } from "./core/autocomplete/types";
+import { AutocompleteService, ContextRetriever } from "./core/autocomplete/types";
 import { isMatchBetweenPathAndPatterns } from "./core/autocomplete/utils";
+import { VaultContextRetriever } from "./core/autocomplete/vault-context";
+import { RAGEngine } from "./core/rag/rag-engine";
 import { DocumentChanges } from "./render-plugin/document-changes-listener";
 import { cancelSuggestion, insertSuggestion, updateSuggestion } from "./render-plugin/states";
 import StatusBar from "./status-bar";
@@ -37,20 +40,20 @@ class EventListener implements EventHandler {
   autocomplete: AutocompleteService;
   settings: InfioSettings;
   private currentFile: TFile | null = null;
-  private suggestionCache = new LRUCache<string, string>({ max: MAX_N_ITEMS_IN_CACHE, ttl: FIVE_MINUTES_IN_MS });
+  private contextRetriever: ContextRetriever;
+  private suggestionCache = new LRUCache<string, string[]>({ max: MAX_N_ITEMS_IN_CACHE, ttl: FIVE_MINUTES_IN_MS });
 
   public static fromSettings(
     settings: InfioSettings,
     statusBar: StatusBar,
-    app: App
+    app: App,
+    getRAGEngine: () => Promise<RAGEngine>
   ): EventListener {
-    const autocomplete = createPredictionService(settings);
-
     const eventListener = new EventListener(
       settings,
       statusBar,
       app,
-      autocomplete
+      getRAGEngine
     );
 
     const settingErrors = checkForErrors(settings);
@@ -69,12 +72,13 @@ class EventListener implements EventHandler {
     settings: InfioSettings,
     statusBar: StatusBar,
     app: App,
-    autocomplete: AutocompleteService
+    getRAGEngine: () => Promise<RAGEngine>
   ) {
     this.settings = settings;
     this.statusBar = statusBar;
     this.app = app;
-    this.autocomplete = autocomplete;
+    this.contextRetriever = new VaultContextRetriever(app, getRAGEngine, () => this.currentFile);
+    this.autocomplete = createPredictionService(settings, this.contextRetriever, app);
   }
 
   public setContext(context: Context): void {
@@ -158,6 +162,11 @@ class EventListener implements EventHandler {
   }
 
   transitionToQueuedState(prefix: string, suffix: string): void {
+    // contexts whose profile is switched off never queue a prediction
+    if (!this.getProfileFor(Context.getContext(prefix, suffix)).enabled) {
+      this.transitionToIdleState();
+      return;
+    }
     this.transitionTo(
       QueuedState.createAndStartTimer(
         this,
@@ -177,23 +186,26 @@ class EventListener implements EventHandler {
   }
 
   transitionToSuggestingState(
-    suggestion: string,
+    suggestions: string[],
     prefix: string,
     suffix: string,
-    addToCache = true
+    addToCache = true,
+    candidateIndex = 0
   ): void {
     if (this.view === null) {
       return;
     }
-    if (suggestion.trim().length === 0) {
+    const candidates = suggestions.filter((suggestion) => suggestion.trim().length > 0);
+    if (candidates.length === 0) {
       this.transitionToIdleState();
       return;
     }
     if (addToCache) {
-      this.addSuggestionToCache(prefix, suffix, suggestion);
+      this.addSuggestionsToCache(prefix, suffix, candidates);
     }
-    this.transitionTo(new SuggestingState(this, suggestion, prefix, suffix));
-    updateSuggestion(this.view, suggestion);
+    const index = Math.min(Math.max(candidateIndex, 0), candidates.length - 1);
+    this.transitionTo(new SuggestingState(this, candidates, index, prefix, suffix));
+    updateSuggestion(this.view, candidates[index], index, candidates.length);
   }
 
   public transitionToIdleState() {
@@ -217,7 +229,7 @@ class EventListener implements EventHandler {
 
   handleSettingChanged(settings: InfioSettings): void {
     this.settings = settings;
-    this.autocomplete = createPredictionService(settings);
+    this.autocomplete = createPredictionService(settings, this.contextRetriever, this.app);
     if (!this.settings.cacheSuggestions) {
       this.clearSuggestionsCache();
     }
@@ -243,6 +255,14 @@ class EventListener implements EventHandler {
     return this.state.handleCancelKeyPressed();
   }
 
+  handleNextCandidateKeyPressed(): boolean {
+    return this.state.handleNextCandidateKeyPressed();
+  }
+
+  handlePreviousCandidateKeyPressed(): boolean {
+    return this.state.handlePreviousCandidateKeyPressed();
+  }
+
   handlePredictCommand(prefix: string, suffix: string): void {
     this.state.handlePredictCommand(prefix, suffix);
   }
@@ -265,6 +285,10 @@ class EventListener implements EventHandler {
     return false;
   }
 
+  public getProfileFor(context: Context): ResolvedAutocompleteProfile {
+    return resolveAutocompleteProfile(this.settings, context);
+  }
+
   public isDisabled(): boolean {
     return this.state instanceof DisabledManualState || this.state instanceof DisabledInvalidSettingsState || this.state instanceof DisabledFileSpecificState;
   }
@@ -273,7 +297,7 @@ class EventListener implements EventHandler {
     return this.state instanceof IdleState;
   }
 
-  public getCachedSuggestionFor(prefix: string, suffix: string): string | undefined {
+  public getCachedSuggestionsFor(prefix: string, suffix: string): string[] | undefined {
     return this.suggestionCache.get(this.getCacheKey(prefix, suffix));
   }
 
@@ -288,16 +312,20 @@ class EventListener implements EventHandler {
     this.suggestionCache.clear();
   }
 
-  public addSuggestionToCache(prefix: string, suffix: string, suggestion: string): void {
+  public addSuggestionsToCache(prefix: string, suffix: string, suggestions: string[]): void {
     if (!this.settings.cacheSuggestions) {
       return;
     }
-    this.suggestionCache.set(this.getCacheKey(prefix, suffix), suggestion);
+    this.suggestionCache.set(this.getCacheKey(prefix, suffix), suggestions);
   }
 }
 
-function createPredictionService(settings: InfioSettings) {
-  return AutoComplete.fromSettings(settings);
+function createPredictionService(settings: InfioSettings, contextRetriever: ContextRetriever, app: App) {
+  return AutoComplete.fromSettings(
+    settings,
+    contextRetriever,
+    () => app.vault.getMarkdownFiles().map((file) => file.basename)
+  );
 }
 
 export default EventListener;
@@ -9,14 +9,15 @@ import { ChatManager } from '../database/json/chat/ChatManager'
 import { deserializeChatMessage, serializeChatMessage } from '../database/json/utils'
 import { WorkspaceManager } from '../database/json/workspace/WorkspaceManager'
 import { ChatConversationMeta, ChatMessage, ChatUserMessage } from '../types/chat'
+import { ChatTree, getActivePath, mapChatTree } from '../utils/chat-tree'
 
 type UseChatHistory = {
 	createOrUpdateConversation: (
 		id: string,
-		messages: ChatMessage[],
+		messageTree: ChatTree<ChatMessage>,
 	) => Promise<void>
 	deleteConversation: (id: string) => Promise<void>
-	getChatMessagesById: (id: string) => Promise<ChatMessage[] | null>
+	getChatTreeById: (id: string) => Promise<ChatTree<ChatMessage> | null>
 	updateConversationTitle: (id: string, title: string) => Promise<void>
 	chatList: ChatConversationMeta[]
 	cleanupOutdatedChats: () => Promise<number>
@@ -45,19 +46,23 @@ export function useChatHistory(): UseChatHistory {
 	const createOrUpdateConversation = useMemo(
 		() =>
 			debounce(
-				async (id: string, messages: ChatMessage[]): Promise<void> => {
-					const serializedMessages = messages.map(serializeChatMessage)
+				async (id: string, messageTree: ChatTree<ChatMessage>): Promise<void> => {
+					const { nodes, activeMessageId } = mapChatTree(messageTree, serializeChatMessage)
 					const existingConversation = await chatManager.findById(id)
 
 					if (existingConversation) {
-						if (isEqual(existingConversation.messages, serializedMessages)) {
+						if (
+							existingConversation.activeMessageId === activeMessageId &&
+							isEqual(existingConversation.messages, nodes)
+						) {
 							return
 						}
 						await chatManager.updateChat(existingConversation.id, {
-							messages: serializedMessages,
+							messages: nodes,
+							activeMessageId,
 						})
 					} else {
-						const firstUserMessage = messages.find((v) => v.role === 'user') as ChatUserMessage
+						const firstUserMessage = getActivePath(messageTree).find((v) => v.role === 'user') as ChatUserMessage
 
 						await chatManager.createChat({
 							id,
@@ -67,7 +72,8 @@ export function useChatHistory(): UseChatHistory {
 									50,
 								)
 								: 'New chat',
-							messages: serializedMessages,
+							messages: nodes,
+							activeMessageId,
 							workspace: currentWorkspace,
 						})
 					}
@@ -90,14 +96,15 @@ export function useChatHistory(): UseChatHistory {
 		[chatManager, fetchChatList],
 	)
 
-	const getChatMessagesById = useCallback(
-		async (id: string): Promise<ChatMessage[] | null> => {
+	const getChatTreeById = useCallback(
+		async (id: string): Promise<ChatTree<ChatMessage> | null> => {
 			const conversation = await chatManager.findById(id)
 			if (!conversation) {
 				return null
 			}
-			return conversation.messages.map((message) =>
-				deserializeChatMessage(message, app),
+			return mapChatTree(
+				{ nodes: conversation.messages, activeMessageId: conversation.activeMessageId },
+				(message) => deserializeChatMessage(message, app),
 			)
 		},
 		[chatManager, app],
@@ -129,7 +136,7 @@ export function useChatHistory(): UseChatHistory {
 	return {
 		createOrUpdateConversation,
 		deleteConversation,
-		getChatMessagesById,
+		getChatTreeById,
 		updateConversationTitle,
 		chatList,
 		cleanupOutdatedChats,
@@ -19,6 +19,11 @@ export default {
 			mcp: "MCP",
 			mcpDesc: "Manage Model Context Protocol integrations"
 		},
+		branch: {
+			previous: "Previous branch",
+			next: "Next branch",
+			regenerate: "Regenerate response",
+		},
 		errors: {
 			failedToLoadConversation: "Failed to load conversation",
 			failedToSaveHistory: "Failed to save chat history",
@@ -75,7 +80,10 @@ export default {
 			currentWorkspace: "Current workspace",
 			showAllChats: "Show all conversations",
 			showWorkspaceChats: "Show only current workspace conversations",
-			workspaceLabel: "Workspace: {workspace}"
+			workspaceLabel: "Workspace: {workspace}",
+			exportToNote: "Export to note",
+			exportSuccess: "Conversation exported to {path}",
+			exportFailed: "Failed to export conversation"
 		},
 		shortcutInfo: {
 			editInline: "Edit inline",
@@ -102,6 +110,12 @@ export default {
 			usageNotAvailable: "Usage statistics are not available for this model",
 			notAvailable: "Not available"
 		},
+		contextWindow: {
+			dropped: "Not sent to model",
+			droppedDesc: "This turn was left out of the request because the conversation exceeds the model's context window",
+			summarized: "Condensed for model",
+			summarizedDesc: "Only the beginning and end of this turn were sent because the conversation exceeds the model's context window"
+		},
 		queryProgress: {
 			readingMentionableFiles: "Reading mentioned files",
 			readingFiles: "Reading files",
@@ -114,6 +128,7 @@ export default {
 			file: "file",
 			chunkIndexed: "chunk indexed",
 			queryingVault: "Querying the vault",
+			rewritingQuery: "Rewriting the query",
 			readingRelatedFiles: "Reading related files"
 		},
 		reactMarkdown: {
@@ -210,7 +225,12 @@ export default {
 		"noCommandsFound": "No commands found",
 		"updateCommand": "Update Command",
 		"errorContentRequired": "Please enter a content for your template",
-		"errorNameRequired": "Please enter a name for your template"
+		"errorNameRequired": "Please enter a name for your template",
+		"variablesHint": "Variables: {{selection}}, {{current_file}}, {{date}}, {{clipboard}}, and {{input:name}} to ask for a value when the command runs",
+		"runCommand": "Run"
+	},
+	autocomplete: {
+		candidateIndicator: '{current} of {total}',
 	},
 	main: {
 		openNewChat: "Open new chat",
@@ -220,12 +240,96 @@ export default {
 		updateVaultIndex: 'Update index for modified files',
 		autocompleteAccept: 'Autocomplete accept',
 		autocompletePredict: 'Autocomplete predict',
+		autocompleteNextCandidate: 'Autocomplete next candidate',
+		autocompletePreviousCandidate: 'Autocomplete previous candidate',
 		autocompleteToggle: 'Autocomplete toggle',
 		autocompleteEnable: 'Autocomplete enable',
 		autocompleteDisable: 'Autocomplete disable',
 		inlineEditCommand: 'Inline edit',
+		runQuickCommand: 'Run quick command: {name}',
+		exportBundle: 'Export chats, commands, modes and workspaces',
+		importBundle: 'Import chats, commands, modes and workspaces',
+		indexQueueStatus: 'Indexing: {count} pending',
+		cleanOrphanedEmbeddings: 'Clean up unused embedding tables',
+		openRelatedNotes: 'Open related notes',
+		verifyVaultIndex: 'Verify vault index',
+		findDuplicateNotes: 'Find duplicate notes',
+	},
+	indexIntegrity: {
+		title: 'Vault index check',
+		verifying: 'Checking the vault index...',
+		verifyFailed: 'Failed to check the vault index.',
+		healthy: 'The index matches the vault.',
+		missing: 'Not indexed ({count})',
+		stale: 'Changed since indexing ({count})',
+		orphaned: 'Deleted or excluded files still indexed ({count})',
+		empty: 'Files without indexable content ({count})',
+		more: '...and {count} more',
+		repair: 'Repair',
+		repairing: 'Repairing: {completed}/{total}',
+		repairComplete: 'The vault index was repaired.',
+		repairFailed: 'Failed to repair the vault index.',
+	},
+	duplicateNotes: {
+		title: 'Duplicate notes',
+		threshold: 'Similarity threshold',
+		scan: 'Scan vault',
+		scanning: 'Scanning...',
+		scanFailed: 'Failed to scan the vault for duplicate notes.',
+		noResults: 'No duplicate or overlapping notes above the threshold.',
+		cluster: '{count} similar notes',
+		duplicate: 'Duplicate',
+		overlap: 'Overlap',
+		mergeInto: 'Merge into {name}',
+		nothingToMerge: 'The note already contains everything from the other note.',
+		fileMissing: 'One of the notes no longer exists.',
+		matchingChunks: 'Matching passages',
+	},
+	relatedNotes: {
+		title: 'Related notes',
+		noActiveFile: 'No note open',
+		loading: 'Finding related notes...',
+		noResults: 'No related notes. The note may not be indexed yet.',
+		refresh: 'Refresh',
+		insertLink: 'Insert link into the note',
+	},
+	embeddingMigration: {
+		started: 'Embedding model changed. Re-indexing the vault in the background, search keeps using the previous index until it finishes.',
+		status: 'Re-indexing for new model: {completed}/{total}',
+		complete: 'The new embedding model is now used for search.',
+		failed: 'Re-indexing for the new embedding model failed, search keeps using the previous index. It will be retried on the next start.',
+		orphanedTitle: 'Unused embedding tables ({count})',
+		noOrphanedTables: 'No unused embedding tables found.',
+		orphanedDescription: 'These tables hold vectors the current embedding model can not use.',
+		orphanedTable: '{table}: {rows} rows{owner}',
+		cleanup: 'Delete',
+		cleanupComplete: 'Deleted {count} unused embedding tables.',
+		cleanupFailed: 'Failed to delete the unused embedding tables.',
+	},
+	bundle: {
+		exportTitle: 'Export bundle',
+		exportDescription: 'Saves the selected items as a single JSON file in the vault root, ready to import into another vault.',
+		importTitle: 'Import bundle',
+		chats: 'Chats',
+		commands: 'Quick commands',
+		customModes: 'Custom modes',
+		workspaces: 'Workspaces',
+		itemCount: '{count} items, {conflicts} conflicts',
+		conflicts: 'These items already exist in this vault:',
+		sameId: 'same id',
+		sameName: 'same name',
+		resolutionSkip: 'Skip conflicting items',
+		resolutionOverwrite: 'Overwrite existing items',
+		resolutionKeepBoth: 'Keep both, import as copies',
+		export: 'Export',
+		import: 'Import',
+		exported: 'Bundle exported to {path}',
+		exportFailed: 'Failed to export bundle',
+		imported: 'Imported {imported} items, skipped {skipped}',
+		importFailed: 'Failed to import bundle',
 	},
 	notifications: {
+		quickCommandNotFound: 'Quick command not found',
 		rebuildingIndex: 'Rebuilding vault index...',
 		indexingChunks: 'Indexing chunks: {completedChunks} / {totalChunks}',
 		rebuildComplete: 'Rebuilding vault index complete',
@@ -233,6 +337,7 @@ export default {
 		updatingIndex: 'Updating vault index...',
 		updateComplete: 'Vault index updated',
 		updateFailed: 'Vault index update failed',
+		outdatedIndex: '{count} notes were indexed before tags and properties were stored. Run "Update index for modified files" so that tag and property filters find them.',
 		selectTextFirst: 'Please select some text first',
 		migrationFailed: 'Failed to migrate to JSON storage. Please check the console for details.',
 		reloadingInfio: 'Reloading "infio" due to migration',
@@ -364,6 +469,29 @@ export default {
 			none: 'None',
 			currentFile: 'Current File',
 			vault: 'Vault',
+			nativeToolCalling: 'Native tool calling',
+			nativeToolCallingDescription: 'Send tools as structured function definitions to OpenAI, Anthropic and Gemini models instead of describing them in the system prompt. Other providers keep using the XML tool format.',
+		},
+		DiffStrategy: {
+			title: 'Diff strategy',
+			defaultStrategy: 'Default strategy',
+			defaultStrategyDescription: 'Diff format used by apply_diff for models without a matching rule.',
+			multiSearchReplace: 'Multiple search/replace blocks',
+			searchReplace: 'Single search/replace block',
+			newUnified: 'Unified diff (experimental)',
+			fuzzyMatchThreshold: 'Fuzzy match threshold',
+			fuzzyMatchThresholdDescription: 'Minimum similarity between 0 and 1 for a search block to match the file content. 1 requires an exact match.',
+			retry: 'Retry with a fallback strategy',
+			retryDescription: 'When a diff fails to apply, retry it with a second strategy that accepts the same format.',
+			modelRules: 'Per-model strategies',
+			modelRulesDescription: 'One rule per line as "model pattern = strategy, fallback". Patterns match the chat model id and may use * as a wildcard, the first matching rule wins. Strategies: multi-search-replace, search-replace, unified, new-unified.',
+			stats: 'Success rates',
+			statsDescription: 'How often each strategy applied its diffs, per chat model.',
+			resetStats: 'Reset',
+			noStats: 'No diffs applied yet.',
+			model: 'Model',
+			strategy: 'Strategy',
+			successRate: 'Success rate',
 		},
 		
 		// Deep Research Section
@@ -402,6 +530,14 @@ export default {
 			minSimilarityDescription: 'Minimum similarity score for RAG results. Higher values return more relevant but potentially fewer results.',
 			limit: 'Limit',
 			limitDescription: 'Maximum number of RAG results to include in the prompt. Higher values provide more context but increase token usage.',
+			rerank: 'Re-rank results',
+			rerankDescription: 'Score the best hybrid search results against the query with a small cross-encoder model that runs locally on the CPU. Improves relevance at the cost of slower searches. The model is downloaded on first use.',
+			rerankModel: 'Re-rank model',
+			rerankModelDescription: 'Cross-encoder model used to re-rank search results.',
+			rerankCandidates: 'Re-rank candidates',
+			rerankCandidatesDescription: 'Number of top results scored by the re-rank model. Higher values can surface better matches but take longer.',
+			queryExpansion: 'Query expansion',
+			queryExpansionDescription: 'Before searching, the insight model writes paraphrases of the query and a hypothetical answer passage. Their results are fused with the original search. Finds more for short queries but adds a model call.',
 			includedFiles: 'Included Files',
 			noInclusionPatterns: 'No inclusion patterns specified - all files will be included (except those matching exclusion patterns)',
 			noMatchingFiles: 'No files match the inclusion patterns',
@@ -417,6 +553,36 @@ export default {
 			enableDescription: 'If disabled, nothing will trigger the extension or can result in an API call.',
 			cacheCompletions: 'Cache completions',
 			cacheCompletionsDescription: 'If disabled, the plugin will not cache the completions. After accepting or rejecting a completion, the plugin will not remember it. This might result in more API calls.',
+			candidates: 'Candidates',
+			candidatesDescription: 'The number of completions requested per prediction. Cycle through them with Alt+] and Alt+[. More candidates increase the cost of every prediction.',
+			completionPath: 'Completion path',
+			completionPathFim: 'Fill-in-the-middle via {endpoint}. Support is guessed from the model name. Falls back to the chat prompt when the endpoint does not support the model, and for a minute after other errors. Ollama returns one completion per request, so each extra candidate costs a request.',
+			completionPathChat: 'Chat prompt. The autocomplete model does not expose a fill-in-the-middle endpoint, so the system message, few-shot examples and chain-of-thought regex are used.',
+			profiles: {
+				title: 'Context profiles',
+				description: 'Override the model and parameters per cursor context. Empty fields use the global settings; switched-off contexts never trigger automatic suggestions.',
+				contextDescription: 'Enabled · model · temperature · max tokens · delay (ms)',
+				enabled: 'Suggest automatically in this context',
+				defaultModel: 'Default ({model})',
+				temperature: 'Temperature',
+				maxTokens: 'Max tokens',
+				delay: 'Delay ({delay} ms)',
+				contexts: {
+					Text: 'Text',
+					Heading: 'Heading',
+					BlockQuotes: 'Block quote',
+					UnorderedList: 'Unordered list',
+					NumberedList: 'Numbered list',
+					CodeBlock: 'Code block',
+					MathBlock: 'Math block',
+					TaskList: 'Task list',
+					Table: 'Table',
+					Callout: 'Callout',
+					Frontmatter: 'Frontmatter',
+					Footnote: 'Footnote',
+					WikiLink: 'Wikilink',
+				},
+			},
 			debugMode: 'Debug mode',
 			debugModeDescription: 'If enabled, various debug messages will be logged to the console, such as the complete response from the API, including the chain of thought tokens.',
 			
@@ -430,6 +596,13 @@ export default {
 				maxSuffixLength: 'Maximum suffix length',
 				maxSuffixLengthDescription: 'The maximum number of characters that will be included in the suffix. A larger value will increase the context for the completion, but it can also increase the cost or push you over the token limit.',
 				chars: 'chars',
+				vaultContext: 'Add context from the vault',
+				vaultContextDescription: 'Adds short excerpts from linked notes, backlinks and the most similar notes in the vector index for the paragraph you are writing, so completions use your own terminology and facts. Excerpts are cached per paragraph.',
+				vaultContextTokens: 'Vault context budget',
+				vaultContextTokensDescription: 'The maximum number of tokens of vault excerpts added to each prediction.',
+				vaultContextTimeout: 'Vault context timeout',
+				vaultContextTimeoutDescription: 'How long a prediction waits for the vault excerpts. When retrieval takes longer the prediction is made without them.',
+				tokens: 'tokens',
 			},
 			
 			// Postprocessing Settings
@@ -503,6 +676,12 @@ export default {
 		serverNamePlaceholder: "Enter server name",
 		config: "Configuration (JSON format)",
 		configPlaceholder: "example: {\n  \"command\": \"npx\",\n  \"args\": [\n    \"-y\",\n    \"@modelcontextprotocol/server-filesystem\",\n    \"/Users/username/Desktop\",\n    \"/path/to/other/allowed/dir\"\n  ]\n}",
+		transport: "Transport",
+		sseConfigPlaceholder: "example: {\n  \"url\": \"http://localhost:3000/sse\",\n  \"headers\": {\n    \"Authorization\": \"Bearer <token>\"\n  }\n}",
+		streamableHttpConfigPlaceholder: "example: {\n  \"url\": \"http://localhost:3000/mcp\",\n  \"headers\": {\n    \"Authorization\": \"Bearer <token>\"\n  },\n  \"reconnect\": {\n    \"maxRetries\": 2,\n    \"initialDelay\": 1000,\n    \"maxDelay\": 30000,\n    \"growFactor\": 1.5\n  }\n}",
+		transportStdio: "Local command (stdio)",
+		transportSse: "SSE",
+		transportStreamableHttp: "Streamable HTTP",
 		createServer: "Create Server",
 		status: "Status",
 		statusConnected: "Connected",
@@ -529,6 +708,13 @@ export default {
 		parameters: "Parameters",
 		toolNoDescription: "No description",
 		useMcpToolFrom: "Use MCP tool from",
+		accessMcpResourceFrom: "Access MCP resource from",
+		templateArguments: "Template arguments",
+		prompts: "Prompts",
+		noPrompts: "No prompts available",
+		promptArguments: "Prompt arguments",
+		insertPrompt: "Insert prompt",
+		getPromptFailed: "Failed to get prompt \"{name}\": {error}",
 		configurationFile: "Configuration File",
 		configurationFileDescription: "Directly edit the MCP servers configuration file to add, modify, or remove servers.",
 		openConfigFile: "Open Configuration File",
@@ -538,6 +724,8 @@ export default {
 		openedWithSystemApp: "Configuration file opened with system default application",
 	},
 	semanticSearch: {
+		expandQuery: 'Expand query',
+		rewrittenQueries: 'Also searched:',
 		title: "Semantic Index",
 		embeddingModel: "Embedding model:",
 		vectorBlocks: "vector blocks",
@@ -564,6 +752,21 @@ export default {
 			insights: "AI Insights",
 			insightsDescription: "Search AI insight content"
 		},
+		// Metadata filters
+		filters: {
+			title: "Filters",
+			activeCount: "Filters ({count})",
+			tags: "Tags",
+			tagsPlaceholder: "meeting, project/x",
+			frontmatter: "Properties",
+			frontmatterPlaceholder: "status=done; type!=draft; summary~budget",
+			modifiedAfter: "Modified after",
+			modifiedBefore: "Modified before",
+			pathGlob: "Paths",
+			pathGlobPlaceholder: "Work/**, Daily/*.md",
+			clear: "Clear filters",
+			notesOnly: "Filters apply to notes only, insights are skipped while filters are set"
+		},
 		// Statistics
 		stats: {
 			filesAndBlocks: "{files} files, {blocks} blocks",
@@ -20,6 +20,11 @@ export default {
 			mcp: "MCP",
 			mcpDesc: "管理模型上下文协议集成"
 		},
+		branch: {
+			previous: "上一个分支",
+			next: "下一个分支",
+			regenerate: "重新生成回复",
+		},
 		errors: {
 			failedToLoadConversation: "加载对话失败",
 			failedToSaveHistory: "保存聊天记录失败",
@@ -76,7 +81,10 @@ export default {
 			currentWorkspace: "当前工作区",
 			showAllChats: "显示所有对话",
 			showWorkspaceChats: "只显示当前工作区对话",
-			workspaceLabel: "工作区: {workspace}"
+			workspaceLabel: "工作区: {workspace}",
+			exportToNote: "导出为笔记",
+			exportSuccess: "对话已导出到 {path}",
+			exportFailed: "导出对话失败"
 		},
 		shortcutInfo: {
 			editInline: "行内编辑",
@@ -103,6 +111,12 @@ export default {
 			usageNotAvailable: "此模型无法获取使用统计信息",
 			notAvailable: "不可用"
 		},
+		contextWindow: {
+			dropped: "未发送给模型",
+			droppedDesc: "对话超出了模型的上下文窗口，此轮消息未包含在请求中",
+			summarized: "已为模型压缩",
+			summarizedDesc: "对话超出了模型的上下文窗口，此轮消息仅发送了开头和结尾部分"
+		},
 		queryProgress: {
 			readingMentionableFiles: "正在读取提及的文件",
 			readingFiles: "正在读取文件",
@@ -115,6 +129,7 @@ export default {
 			file: "文件",
 			chunkIndexed: "块已索引",
 			queryingVault: "正在查询 Vault",
+			rewritingQuery: "正在改写查询",
 			readingRelatedFiles: "正在读取相关文件"
 		},
 		reactMarkdown: {
@@ -211,7 +226,12 @@ export default {
 		"noCommandsFound": "未找到命令",
 		"updateCommand": "更新命令",
 		"errorContentRequired": "请输入模板内容",
-		"errorNameRequired": "请输入模板名称"
+		"errorNameRequired": "请输入模板名称",
+		"variablesHint": "可用变量：{{selection}}、{{current_file}}、{{date}}、{{clipboard}}，以及在运行时询问取值的 {{input:名称}}",
+		"runCommand": "运行"
+	},
+	autocomplete: {
+		candidateIndicator: '{current} / {total}',
 	},
 	main: {
 		openNewChat: "打开新聊天",
@@ -221,12 +241,96 @@ export default {
 		updateVaultIndex: '更新已修改文件的索引',
 		autocompleteAccept: '接受自动完成',
 		autocompletePredict: '手动触发自动完成',
+		autocompleteNextCandidate: '切换到下一个自动完成候选',
+		autocompletePreviousCandidate: '切换到上一个自动完成候选',
 		autocompleteToggle: '切换自动完成',
 		autocompleteEnable: '启用自动完成',
 		autocompleteDisable: '禁用自动完成',
 		inlineEditCommand: '文本内编辑',
+		runQuickCommand: '运行快捷命令：{name}',
+		exportBundle: '导出对话、命令、模式和工作区',
+		importBundle: '导入对话、命令、模式和工作区',
+		indexQueueStatus: '索引中：{count} 个待处理',
+		cleanOrphanedEmbeddings: '清理未使用的嵌入表',
+		openRelatedNotes: '打开相关笔记',
+		verifyVaultIndex: '检查库索引',
+		findDuplicateNotes: '查找重复笔记',
+	},
+	indexIntegrity: {
+		title: '库索引检查',
+		verifying: '正在检查库索引...',
+		verifyFailed: '检查库索引失败。',
+		healthy: '索引与库中文件一致。',
+		missing: '未建立索引（{count}）',
+		stale: '索引后已修改（{count}）',
+		orphaned: '已删除或已排除但仍有索引的文件（{count}）',
+		empty: '没有可索引内容的文件（{count}）',
+		more: '...以及另外 {count} 个',
+		repair: '修复',
+		repairing: '修复中：{completed}/{total}',
+		repairComplete: '库索引已修复。',
+		repairFailed: '修复库索引失败。',
+	},
+	duplicateNotes: {
+		title: '重复笔记',
+		threshold: '相似度阈值',
+		scan: '扫描库',
+		scanning: '扫描中...',
+		scanFailed: '扫描重复笔记失败。',
+		noResults: '没有超过阈值的重复或重叠笔记。',
+		cluster: '{count} 篇相似笔记',
+		duplicate: '重复',
+		overlap: '重叠',
+		mergeInto: '合并到 {name}',
+		nothingToMerge: '该笔记已包含另一篇笔记的全部内容。',
+		fileMissing: '其中一篇笔记已不存在。',
+		matchingChunks: '相似段落',
+	},
+	relatedNotes: {
+		title: '相关笔记',
+		noActiveFile: '没有打开的笔记',
+		loading: '正在查找相关笔记...',
+		noResults: '没有相关笔记，该笔记可能尚未建立索引。',
+		refresh: '刷新',
+		insertLink: '在笔记中插入链接',
+	},
+	embeddingMigration: {
+		started: '嵌入模型已更改，正在后台重建索引，完成前搜索继续使用旧索引。',
+		status: '为新模型重建索引：{completed}/{total}',
+		complete: '搜索已切换到新的嵌入模型。',
+		failed: '为新嵌入模型重建索引失败，搜索继续使用旧索引，下次启动时将重试。',
+		orphanedTitle: '未使用的嵌入表（{count}）',
+		noOrphanedTables: '没有未使用的嵌入表。',
+		orphanedDescription: '这些表中的向量无法被当前嵌入模型使用。',
+		orphanedTable: '{table}：{rows} 行{owner}',
+		cleanup: '删除',
+		cleanupComplete: '已删除 {count} 个未使用的嵌入表。',
+		cleanupFailed: '删除未使用的嵌入表失败。',
+	},
+	bundle: {
+		exportTitle: '导出数据包',
+		exportDescription: '将所选内容保存为库根目录下的单个 JSON 文件，可导入到其他库中。',
+		importTitle: '导入数据包',
+		chats: '对话',
+		commands: '快捷命令',
+		customModes: '自定义模式',
+		workspaces: '工作区',
+		itemCount: '{count} 项，{conflicts} 项冲突',
+		conflicts: '以下内容在当前库中已存在：',
+		sameId: 'ID 相同',
+		sameName: '名称相同',
+		resolutionSkip: '跳过冲突项',
+		resolutionOverwrite: '覆盖已有内容',
+		resolutionKeepBoth: '保留两者，作为副本导入',
+		export: '导出',
+		import: '导入',
+		exported: '数据包已导出到 {path}',
+		exportFailed: '导出数据包失败',
+		imported: '已导入 {imported} 项，跳过 {skipped} 项',
+		importFailed: '导入数据包失败',
 	},
 	notifications: {
+		quickCommandNotFound: '未找到快捷命令',
 		rebuildingIndex: '正在重建 Vault 索引...',
 		indexingChunks: '正在索引块：{completedChunks} / {totalChunks}',
 		rebuildComplete: 'Vault 索引重建完成',
@@ -234,6 +338,7 @@ export default {
 		updatingIndex: '正在更新 Vault 索引...',
 		updateComplete: 'Vault 索引已更新',
 		updateFailed: 'Vault 索引更新失败',
+		outdatedIndex: '有 {count} 篇笔记在保存标签和属性之前已被索引。请运行“更新已修改文件的索引”，以便按标签和属性过滤时能找到它们。',
 		selectTextFirst: '请先选择一些文本',
 		migrationFailed: '迁移到 JSON 存储失败。请检查控制台以获取详细信息。',
 		reloadingInfio: '因迁移而重新加载 "infio"',
@@ -365,6 +470,29 @@ export default {
 			none: '无',
 			currentFile: '当前文件',
 			vault: '整个 Vault',
+			nativeToolCalling: '原生工具调用',
+			nativeToolCallingDescription: '对 OpenAI、Anthropic 和 Gemini 模型以结构化函数定义发送工具，而不是在系统提示词中描述。其他提供商继续使用 XML 工具格式。',
+		},
+		DiffStrategy: {
+			title: 'Diff 策略',
+			defaultStrategy: '默认策略',
+			defaultStrategyDescription: '没有匹配规则的模型在 apply_diff 中使用的 diff 格式。',
+			multiSearchReplace: '多个搜索/替换块',
+			searchReplace: '单个搜索/替换块',
+			newUnified: '统一 diff（实验性）',
+			fuzzyMatchThreshold: '模糊匹配阈值',
+			fuzzyMatchThresholdDescription: '搜索块与文件内容匹配所需的最低相似度，取值 0 到 1，1 表示必须完全匹配。',
+			retry: '使用备用策略重试',
+			retryDescription: 'diff 应用失败时，使用接受相同格式的第二种策略重试。',
+			modelRules: '按模型选择策略',
+			modelRulesDescription: '每行一条规则，格式为 "模型匹配模式 = 策略, 备用策略"。模式匹配聊天模型 ID，可使用 * 通配符，使用第一条匹配的规则。可用策略：multi-search-replace、search-replace、unified、new-unified。',
+			stats: '成功率',
+			statsDescription: '按聊天模型统计各策略成功应用 diff 的比例。',
+			resetStats: '重置',
+			noStats: '尚未应用任何 diff。',
+			model: '模型',
+			strategy: '策略',
+			successRate: '成功率',
 		},
 		
 		// 网页搜索部分
@@ -403,6 +531,14 @@ export default {
 			minSimilarityDescription: 'RAG 结果的最小相似度得分。较高的值返回更相关但可能更少的结果。',
 			limit: '限制',
 			limitDescription: '包含在提示中的最大 RAG 结果数。较高的值提供更多上下文，但会增加 Tokens 使用量。',
+			rerank: '结果重排序',
+			rerankDescription: '使用在本地 CPU 上运行的小型交叉编码器模型，根据查询为混合搜索的靠前结果重新打分。可以提高相关性，但搜索会变慢。首次使用时会下载模型。',
+			rerankModel: '重排序模型',
+			rerankModelDescription: '用于对搜索结果重新排序的交叉编码器模型。',
+			rerankCandidates: '重排序候选数',
+			rerankCandidatesDescription: '由重排序模型打分的靠前结果数量。较高的值可能找到更好的匹配，但耗时更长。',
+			queryExpansion: '查询扩展',
+			queryExpansionDescription: '搜索前由洞察模型生成查询的改写和一段假设性答案，并将它们的结果与原查询融合。短查询能找到更多内容，但会多一次模型调用。',
 			includedFiles: '包含的文件',
 			noInclusionPatterns: '未指定包含模式 - 将包含所有文件（匹配排除模式的文件除外）',
 			noMatchingFiles: '没有文件匹配包含模式',
@@ -418,6 +554,36 @@ export default {
 			enableDescription: '如果禁用，任何操作都不会触发扩展或导致 API 调用。',
 			cacheCompletions: '缓存补全',
 			cacheCompletionsDescription: '如果禁用，插件将不会缓存补全。接受或拒绝补全后，插件将不会记住它。这可能会导致更多的 API 调用。',
+			candidates: '候选数量',
+			candidatesDescription: '每次预测请求的补全数量。使用 Alt+] 和 Alt+[ 在候选之间切换。候选越多，每次预测的费用越高。',
+			completionPath: '补全方式',
+			completionPathFim: '通过 {endpoint} 进行中间填充（FIM）。是否支持根据模型名称判断。如果该接口不支持此模型，将回退到聊天提示；遇到其他错误时回退一分钟。Ollama 每次请求只返回一个补全，每个额外候选都需要一次请求。',
+			completionPathChat: '聊天提示。自动补全模型没有提供中间填充（FIM）接口，因此会使用系统消息、少样本示例和思维链正则。',
+			profiles: {
+				title: '上下文配置',
+				description: '按光标所在的上下文覆盖模型和参数。留空的字段使用全局设置；关闭的上下文不会自动触发补全。',
+				contextDescription: '启用 · 模型 · 温度 · 最大 Tokens · 延迟（毫秒）',
+				enabled: '在此上下文中自动补全',
+				defaultModel: '默认（{model}）',
+				temperature: '温度',
+				maxTokens: '最大 Tokens',
+				delay: '延迟（{delay} 毫秒）',
+				contexts: {
+					Text: '正文',
+					Heading: '标题',
+					BlockQuotes: '引用',
+					UnorderedList: '无序列表',
+					NumberedList: '有序列表',
+					CodeBlock: '代码块',
+					MathBlock: '数学块',
+					TaskList: '任务列表',
+					Table: '表格',
+					Callout: '标注块',
+					Frontmatter: '文档属性',
+					Footnote: '脚注',
+					WikiLink: '双链',
+				},
+			},
 			debugMode: '调试模式',
 			debugModeDescription: '如果启用，各种调试消息将被记录到控制台，例如来自 API 的完整响应，包括思维链 Tokens。',
 			
@@ -431,6 +597,13 @@ export default {
 				maxSuffixLength: '最大后缀长度',
 				maxSuffixLengthDescription: '将包含在后缀中的最大字符数。较大的值将增加补全的上下文，但也可能增加成本或超出 Tokens 限制。',
 				chars: '字符',
+				vaultContext: '添加库中的上下文',
+				vaultContextDescription: '为正在编写的段落添加来自链接笔记、反向链接以及向量索引中最相似笔记的简短摘录，使补全使用您自己的术语和事实。摘录按段落缓存。',
+				vaultContextTokens: '库上下文预算',
+				vaultContextTokensDescription: '每次预测中添加的库摘录的最大 Tokens 数。',
+				vaultContextTimeout: '库上下文超时',
+				vaultContextTimeoutDescription: '预测等待库摘录的最长时间。检索超时后将不带摘录进行预测。',
+				tokens: 'Tokens',
 			},
 			
 			// 后处理设置
@@ -503,6 +676,12 @@ export default {
 			serverNamePlaceholder: "输入服务器名称",
 			config: "配置 (JSON 格式)",
 			configPlaceholder: "example: {\n  \"command\": \"npx\",\n  \"args\": [\n    \"-y\",\n    \"@modelcontextprotocol/server-filesystem\",\n    \"/Users/username/Desktop\",\n    \"/path/to/other/allowed/dir\"\n  ]\n}",
+			transport: "传输方式",
+			sseConfigPlaceholder: "example: {\n  \"url\": \"http://localhost:3000/sse\",\n  \"headers\": {\n    \"Authorization\": \"Bearer <token>\"\n  }\n}",
+			streamableHttpConfigPlaceholder: "example: {\n  \"url\": \"http://localhost:3000/mcp\",\n  \"headers\": {\n    \"Authorization\": \"Bearer <token>\"\n  },\n  \"reconnect\": {\n    \"maxRetries\": 2,\n    \"initialDelay\": 1000,\n    \"maxDelay\": 30000,\n    \"growFactor\": 1.5\n  }\n}",
+			transportStdio: "本地命令 (stdio)",
+			transportSse: "SSE",
+			transportStreamableHttp: "Streamable HTTP",
 			createServer: "创建服务器",
 			status: "状态",
 			statusConnected: "已连接",
@@ -529,6 +708,13 @@ export default {
 		parameters: "参数",
 		toolNoDescription: "无描述",
 		useMcpToolFrom: "使用来自以下的 MCP 工具：",
+		accessMcpResourceFrom: "访问来自以下的 MCP 资源：",
+		templateArguments: "模板参数",
+		prompts: "提示词",
+		noPrompts: "没有可用的提示词",
+		promptArguments: "提示词参数",
+		insertPrompt: "插入提示词",
+		getPromptFailed: "获取提示词 \"{name}\" 失败：{error}",
 		configurationFile: "配置文件",
 		configurationFileDescription: "直接编辑 MCP 服务器配置文件来添加、修改或删除服务器。",
 		openConfigFile: "打开配置文件",
@@ -539,6 +725,8 @@ export default {
 		}
 	},
 	semanticSearch: {
+		expandQuery: '扩展查询',
+		rewrittenQueries: '同时搜索：',
 		title: "语义索引",
 		embeddingModel: "嵌入模型:",
 		vectorBlocks: "个向量块",
@@ -565,6 +753,21 @@ export default {
 			insights: "AI 洞察",
 			insightsDescription: "搜索 AI 洞察内容"
 		},
+		// 元数据过滤
+		filters: {
+			title: "过滤条件",
+			activeCount: "过滤条件 ({count})",
+			tags: "标签",
+			tagsPlaceholder: "meeting, project/x",
+			frontmatter: "属性",
+			frontmatterPlaceholder: "status=done; type!=draft; summary~预算",
+			modifiedAfter: "修改时间晚于",
+			modifiedBefore: "修改时间早于",
+			pathGlob: "路径",
+			pathGlobPlaceholder: "Work/**, Daily/*.md",
+			clear: "清除过滤条件",
+			notesOnly: "过滤条件仅作用于笔记，设置过滤条件时不搜索洞察"
+		},
 		// 统计信息
 		stats: {
 			filesAndBlocks: "{files} 个文件，{blocks} 个块",
@@ -1,24 +1,42 @@
 // @ts-nocheck
 import { EditorView } from '@codemirror/view'
 // import { PGlite } from '@electric-sql/pglite'
-import { Editor, MarkdownView, Modal, Notice, Plugin, TFile } from 'obsidian'
+import { Editor, Events, MarkdownView, Modal, Notice, Plugin, TFile } from 'obsidian'
 
 import { ApplyView } from './ApplyView'
 import { ChatView } from './ChatView'
 import { ChatProps } from './components/chat-view/ChatView'
-import { APPLY_VIEW_TYPE, CHAT_VIEW_TYPE, JSON_VIEW_TYPE, PREVIEW_VIEW_TYPE } from './constants'
-import { getDiffStrategy } from "./core/diff/DiffStrategy"
+import { promptCommandInputs } from './components/modals/CommandInputModal'
+import { ExportBundleModal, ImportBundleModal } from './components/modals/DataBundleModal'
+import { IndexIntegrityModal } from './components/modals/IndexIntegrityModal'
+import { OrphanedEmbeddingsModal } from './components/modals/OrphanedEmbeddingsModal'
+import {
+	APPLY_VIEW_TYPE,
+	CHAT_VIEW_TYPE,
+	DUPLICATE_NOTES_VIEW_TYPE,
+	JSON_VIEW_TYPE,
+	PREVIEW_VIEW_TYPE,
+	RELATED_NOTES_VIEW_TYPE,
+} from './constants'
+import { DiffStrategy, getDiffStrategy } from "./core/diff/DiffStrategy"
+import { DiffStrategyStats } from "./core/diff/DiffStrategyStats"
 import { InlineEdit } from './core/edit/inline-edit-processor'
 import { McpHub } from './core/mcp/McpHub'
+import { EmbeddingIndexState } from './core/rag/embedding-index-state'
+import { IndexQueue, shouldIndexPath } from './core/rag/index-queue'
 import { RAGEngine } from './core/rag/rag-engine'
 import { TransEngine } from './core/transformations/trans-engine'
 import { DBManager } from './database/database-manager'
+import { CommandManager } from './database/json/command/CommandManager'
+import { COMMANDS_CHANGED_EVENT } from './database/json/command/types'
 import { migrateToJsonDatabase } from './database/json/migrateToJsonDatabase'
+import { DuplicateNotesView } from './DuplicateNotesView'
 import { EmbeddingManager } from './embedworker/EmbeddingManager'
 import EventListener from "./event-listener"
 import JsonView from './JsonFileView'
 import { t } from './lang/helpers'
 import { PreviewView } from './PreviewView'
+import { RelatedNotesView } from './RelatedNotesView'
 import CompletionKeyWatcher from "./render-plugin/completion-key-watcher"
 import DocumentChangesListener, {
 	DocumentChanges,
@@ -34,6 +52,7 @@ import {
 	InfioSettings,
 	parseInfioSettings,
 } from './types/settings'
+import { resolveCommandContent } from './utils/command-template'
 import { createDataviewManager, DataviewManager } from './utils/dataview'
 import { getMentionableBlockData } from './utils/obsidian'
 import './utils/path'
@@ -46,6 +65,7 @@ export default class InfioPlugin extends Plugin {
 	private ragEngineInitPromise: Promise<RAGEngine> | null = null
 	private transEngineInitPromise: Promise<TransEngine> | null = null
 	private mcpHubInitPromise: Promise<McpHub> | null = null
+	private quickCommandIds: string[] = []
 	settings: InfioSettings
 	settingTab: InfioSettingTab
 	settingsListeners: ((newSettings: InfioSettings) => void)[] = []
@@ -57,7 +77,14 @@ export default class InfioPlugin extends Plugin {
 	embeddingManager: EmbeddingManager | null = null
 	inlineEdit: InlineEdit | null = null
 	diffStrategy?: DiffStrategy
+	diffStrategyStats: DiffStrategyStats | null = null
 	dataviewManager: DataviewManager | null = null
+	indexQueue: IndexQueue | null = null
+	embeddingIndexState: EmbeddingIndexState | null = null
+	private embeddingMigrationPromise: Promise<void> | null = null
+	// Bumped to stop a running migration, e.g. when the model changes again
+	private embeddingMigrationGeneration = 0
+	private embeddingMigrationStatusBar: StatusBar | null = null
 
 	async onload() {
 		// load settings
@@ -90,6 +117,8 @@ export default class InfioPlugin extends Plugin {
 		this.registerView(APPLY_VIEW_TYPE, (leaf) => new ApplyView(leaf))
 		this.registerView(PREVIEW_VIEW_TYPE, (leaf) => new PreviewView(leaf))
 		this.registerView(JSON_VIEW_TYPE, (leaf) => new JsonView(leaf, this))
+		this.registerView(RELATED_NOTES_VIEW_TYPE, (leaf) => new RelatedNotesView(leaf, this))
+		this.registerView(DUPLICATE_NOTES_VIEW_TYPE, (leaf) => new DuplicateNotesView(leaf, this))
 
 		// register markdown processor for Inline Edit
 		this.inlineEdit = new InlineEdit(this, this.settings);
@@ -102,16 +131,21 @@ export default class InfioPlugin extends Plugin {
 		const eventListener = EventListener.fromSettings(
 			this.settings,
 			statusBar,
-			this.app
+			this.app,
+			() => this.getRAGEngine()
 		);
 
 		// initialize diff strategy
+		this.diffStrategyStats = new DiffStrategyStats(this.app)
 		this.diffStrategy = getDiffStrategy(
 			this.settings.chatModelId || "",
 			this.app,
 			this.settings.fuzzyMatchThreshold,
 			this.settings.experimentalDiffStrategy,
 			this.settings.multiSearchReplaceDiffStrategy,
+			this.settings.diffStrategyRules,
+			this.settings.diffStrategyRetry,
+			this.diffStrategyStats,
 		)
 
 		// add settings change listener
@@ -127,7 +161,12 @@ export default class InfioPlugin extends Plugin {
 				this.settings.fuzzyMatchThreshold,
 				this.settings.experimentalDiffStrategy,
 				this.settings.multiSearchReplaceDiffStrategy,
+				this.settings.diffStrategyRules,
+				this.settings.diffStrategyRetry,
+				this.diffStrategyStats,
 			)
+			// Pending index updates may wait for an embedding model
+			this.indexQueue?.resume()
 			// Update MCP Hub when settings change
 			if (this.settings.mcpEnabled && !this.mcpHub) {
 				void this.getMcpHub()
@@ -145,6 +184,8 @@ export default class InfioPlugin extends Plugin {
 				eventListener.handleAcceptKeyPressed.bind(eventListener) as () => boolean,
 				eventListener.handlePartialAcceptKeyPressed.bind(eventListener) as () => boolean,
 				eventListener.handleCancelKeyPressed.bind(eventListener) as () => boolean,
+				() => eventListener.handleNextCandidateKeyPressed(),
+				() => eventListener.handlePreviousCandidateKeyPressed(),
 			),
 			DocumentChangesListener(
 				eventListener.handleDocumentChange.bind(eventListener) as (documentChange: DocumentChanges) => Promise<void>
@@ -180,19 +221,60 @@ export default class InfioPlugin extends Plugin {
 			this.app.metadataCache.on("changed", (file: TFile) => {
 				if (file) {
 					eventListener.handleFileChange(file);
-					// is not worth it to update the file index on every file change
-					// this.ragEngine?.updateFileIndex(file);
 				}
 			})
 		);
 
-		this.registerEvent(
-			this.app.metadataCache.on("deleted", (file: TFile) => {
-				if (file) {
-					this.ragEngine?.deleteFileIndex(file);
+		// keep the vector index in sync with the vault in the background
+		const indexStatusBar = StatusBar.fromApp(this);
+		this.indexQueue = new IndexQueue(this.app, {
+			shouldIndex: (path) => shouldIndexPath(path, this.settings.ragOptions),
+			canProcess: () => Boolean(this.settings.embeddingModelId?.trim()),
+			runTask: async (task) => {
+				const ragEngine = await this.getRAGEngine()
+				if (task.type === 'delete') {
+					await ragEngine.deleteFileIndex(task.path)
+				} else if (task.type === 'rename') {
+					await ragEngine.renameFileIndex(task.oldPath, task.path)
+				} else {
+					const file = this.app.vault.getFileByPath(task.path)
+					if (file) {
+						await ragEngine.updateFileIndex(file)
+					}
 				}
-			})
-		);
+			},
+			onSizeChange: (size) => {
+				indexStatusBar.updateText(size > 0 ? String(t('main.indexQueueStatus', { count: size })) : '')
+			},
+		})
+		// re-index side by side when the embedding model changes
+		this.embeddingIndexState = new EmbeddingIndexState(this.app)
+		this.embeddingMigrationStatusBar = StatusBar.fromApp(this)
+		this.app.workspace.onLayoutReady(() => {
+			// vault create events fire for every file while the vault loads
+			void this.indexQueue?.load()
+			void this.resumeEmbeddingMigration()
+			this.registerEvent(
+				this.app.vault.on('create', (file) => {
+					if (file instanceof TFile) this.indexQueue?.fileChanged(file.path)
+				})
+			);
+			this.registerEvent(
+				this.app.vault.on('modify', (file) => {
+					if (file instanceof TFile) this.indexQueue?.fileChanged(file.path)
+				})
+			);
+			this.registerEvent(
+				this.app.vault.on('rename', (file, oldPath) => {
+					if (file instanceof TFile) this.indexQueue?.fileRenamed(oldPath, file.path)
+				})
+			);
+			this.registerEvent(
+				this.app.vault.on('delete', (file) => {
+					if (file instanceof TFile) this.indexQueue?.fileDeleted(file.path)
+				})
+			);
+		})
 
 		/// *** Commands ***
 		this.addCommand({
@@ -277,6 +359,53 @@ export default class InfioPlugin extends Plugin {
 			},
 		})
 
+		this.addCommand({
+			id: 'verify-vault-index',
+			name: t('main.verifyVaultIndex'),
+			callback: async () => {
+				const notice = new Notice(String(t('indexIntegrity.verifying')), 0)
+				try {
+					const ragEngine = await this.getRAGEngine()
+					const report = await ragEngine.verifyIndex()
+					new IndexIntegrityModal(this.app, report, (onProgress) => ragEngine.repairIndex(report, onProgress)).open()
+				} catch (error) {
+					console.error(error)
+					new Notice(String(t('indexIntegrity.verifyFailed')))
+				} finally {
+					notice.hide()
+				}
+			},
+		})
+
+		this.addCommand({
+			id: 'open-related-notes',
+			name: t('main.openRelatedNotes'),
+			callback: () => this.activateRelatedNotesView(),
+		})
+
+		this.addCommand({
+			id: 'find-duplicate-notes',
+			name: t('main.findDuplicateNotes'),
+			callback: async () => {
+				const leaf =
+					this.app.workspace.getLeavesOfType(DUPLICATE_NOTES_VIEW_TYPE)[0] ??
+					this.app.workspace.getLeaf(true)
+				await leaf.setViewState({ type: DUPLICATE_NOTES_VIEW_TYPE, active: true })
+				await this.app.workspace.revealLeaf(leaf)
+			},
+		})
+
+		this.addCommand({
+			id: 'clean-orphaned-embeddings',
+			name: t('main.cleanOrphanedEmbeddings'),
+			callback: async () => {
+				await this.syncEmbeddingIndex()
+				const ragEngine = await this.getRAGEngine()
+				const tables = await ragEngine.getOrphanedEmbeddingTables()
+				new OrphanedEmbeddingsModal(this.app, tables, (names) => ragEngine.cleanupEmbeddingTables(names)).open()
+			},
+		})
+
 		this.addCommand({
 			id: 'autocomplete-accept',
 			name: t('main.autocompleteAccept'),
@@ -297,6 +426,32 @@ export default class InfioPlugin extends Plugin {
 			},
 		})
 
+		this.addCommand({
+			id: 'autocomplete-next-candidate',
+			name: t('main.autocompleteNextCandidate'),
+			editorCheckCallback: (checking: boolean) => {
+				if (checking) {
+					return eventListener.isSuggesting();
+				}
+
+				eventListener.handleNextCandidateKeyPressed();
+				return true;
+			},
+		})
+
+		this.addCommand({
+			id: 'autocomplete-previous-candidate',
+			name: t('main.autocompletePreviousCandidate'),
+			editorCheckCallback: (checking: boolean) => {
+				if (checking) {
+					return eventListener.isSuggesting();
+				}
+
+				eventListener.handlePreviousCandidateKeyPressed();
+				return true;
+			},
+		})
+
 		this.addCommand({
 			id: 'autocomplete-predict',
 			name: t('main.autocompletePredict'),
@@ -470,9 +625,43 @@ export default class InfioPlugin extends Plugin {
 				}
 			},
 		});
+
+		this.addCommand({
+			id: 'export-bundle',
+			name: t('main.exportBundle'),
+			callback: () => {
+				new ExportBundleModal(this.app).open()
+			},
+		})
+
+		this.addCommand({
+			id: 'import-bundle',
+			name: t('main.importBundle'),
+			callback: () => {
+				new ImportBundleModal(this.app).open()
+			},
+		})
+
+		// 为每个保存的快捷指令生成命令面板入口
+		const workspaceEvents: Events = this.app.workspace
+		this.registerEvent(
+			workspaceEvents.on(COMMANDS_CHANGED_EVENT, () => {
+				void this.registerQuickCommands()
+			}),
+		)
+		this.app.workspace.onLayoutReady(() => {
+			void this.registerQuickCommands()
+		})
 	}
 
 	onunload() {
+		// Index queue cleanup, pending tasks stay on disk
+		this.indexQueue?.dispose()
+		this.indexQueue = null
+		// Stops a running embedding migration, it resumes on the next start
+		this.embeddingMigrationGeneration++
+		this.embeddingMigrationPromise = null
+		this.embeddingIndexState = null
 		// Promise cleanup
 		this.dbManagerInitPromise = null
 		this.ragEngineInitPromise = null
@@ -503,11 +692,87 @@ export default class InfioPlugin extends Plugin {
 	}
 
 	async setSettings(newSettings: InfioSettings) {
+		const previousModel = {
+			provider: this.settings.embeddingModelProvider,
+			modelId: this.settings.embeddingModelId,
+		}
 		this.settings = newSettings
 		await this.saveData(newSettings)
 		this.ragEngine?.setSettings(newSettings)
 		this.transEngine?.setSettings(newSettings)
 		this.settingsListeners.forEach((listener) => listener(newSettings))
+		if (
+			previousModel.provider !== newSettings.embeddingModelProvider ||
+			previousModel.modelId !== newSettings.embeddingModelId
+		) {
+			void this.syncEmbeddingIndex(previousModel)
+		}
+	}
+
+	// Picks up a migration left over from the last session, or a model changed while the plugin was off
+	private async resumeEmbeddingMigration() {
+		if (!this.embeddingIndexState || !this.settings.embeddingModelId?.trim()) {
+			return
+		}
+		await this.embeddingIndexState.load()
+		const { active, migration } = this.embeddingIndexState.snapshot
+		const modelChanged = active && (
+			active.provider !== String(this.settings.embeddingModelProvider) ||
+			active.modelId !== this.settings.embeddingModelId
+		)
+		if (migration || modelChanged) {
+			await this.syncEmbeddingIndex()
+		}
+	}
+
+	/**
+	 * Compares the embedding model in the settings with the indexed one and
+	 * re-indexes into a staging table when they differ. Search keeps using
+	 * the old index until the new one is swapped in.
+	 */
+	async syncEmbeddingIndex(previousModel?: { provider: string; modelId: string }) {
+		if (!this.settings.embeddingModelId?.trim()) {
+			return
+		}
+		// a migration to another model must not write into the staging table any more
+		this.embeddingMigrationGeneration++
+		await this.embeddingMigrationPromise
+		try {
+			const ragEngine = await this.getRAGEngine()
+			const plan = await ragEngine.syncEmbeddingModel(previousModel)
+			if (plan === 'migrate') {
+				if (previousModel) {
+					new Notice(String(t('embeddingMigration.started')))
+				}
+				this.embeddingMigrationPromise = this.runEmbeddingMigration(ragEngine)
+			}
+		} catch (error) {
+			console.error('Failed to switch the embedding model:', error)
+		}
+	}
+
+	private async runEmbeddingMigration(ragEngine: RAGEngine) {
+		const generation = this.embeddingMigrationGeneration
+		const statusBar = this.embeddingMigrationStatusBar
+		try {
+			const completed = await ragEngine.runEmbeddingMigration(
+				(progress) => {
+					statusBar?.updateText(String(t('embeddingMigration.status', progress)))
+				},
+				() => generation !== this.embeddingMigrationGeneration,
+			)
+			if (completed) {
+				new Notice(String(t('embeddingMigration.complete')))
+			}
+		} catch (error) {
+			console.error('Failed to migrate the embedding index:', error)
+			new Notice(String(t('embeddingMigration.failed')))
+		} finally {
+			statusBar?.updateText('')
+			if (generation === this.embeddingMigrationGeneration) {
+				this.embeddingMigrationPromise = null
+			}
+		}
 	}
 
 	addSettingsListener(
@@ -557,6 +822,15 @@ export default class InfioPlugin extends Plugin {
 		)
 	}
 
+	async activateRelatedNotesView() {
+		const leaf =
+			this.app.workspace.getLeavesOfType(RELATED_NOTES_VIEW_TYPE)[0] ??
+			this.app.workspace.getRightLeaf(false)
+		if (!leaf) return
+		await leaf.setViewState({ type: RELATED_NOTES_VIEW_TYPE, active: true })
+		await this.app.workspace.revealLeaf(leaf)
+	}
+
 	async addSelectionToChat(editor: Editor, view: MarkdownView) {
 		const data = await getMentionableBlockData(editor, view)
 		if (!data) return
@@ -577,6 +851,48 @@ export default class InfioPlugin extends Plugin {
 		chatView.focusMessage()
 	}
 
+	async registerQuickCommands() {
+		const commands = await new CommandManager(this.app).ListCommands()
+		for (const id of this.quickCommandIds) {
+			this.removeCommand(id)
+		}
+		this.quickCommandIds = commands.map((command) => {
+			const id = `run-quick-command-${command.id}`
+			this.addCommand({
+				id,
+				name: String(t('main.runQuickCommand', { name: command.name })),
+				callback: () => {
+					void this.runQuickCommand(command.id)
+				},
+			})
+			return id
+		})
+	}
+
+	async runQuickCommand(commandId: string) {
+		const command = await new CommandManager(this.app).findById(commandId)
+		if (!command) {
+			new Notice(String(t('notifications.quickCommandNotFound')))
+			return
+		}
+		// Resolved before the chat opens, so the selection comes from the note being edited
+		const content = await resolveCommandContent(this.app, command.content.nodes, (inputNames) =>
+			promptCommandInputs(this.app, command.name, inputNames),
+		)
+		if (!content) return
+
+		const leaves = this.app.workspace.getLeavesOfType(CHAT_VIEW_TYPE)
+		if (leaves.length === 0 || !(leaves[0].view instanceof ChatView)) {
+			await this.activateChatView({
+				commandContent: content,
+			})
+			return
+		}
+
+		await this.app.workspace.revealLeaf(leaves[0])
+		leaves[0].view.insertCommandContent(content)
+	}
+
 	async getDbManager(): Promise<DBManager> {
 		if (this.dbManager) {
 			return this.dbManager
@@ -628,7 +944,14 @@ export default class InfioPlugin extends Plugin {
 		if (!this.ragEngineInitPromise) {
 			this.ragEngineInitPromise = (async () => {
 				const dbManager = await this.getDbManager()
-				this.ragEngine = new RAGEngine(this.app, this.settings, dbManager, this.embeddingManager)
+				await this.embeddingIndexState?.load()
+				this.ragEngine = new RAGEngine(
+					this.app,
+					this.settings,
+					dbManager,
+					this.embeddingManager,
+					this.embeddingIndexState ?? undefined,
+				)
 				return this.ragEngine
 			})()
 		}
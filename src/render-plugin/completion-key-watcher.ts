@@ -5,7 +5,9 @@ import { keymap } from "@codemirror/view";
 function CompletionKeyWatcher(
 	handleAcceptKey: () => boolean,
 	handlePartialAcceptKey: () => boolean,
-	handleCancelKey: () => boolean
+	handleCancelKey: () => boolean,
+	handleNextCandidateKey: () => boolean,
+	handlePreviousCandidateKey: () => boolean
 ) {
 	return Prec.highest(
 		keymap.of([
@@ -21,6 +23,14 @@ function CompletionKeyWatcher(
 				key: "Escape",
 				run: handleCancelKey,
 			},
+			{
+				key: "Alt-]",
+				run: handleNextCandidateKey,
+			},
+			{
+				key: "Alt-[",
+				run: handlePreviousCandidateKey,
+			},
 		])
 	);
 }
@@ -9,6 +9,8 @@ import {
   WidgetType,
 } from "@codemirror/view";
 
+import { t } from "../lang/helpers";
+
 import { InlineSuggestionState, cancelSuggestion } from "./states";
 import { OptionalSuggestion, Suggestion } from "./types";
 
@@ -59,7 +61,12 @@ function inlineSuggestionDecoration(
     return Decoration.none;
   }
   try {
-    const widget = new InlineSuggestionWidget(display_suggestion.value, view);
+    const widget = new InlineSuggestionWidget(
+      display_suggestion.value,
+      display_suggestion.candidateIndex ?? 0,
+      display_suggestion.candidateCount ?? 1,
+      view
+    );
     const decoration = Decoration.widget({
       widget,
       side: 1,
@@ -73,14 +80,23 @@ function inlineSuggestionDecoration(
 }
 
 class InlineSuggestionWidget extends WidgetType {
-  constructor(readonly display_suggestion: string, readonly view: EditorView) {
+  constructor(
+    readonly display_suggestion: string,
+    readonly candidate_index: number,
+    readonly candidate_count: number,
+    readonly view: EditorView
+  ) {
     super();
     this.display_suggestion = display_suggestion;
+    this.candidate_index = candidate_index;
+    this.candidate_count = candidate_count;
     this.view = view;
   }
 
   eq(other: InlineSuggestionWidget) {
-    return other.display_suggestion == this.display_suggestion;
+    return other.display_suggestion == this.display_suggestion
+      && other.candidate_index == this.candidate_index
+      && other.candidate_count == this.candidate_count;
   }
 
   toDOM() {
@@ -94,6 +110,16 @@ class InlineSuggestionWidget extends WidgetType {
       cancelSuggestion(this.view);
     }
 
+    if (this.candidate_count > 1) {
+      const indicator = document.createElement("span");
+      indicator.textContent = String(t("autocomplete.candidateIndicator", {
+        current: this.candidate_index + 1,
+        total: this.candidate_count,
+      }));
+      indicator.classList.add("infio-utils-suggestion-candidate-indicator");
+      span.appendChild(indicator);
+    }
+
     return span;
   }
 
@@ -37,7 +37,9 @@ export const InlineSuggestionState = StateField.define<OptionalSuggestion>({
 
 export const updateSuggestion = (
 	view: EditorView,
-	suggestion: string
+	suggestion: string,
+	candidateIndex = 0,
+	candidateCount = 1
 ) => {
 	const doc = view.state.doc;
 	sleep(1).then(() => {
@@ -46,6 +48,8 @@ export const updateSuggestion = (
 				suggestion: {
 					value: suggestion,
 					render: true,
+					candidateIndex,
+					candidateCount,
 				},
 				doc: doc,
 			}),
@@ -4,6 +4,8 @@ import { Text } from "@codemirror/state";
 export type Suggestion = {
   value: string;
   render: boolean;
+  candidateIndex?: number;
+  candidateCount?: number;
 }
 export type OptionalSuggestion = Suggestion | null;
 
@@ -9,9 +9,11 @@ import {
 import * as React from "react";
 import { createRoot } from "react-dom/client";
 
+import { formatDiffStrategyRules, parseDiffStrategyRules } from '../core/diff/DiffStrategy';
 import { t } from '../lang/helpers';
 import InfioPlugin from '../main';
 import { InfioSettings } from '../types/settings';
+import { localProviderRerankModels } from '../utils/api';
 import { findFilesMatchingPatterns } from '../utils/glob-utils';
 
 // import AdvancedSettings from './components/AdvancedSettings';
@@ -40,6 +42,7 @@ export class InfioSettingTab extends PluginSettingTab {
 		this.renderModelParametersSection(containerEl)
 		this.renderFilesSearchSection(containerEl)
 		this.renderChatBehaviorSection(containerEl)
+		this.renderDiffStrategySection(containerEl)
 		this.renderDeepResearchSection(containerEl)
 		this.renderRAGSection(containerEl)
 		this.renderAutoCompleteSection(containerEl)
@@ -240,6 +243,125 @@ export class InfioSettingTab extends PluginSettingTab {
 						});
 					}),
 			);
+		new Setting(containerEl)
+			.setName(t('settings.ChatBehavior.nativeToolCalling'))
+			.setDesc(t('settings.ChatBehavior.nativeToolCallingDescription'))
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.nativeToolCalling)
+					.onChange(async (value) => {
+						await this.plugin.setSettings({
+							...this.plugin.settings,
+							nativeToolCalling: value,
+						});
+					}),
+			);
+	}
+
+	private renderDiffStrategySection(containerEl: HTMLElement): void {
+		new Setting(containerEl).setHeading().setName(t('settings.DiffStrategy.title'));
+		const defaultStrategy = this.plugin.settings.experimentalDiffStrategy
+			? 'new-unified'
+			: this.plugin.settings.multiSearchReplaceDiffStrategy
+				? 'multi-search-replace'
+				: 'search-replace';
+		new Setting(containerEl)
+			.setName(t('settings.DiffStrategy.defaultStrategy'))
+			.setDesc(t('settings.DiffStrategy.defaultStrategyDescription'))
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption('multi-search-replace', t('settings.DiffStrategy.multiSearchReplace'))
+					.addOption('search-replace', t('settings.DiffStrategy.searchReplace'))
+					.addOption('new-unified', t('settings.DiffStrategy.newUnified'))
+					.setValue(defaultStrategy)
+					.onChange(async (value) => {
+						await this.plugin.setSettings({
+							...this.plugin.settings,
+							experimentalDiffStrategy: value === 'new-unified',
+							multiSearchReplaceDiffStrategy: value === 'multi-search-replace',
+						});
+					}),
+			);
+		new Setting(containerEl)
+			.setName(t('settings.DiffStrategy.fuzzyMatchThreshold'))
+			.setDesc(t('settings.DiffStrategy.fuzzyMatchThresholdDescription'))
+			.addText((text) =>
+				text
+					.setPlaceholder('0.9')
+					.setValue(String(this.plugin.settings.fuzzyMatchThreshold))
+					.onChange(async (value) => {
+						const fuzzyMatchThreshold = parseFloat(value)
+						if (!isNaN(fuzzyMatchThreshold) && fuzzyMatchThreshold >= 0 && fuzzyMatchThreshold <= 1) {
+							await this.plugin.setSettings({
+								...this.plugin.settings,
+								fuzzyMatchThreshold,
+							});
+						}
+					}),
+			);
+		new Setting(containerEl)
+			.setName(t('settings.DiffStrategy.retry'))
+			.setDesc(t('settings.DiffStrategy.retryDescription'))
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.diffStrategyRetry)
+					.onChange(async (value) => {
+						await this.plugin.setSettings({
+							...this.plugin.settings,
+							diffStrategyRetry: value,
+						});
+					}),
+			);
+		new Setting(containerEl)
+			.setName(t('settings.DiffStrategy.modelRules'))
+			.setDesc(t('settings.DiffStrategy.modelRulesDescription'));
+		new Setting(containerEl)
+			.setClass('infio-chat-settings-textarea')
+			.addTextArea((text) =>
+				text
+					.setPlaceholder('claude-* = multi-search-replace\ndeepseek = unified, new-unified')
+					.setValue(formatDiffStrategyRules(this.plugin.settings.diffStrategyRules))
+					.onChange(async (value) => {
+						await this.plugin.setSettings({
+							...this.plugin.settings,
+							diffStrategyRules: parseDiffStrategyRules(value),
+						});
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName(t('settings.DiffStrategy.stats'))
+			.setDesc(t('settings.DiffStrategy.statsDescription'))
+			.addButton((button) =>
+				button.setButtonText(t('settings.DiffStrategy.resetStats')).onClick(async () => {
+					await this.plugin.diffStrategyStats?.reset()
+					renderStats()
+				}),
+			);
+		const statsEl = containerEl.createDiv('infio-diff-strategy-stats')
+		const renderStats = () => {
+			void this.plugin.diffStrategyStats?.getStats().then((stats) => {
+				statsEl.empty()
+				if (stats.length === 0) {
+					statsEl.createEl('p', { text: t('settings.DiffStrategy.noStats'), cls: 'setting-item-description' })
+					return
+				}
+				const table = statsEl.createEl('table')
+				const header = table.createEl('tr')
+				header.createEl('th', { text: t('settings.DiffStrategy.model') })
+				header.createEl('th', { text: t('settings.DiffStrategy.strategy') })
+				header.createEl('th', { text: t('settings.DiffStrategy.successRate') })
+				for (const stat of [...stats].sort((a, b) => a.model.localeCompare(b.model) || b.attempts - a.attempts)) {
+					const row = table.createEl('tr')
+					row.createEl('td', { text: stat.model || '-' })
+					row.createEl('td', { text: stat.strategy })
+					row.createEl('td', {
+						text: `${Math.round((stat.successes / stat.attempts) * 100)}% (${stat.successes}/${stat.attempts})`,
+					})
+				}
+			})
+		}
+		renderStats()
 	}
 
 	renderModelsSection(containerEl: HTMLElement): void {
@@ -578,6 +700,81 @@ export class InfioSettingTab extends PluginSettingTab {
 						}
 					}),
 			)
+
+		new Setting(contentContainer)
+			.setName(String(t('settings.RAG.rerank')))
+			.setDesc(String(t('settings.RAG.rerankDescription')))
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.ragOptions.rerankEnabled)
+					.onChange(async (value) => {
+						await this.plugin.setSettings({
+							...this.plugin.settings,
+							ragOptions: {
+								...this.plugin.settings.ragOptions,
+								rerankEnabled: value,
+							},
+						})
+					}),
+			)
+
+		new Setting(contentContainer)
+			.setName(String(t('settings.RAG.rerankModel')))
+			.setDesc(String(t('settings.RAG.rerankModelDescription')))
+			.addDropdown((dropdown) => {
+				Object.entries(localProviderRerankModels).forEach(([modelId, info]) => {
+					dropdown.addOption(modelId, info.description)
+				})
+				return dropdown
+					.setValue(this.plugin.settings.ragOptions.rerankModel)
+					.onChange(async (value) => {
+						await this.plugin.setSettings({
+							...this.plugin.settings,
+							ragOptions: {
+								...this.plugin.settings.ragOptions,
+								rerankModel: value,
+							},
+						})
+					})
+			})
+
+		new Setting(contentContainer)
+			.setName(String(t('settings.RAG.rerankCandidates')))
+			.setDesc(String(t('settings.RAG.rerankCandidatesDescription')))
+			.addText((text) =>
+				text
+					.setPlaceholder('30')
+					.setValue(String(this.plugin.settings.ragOptions.rerankCandidates))
+					.onChange(async (value) => {
+						const rerankCandidates = parseInt(value, 10)
+						if (!isNaN(rerankCandidates) && rerankCandidates > 0) {
+							await this.plugin.setSettings({
+								...this.plugin.settings,
+								ragOptions: {
+									...this.plugin.settings.ragOptions,
+									rerankCandidates,
+								},
+							})
+						}
+					}),
+			)
+
+		new Setting(contentContainer)
+			.setName(String(t('settings.RAG.queryExpansion')))
+			.setDesc(String(t('settings.RAG.queryExpansionDescription')))
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.ragOptions.queryExpansionEnabled)
+					.onChange(async (value) => {
+						await this.plugin.setSettings({
+							...this.plugin.settings,
+							ragOptions: {
+								...this.plugin.settings.ragOptions,
+								queryExpansionEnabled: value,
+							},
+						})
+					}),
+			)
 	}
 
 	renderAutoCompleteSection(containerEl: HTMLElement): void {
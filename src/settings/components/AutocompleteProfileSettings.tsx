@@ -0,0 +1,154 @@
+import * as React from "react";
+
+import Context from "../../core/autocomplete/context-detection";
+import { t } from '../../lang/helpers';
+import { ApiProvider } from "../../types/llm/model";
+import { AutocompleteProfile, InfioSettings } from '../../types/settings';
+import {
+	MAX_DELAY,
+	MAX_TEMPERATURE,
+	MIN_DELAY,
+	MIN_TEMPERATURE,
+} from "../versions";
+
+import SettingsItem from "./SettingsItem";
+
+type Props = {
+    settings: InfioSettings;
+    updateSettings: (update: Partial<InfioSettings>) => void;
+}
+
+// numbers are committed on blur so the section is not re-rendered on every keystroke
+function OptionalNumberInput({ value, placeholder, title, min, max, integer, onCommit }: {
+    value: number | undefined;
+    placeholder: string;
+    title: string;
+    min: number;
+    max?: number;
+    integer?: boolean;
+    onCommit: (value: number | undefined) => void;
+}): React.JSX.Element {
+    const [draft, setDraft] = React.useState(value === undefined ? "" : String(value));
+
+    const commit = () => {
+        if (draft.trim() === "") {
+            onCommit(undefined);
+            return;
+        }
+        const parsed = Number(draft);
+        if (isNaN(parsed) || (integer && !Number.isInteger(parsed)) || parsed < min || (max !== undefined && parsed > max)) {
+            setDraft(value === undefined ? "" : String(value));
+            return;
+        }
+        onCommit(parsed);
+    };
+
+    return (
+        <input
+            type="number"
+            className="infio-autocomplete-profile-number"
+            placeholder={placeholder}
+            title={title}
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commit}
+        />
+    );
+}
+
+export default function AutocompleteProfileSettings({ settings, updateSettings }: Props): React.JSX.Element {
+    const defaultModel = settings.applyModelId
+        ? `${settings.applyModelProvider}/${settings.applyModelId}`
+        : "";
+
+    const updateProfile = (context: Context, update: Partial<AutocompleteProfile>) => {
+        const current = settings.autocompleteProfiles[context] ?? { enabled: true };
+        updateSettings({
+            autocompleteProfiles: {
+                ...settings.autocompleteProfiles,
+                [context]: { ...current, ...update },
+            },
+        });
+    };
+
+    const onModelChange = (context: Context, value: string) => {
+        const separator = value.indexOf("/");
+        const provider = Object.values(ApiProvider).find((p) => String(p) === value.slice(0, separator));
+        updateProfile(context, provider === undefined
+            ? { modelProvider: undefined, modelId: undefined }
+            : { modelProvider: provider, modelId: value.slice(separator + 1) });
+    };
+
+    return (
+        <>
+            {Context.values().map((context) => {
+                const profile = settings.autocompleteProfiles[context];
+                const enabled = profile?.enabled ?? true;
+                const model = profile?.modelProvider !== undefined && profile.modelId
+                    ? `${profile.modelProvider}/${profile.modelId}`
+                    : "";
+
+                return (
+                    <SettingsItem
+                        key={context}
+                        name={String(t(`settings.AutoComplete.profiles.contexts.${context}`))}
+                        description={String(t("settings.AutoComplete.profiles.contextDescription"))}
+                    >
+                        <div className="infio-autocomplete-profile-controls">
+                            <div
+                                onClick={() => updateProfile(context, { enabled: !enabled })}
+                                className={enabled ? "checkbox-container is-enabled" : "checkbox-container"}
+                                title={String(t("settings.AutoComplete.profiles.enabled"))}
+                            >
+                                <input type="checkbox" tabIndex={0} />
+                            </div>
+                            <select
+                                className="dropdown"
+                                value={model}
+                                disabled={!enabled}
+                                onChange={(e) => onModelChange(context, e.target.value)}
+                            >
+                                <option value="">
+                                    {String(t("settings.AutoComplete.profiles.defaultModel", { model: defaultModel }))}
+                                </option>
+                                {settings.collectedApplyModels.map(({ provider, modelId }) => (
+                                    <option key={`${provider}/${modelId}`} value={`${provider}/${modelId}`}>
+                                        {`${provider}/${modelId}`}
+                                    </option>
+                                ))}
+                                {model && !settings.collectedApplyModels.some(({ provider, modelId }) => `${provider}/${modelId}` === model) && (
+                                    <option value={model}>{model}</option>
+                                )}
+                            </select>
+                            <OptionalNumberInput
+                                value={profile?.temperature}
+                                placeholder={String(t("settings.AutoComplete.profiles.temperature"))}
+                                title={String(t("settings.AutoComplete.profiles.temperature"))}
+                                min={MIN_TEMPERATURE}
+                                max={MAX_TEMPERATURE}
+                                onCommit={(temperature) => updateProfile(context, { temperature })}
+                            />
+                            <OptionalNumberInput
+                                value={profile?.maxTokens}
+                                placeholder={String(t("settings.AutoComplete.profiles.maxTokens"))}
+                                title={String(t("settings.AutoComplete.profiles.maxTokens"))}
+                                min={1}
+                                integer
+                                onCommit={(maxTokens) => updateProfile(context, { maxTokens })}
+                            />
+                            <OptionalNumberInput
+                                value={profile?.delay}
+                                placeholder={String(t("settings.AutoComplete.profiles.delay", { delay: settings.delay }))}
+                                title={String(t("settings.AutoComplete.profiles.delay", { delay: settings.delay }))}
+                                min={MIN_DELAY}
+                                max={MAX_DELAY}
+                                integer
+                                onCommit={(delay) => updateProfile(context, { delay })}
+                            />
+                        </div>
+                    </SettingsItem>
+                );
+            })}
+        </>
+    );
+}
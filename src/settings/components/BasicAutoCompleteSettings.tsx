@@ -1,9 +1,14 @@
 import * as React from "react";
 
+import { describeFimEndpoint, resolveFimEndpoint } from '../../core/autocomplete/fim';
 import { t } from '../../lang/helpers';
 import { InfioSettings } from '../../types/settings';
+import { MAX_CANDIDATES, MIN_CANDIDATES } from "../versions";
 
+import AutocompleteProfileSettings from "./AutocompleteProfileSettings";
 import CheckBoxSettingItem from "./CheckBoxSettingItem";
+import SettingsItem from "./SettingsItem";
+import SliderSettingsItem from "./SliderSettingsItem";
 
 type Props = {
     settings: InfioSettings;
@@ -11,6 +16,8 @@ type Props = {
 }
 
 export default function BasicAutoCompleteSettings({ settings, updateSettings }: Props): React.JSX.Element {
+    const fimEndpoint = resolveFimEndpoint(settings);
+
     return (
         <>
             <CheckBoxSettingItem
@@ -29,6 +36,29 @@ export default function BasicAutoCompleteSettings({ settings, updateSettings }:
                 enabled={settings.cacheSuggestions}
                 setEnabled={(value) => updateSettings({ cacheSuggestions: value })}
             />
+            <SliderSettingsItem
+                name={t("settings.AutoComplete.candidates")}
+                description={
+                    t("settings.AutoComplete.candidatesDescription")
+                }
+                value={settings.autocompleteCandidates}
+                setValue={(value: number) => updateSettings({ autocompleteCandidates: value })}
+                min={MIN_CANDIDATES}
+                max={MAX_CANDIDATES}
+                step={1}
+            />
+            <SettingsItem
+                name={String(t("settings.AutoComplete.completionPath"))}
+                description={
+                    fimEndpoint
+                        ? String(t("settings.AutoComplete.completionPathFim", { endpoint: describeFimEndpoint(fimEndpoint) }))
+                        : String(t("settings.AutoComplete.completionPathChat"))
+                }
+            >
+                <span>
+                    {fimEndpoint ? "FIM" : "Chat"}
+                </span>
+            </SettingsItem>
             <CheckBoxSettingItem
                 name={t("settings.AutoComplete.debugMode")}
                 description={
@@ -37,6 +67,16 @@ export default function BasicAutoCompleteSettings({ settings, updateSettings }:
                 enabled={settings.debugMode}
                 setEnabled={(value) => updateSettings({ debugMode: value })}
             />
+            <div className="setting-item setting-item-heading">
+                <div className="setting-item-info">
+                    <div className="setting-item-name">{String(t("settings.AutoComplete.profiles.title"))}</div>
+                    <div className="setting-item-description">{String(t("settings.AutoComplete.profiles.description"))}</div>
+                </div>
+            </div>
+            <AutocompleteProfileSettings
+                settings={settings}
+                updateSettings={updateSettings}
+            />
         </>
     );
 }
@@ -4,7 +4,11 @@ import { t } from '../../lang/helpers';
 import { InfioSettings } from '../../types/settings';
 import {
 	MAX_MAX_CHAR_LIMIT,
+	MAX_VAULT_CONTEXT_TIMEOUT,
+	MAX_VAULT_CONTEXT_TOKENS,
 	MIN_MAX_CHAR_LIMIT,
+	MIN_VAULT_CONTEXT_TIMEOUT,
+	MIN_VAULT_CONTEXT_TOKENS,
 } from "../versions";
 
 import CheckBoxSettingItem from "./CheckBoxSettingItem";
@@ -59,6 +63,50 @@ export default function PreprocessingSettings({ settings, updateSettings, errors
                 step={100}
                 suffix={t("settings.AutoComplete.preprocessing.chars")}
             />
+            <CheckBoxSettingItem
+                name={t("settings.AutoComplete.preprocessing.vaultContext")}
+                description={
+                    t("settings.AutoComplete.preprocessing.vaultContextDescription")
+                }
+                enabled={settings.autocompleteVaultContext}
+                setEnabled={(value) =>
+                    updateSettings({ autocompleteVaultContext: value })
+                }
+            />
+            {settings.autocompleteVaultContext && (
+                <>
+                    <SliderSettingsItem
+                        name={t("settings.AutoComplete.preprocessing.vaultContextTokens")}
+                        description={
+                            t("settings.AutoComplete.preprocessing.vaultContextTokensDescription")
+                        }
+                        value={settings.autocompleteVaultContextTokens}
+                        errorMessage={errors.get("autocompleteVaultContextTokens")}
+                        setValue={(value: number) =>
+                            updateSettings({ autocompleteVaultContextTokens: value })
+                        }
+                        min={MIN_VAULT_CONTEXT_TOKENS}
+                        max={MAX_VAULT_CONTEXT_TOKENS}
+                        step={100}
+                        suffix={t("settings.AutoComplete.preprocessing.tokens")}
+                    />
+                    <SliderSettingsItem
+                        name={t("settings.AutoComplete.preprocessing.vaultContextTimeout")}
+                        description={
+                            t("settings.AutoComplete.preprocessing.vaultContextTimeoutDescription")
+                        }
+                        value={settings.autocompleteVaultContextTimeout}
+                        errorMessage={errors.get("autocompleteVaultContextTimeout")}
+                        setValue={(value: number) =>
+                            updateSettings({ autocompleteVaultContextTimeout: value })
+                        }
+                        min={MIN_VAULT_CONTEXT_TIMEOUT}
+                        max={MAX_VAULT_CONTEXT_TIMEOUT}
+                        step={50}
+                        suffix={t("settings.AutoComplete.trigger.ms")}
+                    />
+                </>
+            )}
         </>
     );
 }
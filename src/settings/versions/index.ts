@@ -2,10 +2,12 @@ export type { FewShotExample } from "./shared";
 export { DEFAULT_SETTINGS as DEFAULT_SETTINGS, settingsSchema, pluginDataSchema } from "./v1/v1";
 export type { Settings, Trigger, PluginData } from "./v1/v1";
 export {
-	MAX_DELAY, MAX_FREQUENCY_PENALTY,
+	MAX_CANDIDATES, MAX_DELAY, MAX_FREQUENCY_PENALTY,
 	MAX_MAX_CHAR_LIMIT,
 	MAX_MAX_TOKENS, MAX_PRESENCE_PENALTY, MAX_TEMPERATURE, MAX_TOP_P,
-	MIN_DELAY, MIN_FREQUENCY_PENALTY,
+	MAX_VAULT_CONTEXT_TIMEOUT, MAX_VAULT_CONTEXT_TOKENS,
+	MIN_CANDIDATES, MIN_DELAY, MIN_FREQUENCY_PENALTY,
 	MIN_MAX_CHAR_LIMIT,
-	MIN_MAX_TOKENS, MIN_PRESENCE_PENALTY, MIN_TEMPERATURE, MIN_TOP_P
+	MIN_MAX_TOKENS, MIN_PRESENCE_PENALTY, MIN_TEMPERATURE, MIN_TOP_P,
+	MIN_VAULT_CONTEXT_TIMEOUT, MIN_VAULT_CONTEXT_TOKENS
 } from "./shared";
@@ -14,6 +14,12 @@ export const MIN_FREQUENCY_PENALTY = 0;
 export const MAX_FREQUENCY_PENALTY = 2;
 export const MIN_PRESENCE_PENALTY = 0;
 export const MAX_PRESENCE_PENALTY = 2;
+export const MIN_CANDIDATES = 1;
+export const MAX_CANDIDATES = 5;
+export const MIN_VAULT_CONTEXT_TOKENS = 100;
+export const MAX_VAULT_CONTEXT_TOKENS = 2000;
+export const MIN_VAULT_CONTEXT_TIMEOUT = 50;
+export const MAX_VAULT_CONTEXT_TIMEOUT = 2000;
 
 
 export const azureOAIApiSettingsSchema = z.object({
@@ -50,7 +56,7 @@ export const modelOptionsSchema = z.object({
 
 export const fewShotExampleSchema = z.object({
 	// TODO: figure out how to make this compatible with the context enum and its namespace.
-	context: z.enum(["Text", "Heading", "BlockQuotes", "UnorderedList", "NumberedList", "CodeBlock", "MathBlock", "TaskList"]),
+	context: z.enum(["Text", "Heading", "BlockQuotes", "UnorderedList", "NumberedList", "CodeBlock", "MathBlock", "TaskList", "Table", "Callout", "Frontmatter", "Footnote", "WikiLink"]),
 	input: z.string().min(3, { message: "The input must be at least 3 characters long" }),
 	answer: z.string().min(3, { message: "The answer must be at least 3 characters long" }),
 }).strict();
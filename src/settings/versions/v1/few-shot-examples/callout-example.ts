@@ -0,0 +1,18 @@
+import Context from "../../../../core/autocomplete/context-detection";
+import { FewShotExample } from "../../index";
+
+const example: FewShotExample = {
+	context: Context.Callout,
+	input: `# Spaced repetition
+> [!tip] Review schedule
+> Review new cards after one day.
+> <mask/>
+
+Spaced repetition exploits the spacing effect to make learning more efficient.`,
+	answer: `THOUGHT: The callout lists a review schedule with growing intervals. Every line of the callout must keep the "> " prefix.
+LANGUAGE: English
+ANSWER: Review them again after three days.
+> After that, double the interval each time you recall a card correctly.`,
+};
+
+export default example;
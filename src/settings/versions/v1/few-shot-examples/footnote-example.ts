@@ -0,0 +1,15 @@
+import Context from "../../../../core/autocomplete/context-detection";
+import { FewShotExample } from "../../index";
+
+const example: FewShotExample = {
+	context: Context.Footnote,
+	input: `# The Matthew effect
+Robert K. Merton coined the term Matthew effect in 1968.[^1]
+
+[^1]: <mask/>`,
+	answer: `THOUGHT: The footnote should cite the source in which Merton introduced the term.
+LANGUAGE: English
+ANSWER: Merton, R. K. (1968). The Matthew Effect in Science. Science, 159(3810), 56–63.`,
+};
+
+export default example;
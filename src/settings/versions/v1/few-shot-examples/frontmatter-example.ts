@@ -0,0 +1,20 @@
+import Context from "../../../../core/autocomplete/context-detection";
+import { FewShotExample } from "../../index";
+
+const example: FewShotExample = {
+	context: Context.Frontmatter,
+	input: `---
+title: Introduction to graph theory
+tags:
+  - math
+  - <mask/>
+---
+# Introduction to graph theory
+A graph is a set of vertices connected by edges.`,
+	answer: `THOUGHT: The frontmatter lists tags for a note about graph theory. The answer must be a valid YAML list item without closing the frontmatter.
+LANGUAGE: YAML
+ANSWER: graphs
+  - discrete-math`,
+};
+
+export default example;
@@ -0,0 +1,18 @@
+import Context from "../../../../core/autocomplete/context-detection";
+import { FewShotExample } from "../../index";
+
+const example: FewShotExample = {
+	context: Context.Table,
+	input: `# Sorting algorithms
+| Algorithm      | Average time | Stable |
+| -------------- | ------------ | ------ |
+| Merge sort     | O(n log n)   | Yes    |
+| Quick sort     | O(n log n)   | No     |
+| <mask/>
+`,
+	answer: `THOUGHT: The table compares sorting algorithms with three columns. The next row needs another algorithm with the same column widths.
+LANGUAGE: English
+ANSWER: Insertion sort | O(n^2)       | Yes    |`,
+};
+
+export default example;
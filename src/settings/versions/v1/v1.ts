@@ -14,14 +14,18 @@ import {
 } from "../shared";
 
 import block_qoute_example from "./few-shot-examples/block-qoute-example";
+import callout_example from "./few-shot-examples/callout-example";
 import codeblock_function_completion from "./few-shot-examples/codeblock-function-completion";
 import codeblock_function_parameters from "./few-shot-examples/codeblock-function-parameters";
+import footnote_example from "./few-shot-examples/footnote-example";
+import frontmatter_example from "./few-shot-examples/frontmatter-example";
 import header_example from "./few-shot-examples/header-example";
 import header_example_relu from "./few-shot-examples/header-example-relu";
 import math_block_inline from "./few-shot-examples/math-block-inline";
 import math_block_multi_line from "./few-shot-examples/math-block-multiline";
 import numbered_list_example from "./few-shot-examples/numbered-list-example";
 import sub_task_list_example from "./few-shot-examples/subtask-list-example";
+import table_example from "./few-shot-examples/table-example";
 import task_list_example from "./few-shot-examples/task-list-example";
 import text_completion_end from "./few-shot-examples/text-completion-end";
 import text_completion_middle from "./few-shot-examples/text-completion-middle";
@@ -132,6 +136,8 @@ export const DEFAULT_SETTINGS = {
 		{ type: "string", value: "$ " },
 		{ type: "string", value: "> " },
 		{ type: "string", value: "\n" },
+		{ type: "string", value: "[[" },
+		{ type: "string", value: "| " },
 
 		// bullet list
 		{ type: "regex", value: "[\\t ]*(\\-|\\*)[\\t ]+$" },
@@ -180,6 +186,10 @@ ANSWER: here, you write the text that should be at the location of <mask/>
 		math_block_inline,
 		math_block_multi_line,
 		header_example_relu,
+		table_example,
+		callout_example,
+		frontmatter_example,
+		footnote_example,
 	].sort((a, b) => a.toString().localeCompare(b.toString())),
 	userMessageTemplate: "{{prefix}}<mask/>{{suffix}}",
 	chainOfThoughRemovalRegex: `(.|\\n)*ANSWER:`,
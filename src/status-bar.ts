@@ -14,10 +14,10 @@ class StatusBar {
 	}
 
 	public render(): void {
+		this.statusBarItem.empty();
 		if (this.text.length === 0) {
 			return;
 		}
-		this.statusBarItem.empty();
 		this.statusBarItem.setText(this.text);
 	}
 
@@ -1,3 +1,5 @@
+import { SearchFilters } from '../core/rag/search-filters';
+
 /**
  * 用于指定插入内容的工具参数
  */
@@ -40,6 +42,7 @@ export type SemanticSearchFilesToolArgs = {
 	type: 'semantic_search_files';
 	filepath?: string;
 	query?: string;
+	filters?: SearchFilters;
 	finish?: boolean;
 }
 export type WriteToFileToolArgs = {
@@ -105,6 +108,13 @@ export type UseMcpToolArgs = {
 	parameters: Record<string, unknown>;
 }
 
+export type AccessMcpResourceToolArgs = {
+	type: 'access_mcp_resource';
+	server_name: string;
+	uri: string;
+	arguments?: Record<string, unknown>;
+}
+
 export type DataviewQueryToolArgs = {
 	type: 'dataview_query';
 	query: string;
@@ -131,4 +141,4 @@ export type ManageFilesToolArgs = {
 	finish?: boolean;
 }
 
-export type ToolArgs = ReadFileToolArgs | WriteToFileToolArgs | InsertContentToolArgs | SearchAndReplaceToolArgs | ListFilesToolArgs | MatchSearchFilesToolArgs | RegexSearchFilesToolArgs | SemanticSearchFilesToolArgs | SearchWebToolArgs | FetchUrlsContentToolArgs | SwitchModeToolArgs | ApplyDiffToolArgs | UseMcpToolArgs | DataviewQueryToolArgs | CallTransformationsToolArgs | ManageFilesToolArgs;
+export type ToolArgs = ReadFileToolArgs | WriteToFileToolArgs | InsertContentToolArgs | SearchAndReplaceToolArgs | ListFilesToolArgs | MatchSearchFilesToolArgs | RegexSearchFilesToolArgs | SemanticSearchFilesToolArgs | SearchWebToolArgs | FetchUrlsContentToolArgs | SwitchModeToolArgs | ApplyDiffToolArgs | UseMcpToolArgs | AccessMcpResourceToolArgs | DataviewQueryToolArgs | CallTransformationsToolArgs | ManageFilesToolArgs;
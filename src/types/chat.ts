@@ -4,7 +4,7 @@ import { SelectVector } from '../database/schema'
 
 import { ApplyStatus } from './apply'
 import { LLMModel } from './llm/model'
-import { ContentPart } from './llm/request'
+import { ContentPart, ToolCall } from './llm/request'
 import { ResponseUsage } from './llm/response'
 import { Mentionable, SerializedMentionable } from './mentionable'
 
@@ -20,6 +20,10 @@ export type ChatUserMessage = {
 	})[]
 	fileReadResults?: Array<{ path: string, content: string }>
 	websiteReadResults?: Array<{ url: string, content: string }>
+	// Set when this message answers a native tool call of the previous assistant message
+	toolCallId?: string
+	// Set when promptContent comes from an MCP prompt and is sent as is instead of being compiled from content
+	presetPrompt?: boolean
 }
 
 export type ChatAssistantMessage = {
@@ -29,6 +33,8 @@ export type ChatAssistantMessage = {
 	reasoningContent: string
 	id: string
 	isToolResult?: boolean
+	// Structured tool calls, only present when native tool calling is enabled
+	toolCalls?: ToolCall[]
 	metadata?: {
 		usage?: ResponseUsage
 		model?: LLMModel
@@ -49,6 +55,9 @@ export type SerializedChatUserMessage = {
 	})[]
 	fileReadResults?: Array<{ path: string, content: string }>
 	websiteReadResults?: Array<{ url: string, content: string }>
+	// Set when this message answers a native tool call of the previous assistant message
+	toolCallId?: string
+	presetPrompt?: boolean
 }
 
 export type SerializedChatAssistantMessage = {
@@ -57,6 +66,7 @@ export type SerializedChatAssistantMessage = {
 	content: string
 	reasoningContent: string
 	id: string
+	toolCalls?: ToolCall[]
 	metadata?: {
 		usage?: ResponseUsage
 		model?: LLMModel
@@ -17,8 +17,15 @@ export type LLMRequestBase = {
   // Additional optional parameters
   logit_bias?: Record<number, number>
 
+  // Number of completions to generate, ignored by providers without `n` support
+  n?: number
+
   // Only available for OpenAI
   prediction?: ChatCompletionCreateParams['prediction']
+
+  // Tool calling (https://openrouter.ai/docs/requests#tool-calls)
+  // Only sent to providers that support native function calling
+  tools?: ToolDefinition[]
 }
 
 export type LLMRequestNonStreaming = LLMRequestBase & {
@@ -45,12 +52,49 @@ type ImageContentPart = {
 
 export type ContentPart = TextContent | ImageContentPart
 
-export type RequestMessage = {
-  role: 'user' | 'assistant' | 'system'
-  // ContentParts are only for the 'user' role:
-  content: string | ContentPart[]
+export type ToolDefinition = {
+  type: 'function'
+  function: {
+    name: string
+    description?: string
+    parameters: JsonSchema
+  }
+}
+
+export type JsonSchema = {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean'
+  description?: string
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  items?: JsonSchema
+  enum?: string[]
+  additionalProperties?: boolean
 }
 
+export type ToolCall = {
+  id: string
+  type: 'function'
+  function: {
+    name: string
+    arguments: string // JSON encoded arguments, as returned by the model
+  }
+}
+
+export type RequestMessage =
+  | {
+    role: 'user' | 'assistant' | 'system'
+    // ContentParts are only for the 'user' role:
+    content: string | ContentPart[]
+    // Only for the 'assistant' role, when the model called tools natively
+    tool_calls?: ToolCall[]
+  }
+  | {
+    role: 'tool'
+    content: string
+    tool_call_id: string
+    name?: string
+  }
+
 export type LLMOptions = {
   signal?: AbortSignal
 }
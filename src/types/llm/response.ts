@@ -1,6 +1,8 @@
 // These types are based on the OpenRouter API specification
 // https://openrouter.ai/docs/responses
 
+import { ToolCall } from './request'
+
 export type LLMResponseBase = {
   id: string
   created?: number
@@ -33,6 +35,7 @@ type NonStreamingChoice = {
 		content: string | null
 		reasoning_content?: string | null
     role: string
+    tool_calls?: ToolCall[]
   }
   error?: Error
 }
@@ -43,10 +46,22 @@ type StreamingChoice = {
 		content: string | null
 		reasoning_content?: string | null
     role?: string
+    tool_calls?: ToolCallDelta[]
   }
   error?: Error
 }
 
+// Tool call arguments are streamed in fragments, chunks with the same index belong to the same call
+export type ToolCallDelta = {
+  index: number
+  id?: string
+  type?: 'function'
+  function?: {
+    name?: string
+    arguments?: string
+  }
+}
+
 type Error = {
   code: number // See "Error Handling" section
   message: string
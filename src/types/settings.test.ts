@@ -33,7 +33,7 @@ describe('parseSmartCopilotSettings', () => {
 			debugMode: false,
 		})
 		expect(result).toEqual({
-			version: 0.5,
+			version: 0.6,
 			workspace: '',
 			activeModels: DEFAULT_MODELS,
 			activeProviderTab: 'Infio',
@@ -46,7 +46,7 @@ describe('parseSmartCopilotSettings', () => {
 				matchBackend: 'coreplugin',
 				ripgrepPath: '',
 			},
-			fuzzyMatchThreshold: 0.85,
+			fuzzyMatchThreshold: 0.9,
 			geminiApiKey: '',
 			groqApiKey: '',
 			deepseekApiKey: '',
@@ -118,6 +118,10 @@ describe('parseSmartCopilotSettings', () => {
 				limit: 10,
 				excludePatterns: [],
 				includePatterns: [],
+				rerankEnabled: false,
+				rerankModel: 'Xenova/ms-marco-MiniLM-L-6-v2',
+				rerankCandidates: 30,
+				queryExpansionEnabled: false,
 			},
 			autocompleteEnabled: true,
 			advancedMode: false,
@@ -125,6 +129,8 @@ describe('parseSmartCopilotSettings', () => {
 			azureOAIApiSettings: '',
 			openAIApiSettings: '',
 			multiSearchReplaceDiffStrategy: true,
+			diffStrategyRules: [],
+			diffStrategyRetry: true,
 			ollamaApiSettings: '',
 			triggers: DEFAULT_SETTINGS.triggers,
 			delay: 500,
@@ -140,11 +146,15 @@ describe('parseSmartCopilotSettings', () => {
 			userMessageTemplate: '{{prefix}}<mask/>{{suffix}}',
 			chainOfThoughRemovalRegex: '(.|\\n)*ANSWER:',
 			dontIncludeDataviews: true,
+			autocompleteVaultContext: false,
+			autocompleteVaultContextTokens: 400,
+			autocompleteVaultContextTimeout: 300,
 			jinaApiKey: '',
 			maxPrefixCharLimit: 4000,
 			maxSuffixCharLimit: 4000,
 			mode: 'ask',
 			defaultMention: 'none',
+			nativeToolCalling: false,
 			removeDuplicateMathBlockIndicator: true,
 			removeDuplicateCodeBlockIndicator: true,
 			serperApiKey: '',
@@ -152,6 +162,8 @@ describe('parseSmartCopilotSettings', () => {
 			ignoredFilePatterns: '**/secret/**\n',
 			ignoredTags: '',
 			cacheSuggestions: true,
+			autocompleteCandidates: 1,
+			autocompleteProfiles: {},
 			debugMode: false,
 			deepseekProvider: {
 				name: 'DeepSeek',
@@ -282,7 +294,7 @@ describe('settings migration', () => {
 
 		const result = parseInfioSettings(oldSettings)
 		expect(result).toEqual({
-			version: 0.5,
+			version: 0.6,
 			workspace: '',
 			activeModels: DEFAULT_MODELS,
 			activeProviderTab: 'Infio',
@@ -295,7 +307,7 @@ describe('settings migration', () => {
 				matchBackend: 'coreplugin',
 				ripgrepPath: '',
 			},
-			fuzzyMatchThreshold: 0.85,
+			fuzzyMatchThreshold: 0.9,
 			geminiApiKey: '',
 			groqApiKey: 'groq-api-key',
 			deepseekApiKey: '',
@@ -367,6 +379,10 @@ describe('settings migration', () => {
 				limit: 10,
 				excludePatterns: [],
 				includePatterns: [],
+				rerankEnabled: false,
+				rerankModel: 'Xenova/ms-marco-MiniLM-L-6-v2',
+				rerankCandidates: 30,
+				queryExpansionEnabled: false,
 			},
 			autocompleteEnabled: true,
 			advancedMode: false,
@@ -374,6 +390,8 @@ describe('settings migration', () => {
 			azureOAIApiSettings: '',
 			openAIApiSettings: '',
 			multiSearchReplaceDiffStrategy: true,
+			diffStrategyRules: [],
+			diffStrategyRetry: true,
 			ollamaApiSettings: '',
 			triggers: DEFAULT_SETTINGS.triggers,
 			delay: 500,
@@ -389,11 +407,15 @@ describe('settings migration', () => {
 			userMessageTemplate: '{{prefix}}<mask/>{{suffix}}',
 			chainOfThoughRemovalRegex: '(.|\\n)*ANSWER:',
 			dontIncludeDataviews: true,
+			autocompleteVaultContext: false,
+			autocompleteVaultContextTokens: 400,
+			autocompleteVaultContextTimeout: 300,
 			jinaApiKey: '',
 			maxPrefixCharLimit: 4000,
 			maxSuffixCharLimit: 4000,
 			mode: 'ask',
 			defaultMention: 'none',
+			nativeToolCalling: false,
 			removeDuplicateMathBlockIndicator: true,
 			removeDuplicateCodeBlockIndicator: true,
 			serperApiKey: '',
@@ -401,6 +423,8 @@ describe('settings migration', () => {
 			ignoredFilePatterns: '**/secret/**\n',
 			ignoredTags: '',
 			cacheSuggestions: true,
+			autocompleteCandidates: 1,
+			autocompleteProfiles: {},
 			debugMode: false,
 			deepseekProvider: {
 				name: 'DeepSeek',
@@ -518,7 +542,7 @@ describe('settings migration', () => {
 		
 		// Should successfully parse and migrate max_tokens to 4096
 		expect(result.modelOptions.max_tokens).toBe(4096)
-		expect(result.version).toBe(0.5)
+		expect(result.version).toBe(0.6)
 	})
 
 	it('should not change max_tokens if it is already above minimum', () => {
@@ -557,6 +581,39 @@ describe('settings migration', () => {
 		
 		// Should keep the existing max_tokens value since it's already valid
 		expect(result.modelOptions.max_tokens).toBe(6000)
-		expect(result.version).toBe(0.5)
+		expect(result.version).toBe(0.6)
+	})
+
+	it('should add the examples and triggers for the new contexts', () => {
+		const newContexts = ['Table', 'Callout', 'Frontmatter', 'Footnote']
+		const settings = {
+			...DEFAULT_SETTINGS,
+			version: 0.5,
+			triggers: DEFAULT_SETTINGS.triggers.filter((trigger) => trigger.value !== '[[' && trigger.value !== '| '),
+			fewShotExamples: DEFAULT_SETTINGS.fewShotExamples.filter((example) => !newContexts.includes(example.context)),
+		}
+
+		const result = parseInfioSettings(settings)
+
+		expect(result.version).toBe(0.6)
+		expect(result.fewShotExamples).toHaveLength(DEFAULT_SETTINGS.fewShotExamples.length)
+		expect(result.fewShotExamples.map((example) => example.context)).toEqual(expect.arrayContaining(newContexts))
+		expect(result.triggers).toEqual(expect.arrayContaining([
+			{ type: 'string', value: '[[' },
+			{ type: 'string', value: '| ' },
+		]))
+	})
+
+	it('should not bring back the examples the user deleted', () => {
+		const settings = {
+			...DEFAULT_SETTINGS,
+			version: 0.5,
+			fewShotExamples: DEFAULT_SETTINGS.fewShotExamples.filter((example) => example.context !== 'Heading'),
+		}
+
+		const result = parseInfioSettings(settings)
+
+		expect(result.fewShotExamples.some((example) => example.context === 'Heading')).toBe(false)
+		expect(result.fewShotExamples).toEqual(settings.fewShotExamples)
 	})
 })
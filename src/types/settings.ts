@@ -2,19 +2,28 @@ import { z } from 'zod';
 
 import { DEFAULT_MODELS } from '../constants';
 import {
+	MAX_CANDIDATES,
 	MAX_DELAY,
 	MAX_MAX_CHAR_LIMIT,
+	MAX_TEMPERATURE,
+	MAX_VAULT_CONTEXT_TIMEOUT,
+	MAX_VAULT_CONTEXT_TOKENS,
+	MIN_CANDIDATES,
 	MIN_DELAY,
 	MIN_MAX_CHAR_LIMIT,
 	MIN_MAX_TOKENS,
+	MIN_TEMPERATURE,
+	MIN_VAULT_CONTEXT_TIMEOUT,
+	MIN_VAULT_CONTEXT_TOKENS,
 	fewShotExampleSchema,
 	modelOptionsSchema
 } from '../settings/versions/shared';
 import { DEFAULT_SETTINGS } from "../settings/versions/v1/v1";
 import { ApiProvider } from '../types/llm/model';
+import { localProviderDefaultRerankModelId } from '../utils/api';
 import { isRegexValid, isValidIgnorePattern } from '../utils/auto-complete';
 
-export const SETTINGS_SCHEMA_VERSION = 0.5
+export const SETTINGS_SCHEMA_VERSION = 0.6
 
 const InfioProviderSchema = z.object({
 	name: z.literal('Infio'),
@@ -232,6 +241,12 @@ const ragOptionsSchema = z.object({
 	limit: z.number().catch(10),
 	excludePatterns: z.array(z.string()).catch([]),
 	includePatterns: z.array(z.string()).catch([]),
+	// 使用本地交叉编码器对混合搜索的前 rerankCandidates 个结果重新排序
+	rerankEnabled: z.boolean().catch(false),
+	rerankModel: z.string().catch(localProviderDefaultRerankModelId),
+	rerankCandidates: z.number().catch(30),
+	// 搜索前用洞察模型生成查询改写和假设性答案（HyDE）
+	queryExpansionEnabled: z.boolean().catch(false),
 })
 
 export const triggerSchema = z.object({
@@ -268,6 +283,31 @@ const FilesSearchSettingsSchema = z.object({
 	ripgrepPath: '',
 });
 
+export const DIFF_STRATEGY_NAMES = ['multi-search-replace', 'search-replace', 'unified', 'new-unified'] as const
+
+export type DiffStrategyName = typeof DIFF_STRATEGY_NAMES[number]
+
+const diffStrategyRuleSchema = z.object({
+	// Glob style pattern matched against the chat model id, e.g. "claude-*"
+	modelPattern: z.string(),
+	strategy: z.enum(DIFF_STRATEGY_NAMES),
+	fallback: z.enum(DIFF_STRATEGY_NAMES).optional(),
+})
+
+export type DiffStrategyRule = z.infer<typeof diffStrategyRuleSchema>
+
+// 按光标所在的上下文（标题、代码块等）覆盖自动补全的模型和参数，未设置的字段沿用全局设置
+const autocompleteProfileSchema = z.object({
+	enabled: z.boolean().catch(true),
+	modelProvider: z.nativeEnum(ApiProvider).optional().catch(undefined),
+	modelId: z.string().optional().catch(undefined),
+	temperature: z.number().min(MIN_TEMPERATURE).max(MAX_TEMPERATURE).optional().catch(undefined),
+	maxTokens: z.number().int().positive().optional().catch(undefined),
+	delay: z.number().int().min(MIN_DELAY).max(MAX_DELAY).optional().catch(undefined),
+})
+
+export type AutocompleteProfile = z.infer<typeof autocompleteProfileSchema>
+
 export const InfioSettingsSchema = z.object({
 	// Version
 	version: z.literal(SETTINGS_SCHEMA_VERSION).catch(SETTINGS_SCHEMA_VERSION),
@@ -336,7 +376,7 @@ export const InfioSettingsSchema = z.object({
 	embeddingModelId: z.string().catch(''),
 
 	// fuzzyMatchThreshold
-	fuzzyMatchThreshold: z.number().catch(0.85),
+	fuzzyMatchThreshold: z.number().catch(0.9),
 
 	// experimentalDiffStrategy
 	experimentalDiffStrategy: z.boolean().catch(false),
@@ -344,11 +384,19 @@ export const InfioSettingsSchema = z.object({
 	// multiSearchReplaceDiffStrategy
 	multiSearchReplaceDiffStrategy: z.boolean().catch(true),
 
+	// Per-model diff strategies, the first matching rule wins
+	diffStrategyRules: z.array(diffStrategyRuleSchema).catch([]),
+
+	// Retry failed diffs with a fallback strategy
+	diffStrategyRetry: z.boolean().catch(true),
+
 	// Workspace
 	workspace: z.string().catch(''),
 	// Mode
 	mode: z.string().catch('ask'),
 	defaultMention: z.enum(['none', 'current-file', 'vault']).catch('none'),
+	// Send tools as JSON schema definitions to providers with function calling
+	nativeToolCalling: z.boolean().catch(false),
 
 	// web search
 	serperApiKey: z.string().catch(''),
@@ -415,6 +463,10 @@ export const InfioSettingsSchema = z.object({
 		limit: 10,
 		excludePatterns: [],
 		includePatterns: [],
+		rerankEnabled: false,
+		rerankModel: localProviderDefaultRerankModelId,
+		rerankCandidates: 30,
+		queryExpansionEnabled: false,
 	}),
 
 	// autocomplete options
@@ -435,6 +487,9 @@ export const InfioSettingsSchema = z.object({
 	userMessageTemplate: z.string().min(3, { message: "User message template must be at least 3 characters long" }),
 	chainOfThoughRemovalRegex: z.string().refine((regex) => isRegexValid(regex), { message: "Invalid regex" }),
 	dontIncludeDataviews: z.boolean(),
+	autocompleteVaultContext: z.boolean().catch(false),
+	autocompleteVaultContextTokens: z.number().int().min(MIN_VAULT_CONTEXT_TOKENS).max(MAX_VAULT_CONTEXT_TOKENS).catch(400),
+	autocompleteVaultContextTimeout: z.number().int().min(MIN_VAULT_CONTEXT_TIMEOUT).max(MAX_VAULT_CONTEXT_TIMEOUT).catch(300),
 	maxPrefixCharLimit: z.number().int().min(MIN_MAX_CHAR_LIMIT, { message: `Max prefix char limit must be at least ${MIN_MAX_CHAR_LIMIT}` }).max(MAX_MAX_CHAR_LIMIT, { message: `Max prefix char limit must be at most ${MAX_MAX_CHAR_LIMIT}` }),
 	maxSuffixCharLimit: z.number().int().min(MIN_MAX_CHAR_LIMIT, { message: `Max prefix char limit must be at least ${MIN_MAX_CHAR_LIMIT}` }).max(MAX_MAX_CHAR_LIMIT, { message: `Max prefix char limit must be at most ${MAX_MAX_CHAR_LIMIT}` }),
 	removeDuplicateMathBlockIndicator: z.boolean(),
@@ -456,6 +511,8 @@ export const InfioSettingsSchema = z.object({
 		.filter(s => s.includes(",")).length === 0, { message: "Enter each tag on a new line without commas" }
 	),
 	cacheSuggestions: z.boolean(),
+	autocompleteCandidates: z.number().int().min(MIN_CANDIDATES).max(MAX_CANDIDATES).catch(1),
+	autocompleteProfiles: z.record(z.string(), autocompleteProfileSchema).catch({}),
 	debugMode: z.boolean(),
 })
 
@@ -483,7 +540,7 @@ const MIGRATIONS: Migration[] = [
 		toVersion: 0.5,
 		migrate: (data) => {
 			const newData = { ...data }
-			newData.version = SETTINGS_SCHEMA_VERSION
+			newData.version = 0.5
 			
 			// Handle max_tokens minimum value increase from 800 to 4096
 			if (newData.modelOptions && typeof newData.modelOptions === 'object') {
@@ -494,6 +551,36 @@ const MIGRATIONS: Migration[] = [
 				}
 			}
 			
+			return newData
+		},
+	},
+	{
+		fromVersion: 0.5,
+		toVersion: 0.6,
+		migrate: (data) => {
+			const newData = { ...data }
+			newData.version = SETTINGS_SCHEMA_VERSION
+
+			// Add the examples for the table, callout, frontmatter and footnote contexts. Examples of
+			// the older contexts the user deleted stay deleted
+			if (Array.isArray(newData.fewShotExamples)) {
+				const newContexts = ['Table', 'Callout', 'Frontmatter', 'Footnote']
+				const contexts = new Set(newData.fewShotExamples.map((example: { context?: unknown }) => example?.context))
+				newData.fewShotExamples = [
+					...newData.fewShotExamples,
+					...DEFAULT_SETTINGS.fewShotExamples.filter((example) => newContexts.includes(example.context) && !contexts.has(example.context)),
+				]
+			}
+
+			// Trigger autocomplete when opening a wikilink or a table cell
+			if (Array.isArray(newData.triggers)) {
+				const values = new Set(newData.triggers.map((trigger: { value?: unknown }) => trigger?.value))
+				newData.triggers = [
+					...newData.triggers,
+					...DEFAULT_SETTINGS.triggers.filter((trigger) => (trigger.value === '[[' || trigger.value === '| ') && !values.has(trigger.value)),
+				]
+			}
+
 			return newData
 		},
 	},
@@ -503,9 +590,9 @@ function migrateSettings(
 	data: Record<string, unknown>,
 ): Record<string, unknown> {
 	let currentData = { ...data }
-	const currentVersion = (currentData.version as number) ?? 0
 
 	for (const migration of MIGRATIONS) {
+		const currentVersion = (currentData.version as number) ?? 0
 		if (
 			currentVersion >= migration.fromVersion &&
 			currentVersion < migration.toVersion &&
@@ -1756,6 +1756,16 @@ export const localProviderEmbeddingModels = {
 	'nomic-ai/nomic-embed-text-v1': { dimensions: 768, description: 'Nomic-embed-text (本地，2048令牌，768维)' }
 } as const satisfies Record<string, EmbeddingModelInfo>
 
+// 本地交叉编码器，用于混合搜索结果的重排序
+export const localProviderDefaultRerankModelId: keyof typeof localProviderRerankModels = "Xenova/ms-marco-MiniLM-L-6-v2"
+
+export const localProviderRerankModels = {
+	'Xenova/ms-marco-MiniLM-L-6-v2': { description: 'MS MARCO MiniLM-L-6 (推荐，英文)' },
+	'Xenova/ms-marco-TinyBERT-L-2-v2': { description: 'MS MARCO TinyBERT-L-2 (最快，英文)' },
+	'jinaai/jina-reranker-v1-tiny-en': { description: 'Jina Reranker v1 tiny (英文，8192令牌)' },
+	'Xenova/bge-reranker-base': { description: 'BGE Reranker base (中英双语，更高质量)' }
+} as const
+
 /// helper functions
 // get all providers, used for the provider dropdown
 export const GetAllProviders = (): ApiProvider[] => {
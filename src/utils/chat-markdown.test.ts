@@ -0,0 +1,89 @@
+import { ApplyStatus } from '../types/apply'
+import { ChatAssistantMessage, ChatUserMessage } from '../types/chat'
+import { ApiProvider } from '../types/llm/model'
+
+import { chatToMarkdown, getChatNoteName } from './chat-markdown'
+
+const paragraph = (text: string) => ({
+	children: [{ detail: 0, format: 0, mode: 'normal', style: '', text, type: 'text', version: 1 }],
+	direction: 'ltr' as const,
+	format: '' as const,
+	indent: 0,
+	type: 'paragraph',
+	version: 1,
+})
+
+const userMessage = (id: string, text: string | null): ChatUserMessage => ({
+	role: 'user',
+	applyStatus: ApplyStatus.Idle,
+	content: text === null ? null : {
+		root: {
+			children: [paragraph(text)],
+			direction: 'ltr',
+			format: '',
+			indent: 0,
+			type: 'root',
+			version: 1,
+		},
+	},
+	promptContent: text === null ? '[read_file for \'a.md\'] Result:\nhello' : null,
+	id,
+	mentionables: [],
+})
+
+const assistantMessage = (
+	id: string,
+	content: string,
+	extra: Partial<ChatAssistantMessage> = {},
+): ChatAssistantMessage => ({
+	role: 'assistant',
+	applyStatus: ApplyStatus.Idle,
+	content,
+	reasoningContent: '',
+	id,
+	...extra,
+})
+
+const options = { title: 'Research', createdAt: 0, updatedAt: 0, cost: null }
+
+describe('chatToMarkdown', () => {
+	it('should render turns with frontmatter for models and usage', () => {
+		const markdown = chatToMarkdown(
+			[
+				userMessage('1', 'What is in a.md?'),
+				assistantMessage('2', 'Let me check.', {
+					reasoningContent: 'Read the file\nthen answer',
+					metadata: {
+						model: { provider: ApiProvider.OpenAI, modelId: 'gpt-4o' },
+						usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+					},
+				}),
+			],
+			{ ...options, cost: 0.0012345678 },
+		)
+		expect(markdown).toContain('models:\n  - "OpenAI/gpt-4o"\nprompt_tokens: 10\ncompletion_tokens: 5\ntotal_tokens: 15')
+		expect(markdown).toContain('cost: 0.001235\n---\n\n# Research')
+		expect(markdown).toContain('## User\n\nWhat is in a.md?')
+		expect(markdown).toContain('## Assistant\n\n> [!note]- Reasoning\n> Read the file\n> then answer\n\nLet me check.')
+	})
+
+	it('should fold tool blocks and skip tool results sent to the model', () => {
+		const markdown = chatToMarkdown(
+			[
+				assistantMessage('1', '<write_to_file>\n<path>a.md</path>\n<content>\n```js\nx\n```\n</content>\n</write_to_file>'),
+				userMessage('2', null),
+				assistantMessage('3', '<tool_result>\n[search_web for \'cats\'] Result:\nfound\n</tool_result>', { isToolResult: true }),
+			],
+			options,
+		)
+		expect(markdown).toContain('> [!example]- Write `a.md`\n> ````\n> ```js\n> x\n> ```\n> ````')
+		expect(markdown).toContain('> [!success]- [search_web for \'cats\']\n> ```\n> found\n> ```')
+		expect(markdown).not.toContain('## User')
+		expect(markdown.match(/## Assistant/g)).toHaveLength(1)
+	})
+
+	it('should build safe note names', () => {
+		expect(getChatNoteName('a/b: c?')).toBe('a b c')
+		expect(getChatNoteName('  ')).toBe('Chat')
+	})
+})
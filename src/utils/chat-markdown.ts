@@ -0,0 +1,209 @@
+import { editorStateToPlainText } from '../components/chat-view/chat-input/utils/editor-state-to-plain-text'
+import { ChatAssistantMessage, ChatMessage, ChatUserMessage } from '../types/chat'
+
+import { ParsedMsgBlock, parseMsgBlocks } from './parse-infio-block'
+import { toolCallToMsgBlock } from './parse-tool-call'
+
+export type ChatMarkdownOptions = {
+	title: string
+	createdAt: number
+	updatedAt: number
+	// Total cost in dollars, null when no model in the conversation has pricing
+	cost: number | null
+}
+
+// Wraps content in a fence longer than any backtick run it contains
+const codeBlock = (content: string, language = ''): string => {
+	const backtickRuns: string[] = content.match(/`+/g) ?? []
+	const longestRun = Math.max(0, ...backtickRuns.map((run) => run.length))
+	const fence = '`'.repeat(Math.max(3, longestRun + 1))
+	return `${fence}${language}\n${content.replace(/^\n+|\n+$/g, '')}\n${fence}`
+}
+
+// Folded Obsidian callout, every body line has to stay inside the quote
+const callout = (type: string, title: string, body = ''): string => {
+	const lines = [`> [!${type}]- ${title}`]
+	if (body.trim()) {
+		lines.push(...body.trim().split('\n').map((line) => (line ? `> ${line}` : '>')))
+	}
+	return lines.join('\n')
+}
+
+const inlineCode = (value: string): string => `\`${value.replace(/`/g, "'")}\``
+
+const yamlValue = (value: string | number): string =>
+	typeof value === 'number' ? String(value) : JSON.stringify(value)
+
+function toolBlockToMarkdown(block: ParsedMsgBlock): string {
+	switch (block.type) {
+		case 'string':
+		case 'communication':
+		case 'thinking':
+			return block.content.trim()
+		case 'think':
+			return callout('note', 'Reasoning', block.content)
+		case 'attempt_completion':
+			return block.result.trim()
+		case 'ask_followup_question':
+			return block.question.trim()
+		case 'write_to_file':
+			return callout('example', `Write ${inlineCode(block.path)}`, codeBlock(block.content))
+		case 'insert_content':
+			return callout(
+				'example',
+				`Insert into ${inlineCode(block.path)} at line ${block.startLine}`,
+				codeBlock(block.content),
+			)
+		case 'search_and_replace':
+			return callout(
+				'example',
+				`Search and replace in ${inlineCode(block.path)}`,
+				block.operations
+					.map((operation) =>
+						codeBlock(
+							[
+								...operation.search.split('\n').map((line) => `- ${line}`),
+								...operation.replace.split('\n').map((line) => `+ ${line}`),
+							].join('\n'),
+							'diff',
+						),
+					)
+					.join('\n\n'),
+			)
+		case 'apply_diff':
+			return callout('example', `Apply diff to ${inlineCode(block.path)}`, codeBlock(block.diff, 'diff'))
+		case 'read_file':
+			return callout('info', `Read ${inlineCode(block.path)}`)
+		case 'list_files':
+			return callout('info', `List files in ${inlineCode(block.path)}${block.recursive ? ' recursively' : ''}`)
+		case 'match_search_files':
+		case 'semantic_search_files':
+			return callout('info', `Search ${inlineCode(block.path)} for ${inlineCode(block.query)}`)
+		case 'regex_search_files':
+			return callout('info', `Search ${inlineCode(block.path)} for ${inlineCode(block.regex)}`)
+		case 'search_web':
+			return callout('info', `Search the web for ${inlineCode(block.query)}`)
+		case 'fetch_urls_content':
+			return callout('info', 'Fetch URLs', block.urls.map((url) => `- ${url}`).join('\n'))
+		case 'switch_mode':
+			return callout('info', `Switch to mode ${inlineCode(block.mode)}`, block.reason)
+		case 'use_mcp_tool':
+			return callout(
+				'example',
+				`Call ${inlineCode(`${block.server_name}/${block.tool_name}`)}`,
+				codeBlock(JSON.stringify(block.parameters, null, 2), 'json'),
+			)
+		case 'access_mcp_resource':
+			return callout('info', `Read ${inlineCode(block.uri)} from ${inlineCode(block.server_name)}`)
+		case 'dataview_query':
+			return callout('example', 'Dataview query', codeBlock(block.query, 'dataview'))
+		case 'call_transformations':
+			return callout('example', `Run ${inlineCode(block.transformation)} on ${inlineCode(block.path)}`)
+		case 'manage_files':
+			return callout(
+				'example',
+				'Manage files',
+				block.operations
+					.map((operation) => {
+						const source = operation.source_path ?? operation.path ?? ''
+						const target = operation.destination_path ?? operation.new_name
+						return `- ${operation.action} ${inlineCode(source)}${target ? ` → ${inlineCode(target)}` : ''}`
+					})
+					.join('\n'),
+			)
+		case 'tool_result': {
+			// The first line names the tool, e.g. `[read_file for 'a.md'] Result:`
+			const [firstLine, ...rest] = block.content.trim().split('\n')
+			const body = rest.join('\n')
+			return callout('success', firstLine.replace(/\s*Result:$/, ''), body.trim() ? codeBlock(body) : '')
+		}
+	}
+}
+
+function userMessageToMarkdown(message: ChatUserMessage): string | null {
+	// Tool results sent back to the model have no editor content and are not shown in the chat
+	if (!message.content) return null
+	return `## User\n\n${editorStateToPlainText(message.content).trim()}`
+}
+
+function assistantMessageToMarkdown(message: ChatAssistantMessage): string | null {
+	const blocks = [
+		...parseMsgBlocks(message.content),
+		...(message.toolCalls ?? [])
+			.map((toolCall) => toolCallToMsgBlock(toolCall))
+			.filter((block): block is ParsedMsgBlock => block !== null),
+	]
+	const sections = [
+		message.reasoningContent?.trim() ? callout('note', 'Reasoning', message.reasoningContent) : '',
+		...blocks.map(toolBlockToMarkdown),
+	].filter((section) => section !== '')
+	if (sections.length === 0) return null
+	// Tool results continue the previous assistant turn
+	return message.isToolResult ? sections.join('\n\n') : `## Assistant\n\n${sections.join('\n\n')}`
+}
+
+function frontmatter(messages: ChatMessage[], options: ChatMarkdownOptions): string {
+	const assistantMessages = messages.filter((message): message is ChatAssistantMessage => message.role === 'assistant')
+	const models = Array.from(
+		new Set(
+			assistantMessages
+				.map((message) => message.metadata?.model)
+				.filter((model) => model)
+				.map((model) => `${model.provider}/${model.modelId}`),
+		),
+	)
+	const usage = assistantMessages.reduce(
+		(total, message) => ({
+			prompt: total.prompt + (message.metadata?.usage?.prompt_tokens ?? 0),
+			completion: total.completion + (message.metadata?.usage?.completion_tokens ?? 0),
+			total: total.total + (message.metadata?.usage?.total_tokens ?? 0),
+		}),
+		{ prompt: 0, completion: 0, total: 0 },
+	)
+
+	const lines = [
+		`title: ${yamlValue(options.title)}`,
+		`created: ${yamlValue(new Date(options.createdAt).toISOString())}`,
+		`updated: ${yamlValue(new Date(options.updatedAt).toISOString())}`,
+	]
+	if (models.length > 0) {
+		lines.push('models:', ...models.map((model) => `  - ${yamlValue(model)}`))
+	}
+	if (usage.total > 0) {
+		lines.push(
+			`prompt_tokens: ${usage.prompt}`,
+			`completion_tokens: ${usage.completion}`,
+			`total_tokens: ${usage.total}`,
+		)
+	}
+	if (options.cost !== null) {
+		lines.push(`cost: ${yamlValue(Number(options.cost.toFixed(6)))}`)
+	}
+	return `---\n${lines.join('\n')}\n---`
+}
+
+/**
+ * Renders the given messages as a Markdown note, tool blocks and reasoning
+ * are folded into callouts.
+ */
+export function chatToMarkdown(messages: ChatMessage[], options: ChatMarkdownOptions): string {
+	const sections = messages
+		.map((message) =>
+			message.role === 'user' ? userMessageToMarkdown(message) : assistantMessageToMarkdown(message),
+		)
+		.filter((section) => section !== null)
+	return [frontmatter(messages, options), `# ${options.title}`, ...sections].join('\n\n') + '\n'
+}
+
+/**
+ * Turns a conversation title into a note name that is valid on every platform.
+ */
+export function getChatNoteName(title: string): string {
+	const name = title
+		.replace(/[\\/:*?"<>|#^[\]]/g, ' ')
+		.replace(/\s+/g, ' ')
+		.trim()
+		.substring(0, 100)
+		.trim()
+	return name || 'Chat'
+}
@@ -0,0 +1,59 @@
+import {
+	getActivePath,
+	getSiblingIds,
+	linearMessagesToChatTree,
+	mergeActivePath,
+	switchBranch,
+} from './chat-tree'
+
+type Message = { id: string, text: string }
+
+const message = (id: string, text = id): Message => ({ id, text })
+
+const ids = (messages: Message[]) => messages.map((message) => message.id)
+
+describe('chat tree', () => {
+	it('should keep a linear history as a single branch', () => {
+		const tree = linearMessagesToChatTree([message('u1'), message('a1'), message('u2')])
+		expect(ids(getActivePath(tree))).toEqual(['u1', 'a1', 'u2'])
+		expect(getSiblingIds(tree, 'a1')).toEqual(['a1'])
+	})
+
+	it('should update known messages in place', () => {
+		const tree = linearMessagesToChatTree([message('u1'), message('a1', '')])
+		const updated = mergeActivePath(tree, [message('u1'), message('a1', 'streamed')])
+		expect(updated.nodes).toHaveLength(2)
+		expect(getActivePath(updated)[1].text).toBe('streamed')
+	})
+
+	it('should fork an edited message into a sibling branch', () => {
+		const tree = linearMessagesToChatTree([message('u1'), message('a1'), message('u2'), message('a2')])
+		const edited = mergeActivePath(tree, [message('u1'), message('a1'), message('u2-edit'), message('a3')])
+
+		expect(ids(getActivePath(edited))).toEqual(['u1', 'a1', 'u2-edit', 'a3'])
+		expect(getSiblingIds(edited, 'u2-edit')).toEqual(['u2', 'u2-edit'])
+		expect(edited.nodes).toHaveLength(6)
+	})
+
+	it('should fork a regenerated reply from the root', () => {
+		const tree = linearMessagesToChatTree([message('u1'), message('a1')])
+		const regenerated = mergeActivePath(tree, [message('u1'), message('a2')])
+		expect(getSiblingIds(regenerated, 'a2')).toEqual(['a1', 'a2'])
+
+		const edited = mergeActivePath(regenerated, [message('u3')])
+		expect(getSiblingIds(edited, 'u3')).toEqual(['u1', 'u3'])
+	})
+
+	it('should switch to the latest reply below a sibling', () => {
+		let tree = linearMessagesToChatTree([message('u1'), message('a1'), message('u2'), message('a2')])
+		tree = mergeActivePath(tree, [message('u1'), message('a1'), message('u2-edit'), message('a3')])
+
+		const original = switchBranch(tree, 'u2')
+		expect(ids(getActivePath(original))).toEqual(['u1', 'a1', 'u2', 'a2'])
+
+		const back = switchBranch(original, 'u2-edit')
+		expect(ids(getActivePath(back))).toEqual(['u1', 'a1', 'u2-edit', 'a3'])
+
+		expect(switchBranch(back, 'missing')).toBe(back)
+	})
+})
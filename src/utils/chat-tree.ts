@@ -0,0 +1,109 @@
+export type ChatTreeNode<T> = {
+	parentId: string | null
+	message: T
+}
+
+/**
+ * Every message of a conversation, linked to the message it answers.
+ * Edits and regenerations add siblings, the active message selects the
+ * branch shown in the chat.
+ */
+export type ChatTree<T extends { id: string }> = {
+	nodes: ChatTreeNode<T>[]
+	activeMessageId: string | null
+}
+
+export function createEmptyChatTree<T extends { id: string }>(): ChatTree<T> {
+	return { nodes: [], activeMessageId: null }
+}
+
+/**
+ * Builds a single-branch tree, used for conversations stored before branching.
+ */
+export function linearMessagesToChatTree<T extends { id: string }>(messages: T[]): ChatTree<T> {
+	return mergeActivePath(createEmptyChatTree<T>(), messages)
+}
+
+/**
+ * Messages from the root to the active message.
+ */
+export function getActivePath<T extends { id: string }>(tree: ChatTree<T>): T[] {
+	const nodesById = new Map(tree.nodes.map((node) => [node.message.id, node]))
+	const path: T[] = []
+	const visited = new Set<string>()
+	let currentId = tree.activeMessageId
+	while (currentId !== null && !visited.has(currentId)) {
+		const node = nodesById.get(currentId)
+		if (!node) break
+		visited.add(currentId)
+		path.push(node.message)
+		currentId = node.parentId
+	}
+	return path.reverse()
+}
+
+/**
+ * Records the messages shown in the chat as the active branch. Known messages
+ * are updated in place, new ones are attached to the previous message, so a
+ * history that diverges from the stored branch becomes a sibling branch.
+ */
+export function mergeActivePath<T extends { id: string }>(tree: ChatTree<T>, messages: T[]): ChatTree<T> {
+	const nodes = [...tree.nodes]
+	const indexById = new Map(nodes.map((node, index) => [node.message.id, index]))
+	messages.forEach((message, index) => {
+		const node: ChatTreeNode<T> = {
+			parentId: index === 0 ? null : messages[index - 1].id,
+			message,
+		}
+		const existingIndex = indexById.get(message.id)
+		if (existingIndex === undefined) {
+			indexById.set(message.id, nodes.length)
+			nodes.push(node)
+		} else {
+			nodes[existingIndex] = node
+		}
+	})
+	return {
+		nodes,
+		activeMessageId: messages.length > 0 ? messages[messages.length - 1].id : null,
+	}
+}
+
+/**
+ * Ids of the messages sharing a parent with the given one, itself included,
+ * in creation order.
+ */
+export function getSiblingIds<T extends { id: string }>(tree: ChatTree<T>, messageId: string): string[] {
+	const node = tree.nodes.find((node) => node.message.id === messageId)
+	if (!node) return []
+	return tree.nodes
+		.filter((sibling) => sibling.parentId === node.parentId)
+		.map((sibling) => sibling.message.id)
+}
+
+/**
+ * Activates the branch through the given message, following the latest
+ * reply at each turn below it.
+ */
+export function switchBranch<T extends { id: string }>(tree: ChatTree<T>, messageId: string): ChatTree<T> {
+	if (!tree.nodes.some((node) => node.message.id === messageId)) {
+		return tree
+	}
+	let leafId = messageId
+	for (let depth = 0; depth < tree.nodes.length; depth++) {
+		const children = tree.nodes.filter((node) => node.parentId === leafId)
+		if (children.length === 0) break
+		leafId = children[children.length - 1].message.id
+	}
+	return { ...tree, activeMessageId: leafId }
+}
+
+export function mapChatTree<T extends { id: string }, U extends { id: string }>(
+	tree: ChatTree<T>,
+	fn: (message: T) => U,
+): ChatTree<U> {
+	return {
+		nodes: tree.nodes.map((node) => ({ parentId: node.parentId, message: fn(node.message) })),
+		activeMessageId: tree.activeMessageId,
+	}
+}
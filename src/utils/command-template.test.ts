@@ -0,0 +1,62 @@
+import { SerializedLexicalNode } from 'lexical'
+
+import {
+	getCommandInputNames,
+	getCommandVariables,
+	resolveCommandNodes,
+	resolveTemplateText,
+} from './command-template'
+
+const textNode = (text: string) => ({
+	detail: 0,
+	format: 0,
+	mode: 'normal',
+	style: '',
+	text,
+	type: 'text',
+	version: 1,
+})
+
+const paragraph = (children: SerializedLexicalNode[]) => ({
+	children,
+	direction: 'ltr',
+	format: '',
+	indent: 0,
+	type: 'paragraph',
+	version: 1,
+})
+
+describe('command templates', () => {
+	it('should resolve builtin and input variables', () => {
+		expect(
+			resolveTemplateText('Summarize {{ selection }} about {{input: topic}} on {{DATE}}', {
+				selection: 'the text',
+				'input:topic': 'cats',
+				date: '2024-01-02',
+			}),
+		).toBe('Summarize the text about cats on 2024-01-02')
+	})
+
+	it('should keep unknown variables as written', () => {
+		expect(resolveTemplateText('{{unknown}} {{input:missing}}', {})).toBe('{{unknown}} {{input:missing}}')
+	})
+
+	it('should collect variables from nested text nodes', () => {
+		const nodes = [
+			paragraph([textNode('Explain {{selection}} for {{input:audience}}')]),
+			paragraph([textNode('{{input:audience}} {{clipboard}}')]),
+		]
+		expect(getCommandVariables(nodes)).toEqual(['selection', 'input:audience', 'clipboard'])
+		expect(getCommandInputNames(nodes)).toEqual(['audience'])
+	})
+
+	it('should split multi-line values into line breaks', () => {
+		const nodes = [paragraph([textNode('Fix: {{selection}}')])]
+		const [resolved] = resolveCommandNodes(nodes, { selection: 'line 1\nline 2' })
+		expect('children' in resolved && resolved.children).toEqual([
+			textNode('Fix: line 1'),
+			{ type: 'linebreak', version: 1 },
+			textNode('line 2'),
+		])
+	})
+})
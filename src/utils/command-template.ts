@@ -0,0 +1,164 @@
+import { SerializedLexicalNode } from 'lexical'
+import { App, MarkdownView } from 'obsidian'
+
+// {{selection}}, {{current_file}}, {{date}}, {{clipboard}} or {{input:topic}}
+const TEMPLATE_VARIABLE_REGEX = /\{\{\s*([a-z_]+)(?:\s*:\s*([^}]*?))?\s*\}\}/gi
+
+const INPUT_VARIABLE = 'input'
+
+type TemplateVariable = {
+	// Key under which the value is looked up, e.g. `selection` or `input:topic`
+	key: string
+	inputName?: string
+}
+
+function parseVariable(name: string, argument: string | undefined): TemplateVariable {
+	const normalizedName = name.toLowerCase()
+	if (normalizedName === INPUT_VARIABLE && argument) {
+		return { key: `${INPUT_VARIABLE}:${argument}`, inputName: argument }
+	}
+	return { key: normalizedName }
+}
+
+function getVariables(text: string): TemplateVariable[] {
+	return Array.from(text.matchAll(TEMPLATE_VARIABLE_REGEX), (match) => parseVariable(match[1], match[2]))
+}
+
+/**
+ * Replaces the variables of a template, unknown variables are kept as written.
+ */
+export function resolveTemplateText(text: string, values: Record<string, string>): string {
+	return text.replace(TEMPLATE_VARIABLE_REGEX, (match, name: string, argument: string | undefined) => {
+		const value = values[parseVariable(name, argument).key]
+		return value !== undefined ? value : match
+	})
+}
+
+function isTextNode(node: SerializedLexicalNode): node is SerializedLexicalNode & { text: string } {
+	return node.type === 'text' && 'text' in node && typeof node.text === 'string'
+}
+
+function isSerializedNode(value: unknown): value is SerializedLexicalNode {
+	return typeof value === 'object' && value !== null && 'type' in value && typeof value.type === 'string'
+}
+
+function getChildren(node: SerializedLexicalNode): SerializedLexicalNode[] | null {
+	if (!('children' in node) || !Array.isArray(node.children)) return null
+	const children: unknown[] = node.children
+	return children.filter(isSerializedNode)
+}
+
+function collectText(nodes: SerializedLexicalNode[]): string[] {
+	return nodes.flatMap((node) => {
+		if (isTextNode(node)) return [node.text]
+		const children = getChildren(node)
+		return children ? collectText(children) : []
+	})
+}
+
+/**
+ * Variable keys used by the text nodes of a command, in order of appearance.
+ */
+export function getCommandVariables(nodes: SerializedLexicalNode[]): string[] {
+	const keys = collectText(nodes).flatMap((text) => getVariables(text).map((variable) => variable.key))
+	return Array.from(new Set(keys))
+}
+
+/**
+ * Names of the `{{input:name}}` variables the user is asked for.
+ */
+export function getCommandInputNames(nodes: SerializedLexicalNode[]): string[] {
+	const names = collectText(nodes).flatMap((text) =>
+		getVariables(text).flatMap((variable) => (variable.inputName ? [variable.inputName] : [])),
+	)
+	return Array.from(new Set(names))
+}
+
+/**
+ * Resolves the variables in the text nodes of a command. Multi-line values
+ * are split into text and line break nodes so the editor keeps the lines.
+ */
+export function resolveCommandNodes(
+	nodes: SerializedLexicalNode[],
+	values: Record<string, string>,
+): SerializedLexicalNode[] {
+	return nodes.flatMap((node): SerializedLexicalNode[] => {
+		if (isTextNode(node)) {
+			const lines = resolveTemplateText(node.text, values).split('\n')
+			return lines.flatMap((line, index) => {
+				const lineNodes: SerializedLexicalNode[] = index > 0 ? [{ type: 'linebreak', version: 1 }] : []
+				return line.length > 0 ? [...lineNodes, { ...node, text: line }] : lineNodes
+			})
+		}
+		const children = getChildren(node)
+		if (!children) return [node]
+		const resolvedNode = { ...node, children: resolveCommandNodes(children, values) }
+		return [resolvedNode]
+	})
+}
+
+// YYYY-MM-DD in the local time zone
+function formatLocalDate(date: Date): string {
+	const pad = (value: number) => String(value).padStart(2, '0')
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+// The chat view takes focus when a command runs, so the selection is read from the last note editor
+function getRecentMarkdownView(app: App): MarkdownView | null {
+	const activeView = app.workspace.getActiveViewOfType(MarkdownView)
+	if (activeView) return activeView
+	const leaf = app.workspace.getMostRecentLeaf()
+	return leaf?.view instanceof MarkdownView ? leaf.view : null
+}
+
+async function getBuiltinValue(app: App, key: string): Promise<string | undefined> {
+	switch (key) {
+		case 'selection':
+			return getRecentMarkdownView(app)?.editor.getSelection() ?? ''
+		case 'current_file':
+			return getRecentMarkdownView(app)?.file?.path ?? app.workspace.getActiveFile()?.path ?? ''
+		case 'date':
+			return formatLocalDate(new Date())
+		case 'clipboard':
+			try {
+				return await navigator.clipboard.readText()
+			} catch (error) {
+				console.warn('Failed to read clipboard for command template', error)
+				return ''
+			}
+		default:
+			return undefined
+	}
+}
+
+/**
+ * Resolves a saved command's content. Input variables are requested through
+ * `requestInputs`, which returns null when the user cancels.
+ */
+export async function resolveCommandContent(
+	app: App,
+	nodes: SerializedLexicalNode[],
+	requestInputs: (inputNames: string[]) => Promise<Record<string, string> | null>,
+): Promise<SerializedLexicalNode[] | null> {
+	const variables = getCommandVariables(nodes)
+	if (variables.length === 0) {
+		return nodes
+	}
+
+	const values: Record<string, string> = {}
+	const inputNames = getCommandInputNames(nodes)
+	if (inputNames.length > 0) {
+		const inputs = await requestInputs(inputNames)
+		if (!inputs) return null
+		for (const name of inputNames) {
+			values[`${INPUT_VARIABLE}:${name}`] = inputs[name] ?? ''
+		}
+	}
+	for (const key of variables) {
+		const value = await getBuiltinValue(app, key)
+		if (value !== undefined) {
+			values[key] = value
+		}
+	}
+	return resolveCommandNodes(nodes, values)
+}
@@ -0,0 +1,149 @@
+import { ApplyStatus } from '../types/apply'
+import { ChatAssistantMessage, ChatUserMessage } from '../types/chat'
+
+import { ContextManager, DEFAULT_CONTEXT_WINDOW } from './context-manager'
+
+const userMessage = (id: string, text: string): ChatUserMessage => ({
+	role: 'user',
+	applyStatus: ApplyStatus.Idle,
+	content: null,
+	promptContent: text,
+	id,
+	mentionables: [],
+})
+
+const assistantMessage = (id: string, text: string, isToolResult = false): ChatAssistantMessage => ({
+	role: 'assistant',
+	applyStatus: ApplyStatus.Idle,
+	content: text,
+	reasoningContent: '',
+	id,
+	isToolResult,
+})
+
+describe('ContextManager', () => {
+	describe('getBudget', () => {
+		it('should reserve output and system prompt tokens', () => {
+			const { contextWindow, budgetTokens } = ContextManager.getBudget({
+				modelInfo: { contextWindow: 10_000, maxTokens: 2_000, supportsPromptCache: false },
+				maxOutputTokens: 4_096,
+				systemPromptTokens: 1_000,
+			})
+			expect(contextWindow).toBe(10_000)
+			expect(budgetTokens).toBe(9_500 - 2_000 - 1_000)
+		})
+
+		it('should reserve the tokens of native tool definitions', () => {
+			const { budgetTokens } = ContextManager.getBudget({
+				modelInfo: { contextWindow: 10_000, maxTokens: 2_000, supportsPromptCache: false },
+				maxOutputTokens: 4_096,
+				systemPromptTokens: 1_000,
+				toolDefinitionTokens: 1_500,
+			})
+			expect(budgetTokens).toBe(9_500 - 2_000 - 1_000 - 1_500)
+		})
+
+		it('should fall back to the default window for unknown models', () => {
+			const { contextWindow } = ContextManager.getBudget({
+				modelInfo: undefined,
+				maxOutputTokens: 4_096,
+				systemPromptTokens: 0,
+			})
+			expect(contextWindow).toBe(DEFAULT_CONTEXT_WINDOW)
+		})
+	})
+
+	describe('fitMessages', () => {
+		it('should keep the whole history when it fits', async () => {
+			const manager = new ContextManager()
+			const result = await manager.fitMessages({
+				messages: [
+					userMessage('u1', 'hello'),
+					assistantMessage('a1', 'hi there'),
+					userMessage('u2', 'how are you?'),
+				],
+				contextWindow: 10_000,
+				budgetTokens: 10_000,
+			})
+			expect(result.requestMessages.map((m) => m.content)).toEqual(['hello', 'hi there', 'how are you?'])
+			expect(result.state.droppedMessageIds).toEqual([])
+			expect(result.state.summarizedMessageIds).toEqual([])
+		})
+
+		it('should not send tool result messages', async () => {
+			const manager = new ContextManager()
+			const result = await manager.fitMessages({
+				messages: [
+					userMessage('u1', 'read the file'),
+					assistantMessage('a1', '<tool_result>file content</tool_result>', true),
+					userMessage('u2', 'file content'),
+				],
+				contextWindow: 10_000,
+				budgetTokens: 10_000,
+			})
+			expect(result.requestMessages).toHaveLength(2)
+		})
+
+		it('should condense the first turn that does not fit and drop older ones', async () => {
+			const manager = new ContextManager()
+			const longText = 'lorem ipsum dolor sit amet '.repeat(400)
+			const result = await manager.fitMessages({
+				messages: [
+					userMessage('u1', longText),
+					assistantMessage('a1', longText),
+					userMessage('u2', longText),
+					assistantMessage('a2', 'short answer'),
+					userMessage('u3', 'latest question'),
+				],
+				contextWindow: 2_000,
+				budgetTokens: 400,
+			})
+			expect(result.state.summarizedMessageIds).toEqual(['u2'])
+			expect(result.state.droppedMessageIds).toEqual(['a1', 'u1'])
+			expect(result.requestMessages[0].role).toBe('user')
+			expect(result.state.usedTokens).toBeLessThanOrEqual(400)
+		})
+
+		it('should never start the history with an assistant turn', async () => {
+			const manager = new ContextManager()
+			const longText = 'lorem ipsum dolor sit amet '.repeat(400)
+			const result = await manager.fitMessages({
+				messages: [
+					userMessage('u1', longText),
+					assistantMessage('a1', 'short answer'),
+					userMessage('u2', 'latest question'),
+				],
+				contextWindow: 2_000,
+				budgetTokens: 50,
+			})
+			expect(result.requestMessages.map((m) => m.content)).toEqual(['latest question'])
+			expect(result.state.droppedMessageIds).toEqual(['u1', 'a1'])
+		})
+
+		it('should answer every native tool call with a tool message', async () => {
+			const manager = new ContextManager()
+			const toolCall = (id: string) => ({
+				id,
+				type: 'function' as const,
+				function: { name: 'read_file', arguments: '{"path":"a.md"}' },
+			})
+			const result = await manager.fitMessages({
+				messages: [
+					userMessage('u1', 'read a.md'),
+					{ ...assistantMessage('a1', ''), toolCalls: [toolCall('call_1')] },
+					{ ...userMessage('u2', '[read_file for a.md] Result:\ncontent'), toolCallId: 'call_1' },
+					{ ...assistantMessage('a2', ''), toolCalls: [toolCall('call_2')] },
+					userMessage('u3', 'never mind'),
+				],
+				contextWindow: DEFAULT_CONTEXT_WINDOW,
+				budgetTokens: 10_000,
+				nativeToolCalling: true,
+			})
+			expect(result.requestMessages.map((m) => m.role)).toEqual([
+				'user', 'assistant', 'tool', 'assistant', 'tool', 'user',
+			])
+			expect(result.requestMessages[2]).toMatchObject({ tool_call_id: 'call_1', name: 'read_file' })
+			expect(result.requestMessages[4]).toMatchObject({ tool_call_id: 'call_2' })
+		})
+	})
+})
@@ -0,0 +1,263 @@
+import { ChatMessage } from '../types/chat'
+import { ContentPart, RequestMessage, ToolCall } from '../types/llm/request'
+
+import { ModelInfo } from './api'
+import { tokenCount } from './token'
+
+// Used when the provider does not report a context window (Ollama, OpenAI compatible, ...)
+export const DEFAULT_CONTEXT_WINDOW = 65_536
+// Keeps a margin for message framing and tokenizer differences between providers
+const CONTEXT_SAFETY_MARGIN = 0.05
+// Rough cost of an image part, most providers charge between 500 and 1500 tokens
+const IMAGE_TOKEN_ESTIMATE = 1_000
+// An older turn is condensed to at most this many tokens instead of being dropped
+const MAX_SUMMARY_TOKENS = 512
+// Below this, a condensed turn carries too little information to be worth keeping
+const MIN_SUMMARY_TOKENS = 128
+const SUMMARY_NOTICE = '[Earlier message condensed to fit the context window]'
+const TOOL_CALL_SKIPPED = 'The tool call was not executed.'
+
+export type ContextWindowState = {
+	contextWindow: number
+	budgetTokens: number
+	usedTokens: number
+	droppedMessageIds: string[]
+	summarizedMessageIds: string[]
+}
+
+export type ContextWindowResult = {
+	requestMessages: RequestMessage[]
+	state: ContextWindowState
+}
+
+/**
+ * Fits the chat history into the selected model's context window.
+ * Walks the conversation from the newest turn backwards, condensing the first
+ * turn that no longer fits and dropping everything older than that.
+ */
+export class ContextManager {
+	// Token counts keyed by message id, invalidated when the content length changes
+	private tokenCache = new Map<string, { length: number, tokens: number }>()
+
+	public static getBudget({
+		modelInfo,
+		maxOutputTokens,
+		systemPromptTokens,
+		toolDefinitionTokens = 0,
+	}: {
+		modelInfo?: ModelInfo
+		maxOutputTokens?: number
+		systemPromptTokens: number
+		// Native tool definitions are sent next to the messages and count against the same window
+		toolDefinitionTokens?: number
+	}): { contextWindow: number, budgetTokens: number } {
+		const contextWindow = modelInfo?.contextWindow && Number.isFinite(modelInfo.contextWindow)
+			? modelInfo.contextWindow
+			: DEFAULT_CONTEXT_WINDOW
+		let reservedOutput = maxOutputTokens ?? 0
+		if (modelInfo?.maxTokens) {
+			reservedOutput = Math.min(reservedOutput, modelInfo.maxTokens)
+		}
+		// Never let the output reservation eat more than half of the window
+		reservedOutput = Math.min(reservedOutput, Math.floor(contextWindow / 2))
+		const budgetTokens = Math.floor(contextWindow * (1 - CONTEXT_SAFETY_MARGIN))
+			- reservedOutput
+			- systemPromptTokens
+			- toolDefinitionTokens
+		return {
+			contextWindow,
+			budgetTokens: Math.max(budgetTokens, 0),
+		}
+	}
+
+	public async fitMessages({
+		messages,
+		contextWindow,
+		budgetTokens,
+		nativeToolCalling = false,
+	}: {
+		messages: ChatMessage[]
+		contextWindow: number
+		budgetTokens: number
+		nativeToolCalling?: boolean
+	}): Promise<ContextWindowResult> {
+		// Tool results are shown in the UI only, their content is resent as the next user message
+		const candidates = messages.filter(
+			(message) => !(message.role === 'assistant' && message.isToolResult),
+		)
+
+		const kept: RequestMessage[] = []
+		const keptIds: string[] = []
+		const droppedMessageIds: string[] = []
+		const summarizedMessageIds: string[] = []
+		let usedTokens = 0
+		let exhausted = false
+
+		for (let i = candidates.length - 1; i >= 0; i--) {
+			const message = candidates[i]
+			if (exhausted) {
+				droppedMessageIds.push(message.id)
+				continue
+			}
+			const requestMessage = toRequestMessage(message, nativeToolCalling)
+			const tokens = await this.countMessageTokens(message.id, requestMessage)
+			const remaining = budgetTokens - usedTokens
+
+			// The latest turn is always sent, even if it alone exceeds the budget
+			if (tokens <= remaining || i === candidates.length - 1) {
+				kept.unshift(requestMessage)
+				keptIds.unshift(message.id)
+				usedTokens += tokens
+				continue
+			}
+
+			const summaryTokens = Math.min(MAX_SUMMARY_TOKENS, remaining)
+			if (summaryTokens >= MIN_SUMMARY_TOKENS) {
+				const condensed = condenseContent(requestMessage.content, tokens, summaryTokens)
+				kept.unshift(
+					requestMessage.role === 'tool'
+						? { ...requestMessage, content: condensed }
+						: { role: requestMessage.role, content: condensed },
+				)
+				keptIds.unshift(message.id)
+				usedTokens += await tokenCount(condensed)
+				summarizedMessageIds.push(message.id)
+			} else {
+				droppedMessageIds.push(message.id)
+			}
+			exhausted = true
+		}
+
+		// Providers such as Anthropic reject a history that starts with an assistant turn
+		while (kept.length > 1 && kept[0].role === 'assistant') {
+			kept.shift()
+			const id = keptIds.shift()
+			const summarizedIndex = summarizedMessageIds.indexOf(id)
+			if (summarizedIndex !== -1) {
+				summarizedMessageIds.splice(summarizedIndex, 1)
+			}
+			droppedMessageIds.push(id)
+		}
+
+		return {
+			requestMessages: nativeToolCalling ? pairToolCalls(kept) : kept,
+			state: {
+				contextWindow,
+				budgetTokens,
+				usedTokens,
+				droppedMessageIds,
+				summarizedMessageIds,
+			},
+		}
+	}
+
+	private async countMessageTokens(id: string, message: RequestMessage): Promise<number> {
+		const { content } = message
+		const toolCalls = message.role === 'tool' ? undefined : message.tool_calls
+		const text = [
+			getTextContent(content),
+			...(toolCalls ?? []).map((toolCall) => toolCall.function.arguments),
+		].join('\n')
+		const imageCount = typeof content === 'string'
+			? 0
+			: content.filter((part) => part.type === 'image_url').length
+		const cached = this.tokenCache.get(id)
+		let tokens: number
+		if (cached && cached.length === text.length) {
+			tokens = cached.tokens
+		} else {
+			tokens = await tokenCount(text)
+			this.tokenCache.set(id, { length: text.length, tokens })
+		}
+		return tokens + imageCount * IMAGE_TOKEN_ESTIMATE
+	}
+}
+
+function toRequestMessage(message: ChatMessage, nativeToolCalling: boolean): RequestMessage {
+	if (message.role === 'user') {
+		if (nativeToolCalling && message.toolCallId && typeof message.promptContent === 'string') {
+			return {
+				role: 'tool',
+				tool_call_id: message.toolCallId,
+				content: message.promptContent,
+			}
+		}
+		return {
+			role: 'user',
+			content: message.promptContent ?? '',
+		}
+	}
+	if (nativeToolCalling && message.toolCalls?.length) {
+		return {
+			role: 'assistant',
+			content: message.content,
+			tool_calls: message.toolCalls,
+		}
+	}
+	return {
+		role: 'assistant',
+		content: message.content,
+	}
+}
+
+/**
+ * Providers require every tool call to be answered by a tool message right after it.
+ * Calls the user never ran get a placeholder result, and tool results whose call
+ * was dropped from the history are sent as plain user messages.
+ */
+function pairToolCalls(messages: RequestMessage[]): RequestMessage[] {
+	const paired: RequestMessage[] = []
+	let pending: ToolCall[] = []
+	const flushPending = () => {
+		for (const toolCall of pending) {
+			paired.push({
+				role: 'tool',
+				tool_call_id: toolCall.id,
+				name: toolCall.function.name,
+				content: TOOL_CALL_SKIPPED,
+			})
+		}
+		pending = []
+	}
+
+	for (const message of messages) {
+		if (message.role === 'tool') {
+			const toolCall = pending.find((call) => call.id === message.tool_call_id)
+			if (toolCall) {
+				pending = pending.filter((call) => call !== toolCall)
+				paired.push({ ...message, name: toolCall.function.name })
+			} else {
+				paired.push({ role: 'user', content: message.content })
+			}
+			continue
+		}
+		flushPending()
+		paired.push(message)
+		if (message.role === 'assistant' && message.tool_calls?.length) {
+			pending = [...message.tool_calls]
+		}
+	}
+	flushPending()
+	return paired
+}
+
+function getTextContent(content: string | ContentPart[]): string {
+	if (typeof content === 'string') {
+		return content
+	}
+	return content
+		.map((part) => (part.type === 'text' ? part.text : ''))
+		.join('\n')
+}
+
+// Keeps the head and tail of a long turn, which is where instructions and conclusions usually live
+function condenseContent(content: string | ContentPart[], tokens: number, maxTokens: number): string {
+	const text = getTextContent(content)
+	const charRatio = text.length / Math.max(tokens, 1)
+	const charLimit = Math.max(Math.floor(maxTokens * charRatio * 0.9) - SUMMARY_NOTICE.length, 0)
+	const headChars = Math.floor(charLimit * 0.7)
+	const tailChars = charLimit - headChars
+	const head = text.slice(0, headChars).trimEnd()
+	const tail = tailChars > 0 ? text.slice(-tailChars).trimStart() : ''
+	return [SUMMARY_NOTICE, head, '...', tail].filter(Boolean).join('\n')
+}
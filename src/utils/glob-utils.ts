@@ -2,6 +2,7 @@ import { minimatch } from 'minimatch'
 import { App, TFile, TFolder, Vault } from 'obsidian'
 
 import { RAGEngine } from '../core/rag/rag-engine'
+import { SearchFilters, hasSearchFilters } from '../core/rag/search-filters'
 import { TRANSFORMATIONS, TransEngine } from '../core/transformations/trans-engine'
 import { Workspace } from '../database/json/workspace/types'
 
@@ -240,7 +241,8 @@ export const semanticSearchFiles = async (
 	path?: string,
 	workspace?: Workspace,
 	app?: App,
-	transEngine?: TransEngine // Trans 引擎实例 - 抽象洞察数据库
+	transEngine?: TransEngine, // Trans 引擎实例 - 抽象洞察数据库
+	filters?: SearchFilters // 标签、属性、修改时间和路径过滤条件
 ): Promise<string> => {
 	let scope: { files: string[], folders: string[] } | undefined
 
@@ -277,11 +279,20 @@ export const semanticSearchFiles = async (
 		const ragResults = await ragEngine.processQuery({
 			query: query,
 			scope: scope,
+			filters: filters,
 		})
 
 		if (ragResults.length > 0) {
 			resultSections.push('## 📝 原始笔记内容')
 			const ragSnippets = ragResults.map(({ path, content, metadata }: any) => {
+				// PDF 的行号只在页内有效，改为标注页码
+				if (metadata.page) {
+					return `<file_block_content location="${path}#page=${metadata.page}">\n${content}\n</file_block_content>`
+				}
+				// Canvas 的行号只在节点文本内有效，改为标注节点
+				if (metadata.canvasNodeId) {
+					return `<file_block_content location="${path}#node=${metadata.canvasNodeId}">\n${content}\n</file_block_content>`
+				}
 				const contentWithLineNumbers = addLineNumbers(content, metadata.startLine)
 				return `<file_block_content location="${path}#L${metadata.startLine}-${metadata.endLine}">\n${contentWithLineNumbers}\n</file_block_content>`
 			}).join('\n\n')
@@ -293,7 +304,8 @@ export const semanticSearchFiles = async (
 	}
 
 	// 2. 查询抽象洞察数据库 (TransEngine) - 使用新的 processQuery 接口
-	if (transEngine) {
+	// 洞察没有笔记的标签和属性，设置了过滤条件时跳过
+	if (transEngine && !hasSearchFilters(filters)) {
 		try {
 			const insightResults = await transEngine.processQuery({
 				query: query,
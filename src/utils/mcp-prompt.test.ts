@@ -0,0 +1,58 @@
+import { App } from 'obsidian'
+
+import { editorStateToPlainText } from '../components/chat-view/chat-input/utils/editor-state-to-plain-text'
+import { DEFAULT_SETTINGS } from '../settings/versions'
+import { parseInfioSettings } from '../types/settings'
+
+import { mcpPromptMessagesToChatMessages } from './mcp-prompt'
+import { PromptGenerator } from './prompt-generator'
+
+// These touch the vault when constructed
+jest.mock('../core/prompts/system')
+jest.mock('../database/json/convert-data/ConvertDataManager')
+jest.mock('../database/json/workspace/WorkspaceManager')
+
+describe('mcpPromptMessagesToChatMessages', () => {
+	it('should merge consecutive messages of the same role', () => {
+		const messages = mcpPromptMessagesToChatMessages([
+			{ role: 'user', content: { type: 'text', text: 'Review this file:' } },
+			{ role: 'user', content: { type: 'resource', resource: { uri: 'file:///a.md', text: 'line 1\nline 2' } } },
+			{ role: 'assistant', content: { type: 'text', text: 'Sure.' } },
+		])
+
+		expect(messages.map((message) => message.role)).toEqual(['user', 'assistant'])
+		const [user, assistant] = messages
+		const expectedText = 'Review this file:\n\n<resource uri="file:///a.md">\nline 1\nline 2\n</resource>'
+		expect(user.role === 'user' && user.promptContent).toBe(expectedText)
+		expect(user.role === 'user' && user.content && editorStateToPlainText(user.content)).toBe(expectedText)
+		expect(assistant.content).toBe('Sure.')
+	})
+
+	it('should keep images as content parts of user messages', () => {
+		const [user] = mcpPromptMessagesToChatMessages([
+			{ role: 'user', content: { type: 'image', data: 'AAAA', mimeType: 'image/png' } },
+		])
+
+		expect(user.role === 'user' && user.promptContent).toEqual([
+			{ type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } },
+		])
+	})
+
+	it('should keep the prompt content of image-bearing prompts when the message is compiled', async () => {
+		const [user] = mcpPromptMessagesToChatMessages([
+			{ role: 'user', content: { type: 'text', text: 'Describe this chart:' } },
+			{ role: 'user', content: { type: 'image', data: 'AAAA', mimeType: 'image/png' } },
+		])
+		if (user.role !== 'user') {
+			throw new Error('Expected a user message')
+		}
+		const generator = new PromptGenerator(jest.fn(), new App(), parseInfioSettings(DEFAULT_SETTINGS))
+
+		const { promptContent } = await generator['compileUserMessagePrompt']({ isNewChat: true, message: user })
+
+		expect(promptContent).toEqual([
+			{ type: 'text', text: 'Describe this chart:' },
+			{ type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } },
+		])
+	})
+})
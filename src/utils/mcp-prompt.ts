@@ -0,0 +1,70 @@
+import { v4 as uuidv4 } from 'uuid'
+
+import { plainTextToEditorState } from '../components/chat-view/chat-input/utils/plain-text-to-editor-state'
+import { McpPromptMessage } from '../core/mcp/type'
+import { ApplyStatus } from '../types/apply'
+import { ChatMessage } from '../types/chat'
+import { ContentPart } from '../types/llm/request'
+
+function promptMessageToContentPart(message: McpPromptMessage): ContentPart | null {
+	const { content } = message
+	switch (content.type) {
+		case 'text':
+			return { type: 'text', text: content.text }
+		case 'image':
+			return { type: 'image_url', image_url: { url: `data:${content.mimeType};base64,${content.data}` } }
+		case 'resource':
+			return content.resource.text !== undefined
+				? { type: 'text', text: `<resource uri="${content.resource.uri}">\n${content.resource.text}\n</resource>` }
+				: null
+		default:
+			return null
+	}
+}
+
+/**
+ * Converts the messages of a resolved MCP prompt into chat messages.
+ * Consecutive messages of the same role are merged, since servers return
+ * one message per content block.
+ */
+export function mcpPromptMessagesToChatMessages(messages: McpPromptMessage[]): ChatMessage[] {
+	const turns: { role: McpPromptMessage['role'], parts: ContentPart[] }[] = []
+	for (const message of messages) {
+		const part = promptMessageToContentPart(message)
+		if (!part) {
+			continue
+		}
+		const lastTurn = turns[turns.length - 1]
+		if (lastTurn?.role === message.role) {
+			lastTurn.parts.push(part)
+		} else {
+			turns.push({ role: message.role, parts: [part] })
+		}
+	}
+
+	return turns.map(({ role, parts }): ChatMessage => {
+		const text = parts
+			.map((part) => (part.type === 'text' ? part.text : ''))
+			.filter((text) => text.length > 0)
+			.join('\n\n')
+		if (role === 'assistant') {
+			return {
+				role: 'assistant',
+				applyStatus: ApplyStatus.Idle,
+				content: text,
+				reasoningContent: '',
+				id: uuidv4(),
+			}
+		}
+		// Images only reach the model through promptContent, the editor state shows the text
+		return {
+			role: 'user',
+			applyStatus: ApplyStatus.Idle,
+			content: plainTextToEditorState(text),
+			promptContent: parts.some((part) => part.type === 'image_url') ? parts : text,
+			presetPrompt: true,
+			id: uuidv4(),
+			mentionables: [],
+		}
+	})
+}
@@ -162,3 +162,39 @@ export function getMentionableName(mentionable: Mentionable): string {
 			return mentionable.name
 	}
 }
+
+// Drag data type for files and blocks dragged from plugin views into the chat input
+export const MENTIONABLE_DRAG_TYPE = 'application/x-infio-mentionable'
+
+export function parseDraggedMentionable(data: string): SerializedMentionable | null {
+	let value: unknown
+	try {
+		value = JSON.parse(data)
+	} catch {
+		return null
+	}
+	if (typeof value !== 'object' || value === null || !('type' in value) || !('file' in value)) {
+		return null
+	}
+	if (typeof value.file !== 'string') {
+		return null
+	}
+	if (value.type === 'file') {
+		return { type: 'file', file: value.file }
+	}
+	if (
+		value.type === 'block' &&
+		'content' in value && typeof value.content === 'string' &&
+		'startLine' in value && typeof value.startLine === 'number' &&
+		'endLine' in value && typeof value.endLine === 'number'
+	) {
+		return {
+			type: 'block',
+			file: value.file,
+			content: value.content,
+			startLine: value.startLine,
+			endLine: value.endLine,
+		}
+	}
+	return null
+}
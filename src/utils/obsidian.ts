@@ -4,31 +4,39 @@ import { App, Editor, MarkdownView, TFile, TFolder, Vault, WorkspaceLeaf, loadPd
 
 import { MentionableBlockData } from '../types/mentionable'
 
-export async function parsePdfContent(file: TFile, app: App): Promise<string> {
-	try {
-		// 使用 Obsidian 内置的 PDF.js
-		const pdfjsLib = await loadPdfJs()
-
-		// Read PDF file as binary buffer
-		const pdfBuffer = await app.vault.readBinary(file)
-
-		// 使用 Obsidian 内置的 PDF.js 处理 PDF
-		const loadingTask = pdfjsLib.getDocument({ data: pdfBuffer })
-		const doc = await loadingTask.promise
-		let fullText = ''
-
-		for (let pageNum = 1; pageNum <= doc.numPages; pageNum++) {
-			const page = await doc.getPage(pageNum)
-			const textContent = await page.getTextContent()
-			const pageText = textContent.items
-				.map((item: any) => item.str)
-				.join(' ')
-			fullText += pageText + '\n\n'
-		}
+/**
+ * 提取 PDF 每一页的文本，数组下标加一即为页码
+ */
+export async function parsePdfPages(file: TFile, app: App): Promise<string[]> {
+	// 使用 Obsidian 内置的 PDF.js
+	const pdfjsLib = await loadPdfJs()
+
+	// Read PDF file as binary buffer
+	const pdfBuffer = await app.vault.readBinary(file)
+
+	// 使用 Obsidian 内置的 PDF.js 处理 PDF
+	const loadingTask = pdfjsLib.getDocument({ data: pdfBuffer })
+	const doc = await loadingTask.promise
+	const pages: string[] = []
 
+	for (let pageNum = 1; pageNum <= doc.numPages; pageNum++) {
+		const page = await doc.getPage(pageNum)
+		const textContent = await page.getTextContent()
+		const items: { str?: string }[] = textContent.items
+		const pageText = items
+			.map((item) => item.str ?? '')
+			.join(' ')
 		// 清理null字节，防止PostgreSQL UTF8编码错误
-		const cleanText = (fullText || '(Empty PDF content)').replace(/\0/g, '')
-		return cleanText
+		pages.push(pageText.replace(/\0/g, ''))
+	}
+	return pages
+}
+
+export async function parsePdfContent(file: TFile, app: App): Promise<string> {
+	try {
+		const pages = await parsePdfPages(file, app)
+		const fullText = pages.map((pageText) => pageText + '\n\n').join('')
+		return fullText || '(Empty PDF content)'
 	} catch (error: any) {
 		console.error('Error parsing PDF:', error)
 		return `(Error reading PDF file: ${error?.message || 'Unknown error'})`
@@ -212,6 +220,60 @@ export function openMarkdownFile(
 	}
 }
 
+type CanvasViewLike = {
+	canvas: {
+		nodes: Map<string, unknown>
+		selectOnly: (node: unknown) => void
+		zoomToSelection: () => void
+	}
+}
+
+// Canvas 视图没有公开的类型定义，这里只检查用到的方法
+function isCanvasView(view: unknown): view is CanvasViewLike {
+	if (typeof view !== 'object' || view === null || !('canvas' in view)) return false
+	const canvas = view.canvas
+	return typeof canvas === 'object' && canvas !== null &&
+		'nodes' in canvas && canvas.nodes instanceof Map &&
+		'selectOnly' in canvas && typeof canvas.selectOnly === 'function' &&
+		'zoomToSelection' in canvas && typeof canvas.zoomToSelection === 'function'
+}
+
+/**
+ * 打开搜索结果所在的位置：PDF 跳转到页码，Canvas 聚焦到节点，其余文件跳转到行号
+ */
+export async function openFileAtLocation(
+	app: App,
+	filePath: string,
+	location: { startLine?: number; page?: number; canvasNodeId?: string },
+) {
+	const file = app.vault.getFileByPath(filePath)
+	if (!file) {
+		console.error('❌ [openFileAtLocation] 文件不存在:', filePath)
+		return
+	}
+
+	if (file.extension === 'pdf') {
+		await app.workspace.openLinkText(location.page ? `${file.path}#page=${location.page}` : file.path, '', 'tab')
+		return
+	}
+
+	if (file.extension === 'canvas') {
+		const leaf = app.workspace.getLeaf('tab')
+		await leaf.openFile(file)
+		const view = leaf.view
+		if (location.canvasNodeId && isCanvasView(view)) {
+			const node = view.canvas.nodes.get(location.canvasNodeId)
+			if (node) {
+				view.canvas.selectOnly(node)
+				view.canvas.zoomToSelection()
+			}
+		}
+		return
+	}
+
+	openMarkdownFile(app, filePath, location.startLine)
+}
+
 export async function openOrCreateMarkdownFile(
 	app: App,
 	filePath: string,
@@ -2,6 +2,8 @@
 import JSON5 from 'json5'
 import { parseFragment } from 'parse5'
 
+import { SEARCH_FILTER_ARG_NAMES, SearchFilterArgs } from '../core/rag/search-filters'
+
 export type ParsedMsgBlock =
 	| {
 		type: 'string'
@@ -75,6 +77,7 @@ export type ParsedMsgBlock =
 		type: 'semantic_search_files'
 		path: string
 		query: string
+		filters?: SearchFilterArgs
 		finish: boolean
 	} | {
 		type: 'search_web'
@@ -95,6 +98,12 @@ export type ParsedMsgBlock =
 		tool_name: string
 		parameters: Record<string, unknown>,
 		finish: boolean
+	} | {
+		type: 'access_mcp_resource'
+		server_name: string
+		uri: string
+		arguments: Record<string, unknown>
+		finish: boolean
 	} | {
 		type: 'dataview_query'
 		query: string
@@ -367,6 +376,7 @@ export function parseMsgBlocks(
 				}
 				let path: string | undefined
 				let query: string | undefined
+				const filters: SearchFilterArgs = {}
 
 				for (const childNode of node.childNodes) {
 					if (childNode.nodeName === 'path' && childNode.childNodes.length > 0) {
@@ -375,6 +385,9 @@ export function parseMsgBlocks(
 					} else if (childNode.nodeName === 'query' && childNode.childNodes.length > 0) {
 						// @ts-expect-error - parse5 node value type
 						query = childNode.childNodes[0].value
+					} else if (SEARCH_FILTER_ARG_NAMES.includes(childNode.nodeName) && childNode.childNodes.length > 0) {
+						// @ts-expect-error - parse5 node value type
+						filters[childNode.nodeName] = childNode.childNodes[0].value
 					}
 				}
 
@@ -382,6 +395,7 @@ export function parseMsgBlocks(
 					type: 'semantic_search_files',
 					path: path,
 					query: query,
+					filters: filters,
 					finish: node.sourceCodeLocation.endTag !== undefined
 				})
 				lastEndOffset = endOffset
@@ -728,6 +742,49 @@ export function parseMsgBlocks(
 					finish: node.sourceCodeLocation.endTag !== undefined
 				})
 				lastEndOffset = endOffset
+			} else if (node.nodeName === 'access_mcp_resource') {
+				if (!node.sourceCodeLocation) {
+					throw new Error('sourceCodeLocation is undefined')
+				}
+				const startOffset = node.sourceCodeLocation.startOffset
+				const endOffset = node.sourceCodeLocation.endOffset
+				if (startOffset > lastEndOffset) {
+					parsedResult.push({
+						type: 'string',
+						content: input.slice(lastEndOffset, startOffset),
+					})
+				}
+
+				let server_name: string = ''
+				let uri: string = ''
+				let args: Record<string, unknown> = {}
+
+				for (const childNode of node.childNodes) {
+					if (childNode.nodeName === 'server_name' && childNode.childNodes.length > 0) {
+						// @ts-expect-error - parse5 node value type
+						server_name = childNode.childNodes[0].value
+					} else if (childNode.nodeName === 'uri' && childNode.childNodes.length > 0) {
+						// @ts-expect-error - parse5 node value type
+						uri = childNode.childNodes[0].value.trim()
+					} else if (childNode.nodeName === 'arguments' && childNode.childNodes.length > 0) {
+						try {
+							// @ts-expect-error - parse5 node value type
+							const argumentsJson: string = childNode.childNodes[0].value
+							args = JSON5.parse(argumentsJson)
+						} catch (error) {
+							console.debug('Failed to parse arguments JSON', error)
+						}
+					}
+				}
+
+				parsedResult.push({
+					type: 'access_mcp_resource',
+					server_name,
+					uri,
+					arguments: args,
+					finish: node.sourceCodeLocation.endTag !== undefined
+				})
+				lastEndOffset = endOffset
 			} else if (node.nodeName === 'dataview_query') {
 				if (!node.sourceCodeLocation) {
 					throw new Error('sourceCodeLocation is undefined')
@@ -0,0 +1,61 @@
+import { mergeToolCallDeltas, toolCallToMsgBlock } from './parse-tool-call'
+
+const toolCall = (name: string, args: string) => ({
+	id: 'call_1',
+	type: 'function' as const,
+	function: { name, arguments: args },
+})
+
+describe('mergeToolCallDeltas', () => {
+	it('should concatenate streamed argument fragments by index', () => {
+		let toolCalls = mergeToolCallDeltas(undefined, [
+			{ index: 0, id: 'call_1', function: { name: 'read_file', arguments: '' } },
+		])
+		toolCalls = mergeToolCallDeltas(toolCalls, [{ index: 0, function: { arguments: '{"path":' } }])
+		toolCalls = mergeToolCallDeltas(toolCalls, [{ index: 0, function: { arguments: '"a.md"}' } }])
+		expect(toolCalls).toEqual([toolCall('read_file', '{"path":"a.md"}')])
+	})
+})
+
+describe('toolCallToMsgBlock', () => {
+	it('should map a complete call onto the XML block shape', () => {
+		expect(toolCallToMsgBlock(toolCall('switch_mode', '{"mode_slug":"write","reason":"edit"}'))).toEqual({
+			type: 'switch_mode',
+			mode: 'write',
+			reason: 'edit',
+			finish: true,
+		})
+	})
+
+	it('should not mark a call as finished while its arguments are incomplete', () => {
+		expect(toolCallToMsgBlock(toolCall('read_file', '{"path":"a.'))).toEqual({
+			type: 'read_file',
+			path: '',
+			finish: false,
+		})
+	})
+
+	it('should not finish a streamed call before its arguments arrive', () => {
+		let toolCalls = mergeToolCallDeltas(undefined, [
+			{ index: 0, id: 'call_1', function: { name: 'read_file', arguments: '' } },
+		])
+		expect(toolCallToMsgBlock(toolCalls[0], true)).toEqual({ type: 'read_file', path: '', finish: false })
+
+		toolCalls = mergeToolCallDeltas(toolCalls, [{ index: 0, function: { arguments: '{"path":"a.md"}' } }])
+		expect(toolCallToMsgBlock(toolCalls[0], true)).toEqual({ type: 'read_file', path: 'a.md', finish: true })
+
+		// a call without parameters is complete once the stream has ended
+		expect(toolCallToMsgBlock(toolCall('list_files', ''), false)).toMatchObject({ type: 'list_files', finish: true })
+	})
+
+	it('should accept JSON encoded array parameters', () => {
+		const block = toolCallToMsgBlock(
+			toolCall('insert_content', '{"path":"a.md","operations":"[{\\"start_line\\":3,\\"content\\":\\"x\\"}]"}'),
+		)
+		expect(block).toEqual({ type: 'insert_content', path: 'a.md', startLine: 3, content: 'x' })
+	})
+
+	it('should ignore unknown tools', () => {
+		expect(toolCallToMsgBlock(toolCall('execute_command', '{}'))).toBeNull()
+	})
+})
@@ -0,0 +1,217 @@
+import { SEARCH_FILTER_ARG_NAMES, SearchFilterArgs } from '../core/rag/search-filters'
+import { ToolCall } from '../types/llm/request'
+import { ToolCallDelta } from '../types/llm/response'
+
+import { ParsedMsgBlock } from './parse-infio-block'
+
+type ToolCallInput = Record<string, unknown>
+
+const asString = (value: unknown): string =>
+	typeof value === 'string' ? value : value === undefined || value === null ? '' : JSON.stringify(value)
+
+const asNumber = (value: unknown): number | undefined => {
+	const number = typeof value === 'string' ? parseInt(value, 10) : value
+	return typeof number === 'number' && Number.isFinite(number) ? number : undefined
+}
+
+const asBoolean = (value: unknown): boolean | undefined =>
+	typeof value === 'boolean' ? value : typeof value === 'string' ? value === 'true' : undefined
+
+const asObject = (value: unknown): Record<string, unknown> => {
+	if (typeof value === 'string') {
+		try {
+			return asObject(JSON.parse(value))
+		} catch {
+			return {}
+		}
+	}
+	return value && typeof value === 'object' && !Array.isArray(value)
+		? Object.fromEntries(Object.entries(value))
+		: {}
+}
+
+// Optional filter parameters are only kept when the model sent them
+const getSearchFilterArgs = (args: ToolCallInput): SearchFilterArgs =>
+	Object.fromEntries(
+		SEARCH_FILTER_ARG_NAMES.filter((name) => args[name] !== undefined).map((name) => [name, asString(args[name])]),
+	)
+
+// Array parameters are sometimes sent JSON encoded, the same way the XML protocol expects them
+const asArray = (value: unknown): unknown[] => {
+	if (typeof value === 'string') {
+		try {
+			return asArray(JSON.parse(value))
+		} catch {
+			return []
+		}
+	}
+	return Array.isArray(value) ? value : []
+}
+
+// Accumulates streamed tool call fragments, the arguments of a call arrive split across chunks
+export function mergeToolCallDeltas(
+	toolCalls: ToolCall[] | undefined,
+	deltas: ToolCallDelta[] | undefined,
+): ToolCall[] | undefined {
+	if (!deltas?.length) {
+		return toolCalls
+	}
+	const merged = [...(toolCalls ?? [])]
+	for (const delta of deltas) {
+		const current = merged[delta.index]
+		merged[delta.index] = {
+			id: delta.id ?? current?.id ?? '',
+			type: 'function',
+			function: {
+				name: delta.function?.name ?? current?.function.name ?? '',
+				arguments: (current?.function.arguments ?? '') + (delta.function?.arguments ?? ''),
+			},
+		}
+	}
+	return merged
+}
+
+/**
+ * Parses the JSON arguments of a tool call. Returns null while the arguments
+ * are still streaming and do not form a complete JSON object yet. Empty
+ * arguments only mean a call without parameters once the stream has ended.
+ */
+export function parseToolCallInput(args: string, streaming = false): ToolCallInput | null {
+	if (args.trim() === '') {
+		return streaming ? null : {}
+	}
+	try {
+		const input: unknown = JSON.parse(args)
+		return asObject(input)
+	} catch {
+		return null
+	}
+}
+
+/**
+ * Maps a native tool call onto the block the XML protocol would have produced,
+ * so both protocols share the same approval and apply components.
+ */
+export function toolCallToMsgBlock(toolCall: ToolCall, streaming = false): ParsedMsgBlock | null {
+	const input = parseToolCallInput(toolCall.function.arguments, streaming)
+	const finish = input !== null
+	const args = input ?? {}
+
+	switch (toolCall.function.name) {
+		case 'read_file':
+			return { type: 'read_file', path: asString(args.path), finish }
+		case 'write_to_file':
+			return {
+				type: 'write_to_file',
+				path: asString(args.path),
+				content: asString(args.content),
+				lineCount: asNumber(args.line_count),
+			}
+		case 'insert_content': {
+			const operation = asObject(asArray(args.operations)[0])
+			return {
+				type: 'insert_content',
+				path: asString(args.path),
+				startLine: asNumber(operation.start_line) ?? 1,
+				content: asString(operation.content),
+			}
+		}
+		case 'search_and_replace': {
+			const operations = asArray(args.operations).map((value) => {
+				const operation = asObject(value)
+				return {
+					search: asString(operation.search),
+					replace: asString(operation.replace),
+					start_line: asNumber(operation.start_line),
+					end_line: asNumber(operation.end_line),
+					use_regex: asBoolean(operation.use_regex),
+					ignore_case: asBoolean(operation.ignore_case),
+					regex_flags: typeof operation.regex_flags === 'string' ? operation.regex_flags : undefined,
+				}
+			})
+			return {
+				type: 'search_and_replace',
+				path: asString(args.path),
+				content: JSON.stringify(args.operations ?? []),
+				operations,
+				finish,
+			}
+		}
+		case 'apply_diff':
+			return { type: 'apply_diff', path: asString(args.path), diff: asString(args.diff), finish }
+		case 'list_files':
+			return { type: 'list_files', path: asString(args.path), recursive: asBoolean(args.recursive), finish }
+		case 'match_search_files':
+			return { type: 'match_search_files', path: asString(args.path), query: asString(args.query), finish }
+		case 'regex_search_files':
+			return { type: 'regex_search_files', path: asString(args.path), regex: asString(args.regex), finish }
+		case 'semantic_search_files':
+			return {
+				type: 'semantic_search_files',
+				path: asString(args.path),
+				query: asString(args.query),
+				filters: getSearchFilterArgs(args),
+				finish,
+			}
+		case 'attempt_completion':
+			return { type: 'attempt_completion', result: asString(args.result), finish }
+		case 'ask_followup_question':
+			return { type: 'ask_followup_question', question: asString(args.question), finish }
+		case 'switch_mode':
+			return { type: 'switch_mode', mode: asString(args.mode_slug), reason: asString(args.reason), finish }
+		case 'search_web':
+			return { type: 'search_web', query: asString(args.query), finish }
+		case 'fetch_urls_content':
+			return { type: 'fetch_urls_content', urls: asArray(args.urls).map(asString), finish }
+		case 'use_mcp_tool':
+			return {
+				type: 'use_mcp_tool',
+				server_name: asString(args.server_name),
+				tool_name: asString(args.tool_name),
+				parameters: asObject(args.arguments ?? args.parameters),
+				finish,
+			}
+		case 'access_mcp_resource':
+			return {
+				type: 'access_mcp_resource',
+				server_name: asString(args.server_name),
+				uri: asString(args.uri),
+				arguments: asObject(args.arguments),
+				finish,
+			}
+		case 'dataview_query':
+			return {
+				type: 'dataview_query',
+				query: asString(args.query),
+				outputFormat: asString(args.output_format) || 'table',
+				finish,
+			}
+		case 'insights':
+			return {
+				type: 'call_transformations',
+				path: asString(args.path),
+				transformation: asString(args.transformation),
+				finish,
+			}
+		case 'manage_files': {
+			const operations: Extract<ParsedMsgBlock, { type: 'manage_files' }>['operations'] = []
+			for (const value of asArray(args.operations)) {
+				const operation = asObject(value)
+				const action = operation.action
+				if (action !== 'create_folder' && action !== 'move' && action !== 'delete' && action !== 'copy' && action !== 'rename') {
+					continue
+				}
+				operations.push({
+					action,
+					path: typeof operation.path === 'string' ? operation.path : undefined,
+					source_path: typeof operation.source_path === 'string' ? operation.source_path : undefined,
+					destination_path: typeof operation.destination_path === 'string' ? operation.destination_path : undefined,
+					new_name: typeof operation.new_name === 'string' ? operation.new_name : undefined,
+				})
+			}
+			return { type: 'manage_files', operations, finish }
+		}
+		default:
+			return null
+	}
+}
@@ -3,15 +3,17 @@ import { App, TAbstractFile, TFile, TFolder, Vault, getLanguage, htmlToMarkdown,
 import { editorStateToPlainText } from '../components/chat-view/chat-input/utils/editor-state-to-plain-text'
 import { QueryProgressState } from '../components/chat-view/QueryProgress'
 import { DiffStrategy } from '../core/diff/DiffStrategy'
+import { supportsNativeToolCalling } from '../core/llm/manager'
 import { McpHub } from '../core/mcp/McpHub'
 import { SystemPrompt } from '../core/prompts/system'
+import { getToolDefinitionsForMode } from '../core/prompts/tools'
 import { RAGEngine } from '../core/rag/rag-engine'
 import { ConvertDataManager } from '../database/json/convert-data/ConvertDataManager'
 import { ConvertType } from '../database/json/convert-data/types'
 import { WorkspaceManager } from '../database/json/workspace/WorkspaceManager'
 import { SelectVector } from '../database/schema'
 import { ChatMessage, ChatUserMessage } from '../types/chat'
-import { ContentPart, RequestMessage } from '../types/llm/request'
+import { ContentPart, RequestMessage, ToolDefinition } from '../types/llm/request'
 import {
 	MentionableBlock,
 	MentionableFile,
@@ -23,6 +25,8 @@ import {
 import { InfioSettings } from '../types/settings'
 import { CustomModePrompts, Mode, ModeConfig, getFullModeDetails } from "../utils/modes"
 
+import { GetProviderModelsWithSettings } from './api'
+import { ContextManager, ContextWindowState } from './context-manager'
 import {
 	parsePdfContent,
 	readTFileContent
@@ -153,6 +157,7 @@ export class PromptGenerator {
 	private getMcpHub: () => Promise<McpHub> | null = null
 	private convertDataManager: ConvertDataManager
 	private workspaceManager: WorkspaceManager
+	private contextManager: ContextManager
 	private static readonly EMPTY_ASSISTANT_MESSAGE: RequestMessage = {
 		role: 'assistant',
 		content: '',
@@ -177,6 +182,7 @@ export class PromptGenerator {
 		this.getMcpHub = getMcpHub ?? null
 		this.convertDataManager = new ConvertDataManager(app)
 		this.workspaceManager = new WorkspaceManager(app)
+		this.contextManager = new ContextManager()
 	}
 
 	public async generateRequestMessages({
@@ -190,6 +196,8 @@ export class PromptGenerator {
 	}): Promise<{
 		requestMessages: RequestMessage[]
 		compiledMessages: ChatMessage[]
+		contextWindowState: ContextWindowState
+		tools?: ToolDefinition[]
 	}> {
 		if (messages.length === 0) {
 			throw new Error('No messages provided')
@@ -226,30 +234,51 @@ export class PromptGenerator {
 
 		const userLanguage = getFullLanguageName(getLanguage())
 
-		const systemMessage = await this.getSystemMessageNew(this.settings.mode, filesSearchMethod, userLanguage)
+		// Models of other providers keep receiving the XML tool descriptions
+		const nativeToolCalling = this.settings.nativeToolCalling
+			&& supportsNativeToolCalling(this.settings.chatModelProvider)
+		const systemMessage = await this.getSystemMessageNew(this.settings.mode, filesSearchMethod, userLanguage, nativeToolCalling)
+		const tools = nativeToolCalling
+			? getToolDefinitionsForMode(
+				this.settings.mode,
+				this.app.vault.getRoot().path,
+				this.settings.filesSearchSettings,
+				filesSearchMethod,
+				this.diffStrategy,
+				await this.getMcpHub?.(),
+				this.customModeList,
+			)
+			: undefined
+
+		const modelInfo = (await GetProviderModelsWithSettings(this.settings.chatModelProvider, this.settings))[this.settings.chatModelId]
+		const systemPromptTokens = await tokenCount(
+			typeof systemMessage.content === 'string' ? systemMessage.content : '',
+		)
+		const toolDefinitionTokens = tools?.length ? await tokenCount(JSON.stringify(tools)) : 0
+		const { contextWindow, budgetTokens } = ContextManager.getBudget({
+			modelInfo,
+			maxOutputTokens: this.settings.modelOptions.max_tokens,
+			systemPromptTokens,
+			toolDefinitionTokens,
+		})
+		const { requestMessages: historyMessages, state: contextWindowState } =
+			await this.contextManager.fitMessages({
+				messages: compiledMessages,
+				contextWindow,
+				budgetTokens,
+				nativeToolCalling,
+			})
 
 		const requestMessages: RequestMessage[] = [
 			systemMessage,
-			...compiledMessages.slice(-19)
-				.filter((message) => !(message.role === 'assistant' && message.isToolResult))
-				.map((message): RequestMessage => {
-					if (message.role === 'user') {
-						return {
-							role: 'user',
-							content: message.promptContent ?? '',
-						}
-					} else {
-						return {
-							role: 'assistant',
-							content: message.content,
-						}
-					}
-				}),
+			...historyMessages,
 		]
 
 		return {
 			requestMessages,
 			compiledMessages,
+			contextWindowState,
+			tools,
 		}
 	}
 
@@ -474,16 +503,17 @@ export class PromptGenerator {
 		websiteReadResults?: Array<{ url: string, content: string }>
 	}> {
 
-		const environmentDetails = await this.getEnvironmentDetails()
-
 		// if isToolCallReturn, add read_file_content to promptContent
-		if (message.content === null) {
+		// MCP prompts bring their own prompt content, including image parts the editor state cannot hold
+		if (message.content === null || message.presetPrompt) {
 			return {
 				promptContent: message.promptContent,
 				similaritySearchResults: undefined,
 			}
 		}
 
+		const environmentDetails = await this.getEnvironmentDetails()
+
 		const query = editorStateToPlainText(message.content)
 		let similaritySearchResults = undefined
 
@@ -820,6 +850,12 @@ export class PromptGenerator {
 					onQueryProgressChange: onQueryProgressChange,
 				})
 			const snippets = similaritySearchResults.map(({ path, content, metadata }) => {
+				if (metadata.page) {
+					return `<file_block_content location="${path}#page=${metadata.page}">\n${content}\n</file_block_content>`
+				}
+				if (metadata.canvasNodeId) {
+					return `<file_block_content location="${path}#node=${metadata.canvasNodeId}">\n${content}\n</file_block_content>`
+				}
 				const contentWithLineNumbers = this.addLineNumbersToContent({
 					content,
 					startLine: metadata.startLine,
@@ -870,7 +906,7 @@ export class PromptGenerator {
 		}
 	}
 
-	public async getSystemMessageNew(mode: Mode, filesSearchMethod: string, preferredLanguage: string): Promise<RequestMessage> {
+	public async getSystemMessageNew(mode: Mode, filesSearchMethod: string, preferredLanguage: string, nativeToolCalling = false): Promise<RequestMessage> {
 		const mcpHub = await this.getMcpHub?.()
 		const prompt = await this.systemPrompt.getSystemPrompt(
 			this.app.vault.getRoot().path,
@@ -883,6 +919,12 @@ export class PromptGenerator {
 			this.customModePrompts,
 			this.customModeList,
 			mcpHub,
+			undefined,
+			undefined,
+			undefined,
+			undefined,
+			undefined,
+			nativeToolCalling,
 		)
 
 		return {
@@ -1,11 +1,20 @@
-import { getEncoding } from 'js-tiktoken'
+import { Tiktoken, getEncoding } from 'js-tiktoken'
 
 // TODO: Replace js-tiktoken with tiktoken library for better performance
 // Note: tiktoken uses WebAssembly, requiring esbuild configuration
 
+// Building the encoder parses the whole BPE rank table, so it is created once and reused
+let encoder: Tiktoken | null = null
+
+function getEncoder(): Tiktoken {
+  if (!encoder) {
+    encoder = getEncoding('cl100k_base')
+  }
+  return encoder
+}
+
 // Caution: tokenCount is computationally expensive for large inputs.
 // Frequent use, especially on large files, may significantly impact performance.
 export async function tokenCount(text: string): Promise<number> {
-  const encoder = getEncoding('cl100k_base')
-  return encoder.encode(text).length
+  return getEncoder().encode(text).length
 }